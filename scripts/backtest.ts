@@ -0,0 +1,148 @@
+// scripts/backtest.ts
+// Offline DLMM strategy backtest.
+//
+// Usage:
+//   npm run backtest -- --fixture zbtc-sol-hourly --bin-step 10 --range 21 --strategy all
+//   npm run backtest -- --file ./my-series.csv --bin-step 25 --range 31 --strategy curve --rebalance-after 6
+//
+// Options:
+//   --fixture <name>          fixture in fixtures/backtest (see --list)
+//   --file <path>             any CSV/JSON series file
+//   --bin-step <n>            pool bin step in basis points (required)
+//   --range <n>               number of bins in the position (required)
+//   --strategy <name>         spot | curve | bid_ask | all (default: all)
+//   --initial <value>         starting value in quote units (default: 1000)
+//   --fee-bps <n>             swap fee in basis points (default: bin step)
+//   --depth-ratio <r>         share of TVL in the active bin (default: 0.05)
+//   --pool-tvl <value>        TVL when the series has no tvl column
+//   --rebalance-after <n>     re-center after n out-of-range periods
+//   --rebalance-cost <bps>    rebalance cost in basis points (default: 30)
+//   --json                    print raw results as JSON
+//   --list                    list fixtures and exit
+
+import { listFixtures, loadFixture, loadSeriesFile } from '@/lib/backtest/fixtures';
+import {
+  BacktestConfig,
+  BacktestResult,
+  compareStrategies,
+  runBacktest,
+  STRATEGY_BY_NAME,
+  strategyName,
+} from '@/lib/backtest/dlmmBacktest';
+import type { DlmmStrategyName } from '@/lib/meteora/meteoraChatTools';
+
+const DEFAULT_REBALANCE_COST_BPS = 30;
+
+/**
+ * Parse --key value / --flag arguments
+ */
+function parseArgs(argv: string[]): Record<string, string | true> {
+  const args: Record<string, string | true> = {};
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (!arg.startsWith('--')) continue;
+
+    const key = arg.slice(2);
+    const next = argv[i + 1];
+    if (next !== undefined && !next.startsWith('--')) {
+      args[key] = next;
+      i++;
+    } else {
+      args[key] = true;
+    }
+  }
+  return args;
+}
+
+/**
+ * Read a numeric option, failing loudly on garbage
+ */
+function numberArg(args: Record<string, string | true>, key: string): number | undefined {
+  const value = args[key];
+  if (value === undefined) return undefined;
+  const numeric = Number(value);
+  if (value === true || !Number.isFinite(numeric)) {
+    throw new Error(`--${key} must be a number`);
+  }
+  return numeric;
+}
+
+function formatNumber(value: number, digits: number = 2): string {
+  return value.toLocaleString('en-US', { minimumFractionDigits: digits, maximumFractionDigits: digits });
+}
+
+function printResults(source: string, periods: number, results: BacktestResult[]): void {
+  console.log(`\nBacktest: ${source} (${periods} periods)\n`);
+
+  const rows = results.map(result => ({
+    strategy: strategyName(result.strategy),
+    'fee income': formatNumber(result.feeIncome),
+    'IL': `${formatNumber(result.impermanentLoss)} (${formatNumber(result.impermanentLossPct)}%)`,
+    'in range': `${formatNumber(result.timeInRange * 100, 1)}%`,
+    'final value': formatNumber(result.finalValue),
+    'hodl value': formatNumber(result.hodlValue),
+    'net PnL': formatNumber(result.netPnl),
+    rebalances: result.rebalances,
+  }));
+
+  console.table(rows);
+}
+
+async function main(): Promise<void> {
+  const args = parseArgs(process.argv.slice(2));
+
+  if (args.list) {
+    const fixtures = await listFixtures();
+    console.log(fixtures.length > 0 ? fixtures.join('\n') : 'No fixtures found');
+    return;
+  }
+
+  const binStep = numberArg(args, 'bin-step');
+  const rangeWidth = numberArg(args, 'range');
+  if (binStep === undefined || rangeWidth === undefined) {
+    throw new Error('--bin-step and --range are required');
+  }
+
+  const source = typeof args.fixture === 'string' ? args.fixture : typeof args.file === 'string' ? args.file : null;
+  if (!source) {
+    throw new Error('Provide --fixture <name> or --file <path> (use --list to see fixtures)');
+  }
+
+  const series = typeof args.fixture === 'string'
+    ? await loadFixture(args.fixture)
+    : await loadSeriesFile(source);
+
+  const rebalanceAfter = numberArg(args, 'rebalance-after');
+  const config: Omit<BacktestConfig, 'strategy'> = {
+    binStep,
+    rangeWidth,
+    initialValue: numberArg(args, 'initial'),
+    baseFeeBps: numberArg(args, 'fee-bps'),
+    activeBinDepthRatio: numberArg(args, 'depth-ratio'),
+    poolTvl: numberArg(args, 'pool-tvl'),
+    rebalance: rebalanceAfter !== undefined
+      ? { outOfRangePeriods: rebalanceAfter, costBps: numberArg(args, 'rebalance-cost') ?? DEFAULT_REBALANCE_COST_BPS }
+      : null,
+  };
+
+  const strategy = typeof args.strategy === 'string' ? args.strategy : 'all';
+  let results: BacktestResult[];
+  if (strategy === 'all') {
+    results = compareStrategies(series, config);
+  } else if (strategy in STRATEGY_BY_NAME) {
+    results = [runBacktest(series, { ...config, strategy: STRATEGY_BY_NAME[strategy as DlmmStrategyName] })];
+  } else {
+    throw new Error('--strategy must be spot, curve, bid_ask or all');
+  }
+
+  if (args.json) {
+    console.log(JSON.stringify(results.map(result => ({ ...result, equity: undefined })), null, 2));
+  } else {
+    printResults(source, series.length, results);
+  }
+}
+
+main().catch(error => {
+  console.error(`Backtest failed: ${error instanceof Error ? error.message : error}`);
+  process.exit(1);
+});
@@ -0,0 +1,120 @@
+// scripts/mock-meteora-server.ts
+// Local stand-in for the Meteora DLMM API and the Jupiter token API that replays
+// the payloads in fixtures/meteora, so pool flows run without network access.
+//
+// Usage:
+//   npm run mock:meteora -- --port 4010
+//
+// Then point the app at it:
+//   NEXT_PUBLIC_POOL_DATA_PROVIDER=meteora
+//   NEXT_PUBLIC_METEORA_API_URL=http://localhost:4010
+//   NEXT_PUBLIC_JUPITER_API_URL=http://localhost:4010
+//
+// Routes:
+//   GET /pair/all_by_groups?search_term=<term>   groups matching the term
+//   GET /pair/all                                every pair, flattened
+//   GET /tokens/v2/search?query=<mint>           [token] or []
+//
+// Options:
+//   --port <n>            port to listen on (default: MOCK_METEORA_PORT or 4010)
+//   --fixtures <dir>      directory with pools.json and tokens.json (default: fixtures/meteora)
+//   --latency <ms>        delay every response, to exercise loading states (default: 0)
+
+import { createServer, type IncomingMessage, type ServerResponse } from 'http';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { searchPoolsResponse, type PoolDataFixtures } from '@/lib/api/poolDataProvider';
+
+const DEFAULT_PORT = 4010;
+
+/**
+ * Parse --key value arguments
+ */
+function parseArgs(argv: string[]): Record<string, string> {
+  const args: Record<string, string> = {};
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i].startsWith('--') && argv[i + 1] !== undefined) {
+      args[argv[i].slice(2)] = argv[i + 1];
+      i++;
+    }
+  }
+  return args;
+}
+
+async function loadFixtures(dir: string): Promise<PoolDataFixtures> {
+  const [pools, tokens] = await Promise.all([
+    fs.readFile(path.join(dir, 'pools.json'), 'utf8'),
+    fs.readFile(path.join(dir, 'tokens.json'), 'utf8'),
+  ]);
+  return { pools: JSON.parse(pools), tokens: JSON.parse(tokens) };
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': '*',
+  });
+  res.end(JSON.stringify(body));
+}
+
+/**
+ * Resolve a request against the fixtures
+ */
+function route(req: IncomingMessage, fixtures: PoolDataFixtures): { status: number; body: unknown } {
+  const url = new URL(req.url || '/', 'http://localhost');
+
+  if (req.method !== 'GET') {
+    return { status: 405, body: { error: 'Method not allowed' } };
+  }
+
+  switch (url.pathname) {
+    case '/pair/all_by_groups':
+      return {
+        status: 200,
+        body: searchPoolsResponse(fixtures.pools, url.searchParams.get('search_term') || ''),
+      };
+    case '/pair/all':
+      return { status: 200, body: fixtures.pools.groups.flatMap(group => group.pairs) };
+    case '/tokens/v2/search': {
+      const token = fixtures.tokens[url.searchParams.get('query') || ''];
+      return { status: 200, body: token ? [token] : [] };
+    }
+    default:
+      return { status: 404, body: { error: `No mock for ${url.pathname}` } };
+  }
+}
+
+async function main(): Promise<void> {
+  const args = parseArgs(process.argv.slice(2));
+  const port = Number(args.port || process.env.MOCK_METEORA_PORT || DEFAULT_PORT);
+  const latency = Number(args.latency || 0);
+  const fixtureDir = path.resolve(args.fixtures || path.join(process.cwd(), 'fixtures', 'meteora'));
+
+  if (!Number.isInteger(port) || port <= 0) {
+    throw new Error(`Invalid --port: ${args.port}`);
+  }
+  if (!Number.isFinite(latency) || latency < 0) {
+    throw new Error(`Invalid --latency: ${args.latency}`);
+  }
+
+  const fixtures = await loadFixtures(fixtureDir);
+
+  const server = createServer((req, res) => {
+    const { status, body } = route(req, fixtures);
+    console.log(`${req.method} ${req.url} -> ${status}`);
+    setTimeout(() => sendJson(res, status, body), latency);
+  });
+
+  server.listen(port, () => {
+    console.log(`Mock Meteora API serving ${fixtureDir} on http://localhost:${port}`);
+  });
+
+  const shutdown = () => server.close(() => process.exit(0));
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+}
+
+main().catch(error => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -0,0 +1,100 @@
+import { NextResponse } from 'next/server';
+import { rateLimitResponse } from '@/lib/utils/rateLimitResponse';
+import { validateBacktestRequest, validateRequestSize, ValidationError } from '@/lib/utils/validation';
+import { listFixtures, loadFixture } from '@/lib/backtest/fixtures';
+import { parseJsonSeries, PriceSeriesError } from '@/lib/backtest/priceSeries';
+import {
+  BacktestConfigError,
+  BacktestResult,
+  compareStrategies,
+  runBacktest,
+  STRATEGY_BY_NAME,
+  strategyName,
+} from '@/lib/backtest/dlmmBacktest';
+
+function serializeResult(result: BacktestResult, includeEquity: boolean) {
+  const { equity, ...summary } = result;
+  return {
+    ...summary,
+    strategyName: strategyName(result.strategy),
+    ...(includeEquity ? { equity } : {}),
+  };
+}
+
+// GET /api/backtest - list the offline fixtures that can be replayed
+export async function GET(request: Request) {
+  try {
+    const limited = rateLimitResponse(request);
+    if (limited) return limited;
+
+    return NextResponse.json({ fixtures: await listFixtures() });
+  } catch (error) {
+    console.error('Backtest API: Error listing fixtures:', error instanceof Error ? error.message : 'Unknown error');
+    return NextResponse.json(
+      { error: 'Internal server error', message: 'Failed to list backtest fixtures.' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/backtest - replay a fixture or inline series through one strategy (or all)
+export async function POST(request: Request) {
+  try {
+    validateRequestSize(request);
+
+    const limited = rateLimitResponse(request);
+    if (limited) return limited;
+
+    let body;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json({ error: 'Invalid JSON in request body' }, { status: 400 });
+    }
+
+    const params = validateBacktestRequest(body);
+    const series = params.fixture
+      ? await loadFixture(params.fixture)
+      : parseJsonSeries(params.series);
+
+    const config = {
+      binStep: params.binStep,
+      rangeWidth: params.rangeWidth,
+      initialValue: params.initialValue,
+      baseFeeBps: params.baseFeeBps,
+      activeBinDepthRatio: params.activeBinDepthRatio,
+      poolTvl: params.poolTvl,
+      rebalance: params.rebalance,
+    };
+
+    const results = params.strategy === 'all'
+      ? compareStrategies(series, config)
+      : [runBacktest(series, { ...config, strategy: STRATEGY_BY_NAME[params.strategy] })];
+
+    return NextResponse.json({
+      source: params.fixture || 'inline',
+      periods: series.length,
+      results: results.map(result => serializeResult(result, params.includeEquity === true)),
+    });
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return NextResponse.json(
+        { error: 'Validation failed', message: error.message, field: error.field },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof PriceSeriesError || error instanceof BacktestConfigError) {
+      return NextResponse.json(
+        { error: 'Invalid backtest input', message: error.message },
+        { status: 400 }
+      );
+    }
+
+    console.error('Backtest API: Error running backtest:', error instanceof Error ? error.message : 'Unknown error');
+    return NextResponse.json(
+      { error: 'Internal server error', message: 'Failed to run backtest.' },
+      { status: 500 }
+    );
+  }
+}
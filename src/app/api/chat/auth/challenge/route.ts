@@ -0,0 +1,35 @@
+import { NextResponse } from 'next/server';
+import { rateLimitResponse } from '@/lib/utils/rateLimitResponse';
+import { validateWalletAddress, ValidationError } from '@/lib/utils/validation';
+import { createWalletChallenge } from '@/lib/services/chatOwnerAuth';
+
+// POST /api/chat/auth/challenge - one-time message for a wallet to sign
+export async function POST(request: Request) {
+  try {
+    const limited = rateLimitResponse(request);
+    if (limited) return limited;
+
+    let body;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json({ error: 'Invalid JSON in request body' }, { status: 400 });
+    }
+
+    const wallet = validateWalletAddress((body as Record<string, unknown> | null)?.wallet);
+    return NextResponse.json(createWalletChallenge(wallet));
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return NextResponse.json(
+        { error: 'Validation failed', message: error.message, field: error.field },
+        { status: 400 }
+      );
+    }
+
+    console.error('Chat auth API: Error creating challenge:', error instanceof Error ? error.message : 'Unknown error');
+    return NextResponse.json(
+      { error: 'Internal server error', message: 'Failed to create sign-in challenge.' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,82 @@
+import { NextResponse } from 'next/server';
+import { rateLimitResponse } from '@/lib/utils/rateLimitResponse';
+import { validateChatSignIn, validateRequestSize, ValidationError } from '@/lib/utils/validation';
+import {
+  ChatAuthError,
+  currentOwner,
+  signInOwner,
+  verifyWalletChallenge,
+  type OwnerSignIn,
+} from '@/lib/services/chatOwnerAuth';
+
+function ownerResponse({ owner, cookie }: OwnerSignIn): NextResponse {
+  return NextResponse.json({ owner }, { headers: { 'Set-Cookie': cookie } });
+}
+
+function errorResponse(error: unknown, action: string): NextResponse {
+  if (error instanceof ValidationError) {
+    return NextResponse.json(
+      { error: 'Validation failed', message: error.message, field: error.field },
+      { status: 400 }
+    );
+  }
+
+  if (error instanceof ChatAuthError) {
+    return NextResponse.json(
+      { error: 'Unauthorized', message: error.message },
+      { status: 401 }
+    );
+  }
+
+  console.error(`Chat auth API: Error ${action}:`, error instanceof Error ? error.message : 'Unknown error');
+  return NextResponse.json(
+    { error: 'Internal server error', message: `Failed ${action}.` },
+    { status: 500 }
+  );
+}
+
+// GET /api/chat/auth - current owner; browsers without a cookie get an anonymous id
+export async function GET(request: Request) {
+  try {
+    const limited = rateLimitResponse(request);
+    if (limited) return limited;
+
+    return ownerResponse(currentOwner(request));
+  } catch (error) {
+    return errorResponse(error, 'loading chat owner');
+  }
+}
+
+// POST /api/chat/auth - exchange a signed challenge for a wallet sign-in
+export async function POST(request: Request) {
+  try {
+    validateRequestSize(request);
+
+    const limited = rateLimitResponse(request);
+    if (limited) return limited;
+
+    let body;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json({ error: 'Invalid JSON in request body' }, { status: 400 });
+    }
+
+    const { wallet, challenge, signature } = validateChatSignIn(body);
+    return ownerResponse(signInOwner(request, verifyWalletChallenge(wallet, challenge, signature)));
+  } catch (error) {
+    return errorResponse(error, 'signing in');
+  }
+}
+
+// DELETE /api/chat/auth - drop the wallet and keep the browser's anonymous id
+export async function DELETE(request: Request) {
+  try {
+    const limited = rateLimitResponse(request);
+    if (limited) return limited;
+
+    return ownerResponse(signInOwner(request, null));
+  } catch (error) {
+    return errorResponse(error, 'signing out');
+  }
+}
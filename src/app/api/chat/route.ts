@@ -1,7 +1,12 @@
 import { NextResponse } from 'next/server';
 import Anthropic from '@anthropic-ai/sdk';
 import { chatRateLimiter, getClientIP } from '@/lib/utils/rateLimiter';
+import { rateLimitResponse } from '@/lib/utils/rateLimitResponse';
 import { validateChatRequest, validateRequestSize, ValidationError } from '@/lib/utils/validation';
+import { createChatModelAdapter } from '@/lib/services/chatModelAdapter';
+import { describeRiskProfile } from '@/lib/utils/riskProfile';
+import { describePoolScore, parsePoolScore } from '@/lib/utils/poolScoring';
+import { createSectionSplitter, encodeChatStreamEvent, SECTION_MARKERS, type ChatStreamEvent } from '@/lib/api/chatStream';
 
 // This handles POST requests to /api/chat
 export async function POST(request: Request) {
@@ -10,43 +15,12 @@ export async function POST(request: Request) {
     validateRequestSize(request);
     
     // Rate limiting
-    const clientIP = getClientIP(request);
-    if (!chatRateLimiter.isAllowed(clientIP)) {
-      const remainingTime = Math.ceil(chatRateLimiter.getRemainingTime(clientIP) / 1000);
-      return NextResponse.json(
-        { 
-          error: 'Rate limit exceeded', 
-          message: `Too many requests. Please try again in ${remainingTime} seconds.` 
-        },
-        { 
-          status: 429,
-          headers: {
-            'Retry-After': remainingTime.toString(),
-            'X-RateLimit-Limit': '10',
-            'X-RateLimit-Remaining': '0'
-          }
-        }
-      );
-    }
+    const limited = rateLimitResponse(request, chatRateLimiter);
+    if (limited) return limited;
     
     // Log that we received a request (without sensitive data)
-    console.log('API route: Received chat request from IP:', clientIP.replace(/\d+$/, 'xxx'));
+    console.log('API route: Received chat request from IP:', getClientIP(request).replace(/\d+$/, 'xxx'));
     
-    // Check if API key is configured
-    const apiKey = process.env.ANTHROPIC_API_KEY;
-    if (!apiKey) {
-      console.error('API route: ANTHROPIC_API_KEY environment variable is not set');
-      return NextResponse.json(
-        { error: 'API key not configured' },
-        { status: 500 }
-      );
-    }
-
-    // Initialize Anthropic client
-    const anthropic = new Anthropic({
-      apiKey: apiKey,
-    });
-
     // Parse and validate request body
     let body;
     try {
@@ -76,14 +50,27 @@ export async function POST(request: Request) {
       throw error;
     }
 
-    const { messages, poolData, portfolioStyle } = validatedData;
+    const { messages, poolData, portfolioStyle, riskProfile, mode, toolContext } = validatedData;
 
     console.log('API route: Valid request', { 
       messagesCount: messages.length,
       hasPoolData: !!poolData,
-      portfolioStyle: portfolioStyle || 'none'
+      portfolioStyle: portfolioStyle || 'none',
+      riskScore: riskProfile?.score ?? 'none',
+      mode: mode || 'chat'
     });
 
+    // Check if API key is configured (the mock agent adapter runs without one)
+    const apiKey = process.env.ANTHROPIC_API_KEY;
+    const useMockModel = mode === 'agent' && process.env.CHAT_MODEL_ADAPTER === 'mock';
+    if (!apiKey && !useMockModel) {
+      console.error('API route: ANTHROPIC_API_KEY environment variable is not set');
+      return NextResponse.json(
+        { error: 'API key not configured' },
+        { status: 500 }
+      );
+    }
+
     // Format messages for Anthropic API
     const formattedMessages = messages.map(msg => ({
       role: msg.role,
@@ -98,12 +85,63 @@ export async function POST(request: Request) {
       systemPrompt += " When analyzing liquidity pools, provide detailed yet concise assessments of risks, benefits, and opportunities. Format your analysis in bullet points, with each key point on a new line. Separate your analysis into two clear sections: 1) Why this pool is suitable, and 2) Risk considerations. For each bullet point, focus on one specific advantage or risk factor. Avoid introductory phrases like 'Analyzing this pool...' or 'Key metrics to consider...' at the start of bullet points. Tailor your analysis to the user's selected portfolio style, explaining why specific parameters (like bin steps) are appropriate for their risk tolerance. Focus on bin step relevance, risk level, potential returns, and key metrics. End your analysis with 1-2 thought-provoking questions about their investment goals or risk preferences."
     }
 
+    // Ground recommendations in the questionnaire's numbers rather than the style label alone
+    if (riskProfile) {
+      systemPrompt += ` ${describeRiskProfile(riskProfile)} Judge pools against these limits and say when a pool falls outside them.`;
+    }
+
+    // Agent mode: let the model pick DLMM tools and return the calls for the client to execute
+    if (mode === 'agent') {
+      console.log('API route: Running chat agent');
+      const adapter = createChatModelAdapter(apiKey);
+      const agentResponse = await adapter.runAgent(messages, systemPrompt, {
+        ...toolContext,
+        portfolioStyle: toolContext?.portfolioStyle || portfolioStyle,
+      });
+
+      return NextResponse.json(agentResponse);
+    }
+
+    // Streamed pool analyses mark their sections so the route can emit section events
+    if (poolData) {
+      systemPrompt += ` Start each section with its marker alone on a line: ${SECTION_MARKERS.suitability} before the suitability points and ${SECTION_MARKERS.risks} before the risk points. Do not write section headings yourself. Finish with the line ${SECTION_MARKERS.analysis} followed by one JSON object and nothing else: {"fitScore": 1-10 fit for the portfolio style, "riskLevel": "low" | "moderate" | "high", "impermanentLossRisk": "low" | "moderate" | "high", "summary": one sentence}.`;
+    }
+
+    // Pool data travels as a virtual user message asking for the sectioned analysis
+    const investorType = riskProfile ? `${riskProfile.style} (risk score ${riskProfile.score}/100)` : portfolioStyle || 'general';
+    // The score breakdown is spelled out rather than left inside the pool JSON
+    const { score, ...poolFields } = poolData ?? {};
+    const poolScore = parsePoolScore(score);
+    const scoreRequest = poolScore
+      ? ` ${describePoolScore(poolScore)} Explain which factors lift and which hold back this score.`
+      : '';
+    // riskLevel is the custody and peg risk of the pool's tokens; pegAlerts lists tokens off their BTC peg
+    const pegRequest = Array.isArray(poolFields.pegAlerts) && poolFields.pegAlerts.length > 0
+      ? ' One of its tokens is off its BTC peg (see pegAlerts); open the risk considerations with that.'
+      : '';
+    // oracleDeviationBps compares the pool's price with the oracle's; a wide gap is worth a risk point
+    const priceRequest = typeof poolFields.oracleDeviationBps === 'number' && Math.abs(poolFields.oracleDeviationBps) >= 200
+      ? ' Its price is far from the market price (see oracleDeviationBps); mention the arbitrage and mispricing risk.'
+      : '';
+    const poolAnalysisRequest = poolData ? `I need you to analyze this ${portfolioStyle || 'general'} crypto liquidity pool and provide insights: ${JSON.stringify(poolFields)}.${scoreRequest}${pegRequest}${priceRequest} 
+                  Format your response in clear bullet points, with each point starting on a new line. First, provide a brief introduction (1-2 sentences). Then write ${SECTION_MARKERS.suitability} and list 3-5 bullet points explaining why this pool is appropriate for a ${investorType} investor, checking its bin step and TVL against their risk profile. After that, write ${SECTION_MARKERS.risks} and list 2-3 bullet points about risk considerations. Discuss the bin step (${poolData.binStep}) relevance, evaluate the risk level, explain potential returns, and highlight key metrics. Each bullet point should be concise and focused on one specific advantage or consideration. End with ${SECTION_MARKERS.analysis} and the analysis JSON.` : '';
+
+    // Initialize Anthropic client
+    const anthropic = new Anthropic({
+      apiKey: apiKey,
+    });
+
     console.log('API route: Calling Anthropic API with streaming');
     
-    // Setup for streaming response
+    // Setup for streaming response: SSE frames carrying ChatStreamEvent payloads
     const encoder = new TextEncoder();
     const stream = new ReadableStream({
       async start(controller) {
+        const send = (event: ChatStreamEvent) => controller.enqueue(encoder.encode(encodeChatStreamEvent(event)));
+        // Plain chat replies have no markers and pass through the splitter untouched
+        const splitter = createSectionSplitter();
+        const usage = { inputTokens: 0, outputTokens: 0 };
+
         try {
           const stream = await anthropic.messages.create({
             model: 'claude-3-haiku-20240307', 
@@ -115,8 +153,7 @@ export async function POST(request: Request) {
                 // Add pool data as a virtual user message if provided
                 ...(poolData ? [{
                   role: 'user' as const,
-                  content: `I need you to analyze this ${portfolioStyle || 'general'} crypto liquidity pool and provide insights: ${JSON.stringify(poolData)}. 
-                  Format your response in clear bullet points, with each point starting on a new line. First, provide a brief introduction (1-2 sentences). Then list 3-5 bullet points explaining why this pool is appropriate for a ${portfolioStyle || 'general'} investor. After that, list 2-3 bullet points about risk considerations. Discuss the bin step (${poolData.binStep}) relevance, evaluate the risk level, explain potential returns, and highlight key metrics. Each bullet point should be concise and focused on one specific advantage or consideration.`
+                  content: poolAnalysisRequest
                 }] : [])
               ];
               
@@ -135,14 +172,30 @@ export async function POST(request: Request) {
 
           // Process each chunk as it arrives
           for await (const chunk of stream) {
-            if (chunk.type === 'content_block_delta' && chunk.delta.type === 'text_delta') {
-              controller.enqueue(encoder.encode(chunk.delta.text));
+            if (chunk.type === 'message_start') {
+              usage.inputTokens = chunk.message.usage.input_tokens;
+            } else if (chunk.type === 'message_delta') {
+              usage.outputTokens = chunk.usage.output_tokens;
+            } else if (chunk.type === 'content_block_delta' && chunk.delta.type === 'text_delta') {
+              splitter.push(chunk.delta.text).forEach(send);
             }
           }
-          controller.close();
+
+          const { output, analysis } = splitter.end();
+          output.forEach(send);
+          if (analysis) {
+            send({ type: 'analysis', analysis });
+          } else if (poolData) {
+            console.warn('API route: Pool analysis arrived without valid analysis JSON');
+          }
+          send({ type: 'usage', usage });
+          send({ type: 'done' });
         } catch (error) {
           console.error('API route: Error in streaming:', error instanceof Error ? error.message : 'Unknown error');
-          controller.error(error);
+          // Headers are already sent, so the failure travels in-band
+          send({ type: 'error', message: 'The response was interrupted. Please try again.' });
+        } finally {
+          controller.close();
         }
       }
     });
@@ -0,0 +1,114 @@
+import { NextResponse } from 'next/server';
+import { rateLimitResponse } from '@/lib/utils/rateLimitResponse';
+import {
+  validateChatSessionContents,
+  validateRequestSize,
+  validateSessionId,
+  ValidationError,
+} from '@/lib/utils/validation';
+import { getChatSessionStore, ChatSessionOwnershipError } from '@/lib/services/chatSessionStore';
+import { ChatAuthError, requireChatOwner } from '@/lib/services/chatOwnerAuth';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+function errorResponse(error: unknown, action: string): NextResponse {
+  if (error instanceof ValidationError) {
+    return NextResponse.json(
+      { error: 'Validation failed', message: error.message, field: error.field },
+      { status: 400 }
+    );
+  }
+
+  if (error instanceof ChatAuthError) {
+    return NextResponse.json(
+      { error: 'Unauthorized', message: error.message },
+      { status: 401 }
+    );
+  }
+
+  if (error instanceof ChatSessionOwnershipError) {
+    return NextResponse.json(
+      { error: 'Forbidden', message: error.message },
+      { status: 403 }
+    );
+  }
+
+  console.error(`Chat sessions API: Error ${action}:`, error instanceof Error ? error.message : 'Unknown error');
+  return NextResponse.json(
+    { error: 'Internal server error', message: `Failed ${action}.` },
+    { status: 500 }
+  );
+}
+
+// GET /api/chat/sessions/:id
+export async function GET(request: Request, { params }: RouteContext) {
+  try {
+    const limited = rateLimitResponse(request);
+    if (limited) return limited;
+
+    const sessionId = validateSessionId((await params).id);
+    const owner = requireChatOwner(request);
+
+    const session = await getChatSessionStore().getSession(owner.id, sessionId);
+    if (!session) {
+      return NextResponse.json({ error: 'Not found', message: 'Chat session not found.' }, { status: 404 });
+    }
+
+    return NextResponse.json({ session });
+  } catch (error) {
+    return errorResponse(error, 'loading chat session');
+  }
+}
+
+// PUT /api/chat/sessions/:id - create or replace the session contents
+export async function PUT(request: Request, { params }: RouteContext) {
+  try {
+    validateRequestSize(request);
+
+    const limited = rateLimitResponse(request);
+    if (limited) return limited;
+
+    const sessionId = validateSessionId((await params).id);
+    const owner = requireChatOwner(request);
+
+    let body;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json({ error: 'Invalid JSON in request body' }, { status: 400 });
+    }
+
+    const contents = validateChatSessionContents(body);
+    const session = await getChatSessionStore().saveSession(sessionId, {
+      ...contents,
+      ownerId: owner.id,
+      ownerType: owner.type,
+    });
+
+    return NextResponse.json({ session });
+  } catch (error) {
+    return errorResponse(error, 'saving chat session');
+  }
+}
+
+// DELETE /api/chat/sessions/:id
+export async function DELETE(request: Request, { params }: RouteContext) {
+  try {
+    const limited = rateLimitResponse(request);
+    if (limited) return limited;
+
+    const sessionId = validateSessionId((await params).id);
+    const owner = requireChatOwner(request);
+
+    const deleted = await getChatSessionStore().deleteSession(owner.id, sessionId);
+    if (!deleted) {
+      return NextResponse.json({ error: 'Not found', message: 'Chat session not found.' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    return errorResponse(error, 'deleting chat session');
+  }
+}
@@ -0,0 +1,27 @@
+import { NextResponse } from 'next/server';
+import { rateLimitResponse } from '@/lib/utils/rateLimitResponse';
+import { getChatSessionStore } from '@/lib/services/chatSessionStore';
+import { ChatAuthError, requireChatOwner } from '@/lib/services/chatOwnerAuth';
+
+// GET /api/chat/sessions - list the signed-in owner's sessions, most recent first
+export async function GET(request: Request) {
+  try {
+    const limited = rateLimitResponse(request);
+    if (limited) return limited;
+
+    const owner = requireChatOwner(request);
+    const sessions = await getChatSessionStore().listSessions(owner.id);
+
+    return NextResponse.json({ sessions });
+  } catch (error) {
+    if (error instanceof ChatAuthError) {
+      return NextResponse.json({ error: 'Unauthorized', message: error.message }, { status: 401 });
+    }
+
+    console.error('Chat sessions API: Error listing sessions:', error instanceof Error ? error.message : 'Unknown error');
+    return NextResponse.json(
+      { error: 'Internal server error', message: 'Failed to load chat sessions.' },
+      { status: 500 }
+    );
+  }
+}
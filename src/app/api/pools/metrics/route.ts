@@ -0,0 +1,43 @@
+import { NextResponse } from 'next/server';
+import { rateLimitResponse } from '@/lib/utils/rateLimitResponse';
+import { validateMetricsDays, validatePoolAddresses, ValidationError } from '@/lib/utils/validation';
+import { getPoolMetricsStore } from '@/lib/services/poolMetricsStore';
+import { summarizePoolMetrics } from '@/lib/utils/poolMetrics';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// GET /api/pools/metrics?addresses=a,b&days=30 - fee APY history and 7d/30d stats per pool
+export async function GET(request: Request) {
+  try {
+    const limited = rateLimitResponse(request);
+    if (limited) return limited;
+
+    const searchParams = new URL(request.url).searchParams;
+    const addresses = validatePoolAddresses(searchParams.get('addresses'));
+    const days = validateMetricsDays(searchParams.get('days'));
+
+    const store = getPoolMetricsStore();
+    const now = Date.now();
+    // The 30d stats always need 30 days of history, whatever the chart shows
+    const since = now - Math.max(days, 30) * DAY_MS;
+
+    const metrics = await Promise.all(addresses.map(async (address) =>
+      summarizePoolMetrics(address, await store.getSeries(address, since), now, days)
+    ));
+
+    return NextResponse.json({ metrics });
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return NextResponse.json(
+        { error: 'Validation failed', message: error.message, field: error.field },
+        { status: 400 }
+      );
+    }
+
+    console.error('Pool metrics API: Error loading metrics:', error instanceof Error ? error.message : 'Unknown error');
+    return NextResponse.json(
+      { error: 'Internal server error', message: 'Failed to load pool metrics.' },
+      { status: 500 }
+    );
+  }
+}
@@ -3,6 +3,7 @@ import { Geist, Geist_Mono } from "next/font/google";
 import Script from "next/script";
 import "./globals.css";
 import { WalletContextProvider } from "@/context/WalletContextProvider";
+import { TransactionPreviewProvider } from "@/context/TransactionPreviewProvider";
 import { Toaster } from "@/components/ui/sonner";
 
 const geistSans = Geist({
@@ -42,7 +43,9 @@ export default function RootLayout({
         className={`${geistSans.variable} ${geistMono.variable} antialiased`}
       >
         <WalletContextProvider>
-          {children}
+          <TransactionPreviewProvider>
+            {children}
+          </TransactionPreviewProvider>
         </WalletContextProvider>
         <Toaster /> 
       </body>
@@ -1,11 +1,12 @@
 "use client";
 
 import PageTemplate from "@/components/PageTemplate";
-import React, { useState, useEffect } from "react";
+import React, { useState, useEffect, useMemo } from "react";
 import { Connection, PublicKey } from "@solana/web3.js";
 import { useWallet } from "@solana/wallet-adapter-react";
-import DLMM from "@meteora-ag/dlmm";
-import { RangeBar } from "@/components/profile-components/RangeBar";
+import DLMM, { type LbPosition } from "@meteora-ag/dlmm";
+import { RangeBar, RangeStatusBadge } from "@/components/profile-components/RangeBar";
+import { RebalanceModal } from "@/components/profile-components/RebalanceModal";
 import BN from "bn.js";
 import { showToast } from "@/lib/utils/showToast";
 import {
@@ -18,31 +19,37 @@ import {
 import { Button } from "@/components/ui/button";
 import Image from "next/image";
 import type { PositionType } from '@/lib/meteora/meteoraDlmmService'
+import {
+  PositionPnlService,
+  calculatePositionPnl,
+  type PnlValues,
+  type PositionFlowHistory,
+  type PositionPnl,
+} from '@/lib/services/positionPnlService'
+import type { PositionHealth } from '@/lib/services/positionMonitorService'
+import { usePositionMonitor } from '@/hooks/usePositionMonitor'
+import { useDepegMonitor } from '@/hooks/useDepegMonitor'
+import { useTokenPrices } from '@/hooks/useTokenPrices'
+import { describePegAlert, describePegReference, pegAlertsForMints, type PegReport } from '@/lib/services/depegMonitorService'
+import { getPoolDataProvider, type TokenMeta } from '@/lib/api/poolDataProvider'
+import type { OraclePriceMap } from '@/lib/services/priceOracleService'
+import { findTokenByMint } from '@/lib/utils/tokenRegistry'
+import { useTransactionPreview } from '@/context/TransactionPreviewProvider'
+import { formatTokenAmount, tokenAmount, toUiNumber, type TokenAmount } from '@/lib/utils/tokenAmount'
 
-// ===================== JUPITER LITE API INTEGRATION =====================
-// This section uses the Jupiter Lite API (https://lite-api.jup.ag) to fetch
-// token metadata (symbol, name, icon, usdPrice) for each token mint address.
-// The results are cached in a local object to avoid redundant requests.
-// ========================================================================
-
-const tokenMetaCache: Record<string, TokenMeta> = {};
-
-async function fetchTokenMeta(mint: string) {
-  if (tokenMetaCache[mint]) return tokenMetaCache[mint];
-  const res = await fetch(
-    `https://lite-api.jup.ag/tokens/v2/search?query=${mint}`
-  );
-  const data = await res.json();
-  // The API returns an array, take the first match
-  const token = data[0];
-  tokenMetaCache[mint] = token;
-  return token;
+// Token metadata (symbol, icon) comes from the configured pool data provider - the
+// Jupiter Lite API by default, cached per mint. USD prices come from the price oracle.
+function fetchTokenMeta(mint: string) {
+  return getPoolDataProvider().fetchTokenMeta(mint).catch((error) => {
+    console.error(`Failed to fetch token metadata for ${mint}:`, error);
+    return null;
+  });
 }
 
 // Helper to format balance with dynamic superscript for leading zeros after decimal
-function formatBalanceWithSub(balance: number, decimals = 6) {
-  if (balance === 0) return "0";
-  const str = balance.toFixed(decimals);
+function formatBalanceWithSub(balance: TokenAmount, decimals = 6) {
+  if (balance.raw.isZero()) return "0";
+  const str = formatTokenAmount(balance, { maxDecimals: decimals, minDecimals: decimals });
   // Match: int part, all zeros after decimal, rest
   const match = str.match(/^([0-9]+)\.(0+)(\d*)$/);
   if (!match) return str;
@@ -61,14 +68,6 @@ function formatBalanceWithSub(balance: number, decimals = 6) {
   }
 }
 
-// Define a type for token meta fetched from Jupiter API
-interface TokenMeta {
-  icon: string
-  symbol: string
-  usdPrice?: number
-  [key: string]: unknown
-}
-
 // Minimal interfaces for pool and binData
 interface PoolWithActiveId {
   activeId?: number
@@ -79,20 +78,22 @@ interface PoolWithActiveId {
 type BinData = { binId: number; pricePerToken?: string | number }
 
 type MaybeBase58 = { toBase58?: () => string }
+
+// Normalize a mint that may be a PublicKey or already a base58 string
+function mintToString(mint: unknown): string {
+  return mint && typeof (mint as MaybeBase58).toBase58 === 'function'
+    ? (mint as MaybeBase58).toBase58!()
+    : (mint as string);
+}
+
 // Custom hook to fetch token meta for a pool
 function useTokenMeta(pool: PoolWithActiveId) {
   const [tokenXMeta, setTokenXMeta] = React.useState<TokenMeta | null>(null);
   const [tokenYMeta, setTokenYMeta] = React.useState<TokenMeta | null>(null);
   React.useEffect(() => {
     if (!pool) return;
-    const xMint = pool.tokenXMint && typeof (pool.tokenXMint as MaybeBase58).toBase58 === 'function'
-      ? (pool.tokenXMint as MaybeBase58).toBase58!()
-      : pool.tokenXMint;
-    const yMint = pool.tokenYMint && typeof (pool.tokenYMint as MaybeBase58).toBase58 === 'function'
-      ? (pool.tokenYMint as MaybeBase58).toBase58!()
-      : pool.tokenYMint;
-    fetchTokenMeta(xMint as string).then(setTokenXMeta);
-    fetchTokenMeta(yMint as string).then(setTokenYMeta);
+    fetchTokenMeta(mintToString(pool.tokenXMint)).then(setTokenXMeta);
+    fetchTokenMeta(mintToString(pool.tokenYMint)).then(setTokenYMeta);
   }, [pool]);
   return { tokenXMeta, tokenYMeta };
 }
@@ -105,7 +106,8 @@ function usePositionActions(
 ) {
   const [closing, setClosing] = React.useState(false);
   const [claiming, setClaiming] = React.useState(false);
-  const { publicKey, sendTransaction } = useWallet();
+  const { publicKey } = useWallet();
+  const { previewAndSend, connection } = useTransactionPreview();
 
   async function handleCloseAndWithdraw() {
     if (!publicKey) return;
@@ -115,10 +117,6 @@ function usePositionActions(
       const user = publicKey;
       const lowerBinId = Number(pos.positionData.lowerBinId)
       const upperBinId = Number(pos.positionData.upperBinId)
-      const connection = new Connection(
-        process.env.NEXT_PUBLIC_SOLANA_RPC_URL ||
-          "https://api.mainnet-beta.solana.com"
-      );
       const dlmmPool = await DLMM.create(
         connection,
         new PublicKey(lbPairAddress)
@@ -131,13 +129,12 @@ function usePositionActions(
         bps: new BN(10000),
         shouldClaimAndClose: true,
       });
-      if (Array.isArray(txOrTxs)) {
-        for (const tx of txOrTxs) {
-          await sendTransaction(tx, connection);
-        }
-      } else {
-        await sendTransaction(txOrTxs, connection);
-      }
+      const signatures = await previewAndSend({
+        title: "Close Position",
+        description: `Withdraw all liquidity and fees from bins ${lowerBinId}-${upperBinId} and close the position`,
+        transactions: Array.isArray(txOrTxs) ? txOrTxs : [txOrTxs],
+      });
+      if (!signatures) return;
       showToast.success(
         "Transaction successful",
         "Your position has been closed and your funds have been withdrawn."
@@ -159,21 +156,21 @@ function usePositionActions(
     try {
       const posKey = pos.publicKey;
       const user = publicKey;
-      const connection = new Connection(
-        process.env.NEXT_PUBLIC_SOLANA_RPC_URL ||
-          "https://api.mainnet-beta.solana.com"
-      );
       const dlmmPool = await DLMM.create(
         connection,
         new PublicKey(lbPairAddress)
       );
       const position = await dlmmPool.getPosition(posKey);
-      const tx = await dlmmPool.claimSwapFee({
+      const txs = await dlmmPool.claimSwapFee({
         owner: user,
         position,
       });
-      if (tx) {
-        await sendTransaction(tx, connection);
+      if (txs.length > 0) {
+        const signatures = await previewAndSend({
+          title: "Claim Fees",
+          transactions: txs,
+        });
+        if (!signatures) return;
         showToast.success(
           "Transaction successful",
           "Your fees have been claimed."
@@ -214,8 +211,7 @@ type PositionInfoLike = {
 function usePositionDisplayData(
   pos: PositionType,
   pool: PoolWithActiveId,
-  tokenXMeta: TokenMeta | null,
-  tokenYMeta: TokenMeta | null,
+  prices: OraclePriceMap,
   positionInfo?: PositionInfoLike
 ) {
   const binData = pos.positionData.positionBinData as BinData[];
@@ -252,33 +248,34 @@ function usePositionDisplayData(
   else if (typeof positionInfo?.tokenY?.mint?.decimals === 'number') yDecimals = positionInfo.tokenY.mint.decimals;
   else yDecimals = 0;
 
-  const xBalance = pos.positionData.totalXAmount
-    ? Number(pos.positionData.totalXAmount) / Math.pow(10, xDecimals)
-    : 0;
-  const yBalance = pos.positionData.totalYAmount
-    ? Number(pos.positionData.totalYAmount) / Math.pow(10, yDecimals)
-    : 0;
-  const xFee = pos.positionData.feeX
-    ? Number(pos.positionData.feeX) / Math.pow(10, xDecimals)
-    : 0;
-  const yFee = pos.positionData.feeY
-    ? Number(pos.positionData.feeY) / Math.pow(10, yDecimals)
-    : 0;
+  // Raw position amounts with their mint and decimals; the numbers below are for USD math only
+  const mintX = mintToString(pool.tokenXMint);
+  const mintY = mintToString(pool.tokenYMint);
+  const xAmount = tokenAmount(mintX, xDecimals, pos.positionData.totalXAmount?.toString() || '0');
+  const yAmount = tokenAmount(mintY, yDecimals, pos.positionData.totalYAmount?.toString() || '0');
+  const xFeeAmount = tokenAmount(mintX, xDecimals, pos.positionData.feeX?.toString() || '0');
+  const yFeeAmount = tokenAmount(mintY, yDecimals, pos.positionData.feeY?.toString() || '0');
+
+  const xBalance = toUiNumber(xAmount);
+  const yBalance = toUiNumber(yAmount);
+  const xFee = toUiNumber(xFeeAmount);
+  const yFee = toUiNumber(yFeeAmount);
+
+  // Oracle prices; USD totals wait until both sides are priced
+  const priceX = prices[mintX];
+  const priceY = prices[mintY];
+  const priceXUsd = priceX ? priceX.usd : null;
+  const priceYUsd = priceY ? priceY.usd : null;
+  const pricesStale = !!(priceX?.stale || priceY?.stale);
   const totalLiquidityUSD =
-    tokenXMeta && tokenYMeta
-      ? xBalance * Number(tokenXMeta.usdPrice || 0) +
-        yBalance * Number(tokenYMeta.usdPrice || 0)
+    priceXUsd !== null && priceYUsd !== null
+      ? xBalance * priceXUsd + yBalance * priceYUsd
       : 0;
-  const claimedFeeX = pos.positionData.totalClaimedFeeXAmount
-    ? Number(pos.positionData.totalClaimedFeeXAmount) / Math.pow(10, xDecimals)
-    : 0;
-  const claimedFeeY = pos.positionData.totalClaimedFeeYAmount
-    ? Number(pos.positionData.totalClaimedFeeYAmount) / Math.pow(10, yDecimals)
-    : 0;
+  const claimedFeeX = toUiNumber(tokenAmount(mintX, xDecimals, pos.positionData.totalClaimedFeeXAmount?.toString() || '0'));
+  const claimedFeeY = toUiNumber(tokenAmount(mintY, yDecimals, pos.positionData.totalClaimedFeeYAmount?.toString() || '0'));
   const claimedFeesUSD =
-    tokenXMeta && tokenYMeta
-      ? claimedFeeX * Number(tokenXMeta.usdPrice || 0) +
-        claimedFeeY * Number(tokenYMeta.usdPrice || 0)
+    priceXUsd !== null && priceYUsd !== null
+      ? claimedFeeX * priceXUsd + claimedFeeY * priceYUsd
       : 0;
   return {
     minPrice,
@@ -288,8 +285,15 @@ function usePositionDisplayData(
     yBalance,
     xFee,
     yFee,
+    xAmount,
+    yAmount,
+    xFeeAmount,
+    yFeeAmount,
     totalLiquidityUSD,
     claimedFeesUSD,
+    priceXUsd,
+    priceYUsd,
+    pricesStale,
     xDecimals,
     yDecimals,
     claimedFeeX,
@@ -297,6 +301,110 @@ function usePositionDisplayData(
   };
 }
 
+// Custom hook for reconstructing position history and computing PnL versus holding
+function usePositionPnl(
+  lbPairAddress: string,
+  pos: PositionType,
+  pool: PoolWithActiveId,
+  displayData: ReturnType<typeof usePositionDisplayData>
+) {
+  const [history, setHistory] = React.useState<PositionFlowHistory | null>(null);
+  const [loadingPnl, setLoadingPnl] = React.useState(false);
+  const positionAddress = pos.publicKey.toBase58();
+  const tokenXMint = mintToString(pool.tokenXMint);
+  const tokenYMint = mintToString(pool.tokenYMint);
+
+  React.useEffect(() => {
+    let cancelled = false;
+    const connection = new Connection(
+      process.env.NEXT_PUBLIC_SOLANA_RPC_URL ||
+        "https://api.mainnet-beta.solana.com"
+    );
+
+    setLoadingPnl(true);
+    new PositionPnlService(connection)
+      .getPositionHistory({ positionAddress, lbPairAddress, tokenXMint, tokenYMint })
+      .then((result) => {
+        if (!cancelled) setHistory(result);
+      })
+      .catch((err) => {
+        console.error("Failed to reconstruct position history:", err);
+      })
+      .finally(() => {
+        if (!cancelled) setLoadingPnl(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [positionAddress, lbPairAddress, tokenXMint, tokenYMint]);
+
+  const { xBalance, yBalance, xFee, yFee, claimedFeeX, claimedFeeY, xDecimals, yDecimals, priceXUsd, priceYUsd } = displayData;
+
+  const pnl = useMemo<PositionPnl | null>(() => {
+    if (!history || priceXUsd === null || priceYUsd === null) return null;
+
+    // Express values in BTC using whichever side of the pair is a BTC token
+    const btcPriceUsd =
+      findTokenByMint(tokenXMint)?.category === "btc" ? priceXUsd
+        : findTokenByMint(tokenYMint)?.category === "btc" ? priceYUsd
+          : null;
+
+    return calculatePositionPnl({
+      history,
+      tokenXMint,
+      tokenYMint,
+      xDecimals,
+      yDecimals,
+      currentX: xBalance,
+      currentY: yBalance,
+      feesX: xFee + claimedFeeX,
+      feesY: yFee + claimedFeeY,
+      priceXUsd,
+      priceYUsd,
+      btcPriceUsd,
+    });
+  }, [history, tokenXMint, tokenYMint, priceXUsd, priceYUsd, xBalance, yBalance, xFee, yFee, claimedFeeX, claimedFeeY, xDecimals, yDecimals]);
+
+  return { pnl, loadingPnl };
+}
+
+// Render a PnL figure in USD with its BTC equivalent underneath
+function PnlValue({
+  pnl,
+  field,
+  loading,
+  signed = false,
+}: {
+  pnl: PositionPnl | null;
+  field: keyof PnlValues;
+  loading: boolean;
+  signed?: boolean;
+}) {
+  if (!pnl) {
+    return <span className="text-gray-500">{loading ? "Loading..." : "-"}</span>;
+  }
+
+  const usdValue = pnl.usd[field];
+  const btcValue = pnl.btc ? pnl.btc[field] : null;
+  const color = !signed || usdValue === 0 ? "" : usdValue > 0 ? "text-green-400" : "text-red-400";
+  const prefix = signed && usdValue > 0 ? "+" : "";
+
+  return (
+    <div className={`font-mono ${color}`} title={pnl.history.isComplete ? undefined : "Older history was not scanned; figures may be incomplete"}>
+      <div>
+        {prefix}${usdValue.toFixed(2)}
+        {!pnl.history.isComplete && "*"}
+      </div>
+      {btcValue !== null && (
+        <div className="text-xs text-gray-500">
+          {prefix}{btcValue.toFixed(8)} BTC
+        </div>
+      )}
+    </div>
+  );
+}
+
 // ===================== POSITION ITEM COMPONENT =====================
 // A unified component that can render as either a card or table row
 // based on the viewMode prop. This eliminates code duplication while
@@ -308,6 +416,9 @@ function PositionItem({
   positionInfo,
   refreshPositions,
   viewMode,
+  health,
+  monitor,
+  pegReport,
 }: {
   lbPairAddress: string;
   positionInfo: {
@@ -317,10 +428,14 @@ function PositionItem({
   };
   refreshPositions: () => void;
   viewMode: "table" | "card";
+  health?: PositionHealth;
+  monitor: Pick<ReturnType<typeof usePositionMonitor>, "prepareRebalance" | "executeRebalance" | "rebalancing">;
+  pegReport: PegReport | null;
 }) {
   const pos = positionInfo.lbPairPositionsData[0];
   const pool = positionInfo.lbPair;
   const { tokenXMeta, tokenYMeta } = useTokenMeta(pool);
+  const { prices } = useTokenPrices([mintToString(pool.tokenXMint), mintToString(pool.tokenYMint)]);
   
   // Use shared hook for actions
   const {
@@ -332,6 +447,7 @@ function PositionItem({
   } = usePositionActions(lbPairAddress, pos, refreshPositions);
   
   // Use shared hook for display data
+  const displayData = usePositionDisplayData(pos, pool, prices, positionInfo);
   const {
     minPrice,
     maxPrice,
@@ -340,9 +456,35 @@ function PositionItem({
     yBalance,
     xFee,
     yFee,
+    xAmount,
+    yAmount,
+    xFeeAmount,
+    yFeeAmount,
     totalLiquidityUSD,
     claimedFeesUSD,
-  } = usePositionDisplayData(pos, pool, tokenXMeta, tokenYMeta, positionInfo);
+    priceXUsd,
+    priceYUsd,
+    pricesStale,
+  } = displayData;
+
+  // Reconstructed history and PnL versus holding
+  const { pnl, loadingPnl } = usePositionPnl(lbPairAddress, pos, pool, displayData);
+
+  // Shown on USD figures while every price source is past the staleness limit
+  const staleTitle = pricesStale ? "Prices are out of date: no source has a recent quote" : undefined;
+  const staleClass = pricesStale ? " text-[#EFB54B]" : "";
+
+  // Rebalance flow for positions the monitor flagged as drifting
+  const { prepareRebalance, executeRebalance, rebalancing } = monitor;
+  const [showRebalance, setShowRebalance] = useState(false);
+  const needsRebalance = !!health && health.status !== "in-range";
+  const isRebalancing = rebalancing === pos.publicKey.toBase58();
+  const preparePositionRebalance = React.useCallback(
+    (options: { swap: boolean }) => prepareRebalance(lbPairAddress, pos as unknown as LbPosition, options),
+    [prepareRebalance, lbPairAddress, pos]
+  );
+  const pairName = tokenXMeta && tokenYMeta ? `${tokenXMeta.symbol}/${tokenYMeta.symbol}` : "this pool";
+  const pegAlerts = pegAlertsForMints([mintToString(pool.tokenXMint), mintToString(pool.tokenYMint)], pegReport);
 
   // Shared token pair display
   const TokenPairDisplay = () => (
@@ -390,12 +532,12 @@ function PositionItem({
           />
         )}
         <span className={`font-mono font-semibold ${size}`}>
-          {xBalance === 0 ? "0" : formatBalanceWithSub(xBalance, 6)}{" "}
+          {xBalance === 0 ? "0" : formatBalanceWithSub(xAmount, 6)}{" "}
           {tokenXMeta ? tokenXMeta.symbol : ""}
         </span>
-        {tokenXMeta && xBalance !== 0 && (
-          <span className="text-xs text-gray-500 ml-1">
-            (${(xBalance * Number(tokenXMeta.usdPrice || 0)).toFixed(2)})
+        {priceXUsd !== null && xBalance !== 0 && (
+          <span className={`text-xs text-gray-500 ml-1${staleClass}`} title={staleTitle}>
+            (${(xBalance * priceXUsd).toFixed(2)})
           </span>
         )}
       </div>
@@ -411,12 +553,12 @@ function PositionItem({
           />
         )}
         <span className={`font-mono font-semibold ${size}`}>
-          {yBalance === 0 ? "0" : formatBalanceWithSub(yBalance, 6)}{" "}
+          {yBalance === 0 ? "0" : formatBalanceWithSub(yAmount, 6)}{" "}
           {tokenYMeta ? tokenYMeta.symbol : ""}
         </span>
-        {tokenYMeta && yBalance !== 0 && (
-          <span className="text-xs text-gray-500 ml-1">
-            (${(yBalance * Number(tokenYMeta.usdPrice || 0)).toFixed(2)})
+        {priceYUsd !== null && yBalance !== 0 && (
+          <span className={`text-xs text-gray-500 ml-1${staleClass}`} title={staleTitle}>
+            (${(yBalance * priceYUsd).toFixed(2)})
           </span>
         )}
       </div>
@@ -438,7 +580,7 @@ function PositionItem({
           />
         )}
         <span className={`font-mono font-semibold ${size}`}>
-          {xFee === 0 ? "0" : formatBalanceWithSub(xFee, 6)}{" "}
+          {xFee === 0 ? "0" : formatBalanceWithSub(xFeeAmount, 6)}{" "}
           {tokenXMeta ? tokenXMeta.symbol : ""}
         </span>
       </div>
@@ -454,7 +596,7 @@ function PositionItem({
           />
         )}
         <span className={`font-mono font-semibold ${size}`}>
-          {yFee === 0 ? "0" : formatBalanceWithSub(yFee, 6)}{" "}
+          {yFee === 0 ? "0" : formatBalanceWithSub(yFeeAmount, 6)}{" "}
           {tokenYMeta ? tokenYMeta.symbol : ""}
         </span>
       </div>
@@ -472,6 +614,16 @@ function PositionItem({
       >
         {claiming ? "Claiming..." : "Claim Fees"}
       </Button>
+      {needsRebalance && (
+        <Button
+          variant="outline"
+          className={size}
+          onClick={() => setShowRebalance(true)}
+          disabled={isRebalancing || !publicKey}
+        >
+          {isRebalancing ? "Rebalancing..." : "Rebalance"}
+        </Button>
+      )}
       <Button
         className={size}
         onClick={handleCloseAndWithdraw}
@@ -482,6 +634,34 @@ function PositionItem({
     </div>
   );
 
+  // Shared range display with the monitor's status and any peg alert on the position's tokens
+  const RangeDisplay = () => (
+    <>
+      {health && <RangeStatusBadge status={health.status} />}
+      {pegAlerts.map((alert) => (
+        <div
+          key={alert.mint}
+          className={`text-xs font-semibold mb-1 ${alert.status === "depegged" ? "text-[#FF4040]" : "text-[#EFB54B]"}`}
+          title={`${alert.symbol} at $${alert.priceUsd.toLocaleString()} vs ${pegReport?.referenceSource === "median" ? "the median wrapped BTC price" : "BTC"} at $${pegReport?.referenceUsd.toLocaleString()}`}
+        >
+          ⚠️ {describePegAlert(alert)}
+        </div>
+      ))}
+      <RangeBar min={minPrice} max={maxPrice} current={currentPrice} />
+    </>
+  );
+
+  const rebalanceModal = health && (
+    <RebalanceModal
+      isOpen={showRebalance}
+      onClose={() => setShowRebalance(false)}
+      pairName={pairName}
+      health={health}
+      prepareRebalance={preparePositionRebalance}
+      executeRebalance={executeRebalance}
+    />
+  );
+
   if (viewMode === "card") {
     return (
       <div className="rounded-lg shadow-sm overflow-hidden p-4 mb-4 border border-border">
@@ -494,7 +674,7 @@ function PositionItem({
         <div className="flex flex-col md:flex-row gap-6 mb-6">
           <div>
             <div className="text-sm text-gray-400 mb-1">Total Liquidity</div>
-            <div className="text-2xl font-semibold text-white">
+            <div className={`text-2xl font-semibold text-white${staleClass}`} title={staleTitle}>
               ${totalLiquidityUSD.toFixed(4)}
             </div>
           </div>
@@ -502,16 +682,36 @@ function PositionItem({
             <div className="text-sm text-gray-400 mb-1">
               Fees Earned (Claimed)
             </div>
-            <div className="text-2xl font-semibold text-white">
+            <div className={`text-2xl font-semibold text-white${staleClass}`} title={staleTitle}>
               ${claimedFeesUSD.toFixed(8)}
             </div>
           </div>
         </div>
+
+        {/* PnL versus holding */}
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
+          <div>
+            <div className="text-sm text-gray-400 mb-1">HODL Value</div>
+            <PnlValue pnl={pnl} field="hodlValue" loading={loadingPnl} />
+          </div>
+          <div>
+            <div className="text-sm text-gray-400 mb-1">Total Fees</div>
+            <PnlValue pnl={pnl} field="fees" loading={loadingPnl} />
+          </div>
+          <div>
+            <div className="text-sm text-gray-400 mb-1">Impermanent Loss</div>
+            <PnlValue pnl={pnl} field="impermanentLoss" loading={loadingPnl} signed />
+          </div>
+          <div>
+            <div className="text-sm text-gray-400 mb-1">Net PnL</div>
+            <PnlValue pnl={pnl} field="netPnl" loading={loadingPnl} signed />
+          </div>
+        </div>
         
         {/* Range */}
         <div className="mb-4">
           <span className="block font-semibold mb-1">Range</span>
-          <RangeBar min={minPrice} max={maxPrice} current={currentPrice} />
+          <RangeDisplay />
         </div>
         
         {/* Position Liquidity Section */}
@@ -533,6 +733,7 @@ function PositionItem({
           </div>
           <ActionButtons />
         </div>
+        {rebalanceModal}
       </div>
     );
   }
@@ -543,12 +744,24 @@ function PositionItem({
       <td className="px-4 py-3 whitespace-nowrap">
         <TokenPairDisplay />
       </td>
-      <td className="px-4 py-3 whitespace-nowrap font-mono">
+      <td className={`px-4 py-3 whitespace-nowrap font-mono${staleClass}`} title={staleTitle}>
         ${totalLiquidityUSD.toFixed(4)}
       </td>
-      <td className="px-4 py-3 whitespace-nowrap font-mono">
+      <td className={`px-4 py-3 whitespace-nowrap font-mono${staleClass}`} title={staleTitle}>
         ${claimedFeesUSD.toFixed(8)}
       </td>
+      <td className="px-4 py-3 whitespace-nowrap">
+        <PnlValue pnl={pnl} field="hodlValue" loading={loadingPnl} />
+      </td>
+      <td className="px-4 py-3 whitespace-nowrap">
+        <PnlValue pnl={pnl} field="fees" loading={loadingPnl} />
+      </td>
+      <td className="px-4 py-3 whitespace-nowrap">
+        <PnlValue pnl={pnl} field="impermanentLoss" loading={loadingPnl} signed />
+      </td>
+      <td className="px-4 py-3 whitespace-nowrap">
+        <PnlValue pnl={pnl} field="netPnl" loading={loadingPnl} signed />
+      </td>
       <td className="px-4 py-3 whitespace-nowrap">
         <BalanceDisplay size="text-sm" />
       </td>
@@ -556,12 +769,13 @@ function PositionItem({
         <FeeDisplay size="text-sm" />
       </td>
       <td className="px-4 py-3 whitespace-nowrap">
-        <RangeBar min={minPrice} max={maxPrice} current={currentPrice} />
+        <RangeDisplay />
       </td>
       <td className="px-4 py-3 whitespace-nowrap">
         <div className="flex justify-center gap-2">
           <ActionButtons size="text-xs" />
         </div>
+        {rebalanceModal}
       </td>
     </tr>
   );
@@ -643,8 +857,34 @@ const WalletPage = () => {
     }
   };
 
+  // Periodic in-range / near-edge / out-of-range checks
+  const monitor = usePositionMonitor({ onRebalanced: refreshPositions });
+
   const positionsArray = Array.from(positions.entries());
 
+  // Wrapped BTC peg checks; toast once per token and status for tokens the wallet has positions in.
+  // Positions and the first report load independently, so this runs whenever either changes.
+  const { report: pegReport } = useDepegMonitor();
+  const pegReferenceCaveat = describePegReference(pegReport);
+  const alertedPegs = React.useRef(new Set<string>());
+  useEffect(() => {
+    if (!pegReport) return;
+    const heldMints = Array.from(positions.values()).flatMap((info) => [
+      mintToString(info.lbPair.tokenXMint),
+      mintToString(info.lbPair.tokenYMint),
+    ]);
+    const alerts = pegAlertsForMints(heldMints, pegReport);
+    const keys = new Set(alerts.map((alert) => `${alert.mint}:${alert.status}`));
+    const fresh = alerts.filter((alert) => !alertedPegs.current.has(`${alert.mint}:${alert.status}`));
+    // Forget recovered tokens so a new excursion alerts again
+    alertedPegs.current = keys;
+
+    if (fresh.length > 0) {
+      const caveat = describePegReference(pegReport);
+      showToast.warning('BTC peg alert', [...fresh.map(describePegAlert), ...(caveat ? [caveat] : [])].join(' '));
+    }
+  }, [pegReport, positions]);
+
   return (
     <PageTemplate>
       <div className="p-0 md:p-6">
@@ -674,6 +914,16 @@ const WalletPage = () => {
             </div>
           </div>
 
+          {/* Peg checks running without the BTC reference */}
+          {pegReferenceCaveat && positions.size > 0 && (
+            <div className="bg-[#EFB54B]/10 border border-[#EFB54B] rounded-lg p-4 mb-6">
+              <div className="flex items-center space-x-2">
+                <InfoIcon className="w-5 h-5 text-[#EFB54B]" />
+                <span className="text-[#EFB54B] text-sm">{pegReferenceCaveat}</span>
+              </div>
+            </div>
+          )}
+
           {/* Error Message */}
           {error && (
             <div className="bg-primary/10 border border-primary rounded-lg p-4 mb-6">
@@ -705,11 +955,23 @@ const WalletPage = () => {
                         Position/Pool
                       </th>
                       <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">
-                        Total Liquidity
+                        Current Value
                       </th>
                       <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">
                         Fees Earned (Claimed)
                       </th>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">
+                        HODL Value
+                      </th>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">
+                        Total Fees
+                      </th>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">
+                        Impermanent Loss
+                      </th>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">
+                        Net PnL
+                      </th>
                       <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">
                         Current Balance
                       </th>
@@ -732,6 +994,9 @@ const WalletPage = () => {
                         positionInfo={positionInfo}
                         refreshPositions={refreshPositions}
                         viewMode={viewMode}
+                        health={monitor.health.get(positionInfo.lbPairPositionsData[0]?.publicKey.toBase58())}
+                        monitor={monitor}
+                        pegReport={pegReport}
                       />
                     ))}
                   </tbody>
@@ -746,6 +1011,9 @@ const WalletPage = () => {
                     positionInfo={positionInfo}
                     refreshPositions={refreshPositions}
                     viewMode={viewMode}
+                    health={monitor.health.get(positionInfo.lbPairPositionsData[0]?.publicKey.toBase58())}
+                    monitor={monitor}
+                    pegReport={pegReport}
                   />
                 ))}
               </div>
@@ -0,0 +1,258 @@
+"use client";
+
+import React, { useState } from "react";
+import { LAMPORTS_PER_SOL } from "@solana/web3.js";
+import { AlertTriangle, ChevronDown, ChevronUp, Loader2 } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import type { TransactionPreview, TransactionSimulation } from "@/lib/services/transactionPreviewService";
+import { SPEED_TIERS, type SpeedTier } from "@/lib/services/transactionBuilder";
+
+interface TransactionPreviewDialogProps {
+  isOpen: boolean;
+  title: string;
+  description?: string;
+  preview: TransactionPreview | null;
+  isSimulating: boolean;
+  // Simulation could not run at all (RPC error), as opposed to a failing transaction
+  loadError: string | null;
+  // Estimated priority fee in lamports, once quoted
+  priorityFee: number | null;
+  // Selected speed, or null when a fixed/percentile policy is configured and nothing was picked
+  speedTier: SpeedTier | null;
+  onSpeedTierChange: (tier: SpeedTier) => void;
+  onConfirm: () => void;
+  onCancel: () => void;
+  onRetry: () => void;
+}
+
+const formatSol = (lamports: number) => `${(lamports / LAMPORTS_PER_SOL).toFixed(6)} SOL`;
+
+const formatSigned = (value: number, decimals: number) =>
+  `${value > 0 ? "+" : ""}${value.toLocaleString(undefined, { maximumFractionDigits: Math.min(decimals, 8) })}`;
+
+const STATUS_STYLES: Record<TransactionSimulation["status"], { label: string; className: string }> = {
+  success: { label: "Simulated OK", className: "text-green-400" },
+  failed: { label: "Would fail", className: "text-red-400" },
+  dependent: { label: "Checked after previous step", className: "text-yellow-400" },
+};
+
+function SimulationLogs({ simulation, total }: { simulation: TransactionSimulation; total: number }) {
+  const [showLogs, setShowLogs] = useState(false);
+  const status = STATUS_STYLES[simulation.status];
+
+  return (
+    <div className="border border-border rounded-lg p-3 space-y-2">
+      <div className="flex items-center justify-between text-sm">
+        <span className="font-medium">
+          Transaction {simulation.index + 1} of {total}
+        </span>
+        <span className={`text-xs ${status.className}`}>{status.label}</span>
+      </div>
+      <div className="flex items-center justify-between text-xs text-sub-text">
+        <span>Compute units</span>
+        <span className="font-mono">{simulation.computeUnits?.toLocaleString() ?? "N/A"}</span>
+      </div>
+      {simulation.status === "dependent" && (
+        <p className="text-xs text-yellow-200">
+          This step uses what the earlier steps return, so it is simulated again right before you sign it.
+        </p>
+      )}
+      {simulation.status === "failed" && simulation.error && (
+        <p className="text-xs text-red-200">{simulation.error}</p>
+      )}
+      {simulation.logs.length > 0 && (
+        <>
+          <button
+            type="button"
+            className="flex items-center gap-1 text-xs text-primary"
+            onClick={() => setShowLogs(!showLogs)}
+          >
+            {showLogs ? <ChevronUp className="h-3 w-3" /> : <ChevronDown className="h-3 w-3" />}
+            Program logs ({simulation.logs.length})
+          </button>
+          {showLogs && (
+            <pre className="bg-[#0f0f0f] rounded p-2 text-[10px] leading-4 text-sub-text max-h-40 overflow-auto whitespace-pre-wrap break-all">
+              {simulation.logs.join("\n")}
+            </pre>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
+
+// Shows what a set of transactions would do before the wallet is asked to sign them
+export function TransactionPreviewDialog({
+  isOpen,
+  title,
+  description,
+  preview,
+  isSimulating,
+  loadError,
+  priorityFee,
+  speedTier,
+  onSpeedTierChange,
+  onConfirm,
+  onCancel,
+  onRetry,
+}: TransactionPreviewDialogProps) {
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onCancel()}>
+      <DialogContent className="bg-[#161616] border-border text-white max-w-lg mx-auto max-h-[90vh] overflow-y-auto">
+        <DialogHeader className="space-y-3">
+          <DialogTitle className="text-white text-xl">Review {title}</DialogTitle>
+          <DialogDescription className="text-sm text-sub-text">
+            {description || "We simulated this action against the current chain state before asking your wallet to sign."}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 mt-4">
+          {isSimulating && (
+            <div className="flex items-center gap-2 text-sm text-sub-text">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              Simulating transaction...
+            </div>
+          )}
+
+          {loadError && (
+            <div className="bg-red-500/20 border border-red-500/50 rounded-lg p-4 flex items-start gap-3">
+              <AlertTriangle className="h-5 w-5 text-red-400 flex-shrink-0 mt-0.5" />
+              <div className="text-sm text-red-200">Could not simulate this transaction: {loadError}</div>
+            </div>
+          )}
+
+          {preview && !preview.canProceed && (
+            <div className="bg-red-500/20 border border-red-500/50 rounded-lg p-4 flex items-start gap-3">
+              <AlertTriangle className="h-5 w-5 text-red-400 flex-shrink-0 mt-0.5" />
+              <div className="text-sm text-red-200">
+                <div className="font-medium mb-1">This action would fail, so it has been blocked.</div>
+                {preview.error}
+              </div>
+            </div>
+          )}
+
+          {preview && (
+            <div className="bg-[#0f0f0f] border border-border rounded-lg p-4 space-y-2 text-sm">
+              <div className="text-sub-text font-medium mb-1">Expected balance changes</div>
+              {preview.tokenChanges.length === 0 && (
+                <div className="text-xs text-sub-text">No token balance changes</div>
+              )}
+              {preview.tokenChanges.map((change) => (
+                <div key={change.mint} className="flex justify-between">
+                  <span>{change.symbol}</span>
+                  <span className={`font-mono ${change.uiDelta < 0 ? "text-red-400" : "text-green-400"}`}>
+                    {formatSigned(change.uiDelta, change.decimals)}
+                  </span>
+                </div>
+              ))}
+              <div className="flex justify-between">
+                <span>SOL</span>
+                <span className={`font-mono ${preview.solChange < 0 ? "text-red-400" : "text-green-400"}`}>
+                  {formatSigned(preview.solChange / LAMPORTS_PER_SOL, 9)}
+                </span>
+              </div>
+
+              <div className="border-t border-border pt-2 mt-2 space-y-1 text-xs text-sub-text">
+                {preview.rentDeposited > 0 && (
+                  <div className="flex justify-between">
+                    <span>Rent deposits (refundable)</span>
+                    <span className="font-mono">{formatSol(preview.rentDeposited)}</span>
+                  </div>
+                )}
+                {preview.rentRefunded > 0 && (
+                  <div className="flex justify-between">
+                    <span>Rent refunded</span>
+                    <span className="font-mono">{formatSol(preview.rentRefunded)}</span>
+                  </div>
+                )}
+                <div className="flex justify-between">
+                  <span>Base network fee</span>
+                  <span className="font-mono">{formatSol(preview.networkFee)}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span>Priority fee (estimated)</span>
+                  <span className="font-mono">{priorityFee === null ? "..." : formatSol(priorityFee)}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span>Compute units</span>
+                  <span className="font-mono">{preview.totalComputeUnits.toLocaleString()}</span>
+                </div>
+              </div>
+            </div>
+          )}
+
+          {preview && preview.canProceed && (
+            <div className="space-y-2">
+              <div className="text-sm text-sub-text font-medium">Transaction speed</div>
+              <div className="grid grid-cols-3 gap-2">
+                {(Object.keys(SPEED_TIERS) as SpeedTier[]).map((tier) => (
+                  <Button
+                    key={tier}
+                    type="button"
+                    variant={speedTier === tier ? "default" : "outline"}
+                    onClick={() => onSpeedTierChange(tier)}
+                    className="w-full"
+                  >
+                    {SPEED_TIERS[tier].label}
+                  </Button>
+                ))}
+              </div>
+              <p className="text-xs text-sub-text">
+                Higher speeds pay a larger priority fee so the transaction lands before it expires when the network is busy.
+              </p>
+            </div>
+          )}
+
+          {preview && preview.simulations.map((simulation) => (
+            <SimulationLogs
+              key={simulation.index}
+              simulation={simulation}
+              total={preview.simulations.length}
+            />
+          ))}
+        </div>
+
+        <DialogFooter className="mt-6 flex flex-col gap-3 sm:flex-row">
+          {loadError ? (
+            <Button
+              onClick={onRetry}
+              className="bg-primary hover:bg-primary/80 w-full sm:w-auto order-1 sm:order-2"
+            >
+              Retry Simulation
+            </Button>
+          ) : (
+            <Button
+              onClick={onConfirm}
+              disabled={!preview || !preview.canProceed || isSimulating}
+              className="bg-primary hover:bg-primary/80 w-full sm:w-auto order-1 sm:order-2"
+            >
+              {isSimulating ? (
+                <>
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  Simulating...
+                </>
+              ) : (
+                "Continue to Wallet"
+              )}
+            </Button>
+          )}
+          <Button
+            variant="outline"
+            onClick={onCancel}
+            className="w-full sm:w-auto order-2 sm:order-1"
+          >
+            Cancel
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
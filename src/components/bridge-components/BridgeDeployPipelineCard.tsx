@@ -0,0 +1,100 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import { Loader2, X } from "lucide-react";
+import { BridgeTimeline, TimelineSteps } from "@/components/bridge-components/BridgeTimeline";
+import {
+  getPipelineSteps,
+  isActivePipeline,
+  needsSignature,
+  type BridgeDeployPipeline,
+} from "@/lib/services/bridgeDeployPipeline";
+import { ZBTC_DECIMALS, ZBTC_MINT, type BridgeJob } from "@/lib/services/bridgeService";
+import { formatTokenAmount, tokenAmount } from "@/lib/utils/tokenAmount";
+
+interface BridgeDeployPipelineCardProps {
+  pipeline: BridgeDeployPipeline;
+  // The pipeline's bridge job, shown while bridging (deposit address and confirmations)
+  job?: BridgeJob;
+  isRunning: boolean;
+  onContinue: (pipelineId: string) => void;
+  onCancel: (pipelineId: string) => void;
+  onDismiss?: (pipelineId: string) => void;
+}
+
+// Progress and controls of one bridge-then-deploy pipeline
+export function BridgeDeployPipelineCard({
+  pipeline,
+  job,
+  isRunning,
+  onContinue,
+  onCancel,
+  onDismiss,
+}: BridgeDeployPipelineCardProps) {
+  const amount = formatTokenAmount(tokenAmount(ZBTC_MINT, ZBTC_DECIMALS, pipeline.amountSats));
+  const active = isActivePipeline(pipeline);
+  const steps = getPipelineSteps(pipeline).map((step) => ({ ...step, id: step.stage }));
+
+  return (
+    <div className="bg-[#0F0F0F] p-3 rounded-lg space-y-3 border border-border">
+      <div className="flex justify-between items-start">
+        <div>
+          <p className="text-sm text-white">{amount} BTC → {pipeline.poolName}</p>
+          <p className="text-xs text-sub-text">
+            {new Date(pipeline.createdAt).toLocaleString()}
+            {pipeline.swapPercent > 0 ? ` · swap ${pipeline.swapPercent}%` : ' · one-sided'}
+          </p>
+        </div>
+        {onDismiss && !active && (
+          <Button variant="ghost" size="sm" className="h-6 w-6 p-0" onClick={() => onDismiss(pipeline.id)}>
+            <X className="h-3 w-3" />
+          </Button>
+        )}
+      </div>
+
+      <TimelineSteps steps={steps} />
+
+      {pipeline.stage === 'bridging' && job && <BridgeTimeline job={job} />}
+
+      {pipeline.stage === 'completed' && pipeline.positionAddress && (
+        <p className="text-xs text-sub-text break-all">
+          Position <span className="font-mono text-white">{pipeline.positionAddress}</span>
+        </p>
+      )}
+
+      {active && (
+        <div className="flex gap-2">
+          {needsSignature(pipeline) && (
+            <Button
+              size="sm"
+              className="bg-primary hover:bg-primary/80"
+              onClick={() => onContinue(pipeline.id)}
+              disabled={isRunning}
+            >
+              {isRunning ? (
+                <>
+                  <Loader2 className="h-3 w-3 mr-2 animate-spin" />
+                  Waiting for wallet...
+                </>
+              ) : pipeline.error ? 'Retry' : pipeline.stage === 'swapping' ? 'Continue: swap' : 'Continue: deposit'}
+            </Button>
+          )}
+          <Button
+            size="sm"
+            variant="outline"
+            className="bg-transparent border-border"
+            onClick={() => onCancel(pipeline.id)}
+            disabled={isRunning}
+          >
+            Cancel
+          </Button>
+        </div>
+      )}
+      {active && pipeline.stage === 'bridging' && (
+        <p className="text-xs text-sub-text">
+          Cancelling stops the deploy steps only; BTC already sent still bridges to zBTC.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,138 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { AlertCircle, CheckCircle, Circle, Copy, Loader2, X } from "lucide-react";
+import {
+  ZBTC_DECIMALS,
+  ZBTC_MINT,
+  getBridgeSteps,
+  isActiveBridgeJob,
+  type BridgeJob,
+  type BridgeStepState,
+} from "@/lib/services/bridgeService";
+import { formatTokenAmount, tokenAmount } from "@/lib/utils/tokenAmount";
+
+interface BridgeTimelineProps {
+  job: BridgeJob;
+  onDismiss?: (jobId: string) => void;
+}
+
+const STEP_ICONS: Record<BridgeStepState, React.ReactNode> = {
+  done: <CheckCircle className="h-4 w-4 text-green-400" />,
+  active: <Loader2 className="h-4 w-4 animate-spin text-yellow-300" />,
+  pending: <Circle className="h-4 w-4 text-sub-text" />,
+  failed: <AlertCircle className="h-4 w-4 text-red-400" />,
+};
+
+const btcTxUrl = (job: BridgeJob, txid: string) =>
+  `https://mempool.space${job.network === 'testnet' ? '/testnet' : ''}/tx/${txid}`;
+
+const solanaTxUrl = (job: BridgeJob, signature: string) =>
+  `https://solscan.io/tx/${signature}${job.network === 'testnet' ? '?cluster=devnet' : ''}`;
+
+export interface TimelineStep {
+  id: string;
+  label: string;
+  state: BridgeStepState;
+  detail?: string;
+}
+
+// Vertical list of steps with done / active / pending / failed markers
+export function TimelineSteps({ steps }: { steps: TimelineStep[] }) {
+  return (
+    <ol className="space-y-2">
+      {steps.map((step) => (
+        <li key={step.id} className="flex items-start gap-2">
+          <span className="mt-0.5">{STEP_ICONS[step.state]}</span>
+          <div className="text-xs">
+            <p className={step.state === 'pending' ? 'text-sub-text' : 'text-white'}>
+              {step.label}
+              {step.detail && step.state !== 'failed' && (
+                <span className="text-sub-text"> · {step.detail}</span>
+              )}
+            </p>
+            {step.state === 'failed' && step.detail && (
+              <p className="text-red-400">{step.detail}</p>
+            )}
+          </div>
+        </li>
+      ))}
+    </ol>
+  );
+}
+
+// Step-by-step progress of one bridge job
+export function BridgeTimeline({ job, onDismiss }: BridgeTimelineProps) {
+  const [copied, setCopied] = useState(false);
+  const steps = getBridgeSteps(job);
+  const amount = formatTokenAmount(tokenAmount(ZBTC_MINT, ZBTC_DECIMALS, job.amountSats));
+  const isDeposit = job.direction === 'deposit';
+  // Mock jobs carry placeholder ids that no explorer knows
+  const linkable = job.provider !== 'mock';
+
+  const copyAddress = async () => {
+    if (!job.depositAddress) return;
+    await navigator.clipboard.writeText(job.depositAddress);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  return (
+    <div className="bg-[#0F0F0F] p-3 rounded-lg space-y-3">
+      <div className="flex justify-between items-start">
+        <div>
+          <p className="text-sm text-white">
+            {isDeposit ? `${amount} BTC → zBTC` : `${amount} zBTC → BTC`}
+          </p>
+          <p className="text-xs text-sub-text">
+            {new Date(job.createdAt).toLocaleString()} · {job.network}
+          </p>
+        </div>
+        {onDismiss && !isActiveBridgeJob(job) && (
+          <Button variant="ghost" size="sm" className="h-6 w-6 p-0" onClick={() => onDismiss(job.id)}>
+            <X className="h-3 w-3" />
+          </Button>
+        )}
+      </div>
+
+      {isDeposit && job.depositAddress && job.status === 'awaiting_deposit' && (
+        <div className="space-y-1">
+          <p className="text-xs text-sub-text">Send exactly {amount} BTC to</p>
+          <div className="flex items-center gap-2 bg-[#161616] border border-border rounded-lg p-2">
+            <span className="font-mono text-xs text-white break-all flex-1">{job.depositAddress}</span>
+            <Button variant="ghost" size="sm" className="h-6 px-2 text-xs" onClick={copyAddress}>
+              {copied ? 'Copied' : <Copy className="h-3 w-3" />}
+            </Button>
+          </div>
+          {job.expiresAt && (
+            <p className="text-xs text-sub-text">Valid until {new Date(job.expiresAt).toLocaleString()}</p>
+          )}
+        </div>
+      )}
+
+      {!isDeposit && job.btcAddress && (
+        <p className="text-xs text-sub-text break-all">
+          To <span className="font-mono text-white">{job.btcAddress}</span>
+        </p>
+      )}
+
+      <TimelineSteps steps={steps.map((step) => ({ ...step, id: step.status }))} />
+
+      {linkable && (job.btcTxid || job.solanaSignature) && (
+        <div className="flex gap-3 text-xs">
+          {job.btcTxid && (
+            <a href={btcTxUrl(job, job.btcTxid)} target="_blank" rel="noopener noreferrer" className="text-primary hover:underline">
+              Bitcoin transaction
+            </a>
+          )}
+          {job.solanaSignature && (
+            <a href={solanaTxUrl(job, job.solanaSignature)} target="_blank" rel="noopener noreferrer" className="text-primary hover:underline">
+              Solana transaction
+            </a>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,29 +1,148 @@
+"use client";
+
+import { useMemo, useRef, useState } from "react";
+import { useRouter } from "next/navigation";
 import WormholeConnect, {
+    AutomaticTokenBridgeRoute,
+    MayanRoute,
+    TokenBridgeRoute,
     WormholeConnectConfig,
     WormholeConnectTheme,
 } from '@wormhole-foundation/wormhole-connect';
+import type { WormholeConnectEvent } from '@wormhole-foundation/wormhole-connect';
+import { Button } from "@/components/ui/button";
+import { CheckCircle } from "lucide-react";
+import {
+    findRouteByDestination,
+    getWormholeBridgeConfig,
+    type BtcBridgeRoute,
+    type WormholeRouteName,
+    type WormholeToken,
+} from '@/lib/services/wormholeBridgeConfig';
+import { getPoolPairFilter } from '@/lib/utils/tokenRegistry';
+
+type TokensConfig = NonNullable<WormholeConnectConfig['tokensConfig']>;
+type RouteConstructor = NonNullable<WormholeConnectConfig['routes']>[number];
+
+const ROUTE_CONSTRUCTORS: Record<WormholeRouteName, RouteConstructor> = {
+    TokenBridge: TokenBridgeRoute,
+    AutomaticTokenBridge: AutomaticTokenBridgeRoute,
+    Mayan: MayanRoute,
+};
+
+// TokenIcon.BTC; Connect does not export the enum
+const BTC_TOKEN_ICON = 37 as TokensConfig[string]['icon'];
 
+const poolLabel = (filter: BtcBridgeRoute['poolFilter']) => getPoolPairFilter(filter)?.label ?? filter;
+
+const tokenKey = (token: WormholeToken) => `${token.chain}:${token.address}`;
 
 const Wormhole = () => {
-    const config: WormholeConnectConfig = {
-        network: 'Testnet',
-        chains: ['Sui', 'Avalanche'],
-        ui: {
-            title: 'Hypebiscus',
-        },
-    };
+    const router = useRouter();
+    const bridgeConfig = useMemo(() => getWormholeBridgeConfig(), []);
+    const [selectedId, setSelectedId] = useState<string | null>(bridgeConfig.routes[0]?.id ?? null);
+    const [arrived, setArrived] = useState<BtcBridgeRoute | null>(null);
+    const handledTransfers = useRef(new Set<string>());
+
+    const selected = bridgeConfig.routes.find((route) => route.id === selectedId) ?? null;
+
+    const config = useMemo((): WormholeConnectConfig => {
+        const tokens = bridgeConfig.routes.flatMap((route) => [route.from, route.to]);
+        const tokensConfig: TokensConfig = Object.fromEntries(tokens.map((token) => [tokenKey(token), {
+            symbol: token.symbol,
+            name: token.name,
+            decimals: token.decimals,
+            icon: BTC_TOKEN_ICON,
+            tokenId: { chain: token.chain, address: token.address },
+        }]));
+        const routeNames = selected ? selected.routes : bridgeConfig.routes.flatMap((route) => route.routes);
+
+        return {
+            network: bridgeConfig.environment,
+            chains: bridgeConfig.chains,
+            tokensConfig,
+            // Curated BTC routes only; the testnet has none, so it keeps Connect's defaults
+            ...(tokens.length > 0 && { tokens: tokens.map((token) => [token.chain, token.address] as [typeof token.chain, string]) }),
+            routes: Array.from(new Set(routeNames)).map((name) => ROUTE_CONSTRUCTORS[name]),
+            ui: {
+                title: 'Hypebiscus',
+                ...(selected && {
+                    defaultInputs: {
+                        fromChain: selected.from.chain,
+                        fromToken: selected.from.address,
+                        toChain: selected.to.chain,
+                        toToken: selected.to.address,
+                    },
+                }),
+            },
+            eventHandler: (event: WormholeConnectEvent) => {
+                if (event.type !== 'transfer.success' && event.type !== 'transfer.redeem.success') return;
+                const { toChain, toToken, txId } = event.details;
+                if (toToken.tokenId === 'native') return;
+
+                // Manual routes report both the transfer and the redeem; react once
+                const transferKey = txId ?? `${toChain}:${toToken.tokenId.address}`;
+                if (handledTransfers.current.has(transferKey)) return;
+                handledTransfers.current.add(transferKey);
+
+                setArrived(findRouteByDestination(bridgeConfig, toChain, toToken.tokenId.address));
+            },
+        };
+    }, [bridgeConfig, selected]);
 
     const theme: WormholeConnectTheme = {
         mode: 'dark',
         primary: '#FF4040',
     };
-  
-    
+
   return (
-    <div className="w-fit h-fit  max-w-3xl mx-auto bg-[#161616] px-6 rounded-2xl border-border border">
-    <WormholeConnect config={config} theme={theme} />
-  </div>
+    <div className="w-fit h-fit max-w-3xl mx-auto space-y-4">
+      {bridgeConfig.routes.length > 0 ? (
+        <div className="bg-[#161616] p-4 rounded-2xl border-border border space-y-2">
+          <p className="text-sm text-sub-text">Bring BTC into Solana</p>
+          <div className="flex flex-wrap gap-2">
+            {bridgeConfig.routes.map((route) => (
+              <Button
+                key={route.id}
+                variant={route.id === selectedId ? 'default' : 'outline'}
+                size="sm"
+                onClick={() => setSelectedId(route.id)}
+                className={route.id === selectedId ? 'bg-primary' : 'bg-transparent border-border'}
+              >
+                {route.label}
+              </Button>
+            ))}
+          </div>
+          {selected && (
+            <p className="text-xs text-sub-text">
+              Arrives as {selected.to.symbol} ({selected.to.address.slice(0, 4)}...{selected.to.address.slice(-4)}), the token used by {poolLabel(selected.poolFilter)} pools.
+            </p>
+          )}
+        </div>
+      ) : (
+        <p className="text-xs text-sub-text text-center">
+          No BTC routes on {bridgeConfig.environment}; use the Zeus tab to bridge native BTC.
+        </p>
+      )}
+
+      {arrived && (
+        <div className="flex items-center justify-between gap-3 bg-green-500/20 text-green-200 p-3 rounded-lg">
+          <div className="flex items-center gap-2">
+            <CheckCircle className="h-4 w-4 flex-shrink-0" />
+            <span className="text-sm">Your {arrived.to.symbol} has arrived on Solana.</span>
+          </div>
+          <Button size="sm" className="bg-primary hover:bg-primary/80" onClick={() => router.push(`/?tokenFilter=${arrived.poolFilter}`)}>
+            Find a {poolLabel(arrived.poolFilter)} pool
+          </Button>
+        </div>
+      )}
+
+      <div className="bg-[#161616] px-6 rounded-2xl border-border border">
+        {/* Remount when the route changes so the default inputs apply */}
+        <WormholeConnect key={selectedId ?? 'default'} config={config} theme={theme} />
+      </div>
+    </div>
   )
 }
 
-export default Wormhole
\ No newline at end of file
+export default Wormhole
@@ -1,51 +1,42 @@
 "use client";
 
-import { useState } from "react";
+import { useMemo, useState } from "react";
 import { useWallet } from '@solana/wallet-adapter-react';
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { Info, ArrowDown, Loader2, CheckCircle, AlertCircle } from "lucide-react";
-
-// Zeus bridge configuration interface
-interface ZeusBridgeConfig {
-  network: 'Mainnet' | 'Testnet';
-  theme?: {
-    mode?: 'dark' | 'light';
-    primary?: string;
-    background?: string;
-  };
-}
-
-// Status types for transactions
-type TransactionStatus = 'idle' | 'pending' | 'completed' | 'failed';
+import { Info, ArrowDown, Loader2, AlertCircle } from "lucide-react";
+import { BridgeTimeline } from "@/components/bridge-components/BridgeTimeline";
+import { BridgeDeployPipelineCard } from "@/components/bridge-components/BridgeDeployPipelineCard";
+import { useBridgeJobs } from "@/hooks/useBridgeJobs";
+import { useBridgeDeployPipelines } from "@/hooks/useBridgeDeployPipelines";
+import { ZBTC_DECIMALS, ZBTC_MINT, isActiveBridgeJob } from "@/lib/services/bridgeService";
+import { parseTokenAmount } from "@/lib/utils/tokenAmount";
+import { BTC_ADDRESS_TYPE_LABELS, validateBtcAddress } from "@/lib/utils/btcAddress";
 
 const Zeus = () => {
   const { connected } = useWallet();
+  const bridge = useBridgeJobs();
+  const { jobs, service, configError, startDeposit, startRedeem, dismissJob } = bridge;
+  const { activePipelines, runningId, continuePipeline, cancel } = useBridgeDeployPipelines(bridge);
   
   // States
   const [amount, setAmount] = useState<string>('');
   const [btcAddress, setBtcAddress] = useState<string>('');
   const [direction, setDirection] = useState<'toSolana' | 'toBtc'>('toSolana');
-  const [status, setStatus] = useState<TransactionStatus>('idle');
-  const [statusMessage, setStatusMessage] = useState<string>('');
-  const [isValidBtcAddress, setIsValidBtcAddress] = useState<boolean>(true);
+  const [isSubmitting, setIsSubmitting] = useState<boolean>(false);
+  const [errorMessage, setErrorMessage] = useState<string>('');
 
-  // Configuration for Zeus bridge
-  const config: ZeusBridgeConfig = {
-    network: 'Testnet',
-    theme: {
-      mode: 'dark',
-      primary: '#FF4040',
-      background: '#161616'
-    }
-  };
+  // Jobs driven by a bridge & invest pipeline are shown inside the pipeline
+  const pipelineJobIds = new Set(activePipelines.map(pipeline => pipeline.bridgeJobId));
+  const activeJobs = jobs.filter(job => isActiveBridgeJob(job) && !pipelineJobIds.has(job.id));
+  const finishedJobs = jobs.filter(job => !isActiveBridgeJob(job));
 
-  // Validate Bitcoin address with basic regex
-  const validateBtcAddress = (address: string): boolean => {
-    // Basic BTC address validation - in production, use a more robust validator
-    const btcAddressRegex = /^(bc1|[13])[a-zA-HJ-NP-Z0-9]{25,62}$/;
-    return btcAddressRegex.test(address);
-  };
+  // Decode the recipient address and check it belongs to the bridge's network
+  const addressValidation = useMemo(
+    () => (btcAddress.trim() ? validateBtcAddress(btcAddress, service?.network) : null),
+    [btcAddress, service]
+  );
+  const isValidBtcAddress = !addressValidation || addressValidation.valid;
 
   // Handle amount change
   const handleAmountChange = (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -58,9 +49,7 @@ const Zeus = () => {
 
   // Handle BTC address change
   const handleBtcAddressChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const address = e.target.value;
-    setBtcAddress(address);
-    setIsValidBtcAddress(address === '' || validateBtcAddress(address));
+    setBtcAddress(e.target.value.trim());
   };
 
   // Toggle bridge direction
@@ -68,47 +57,50 @@ const Zeus = () => {
     setDirection(direction === 'toSolana' ? 'toBtc' : 'toSolana');
   };
 
-  // Process the bridge transaction
+  // Start a deposit (deposit address + tracking) or a redeem (burn + release)
   const handleBridge = async () => {
+    setErrorMessage('');
+
     if (!connected) {
-      setStatusMessage('Please connect your wallet first');
+      setErrorMessage('Please connect your wallet first');
       return;
     }
 
-    if (!amount || parseFloat(amount) <= 0) {
-      setStatusMessage('Please enter a valid amount');
+    let amountSats: string;
+    try {
+      amountSats = parseTokenAmount(amount, ZBTC_MINT, ZBTC_DECIMALS).raw.toString();
+    } catch {
+      setErrorMessage('Please enter a valid amount');
+      return;
+    }
+    if (amountSats === '0') {
+      setErrorMessage('Please enter a valid amount');
       return;
     }
 
     if (direction === 'toBtc' && (!btcAddress || !isValidBtcAddress)) {
-      setStatusMessage('Please enter a valid Bitcoin address');
+      setErrorMessage(
+        addressValidation && !addressValidation.valid ? addressValidation.error : 'Please enter a valid Bitcoin address'
+      );
       return;
     }
 
     try {
-      setStatus('pending');
-      setStatusMessage(`Initiating ${direction === 'toSolana' ? 'BTC to Solana' : 'Solana to BTC'} bridge...`);
+      setIsSubmitting(true);
+      const job = direction === 'toSolana'
+        ? await startDeposit(amountSats)
+        : await startRedeem(amountSats, btcAddress);
 
-      // Simulating API call delay
-      await new Promise(resolve => setTimeout(resolve, 2000));
-
-      // In a real implementation, you would call the Zeus bridge API here
-      // For now, we'll simulate a successful transaction
-      
-      setStatus('completed');
-      setStatusMessage(`Successfully initiated ${direction === 'toSolana' ? 'BTC to Solana' : 'Solana to BTC'} bridge transaction!`);
-      
-      // Reset form after successful transaction
-      setTimeout(() => {
+      // A cancelled burn preview leaves the form as it was
+      if (job) {
         setAmount('');
         setBtcAddress('');
-        setStatus('idle');
-        setStatusMessage('');
-      }, 5000);
+      }
     } catch (error) {
       console.error('Bridge error:', error);
-      setStatus('failed');
-      setStatusMessage(`Failed to process transaction: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      setErrorMessage(`Failed to start the bridge: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setIsSubmitting(false);
     }
   };
 
@@ -145,7 +137,7 @@ const Zeus = () => {
           <div className="bg-[#0F0F0F] p-3 rounded-lg">
             <div className="flex justify-between items-center">
               <span className="text-white">
-                {direction === 'toSolana' ? 'BTC' : 'SOL'}
+                {direction === 'toSolana' ? 'BTC' : 'zBTC'}
               </span>
               <input
                 type="text"
@@ -196,8 +188,13 @@ const Zeus = () => {
               placeholder="Enter BTC address"
               className={`w-full bg-[#0F0F0F] p-3 rounded-lg text-white border ${!isValidBtcAddress ? 'border-red-500' : 'border-border'}`}
             />
-            {!isValidBtcAddress && btcAddress && (
-              <p className="text-xs text-red-500">Invalid Bitcoin address format</p>
+            {addressValidation && !addressValidation.valid && (
+              <p className="text-xs text-red-500">{addressValidation.error}</p>
+            )}
+            {addressValidation?.valid && (
+              <p className="text-xs text-green-400">
+                {BTC_ADDRESS_TYPE_LABELS[addressValidation.info.type]} · {addressValidation.info.network}
+              </p>
             )}
           </div>
         )}
@@ -208,35 +205,29 @@ const Zeus = () => {
           <div className="text-xs text-sub-text">
             <p className="mb-1">
               {direction === 'toSolana' 
-                ? "Bridge your Bitcoin to Solana to use in DeFi applications."
-                : "Bridge your zBTC back to native Bitcoin."
+                ? "You'll get a Bitcoin deposit address. zBTC is minted to your wallet once the deposit confirms."
+                : "Your zBTC is burned on Solana and Zeus releases the BTC to your address."
               }
             </p>
-            <p>Network fee: {direction === 'toSolana' ? '0.0001 BTC' : '0.001 SOL'}</p>
+            <p>You can leave this page; pending bridges resume when you come back.</p>
           </div>
         </div>
         
-        {/* Status message */}
-        {status !== 'idle' && statusMessage && (
-          <div className={`flex items-center gap-2 p-3 rounded-lg ${
-            status === 'pending' ? 'bg-yellow-500/20 text-yellow-200' :
-            status === 'completed' ? 'bg-green-500/20 text-green-200' :
-            'bg-red-500/20 text-red-200'
-          }`}>
-            {status === 'pending' && <Loader2 className="h-4 w-4 animate-spin" />}
-            {status === 'completed' && <CheckCircle className="h-4 w-4" />}
-            {status === 'failed' && <AlertCircle className="h-4 w-4" />}
-            <span className="text-sm">{statusMessage}</span>
+        {/* Error message */}
+        {(errorMessage || configError) && (
+          <div className="flex items-center gap-2 p-3 rounded-lg bg-red-500/20 text-red-200">
+            <AlertCircle className="h-4 w-4" />
+            <span className="text-sm">{errorMessage || configError}</span>
           </div>
         )}
         
         {/* Bridge button */}
         <Button
           onClick={handleBridge}
-          disabled={!amount || parseFloat(amount) <= 0 || status === 'pending' || (direction === 'toBtc' && (!btcAddress || !isValidBtcAddress))}
+          disabled={!service || !amount || parseFloat(amount) <= 0 || isSubmitting || (direction === 'toBtc' && (!btcAddress || !isValidBtcAddress))}
           className="w-full bg-primary hover:bg-primary/80"
         >
-          {status === 'pending' ? (
+          {isSubmitting ? (
             <>
               <Loader2 className="h-4 w-4 mr-2 animate-spin" />
               Processing...
@@ -246,9 +237,44 @@ const Zeus = () => {
           )}
         </Button>
         
+        {/* Bridge & invest pipelines */}
+        {activePipelines.length > 0 && (
+          <div className="space-y-2">
+            <p className="text-sm text-sub-text">Bridge &amp; invest</p>
+            {activePipelines.map(pipeline => (
+              <BridgeDeployPipelineCard
+                key={pipeline.id}
+                pipeline={pipeline}
+                job={jobs.find(job => job.id === pipeline.bridgeJobId)}
+                isRunning={runningId === pipeline.id}
+                onContinue={continuePipeline}
+                onCancel={cancel}
+              />
+            ))}
+          </div>
+        )}
+        
+        {/* Pending and recent bridges */}
+        {activeJobs.length > 0 && (
+          <div className="space-y-2">
+            <p className="text-sm text-sub-text">In progress</p>
+            {activeJobs.map(job => <BridgeTimeline key={job.id} job={job} />)}
+          </div>
+        )}
+        {finishedJobs.length > 0 && (
+          <div className="space-y-2">
+            <p className="text-sm text-sub-text">Recent</p>
+            {finishedJobs.slice(0, 3).map(job => (
+              <BridgeTimeline key={job.id} job={job} onDismiss={dismissJob} />
+            ))}
+          </div>
+        )}
+        
         {/* Network information */}
         <div className="text-center text-xs text-sub-text">
-          Running on {config.network} · Zeus Protocol
+          {service
+            ? `Running on ${service.network === 'mainnet' ? 'Mainnet' : 'Testnet'} · ${service.name === 'mock' ? 'Mock bridge' : 'Zeus Protocol'}`
+            : 'Bridge unavailable'}
         </div>
       </CardContent>
     </Card>
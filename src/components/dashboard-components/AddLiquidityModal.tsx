@@ -5,7 +5,7 @@ import { Loader2, Info, AlertTriangle, CheckCircle, ChevronDown, ChevronUp } fro
 import { useWallet } from '@solana/wallet-adapter-react';
 import { useMeteoraDlmmService } from "@/lib/meteora/meteoraDlmmService";
 import { useMeteoraPositionService } from "@/lib/meteora/meteoraPositionService";
-import type { ExistingBinRange } from "@/lib/meteora/meteoraPositionService";
+import { buildExistingBinRange, getMaxActiveBinSlippage, type ExistingBinRange } from "@/lib/meteora/meteoraPositionService";
 import { BN } from 'bn.js';
 import { StrategyType } from '@meteora-ag/dlmm';
 import { FormattedPool } from '@/lib/utils/poolUtils';
@@ -13,6 +13,19 @@ import { Connection, LAMPORTS_PER_SOL } from '@solana/web3.js';
 import { TOKEN_PROGRAM_ID } from '@solana/spl-token';
 import { showToast } from "@/lib/utils/showToast";
 import { useTokenData } from '@/hooks/useTokenData';
+import { useTransactionPreview } from '@/context/TransactionPreviewProvider';
+import { DLMMError, DLMMErrorType } from '@/lib/meteora/meteoraDlmmService';
+import { usePoolBinDistribution } from '@/hooks/usePoolBinDistribution';
+import { BinDistributionChart, type BinRangeSelection } from './BinDistributionChart';
+import {
+  compareTokenAmounts,
+  formatTokenAmount,
+  parseTokenAmount,
+  percentOfTokenAmount,
+  tokenAmount,
+  toUiNumber,
+  type TokenAmount,
+} from '@/lib/utils/tokenAmount';
 
 interface AddLiquidityModalProps {
   isOpen: boolean;
@@ -40,6 +53,49 @@ interface StrategyOption {
   isDefault?: boolean;
 }
 
+type DepositMode = 'one-sided' | 'two-sided';
+
+// Liquidity shapes offered in expert mode
+const EXPERT_STRATEGIES = [
+  { type: StrategyType.Spot, label: 'Spot', description: 'Even across the range' },
+  { type: StrategyType.Curve, label: 'Curve', description: 'Concentrated near the price' },
+  { type: StrategyType.BidAsk, label: 'BidAsk', description: 'Weighted to the edges' },
+] as const;
+
+// Active-bin slippage choices (bins) offered in expert mode
+const SLIPPAGE_OPTIONS = [1, 3, 5, 10] as const;
+
+// Widest range a single position can hold
+const MAX_RANGE_BINS = 69;
+
+/**
+ * Why an expert range cannot be used for the deposit, or null when it can
+ */
+function checkExpertRange(
+  { minBinId, maxBinId }: BinRangeSelection,
+  activeBinId: number | null,
+  depositMode: DepositMode,
+  tokenX: string
+): string | null {
+  const width = maxBinId - minBinId + 1;
+  if (width < 3) {
+    return 'The range must cover at least 3 bins. Widen the price bounds.';
+  }
+  if (width > MAX_RANGE_BINS) {
+    return `The range covers ${width} bins but a position holds at most ${MAX_RANGE_BINS}. Narrow the price bounds.`;
+  }
+  if (activeBinId === null) return null;
+  if (depositMode === 'one-sided' && minBinId < activeBinId) {
+    return `A ${tokenX}-only deposit must sit at or above the current price. Raise the lower bound.`;
+  }
+  if (depositMode === 'two-sided' && (activeBinId < minBinId || activeBinId > maxBinId)) {
+    return 'A two-sided deposit must include the current price.';
+  }
+  return null;
+}
+
+const formatPriceInput = (price: number) => String(Number(price.toPrecision(8)));
+
 // Simplified timing constants
 const TIMING = {
   TRANSACTION_DELAY: 800,
@@ -64,10 +120,12 @@ const AddLiquidityModal: React.FC<AddLiquidityModalProps> = ({
   userPortfolioStyle = 'conservative'
 }) => {
   const actualPortfolioStyle = userPortfolioStyle || 'conservative';
-  const { publicKey, sendTransaction } = useWallet();
+  const { publicKey } = useWallet();
   const { service: dlmmService } = useMeteoraDlmmService();
+  const { previewAndSend } = useTransactionPreview();
   const { service: positionService } = useMeteoraPositionService();
   const tokens = useTokenData();
+  const { distribution } = usePoolBinDistribution(isOpen && pool ? pool.address : null);
   
   // State management
   const [amount, setAmount] = useState('');
@@ -80,7 +138,23 @@ const AddLiquidityModal: React.FC<AddLiquidityModalProps> = ({
   const [existingBinRanges, setExistingBinRanges] = useState<ExistingBinRange[]>([]);
   const [isLoadingBins, setIsLoadingBins] = useState(false);
   const [binRangesLoaded, setBinRangesLoaded] = useState(false);
-  const [userTokenBalance, setUserTokenBalance] = useState<number>(0);
+  const [tokenBalance, setTokenBalance] = useState<TokenAmount | null>(null);
+  const userTokenBalance = tokenBalance ? toUiNumber(tokenBalance) : 0;
+
+  // Expert mode: explicit strategy, price bounds and deposit sides
+  const [expertMode, setExpertMode] = useState(false);
+  const [expertStrategy, setExpertStrategy] = useState<StrategyType>(StrategyType.BidAsk);
+  const [depositMode, setDepositMode] = useState<DepositMode>('two-sided');
+  const [lowerPrice, setLowerPrice] = useState('');
+  const [upperPrice, setUpperPrice] = useState('');
+  const [pricesEdited, setPricesEdited] = useState(false);
+  const [expertBins, setExpertBins] = useState<BinRangeSelection | null>(null);
+  const [expertRange, setExpertRange] = useState<ExistingBinRange | null>(null);
+  const [expertRangeError, setExpertRangeError] = useState('');
+  const [isValidatingRange, setIsValidatingRange] = useState(false);
+  const [maxBinSlippage, setMaxBinSlippage] = useState(getMaxActiveBinSlippage);
+  // Set when the price moved past the tolerance between building and signing
+  const [priceMoved, setPriceMoved] = useState<{ message: string; activeBinId: number | null } | null>(null);
   
   // UI state
   const [showDetails, setShowDetails] = useState(false);
@@ -89,6 +163,7 @@ const AddLiquidityModal: React.FC<AddLiquidityModalProps> = ({
 
   // Refs
   const findingBinsRef = useRef(false);
+  const rangeValidationRef = useRef(0);
   const poolAddressRef = useRef<string | null>(null);
 
   // Get token names from pool
@@ -101,7 +176,7 @@ const AddLiquidityModal: React.FC<AddLiquidityModalProps> = ({
     };
   }, [pool]);
 
-  const { tokenX } = getTokenNames();
+  const { tokenX, tokenY } = getTokenNames();
 
   // Simplified strategy options
   const strategyOptions: StrategyOption[] = useMemo(() => {
@@ -183,7 +258,7 @@ const AddLiquidityModal: React.FC<AddLiquidityModalProps> = ({
 
       if (!targetTokenMint) {
         console.warn(`Could not determine mint address for token: ${tokenX} in pool: ${pool.name}`);
-        setUserTokenBalance(0);
+        setTokenBalance(null);
         return;
       }
 
@@ -200,15 +275,15 @@ const AddLiquidityModal: React.FC<AddLiquidityModalProps> = ({
       });
 
       if (targetAccount) {
-        const balance = targetAccount.account.data.parsed.info.tokenAmount.uiAmount || 0;
-        setUserTokenBalance(balance);
+        const { amount: rawBalance, decimals } = targetAccount.account.data.parsed.info.tokenAmount;
+        setTokenBalance(tokenAmount(targetTokenMint, decimals, rawBalance));
       } else {
-        setUserTokenBalance(0);
+        setTokenBalance(null);
       }
 
     } catch (error) {
       console.error('Error fetching token balance:', error);
-      setUserTokenBalance(0);
+      setTokenBalance(null);
     }
   }, [publicKey, pool, tokens, getTokenNames]);
 
@@ -246,7 +321,7 @@ const AddLiquidityModal: React.FC<AddLiquidityModalProps> = ({
           minBinId: activeBin.binId - 30,
           maxBinId: activeBin.binId + 30,
           existingBins: Array.from({length: 61}, (_, i) => activeBin.binId - 30 + i),
-          liquidityDepth: 61,
+          liquidityDepth: 0,
           isPopular: false,
           description: 'Safe price range around current market price'
         };
@@ -269,7 +344,7 @@ const AddLiquidityModal: React.FC<AddLiquidityModalProps> = ({
         minBinId: currentBinId ? currentBinId - 30 : 0,
         maxBinId: currentBinId ? currentBinId + 30 : 60,
         existingBins: currentBinId ? Array.from({length: 61}, (_, i) => currentBinId - 30 + i) : Array.from({length: 61}, (_, i) => i),
-        liquidityDepth: 61,
+        liquidityDepth: 0,
         isPopular: false,
         description: 'Safe price range around current market price'
       };
@@ -281,6 +356,112 @@ const AddLiquidityModal: React.FC<AddLiquidityModalProps> = ({
     }
   }, [actualPortfolioStyle, dlmmService, positionService, currentBinId]);
 
+  // A range drawn on the depth chart becomes the one used for the position
+  const handleRangeDrag = useCallback(({ minBinId, maxBinId }: BinRangeSelection) => {
+    if (!distribution) return;
+    const custom = buildExistingBinRange(distribution.binIndex, minBinId, maxBinId, 'Custom range');
+    if (!custom) {
+      showToast.warning('Range unavailable', 'That price range has too few bins. Try a wider range.');
+      return;
+    }
+    setExistingBinRanges(ranges => [
+      custom,
+      ...ranges.filter(range => range.minBinId !== minBinId || range.maxBinId !== maxBinId),
+    ]);
+  }, [distribution]);
+
+  // Check an expert range against the deposit rules and the bins that exist on-chain
+  const validateExpertRange = useCallback(async (bins: BinRangeSelection, mode: DepositMode) => {
+    if (!pool) return;
+    const validationId = ++rangeValidationRef.current;
+    const isCurrent = () => validationId === rangeValidationRef.current;
+
+    setExpertRange(null);
+    const problem = checkExpertRange(bins, currentBinId, mode, tokenX);
+    setExpertRangeError(problem || '');
+    if (problem) return;
+
+    setIsValidatingRange(true);
+    try {
+      const validation = await dlmmService.validateExistingBinsOnly(pool.address, bins.minBinId, bins.maxBinId);
+      if (!validation.isValid) {
+        if (isCurrent()) setExpertRangeError(validation.error || 'This range uses bins that do not exist yet.');
+        return;
+      }
+
+      const range = await positionService.getExistingBinRange(pool.address, bins.minBinId, bins.maxBinId);
+      if (!isCurrent()) return;
+      if (range) {
+        setExpertRange(range);
+      } else {
+        setExpertRangeError('Not enough existing bins in this range.');
+      }
+    } catch (error) {
+      console.error('Error validating range:', error);
+      if (isCurrent()) setExpertRangeError('Unable to check this range. Please try again.');
+    } finally {
+      if (isCurrent()) setIsValidatingRange(false);
+    }
+  }, [pool, currentBinId, tokenX, dlmmService, positionService]);
+
+  // Use a bin range for expert mode and show its bounds as prices
+  const selectExpertBins = useCallback(async (bins: BinRangeSelection) => {
+    if (!pool) return;
+    setExpertBins(bins);
+    setPricesEdited(false);
+    validateExpertRange(bins, depositMode);
+
+    try {
+      const [lower, upper] = await Promise.all([
+        positionService.getBinPrice(pool.address, bins.minBinId),
+        positionService.getBinPrice(pool.address, bins.maxBinId),
+      ]);
+      setLowerPrice(formatPriceInput(lower));
+      setUpperPrice(formatPriceInput(upper));
+    } catch (error) {
+      console.error('Error reading bin prices:', error);
+    }
+  }, [pool, depositMode, validateExpertRange, positionService]);
+
+  // Convert typed price bounds to bins once the user leaves the field
+  const applyPriceBounds = useCallback(async () => {
+    if (!pool || !pricesEdited || !lowerPrice || !upperPrice) return;
+    setPricesEdited(false);
+
+    try {
+      const bins = await positionService.getBinRangeForPrices(pool.address, parseFloat(lowerPrice), parseFloat(upperPrice));
+      setExpertBins(bins);
+      validateExpertRange(bins, depositMode);
+    } catch (error) {
+      setExpertBins(null);
+      setExpertRange(null);
+      setExpertRangeError(error instanceof Error ? error.message : 'Invalid price range');
+    }
+  }, [pool, pricesEdited, lowerPrice, upperPrice, depositMode, validateExpertRange, positionService]);
+
+  const handlePriceChange = (setPrice: (value: string) => void) => (e: React.ChangeEvent<HTMLInputElement>) => {
+    const value = e.target.value;
+    if (/^[0-9]*\.?[0-9]*$/.test(value) || value === '') {
+      setPrice(value);
+      setPricesEdited(true);
+    }
+  };
+
+  const handleDepositModeChange = (mode: DepositMode) => {
+    setDepositMode(mode);
+    if (expertBins) validateExpertRange(expertBins, mode);
+  };
+
+  // Expert mode starts from the recommended range
+  const toggleExpertMode = () => {
+    const enabling = !expertMode;
+    setExpertMode(enabling);
+    if (enabling && !expertBins && existingBinRanges.length > 0) {
+      const { minBinId, maxBinId } = existingBinRanges[0];
+      selectExpertBins({ minBinId, maxBinId });
+    }
+  };
+
   // Load existing bins when modal opens
   useEffect(() => {
     if (isOpen && pool && pool.address !== poolAddressRef.current && !binRangesLoaded && !isLoadingBins) {
@@ -299,9 +480,17 @@ const AddLiquidityModal: React.FC<AddLiquidityModalProps> = ({
       setValidationError('');
       setAmount('');
       setSelectedStrategy('');
-      setUserTokenBalance(0);
+      setTokenBalance(null);
       setActivePercentage(null);
       setIsUpdatingAmount(false);
+      setLowerPrice('');
+      setUpperPrice('');
+      setPricesEdited(false);
+      setExpertBins(null);
+      setExpertRange(null);
+      setExpertRangeError('');
+      setPriceMoved(null);
+      rangeValidationRef.current++;
       poolAddressRef.current = null;
       findingBinsRef.current = false;
     }
@@ -318,7 +507,7 @@ const AddLiquidityModal: React.FC<AddLiquidityModalProps> = ({
   const handlePercentageClick = useCallback((percentage: number) => {
     if (isUpdatingAmount) return;
     
-    if (userTokenBalance <= 0) {
+    if (!tokenBalance || tokenBalance.raw.isZero()) {
       showToast.warning('No Balance', `You don't have any ${tokenX} tokens to add.`);
       return;
     }
@@ -326,7 +515,7 @@ const AddLiquidityModal: React.FC<AddLiquidityModalProps> = ({
     setIsUpdatingAmount(true);
     setActivePercentage(percentage);
     
-    const newAmount = (userTokenBalance * percentage / 100).toFixed(6);
+    const newAmount = formatTokenAmount(percentOfTokenAmount(tokenBalance, percentage));
     setAmount(newAmount);
     
     showToast.success('Amount Updated', `Set to ${percentage}% of your balance`);
@@ -334,13 +523,13 @@ const AddLiquidityModal: React.FC<AddLiquidityModalProps> = ({
     setTimeout(() => {
       setIsUpdatingAmount(false);
     }, 300);
-  }, [userTokenBalance, isUpdatingAmount, tokenX]);
+  }, [tokenBalance, isUpdatingAmount, tokenX]);
 
   // Handle max button
   const handleMaxClick = useCallback(() => {
     if (isUpdatingAmount) return;
     
-    if (userTokenBalance <= 0) {
+    if (!tokenBalance || tokenBalance.raw.isZero()) {
       showToast.warning('No Balance', `You don't have any ${tokenX} tokens to add.`);
       return;
     }
@@ -348,7 +537,7 @@ const AddLiquidityModal: React.FC<AddLiquidityModalProps> = ({
     setIsUpdatingAmount(true);
     setActivePercentage(100);
     
-    const newAmount = userTokenBalance.toFixed(6);
+    const newAmount = formatTokenAmount(tokenBalance);
     setAmount(newAmount);
     
     showToast.success('Amount Updated', `Set to maximum: ${newAmount} ${tokenX}`);
@@ -356,7 +545,7 @@ const AddLiquidityModal: React.FC<AddLiquidityModalProps> = ({
     setTimeout(() => {
       setIsUpdatingAmount(false);
     }, 300);
-  }, [userTokenBalance, tokenX, isUpdatingAmount]);
+  }, [tokenBalance, tokenX, isUpdatingAmount]);
 
   // Balance checking
   const checkUserBalances = useCallback(async () => {
@@ -421,6 +610,11 @@ const AddLiquidityModal: React.FC<AddLiquidityModalProps> = ({
   const handleAddLiquidity = async () => {
     if (!pool || !publicKey || !amount || parseFloat(amount) <= 0 || !currentBinId || !selectedStrategyOption || existingBinRanges.length === 0) return;
 
+    if (expertMode && !expertRange) {
+      showToast.error('Invalid Range', expertRangeError || 'Set a valid price range first.');
+      return;
+    }
+
     if (balanceInfo && !balanceInfo.hasEnoughSol) {
       showToast.error('Not Enough SOL', 
         validationError || 'You need more SOL to complete this transaction.'
@@ -429,40 +623,51 @@ const AddLiquidityModal: React.FC<AddLiquidityModalProps> = ({
     }
 
     setIsLoading(true);
+    setPriceMoved(null);
     
     try {
-      const decimals = 8;
-      const bnAmount = new BN(parseFloat(amount) * Math.pow(10, decimals));
-      
-      const selectedRange = existingBinRanges[0];
+      // The pool's own mint decides the decimals; the typed string is scaled without floats
+      const dlmmPool = await positionService.initializePool(pool.address);
+      const depositAmount = parseTokenAmount(amount, dlmmPool.tokenX.publicKey.toBase58(), dlmmPool.tokenX.mint.decimals);
+
+      if (depositAmount.raw.isZero()) {
+        showToast.error('Amount Too Small', `The amount is below the smallest unit of ${tokenX}.`);
+        return;
+      }
+      if (tokenBalance && tokenBalance.mint === depositAmount.mint && compareTokenAmounts(depositAmount, tokenBalance) > 0) {
+        showToast.error(`Not Enough ${tokenX}`, `You have ${formatTokenAmount(tokenBalance)} ${tokenX} available.`);
+        return;
+      }
       
-      const result = await positionService.createPositionWithExistingBins({
+      const selectedRange = expertMode && expertRange ? expertRange : existingBinRanges[0];
+      const strategyType = expertMode ? expertStrategy : StrategyType.BidAsk;
+      const params = {
         poolAddress: pool.address,
         userPublicKey: publicKey,
-        totalXAmount: bnAmount,
+        totalXAmount: depositAmount.raw,
         totalYAmount: new BN(0),
         minBinId: selectedRange.minBinId,
         maxBinId: selectedRange.maxBinId,
-        strategyType: StrategyType.BidAsk,
-        useAutoFill: false
-      }, selectedRange);
-      
-      const transactionSignatures: string[] = [];
+        strategyType,
+        // Two-sided expert deposits pair the amount with token Y at the pool's ratio
+        useAutoFill: expertMode && depositMode === 'two-sided',
+        maxActiveBinSlippage: maxBinSlippage
+      };
+
+      const result = expertMode && depositMode === 'one-sided'
+        ? await positionService.createOneSidedPosition(params, true, selectedRange)
+        : await positionService.createPositionWithExistingBins(params, selectedRange);
       
-      if (Array.isArray(result.transaction)) {
-        for (let i = 0; i < result.transaction.length; i++) {
-          const tx = result.transaction[i];
-          const signature = await sendTransaction(tx, dlmmService.connection, {
-            signers: [result.positionKeypair]
-          });
-          transactionSignatures.push(signature);
-        }
-      } else {
-        const signature = await sendTransaction(result.transaction, dlmmService.connection, {
-          signers: [result.positionKeypair]
-        });
-        transactionSignatures.push(signature);
-      }
+      const strategyLabel = EXPERT_STRATEGIES.find(option => option.type === strategyType)?.label;
+      const transactionSignatures = await previewAndSend({
+        title: 'Add Liquidity',
+        description: `Add ${formatTokenAmount(depositAmount)} ${tokenX} to ${pool.name} in bins ${selectedRange.minBinId}-${selectedRange.maxBinId}` +
+          (expertMode ? ` (${strategyLabel}, ${depositMode})` : ''),
+        transactions: Array.isArray(result.transaction) ? result.transaction : [result.transaction],
+        signers: [result.positionKeypair],
+        beforeSend: () => positionService.assertActiveBinWithinSlippage(result.activeBinGuard),
+      });
+      if (!transactionSignatures) return;
       
       setTimeout(() => {
         showToast.success('Success!', `Your ${amount} ${tokenX} has been added to the pool. You'll start earning fees from trading activity.`);
@@ -478,7 +683,17 @@ const AddLiquidityModal: React.FC<AddLiquidityModalProps> = ({
       console.error('Error adding liquidity:', error);
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
       
-      if (errorMessage.includes('insufficient funds') || errorMessage.includes('insufficient lamports')) {
+      if (error instanceof DLMMError && error.type === DLMMErrorType.ACTIVE_BIN_MOVED) {
+        let activeBinId: number | null = null;
+        try {
+          activeBinId = JSON.parse(error.details || '{}').currentActiveBinId ?? null;
+        } catch {
+          // The prompt works without the new bin id
+        }
+        setPriceMoved({ message: error.message, activeBinId });
+      } else if (error instanceof DLMMError) {
+        showToast.error('Transaction Blocked', error.message);
+      } else if (errorMessage.includes('insufficient funds') || errorMessage.includes('insufficient lamports')) {
         showToast.error('Not Enough SOL', 
           `You need about ${selectedStrategyOption.estimatedCost.toFixed(2)} SOL to start earning.`
         );
@@ -496,6 +711,13 @@ const AddLiquidityModal: React.FC<AddLiquidityModalProps> = ({
     }
   };
 
+  // Build the deposit again against the current active bin
+  const handleRebuild = () => {
+    if (priceMoved?.activeBinId != null) setCurrentBinId(priceMoved.activeBinId);
+    setPriceMoved(null);
+    handleAddLiquidity();
+  };
+
   const getRiskColor = (risk: string) => {
     switch (risk) {
       case 'conservative': return 'text-green-400';
@@ -527,7 +749,7 @@ const AddLiquidityModal: React.FC<AddLiquidityModalProps> = ({
               <div className="flex justify-between items-center text-xs text-sub-text">
                 <span>Available:</span>
                 <span className="font-medium">
-                  {userTokenBalance.toFixed(6)} {tokenX}
+                  {tokenBalance ? formatTokenAmount(tokenBalance, { maxDecimals: 6, minDecimals: 6 }) : '0.000000'} {tokenX}
                 </span>
               </div>
             )}
@@ -626,30 +848,176 @@ const AddLiquidityModal: React.FC<AddLiquidityModalProps> = ({
           {/* Strategy Display */}
           {strategyOptions.length > 0 && (
             <div className="space-y-4">
-              <label className="text-sm text-sub-text block font-medium">
-                Your Strategy
-              </label>
+              <div className="flex justify-between items-center">
+                <label className="text-sm text-sub-text block font-medium">
+                  Your Strategy
+                </label>
+                <button
+                  type="button"
+                  onClick={toggleExpertMode}
+                  className={`text-xs px-2 py-1 rounded border transition-colors ${
+                    expertMode ? 'border-primary text-primary bg-primary/10' : 'border-border text-sub-text hover:text-white'
+                  }`}
+                >
+                  Expert mode {expertMode ? 'on' : 'off'}
+                </button>
+              </div>
               
-              <div className="p-4 border border-primary bg-primary/10 rounded-lg">
-                <div className="flex justify-between items-start">
-                  <div className="flex-1">
-                    <div className="flex items-center gap-2 mb-2">
-                      <span className="text-2xl">{selectedStrategyOption?.icon}</span>
-                      <div>
-                        <div className="font-medium text-white text-sm">
-                          {selectedStrategyOption?.label}
-                        </div>
-                        <div className={`text-xs ${getRiskColor(actualPortfolioStyle)}`}>
-                          {selectedStrategyOption?.subtitle}
-                        </div>
+              {expertMode ? (
+                <div className="p-4 border border-border bg-[#0f0f0f] rounded-lg space-y-4">
+                  <div className="space-y-2">
+                    <div className="text-xs text-sub-text">Liquidity shape</div>
+                    <div className="grid grid-cols-3 gap-2">
+                      {EXPERT_STRATEGIES.map(option => (
+                        <button
+                          key={option.label}
+                          type="button"
+                          onClick={() => setExpertStrategy(option.type)}
+                          className={`p-2 rounded border text-left transition-colors ${
+                            expertStrategy === option.type ? 'border-primary bg-primary/10' : 'border-border hover:border-primary/50'
+                          }`}
+                        >
+                          <div className="text-sm font-medium text-white">{option.label}</div>
+                          <div className="text-xs text-sub-text">{option.description}</div>
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+
+                  <div className="space-y-2">
+                    <div className="text-xs text-sub-text">Price range ({tokenY} per {tokenX})</div>
+                    <div className="grid grid-cols-2 gap-2">
+                      <input
+                        type="text"
+                        value={lowerPrice}
+                        onChange={handlePriceChange(setLowerPrice)}
+                        onBlur={applyPriceBounds}
+                        placeholder="Lower price"
+                        className="w-full bg-[#161616] border border-border rounded p-2 text-white text-sm"
+                      />
+                      <input
+                        type="text"
+                        value={upperPrice}
+                        onChange={handlePriceChange(setUpperPrice)}
+                        onBlur={applyPriceBounds}
+                        placeholder="Upper price"
+                        className="w-full bg-[#161616] border border-border rounded p-2 text-white text-sm"
+                      />
+                    </div>
+                    {expertBins && (
+                      <div className="text-xs text-sub-text">
+                        Bins {expertBins.minBinId} to {expertBins.maxBinId}
+                        {currentBinId !== null && ` · current price at bin ${currentBinId}`}
+                      </div>
+                    )}
+                  </div>
+
+                  <div className="space-y-2">
+                    <div className="text-xs text-sub-text">Deposit</div>
+                    <div className="grid grid-cols-2 gap-2">
+                      {(['one-sided', 'two-sided'] as const).map(mode => (
+                        <button
+                          key={mode}
+                          type="button"
+                          onClick={() => handleDepositModeChange(mode)}
+                          className={`p-2 rounded border text-sm transition-colors ${
+                            depositMode === mode ? 'border-primary bg-primary/10 text-white' : 'border-border text-sub-text hover:border-primary/50'
+                          }`}
+                        >
+                          {mode === 'one-sided' ? `${tokenX} only` : `${tokenX} + ${tokenY}`}
+                        </button>
+                      ))}
+                    </div>
+                    {depositMode === 'two-sided' && (
+                      <div className="text-xs text-sub-text">
+                        The matching {tokenY} amount is added from your wallet automatically.
                       </div>
+                    )}
+                  </div>
+
+                  <div className="space-y-2">
+                    <div className="text-xs text-sub-text">Price tolerance</div>
+                    <div className="grid grid-cols-4 gap-2">
+                      {SLIPPAGE_OPTIONS.map(bins => (
+                        <button
+                          key={bins}
+                          type="button"
+                          onClick={() => setMaxBinSlippage(bins)}
+                          className={`p-2 rounded border text-sm transition-colors ${
+                            maxBinSlippage === bins ? 'border-primary bg-primary/10 text-white' : 'border-border text-sub-text hover:border-primary/50'
+                          }`}
+                        >
+                          {bins} bin{bins > 1 ? 's' : ''}
+                        </button>
+                      ))}
                     </div>
                     <div className="text-xs text-sub-text">
-                      {selectedStrategyOption?.description}
+                      The deposit is rejected if the price moves more than this before it lands.
                     </div>
                   </div>
-                  <CheckCircle className="h-5 w-5 text-primary flex-shrink-0 ml-2" />
+
+                  {isValidatingRange ? (
+                    <div className="flex items-center gap-2 text-xs text-sub-text">
+                      <Loader2 className="h-3 w-3 animate-spin" />
+                      Checking range...
+                    </div>
+                  ) : expertRangeError ? (
+                    <div className="flex items-start gap-2 text-xs text-red-300">
+                      <AlertTriangle className="h-4 w-4 flex-shrink-0" />
+                      <span>{expertRangeError}</span>
+                    </div>
+                  ) : expertRange && (
+                    <div className="flex items-center gap-2 text-xs text-green-400">
+                      <CheckCircle className="h-4 w-4 flex-shrink-0" />
+                      <span>{expertRange.description}</span>
+                    </div>
+                  )}
                 </div>
+              ) : (
+                <div className="p-4 border border-primary bg-primary/10 rounded-lg">
+                  <div className="flex justify-between items-start">
+                    <div className="flex-1">
+                      <div className="flex items-center gap-2 mb-2">
+                        <span className="text-2xl">{selectedStrategyOption?.icon}</span>
+                        <div>
+                          <div className="font-medium text-white text-sm">
+                            {selectedStrategyOption?.label}
+                          </div>
+                          <div className={`text-xs ${getRiskColor(actualPortfolioStyle)}`}>
+                            {selectedStrategyOption?.subtitle}
+                          </div>
+                        </div>
+                      </div>
+                      <div className="text-xs text-sub-text">
+                        {selectedStrategyOption?.description}
+                      </div>
+                    </div>
+                    <CheckCircle className="h-5 w-5 text-primary flex-shrink-0 ml-2" />
+                  </div>
+                </div>
+              )}
+            </div>
+          )}
+
+          {/* Liquidity Depth */}
+          {distribution && existingBinRanges.length > 0 && binRangesLoaded && (
+            <div className="space-y-2">
+              <label className="text-sm text-sub-text block font-medium">
+                Your Price Range
+              </label>
+              <div className="bg-[#0f0f0f] border border-border rounded-lg p-4">
+                <BinDistributionChart
+                  points={distribution.points}
+                  activeBinId={distribution.binIndex.activeBinId}
+                  range={expertMode && expertBins ? expertBins : existingBinRanges[0]}
+                  onRangeChange={expertMode ? selectExpertBins : handleRangeDrag}
+                  bounds={distribution.span || {
+                    minBinId: distribution.points[0]?.binId ?? existingBinRanges[0].minBinId,
+                    maxBinId: distribution.points[distribution.points.length - 1]?.binId ?? existingBinRanges[0].maxBinId,
+                  }}
+                  tokenX={tokenX}
+                  tokenY={tokenY}
+                />
               </div>
             </div>
           )}
@@ -687,6 +1055,27 @@ const AddLiquidityModal: React.FC<AddLiquidityModalProps> = ({
             </div>
           )}
 
+          {/* Price Moved Prompt */}
+          {priceMoved && (
+            <div className="bg-yellow-500/20 border border-yellow-500/50 rounded-lg p-4 space-y-3">
+              <div className="flex items-start gap-3">
+                <AlertTriangle className="h-5 w-5 text-yellow-400 flex-shrink-0 mt-0.5" />
+                <div className="text-sm text-yellow-200">
+                  <div className="font-medium">Price moved, rebuild?</div>
+                  <div>{priceMoved.message} Nothing was signed or sent.</div>
+                </div>
+              </div>
+              <div className="flex gap-2 justify-end">
+                <Button size="sm" variant="outline" onClick={() => setPriceMoved(null)} disabled={isLoading}>
+                  Dismiss
+                </Button>
+                <Button size="sm" className="bg-primary hover:bg-primary/80" onClick={handleRebuild} disabled={isLoading}>
+                  Rebuild deposit
+                </Button>
+              </div>
+            </div>
+          )}
+
           {/* Validation Error */}
           {validationError && (
             <div className="bg-red-500/20 border border-red-500/50 rounded-lg p-4 flex items-start gap-3">
@@ -767,6 +1156,7 @@ const AddLiquidityModal: React.FC<AddLiquidityModalProps> = ({
               isCheckingBalance ||
               isLoadingBins ||
               existingBinRanges.length === 0 ||
+              (expertMode && (!expertRange || isValidatingRange)) ||
               (balanceInfo ? !balanceInfo.hasEnoughSol : false)
             }
             className="bg-primary hover:bg-primary/80 w-full sm:w-auto order-1 sm:order-2"
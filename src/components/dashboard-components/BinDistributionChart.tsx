@@ -0,0 +1,250 @@
+"use client";
+
+import React, { useMemo, useState } from "react";
+import { Bar, BarChart, ReferenceArea, ReferenceLine, XAxis, YAxis } from "recharts";
+import type { CategoricalChartState } from "recharts/types/chart/types";
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart";
+import type { BinDepthPoint } from "@/hooks/usePoolBinDistribution";
+
+export interface BinRangeSelection {
+  minBinId: number;
+  maxBinId: number;
+}
+
+interface BinDistributionChartProps {
+  points: BinDepthPoint[];
+  activeBinId: number;
+  range: BinRangeSelection;
+  // Called once a drag ends
+  onRangeChange: (range: BinRangeSelection) => void;
+  // The range is kept inside these bins (the existing bin arrays)
+  bounds: BinRangeSelection;
+  tokenX: string;
+  tokenY: string;
+  minWidth?: number;
+  maxWidth?: number;
+}
+
+type DragMode = "min" | "max" | "move" | "new";
+
+interface DragState {
+  mode: DragMode;
+  // Bin where the drag started, and the range at that moment
+  anchor: number;
+  start: BinRangeSelection;
+}
+
+// Bins shown on each side of the active bin (the range is always kept in view)
+const VISIBLE_RADIUS = 45;
+// How close (in bins) a press must be to an edge to grab it
+const HANDLE_TOLERANCE = 2;
+
+const formatPrice = (price: number) =>
+  price.toLocaleString(undefined, { maximumSignificantDigits: 6 });
+
+/**
+ * Keep a range inside the bounds and within the allowed width, preferring to move the
+ * edge that is being dragged
+ */
+function clampRange(
+  range: BinRangeSelection,
+  bounds: BinRangeSelection,
+  minWidth: number,
+  maxWidth: number,
+  mode: DragMode
+): BinRangeSelection {
+  let { minBinId, maxBinId } = range;
+  if (minBinId > maxBinId) [minBinId, maxBinId] = [maxBinId, minBinId];
+
+  const width = () => maxBinId - minBinId + 1;
+  if (width() > maxWidth) {
+    if (mode === "min") minBinId = maxBinId - maxWidth + 1;
+    else maxBinId = minBinId + maxWidth - 1;
+  }
+  if (width() < minWidth) {
+    if (mode === "min") minBinId = maxBinId - minWidth + 1;
+    else maxBinId = minBinId + minWidth - 1;
+  }
+
+  // Shift back inside the bounds without changing the width
+  if (minBinId < bounds.minBinId) {
+    maxBinId += bounds.minBinId - minBinId;
+    minBinId = bounds.minBinId;
+  }
+  if (maxBinId > bounds.maxBinId) {
+    minBinId -= maxBinId - bounds.maxBinId;
+    maxBinId = bounds.maxBinId;
+  }
+
+  return { minBinId: Math.max(minBinId, bounds.minBinId), maxBinId };
+}
+
+// Per-bin liquidity around the active bin with a draggable range overlay
+export function BinDistributionChart({
+  points,
+  activeBinId,
+  range,
+  onRangeChange,
+  bounds,
+  tokenX,
+  tokenY,
+  minWidth = 3,
+  maxWidth = 69,
+}: BinDistributionChartProps) {
+  const [drag, setDrag] = useState<DragState | null>(null);
+  const [draft, setDraft] = useState<BinRangeSelection | null>(null);
+  const shown = draft || range;
+
+  const chartConfig = useMemo(() => ({
+    liquidityX: { label: `${tokenX} side`, color: "var(--primary)" },
+    liquidityY: { label: `${tokenY} side`, color: "var(--chart-1)" },
+  }) satisfies ChartConfig, [tokenX, tokenY]);
+
+  const visible = useMemo(() => {
+    const from = Math.min(activeBinId - VISIBLE_RADIUS, range.minBinId - 5);
+    const to = Math.max(activeBinId + VISIBLE_RADIUS, range.maxBinId + 5);
+    return points.filter((point) => point.binId >= from && point.binId <= to);
+  }, [points, activeBinId, range]);
+
+  const priceOf = (binId: number) => points.find((point) => point.binId === binId)?.price;
+
+  const binFromState = (state: CategoricalChartState | null): number | null => {
+    const label = state?.activeLabel;
+    return label === undefined ? null : Number(label);
+  };
+
+  const handleMouseDown = (state: CategoricalChartState | null) => {
+    const binId = binFromState(state);
+    if (binId === null) return;
+
+    let mode: DragMode = "new";
+    if (Math.abs(binId - range.minBinId) <= HANDLE_TOLERANCE) mode = "min";
+    else if (Math.abs(binId - range.maxBinId) <= HANDLE_TOLERANCE) mode = "max";
+    else if (binId > range.minBinId && binId < range.maxBinId) mode = "move";
+
+    setDrag({ mode, anchor: binId, start: range });
+    setDraft(mode === "new" ? clampRange({ minBinId: binId, maxBinId: binId }, bounds, minWidth, maxWidth, "max") : range);
+  };
+
+  const handleMouseMove = (state: CategoricalChartState | null) => {
+    if (!drag) return;
+    const binId = binFromState(state);
+    if (binId === null) return;
+
+    const { mode, anchor, start } = drag;
+    let next: BinRangeSelection;
+    switch (mode) {
+      case "min":
+        next = { minBinId: binId, maxBinId: start.maxBinId };
+        break;
+      case "max":
+        next = { minBinId: start.minBinId, maxBinId: binId };
+        break;
+      case "move":
+        next = { minBinId: start.minBinId + binId - anchor, maxBinId: start.maxBinId + binId - anchor };
+        break;
+      default:
+        next = { minBinId: Math.min(anchor, binId), maxBinId: Math.max(anchor, binId) };
+    }
+    // Dragging the min edge past the max edge turns it into the max edge, and vice versa
+    const effectiveMode = mode === "min" && binId > start.maxBinId ? "max"
+      : mode === "max" && binId < start.minBinId ? "min"
+      : mode;
+    setDraft(clampRange(next, bounds, minWidth, maxWidth, effectiveMode));
+  };
+
+  const finishDrag = () => {
+    if (drag && draft && (draft.minBinId !== range.minBinId || draft.maxBinId !== range.maxBinId)) {
+      onRangeChange(draft);
+    }
+    setDrag(null);
+    setDraft(null);
+  };
+
+  if (visible.length === 0) {
+    return <p className="text-xs text-sub-text">No bin data available for this pool.</p>;
+  }
+
+  const minPrice = priceOf(shown.minBinId);
+  const maxPrice = priceOf(shown.maxBinId);
+
+  return (
+    <div className="space-y-2">
+      <ChartContainer
+        config={chartConfig}
+        className={`aspect-auto h-48 w-full select-none ${drag ? "cursor-grabbing" : "cursor-ew-resize"}`}
+      >
+        <BarChart
+          data={visible}
+          margin={{ top: 8, right: 8, bottom: 0, left: 0 }}
+          barCategoryGap={1}
+          onMouseDown={handleMouseDown}
+          onMouseMove={handleMouseMove}
+          onMouseUp={finishDrag}
+          onMouseLeave={finishDrag}
+        >
+          <XAxis
+            dataKey="binId"
+            tickLine={false}
+            axisLine={false}
+            tickMargin={8}
+            minTickGap={32}
+          />
+          <YAxis hide />
+          {!drag && (
+            <ChartTooltip
+              content={
+                <ChartTooltipContent
+                  labelFormatter={(_, payload) => {
+                    const point = payload?.[0]?.payload as BinDepthPoint | undefined;
+                    return point ? `Bin ${point.binId} · ${formatPrice(point.price)} ${tokenY}` : "";
+                  }}
+                  formatter={(value, name) => (
+                    <span>
+                      {chartConfig[name as keyof typeof chartConfig]?.label}:{" "}
+                      <span className="font-mono">{Number(value).toLocaleString(undefined, { maximumFractionDigits: 4 })} {tokenY}</span>
+                    </span>
+                  )}
+                />
+              }
+            />
+          )}
+          <ChartLegend content={<ChartLegendContent />} />
+          <ReferenceArea
+            x1={shown.minBinId}
+            x2={shown.maxBinId}
+            fill="var(--primary)"
+            fillOpacity={0.12}
+            stroke="var(--primary)"
+            strokeOpacity={0.6}
+            ifOverflow="extendDomain"
+          />
+          <ReferenceLine x={activeBinId} stroke="white" strokeDasharray="4 4" strokeOpacity={0.7} />
+          <Bar dataKey="liquidityY" stackId="depth" fill="var(--color-liquidityY)" isAnimationActive={false} />
+          <Bar dataKey="liquidityX" stackId="depth" fill="var(--color-liquidityX)" isAnimationActive={false} />
+        </BarChart>
+      </ChartContainer>
+
+      <div className="flex justify-between text-xs text-sub-text">
+        <span>
+          Bins {shown.minBinId} to {shown.maxBinId} ({shown.maxBinId - shown.minBinId + 1} bins)
+        </span>
+        {minPrice !== undefined && maxPrice !== undefined && (
+          <span className="font-mono">
+            {formatPrice(minPrice)} – {formatPrice(maxPrice)} {tokenY}
+          </span>
+        )}
+      </div>
+      <p className="text-xs text-sub-text">
+        Drag the edges to resize your range, drag inside it to move it, or drag elsewhere to draw a new one. The dashed line marks the current price.
+      </p>
+    </div>
+  );
+}
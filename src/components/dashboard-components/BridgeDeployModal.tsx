@@ -0,0 +1,184 @@
+"use client";
+
+import React, { useState } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Loader2 } from "lucide-react";
+import { showToast } from "@/lib/utils/showToast";
+import { BridgeDeployPipelineCard } from '@/components/bridge-components/BridgeDeployPipelineCard';
+import { useBridgeJobs } from '@/hooks/useBridgeJobs';
+import { useBridgeDeployPipelines } from '@/hooks/useBridgeDeployPipelines';
+import { ZBTC_DECIMALS, ZBTC_MINT } from '@/lib/services/bridgeService';
+import type { DlmmStrategyName } from '@/lib/meteora/meteoraChatTools';
+import type { FormattedPool } from '@/lib/utils/poolUtils';
+import { parseTokenAmount } from '@/lib/utils/tokenAmount';
+
+interface BridgeDeployModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  pool: FormattedPool | null;
+  userPortfolioStyle?: string | null;
+}
+
+// Share of the minted zBTC swapped to the pool's other token before depositing
+const SWAP_OPTIONS = [0, 25, 50];
+
+const STYLE_STRATEGIES: Record<string, DlmmStrategyName> = {
+  conservative: 'bid_ask',
+  moderate: 'spot',
+  aggressive: 'curve',
+};
+
+/**
+ * Whether bridged zBTC can go straight into a pool
+ */
+export const canBridgeAndDeploy = (pool: FormattedPool) => /zbtc/i.test(pool.name);
+
+const BridgeDeployModal: React.FC<BridgeDeployModalProps> = ({
+  isOpen,
+  onClose,
+  pool,
+  userPortfolioStyle,
+}) => {
+  const bridge = useBridgeJobs();
+  const { pipelines, runningId, startPipeline, continuePipeline, cancel, dismiss } = useBridgeDeployPipelines(bridge);
+
+  const [amount, setAmount] = useState('');
+  const [swapPercent, setSwapPercent] = useState(0);
+  const [isStarting, setIsStarting] = useState(false);
+
+  const poolPipelines = pool ? pipelines.filter((pipeline) => pipeline.poolAddress === pool.address) : [];
+  const latest = poolPipelines[0];
+
+  const handleAmountChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const value = e.target.value;
+    if (/^[0-9]*\.?[0-9]*$/.test(value) || value === '') {
+      setAmount(value);
+    }
+  };
+
+  const handleStart = async () => {
+    if (!pool) return;
+
+    let amountSats: string;
+    try {
+      amountSats = parseTokenAmount(amount, ZBTC_MINT, ZBTC_DECIMALS).raw.toString();
+    } catch {
+      showToast.error('Invalid amount', 'Please enter a valid BTC amount.');
+      return;
+    }
+    if (amountSats === '0') {
+      showToast.error('Invalid amount', 'Please enter a valid BTC amount.');
+      return;
+    }
+
+    setIsStarting(true);
+    try {
+      await startPipeline({
+        poolAddress: pool.address,
+        poolName: pool.name,
+        amountSats,
+        swapPercent,
+        strategy: STYLE_STRATEGIES[userPortfolioStyle || 'moderate'] ?? 'spot',
+      });
+      setAmount('');
+      showToast.success('Bridge started', 'Send BTC to the deposit address shown to continue.');
+    } catch (error) {
+      console.error('Failed to start bridge & deploy:', error);
+      showToast.error('Could not start', error instanceof Error ? error.message : 'Unknown error');
+    } finally {
+      setIsStarting(false);
+    }
+  };
+
+  const job = latest ? bridge.jobs.find((item) => item.id === latest.bridgeJobId) : undefined;
+  const showForm = !latest || latest.stage === 'completed' || latest.stage === 'failed' || latest.stage === 'cancelled';
+
+  return (
+    <Dialog open={isOpen} onOpenChange={isStarting || runningId ? undefined : onClose}>
+      <DialogContent className="bg-[#161616] border-border text-white max-w-md mx-auto max-h-[90vh] overflow-y-auto">
+        <DialogHeader className="space-y-3">
+          <DialogTitle className="text-white text-xl">Bridge BTC &amp; Invest</DialogTitle>
+          <DialogDescription className="text-sm text-sub-text">
+            Bridge native BTC to zBTC with Zeus, then open a position in {pool?.name ?? 'this pool'} once it arrives.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {latest && (
+            <BridgeDeployPipelineCard
+              pipeline={latest}
+              job={job}
+              isRunning={runningId === latest.id}
+              onContinue={continuePipeline}
+              onCancel={cancel}
+              onDismiss={dismiss}
+            />
+          )}
+
+          {showForm && (
+            <>
+              <div className="space-y-2">
+                <p className="text-sm text-sub-text">BTC to bridge</p>
+                <div className="bg-[#0f0f0f] p-3 rounded-lg flex justify-between items-center">
+                  <span className="text-white">BTC</span>
+                  <input
+                    type="text"
+                    value={amount}
+                    onChange={handleAmountChange}
+                    placeholder="0.0"
+                    className="bg-transparent border-none text-right text-white w-2/3 focus:outline-none"
+                  />
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <p className="text-sm text-sub-text">Swap before depositing</p>
+                <div className="grid grid-cols-3 gap-2">
+                  {SWAP_OPTIONS.map((option) => (
+                    <Button
+                      key={option}
+                      variant={swapPercent === option ? 'default' : 'outline'}
+                      size="sm"
+                      onClick={() => setSwapPercent(option)}
+                      className={swapPercent === option ? 'bg-primary' : 'bg-transparent border-border'}
+                    >
+                      {option === 0 ? 'None' : `${option}%`}
+                    </Button>
+                  ))}
+                </div>
+                <p className="text-xs text-sub-text">
+                  {swapPercent === 0
+                    ? 'All zBTC goes in one-sided, above the current price.'
+                    : `${swapPercent}% of the zBTC is swapped through Jupiter so the position covers both sides of the price.`}
+                </p>
+              </div>
+            </>
+          )}
+        </div>
+
+        <DialogFooter className="mt-4 flex flex-col gap-3 sm:flex-row">
+          {showForm && (
+            <Button
+              onClick={handleStart}
+              disabled={!bridge.wallet || !bridge.service || !amount || parseFloat(amount) <= 0 || isStarting}
+              className="w-full bg-primary hover:bg-primary/80"
+            >
+              {isStarting ? (
+                <>
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  Starting...
+                </>
+              ) : bridge.wallet ? 'Start Bridge & Invest' : 'Connect Wallet'}
+            </Button>
+          )}
+          <Button variant="outline" onClick={onClose} disabled={isStarting || !!runningId} className="w-full bg-transparent border-border">
+            Close
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default BridgeDeployModal;
@@ -4,6 +4,7 @@
 import { useState } from "react";
 import { Button } from "@/components/ui/button";
 import { ChevronDown, Bitcoin } from "lucide-react";
+import { POOL_PAIR_FILTERS } from "@/lib/utils/tokenRegistry";
 
 interface BtcFilterDropdownProps {
   onFilterSelect: (filter: string) => void;
@@ -18,26 +19,12 @@ const BtcFilterDropdown: React.FC<BtcFilterDropdownProps> = ({
 }) => {
   const [isOpen, setIsOpen] = useState(false);
 
-  const filterOptions = [
-    {
-      id: 'wbtc-sol',
-      label: 'wBTC', // Changed from 'wBTC-SOL'
-      description: 'Wrapped Bitcoin pools',
-      icon: Bitcoin
-    },
-    {
-      id: 'zbtc-sol',
-      label: 'zBTC', // Changed from 'zBTC-SOL'
-      description: 'Zeus Bitcoin pools',
-      icon: Bitcoin
-    },
-    {
-      id: 'cbbtc-sol',
-      label: 'cbBTC', // Changed from 'cbBTC-SOL'
-      description: 'Coinbase Bitcoin pools',
-      icon: Bitcoin
-    }
-  ];
+  const filterOptions = POOL_PAIR_FILTERS.map((filter) => ({
+    id: filter.id,
+    label: filter.title,
+    description: filter.description,
+    icon: Bitcoin
+  }));
 
   const getActiveFilterLabel = () => {
     const activeOption = filterOptions.find(option => option.id === activeFilter);
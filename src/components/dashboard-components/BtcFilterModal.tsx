@@ -3,6 +3,7 @@
 import React, { useState } from "react";
 import { Dialog, DialogContent, DialogTitle, DialogDescription } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
+import { POOL_PAIR_FILTERS } from "@/lib/utils/tokenRegistry";
 
 interface BtcFilterModalProps {
   isOpen: boolean;
@@ -10,13 +11,6 @@ interface BtcFilterModalProps {
   onSelectFilter: (filter: string) => void;
 }
 
-type BtcFilterOption = {
-  id: string;
-  title: string;
-  description: string;
-  icon: string;
-};
-
 const BtcFilterModal: React.FC<BtcFilterModalProps> = ({
   isOpen,
   onClose,
@@ -24,26 +18,7 @@ const BtcFilterModal: React.FC<BtcFilterModalProps> = ({
 }) => {
   const [selectedFilter, setSelectedFilter] = useState<string | null>(null);
 
-  const filterOptions: BtcFilterOption[] = [
-    {
-      id: "wbtc-sol",
-      title: "wBTC",
-      description: "Wrapped Bitcoin - most established and liquid BTC pools on Solana.",
-      icon: "₿",
-    },
-    {
-      id: "zbtc-sol",
-      title: "zBTC",
-      description: "Zeus Bitcoin - native Bitcoin bridged through Zeus Network.",
-      icon: "⚡",
-    },
-    {
-      id: "cbbtc-sol",
-      title: "cbBTC",
-      description: "Coinbase Bitcoin - institutional-grade Bitcoin backed by Coinbase.",
-      icon: "🏛️",
-    },
-  ];
+  const filterOptions = POOL_PAIR_FILTERS;
 
   const handleFilterSelect = (filterId: string) => {
     setSelectedFilter(filterId);
@@ -60,25 +35,25 @@ const BtcFilterModal: React.FC<BtcFilterModalProps> = ({
     <Dialog open={isOpen} onOpenChange={onClose}>
       <DialogContent aria-describedby="btc-filter-description">
         <DialogTitle className="text-center text-2xl font-bold">
-          Choose Bitcoin Token Type
+          Choose Bitcoin Pair Type
         </DialogTitle>
         <DialogDescription id="btc-filter-description" className="text-center text-sub-text">
-          Select your preferred Bitcoin token type to find the most relevant liquidity pools for your investment strategy.
+          Select the Bitcoin pairs you want to provide liquidity to, to find the most relevant liquidity pools for your investment strategy.
         </DialogDescription>
         
         {/* Modal Content */}
         <div className='pt-8'>  
           {/* Subtitle */}
           <div className="mb-6 flex flex-col items-start ">
-            <h3 className="text-md white mb-2">Select Your Preferred Bitcoin Token</h3>
+            <h3 className="text-md white mb-2">Select Your Preferred Bitcoin Pair</h3>
             <p className="text-sm text-sub-text">
-              Focus on specific Bitcoin token types to find the most relevant
+              Focus on specific Bitcoin tokens or pairings to find the most relevant
               liquidity pools for your investment strategy.
             </p>
           </div>
           
           {/* Options */}
-          <div className="space-y-3 mb-8">
+          <div className="space-y-3 mb-8 max-h-[50vh] overflow-y-auto">
             {filterOptions.map((filter) => {
               const isSelected = selectedFilter === filter.id;
               
@@ -3,6 +3,7 @@
 
 import { Button } from "@/components/ui/button";
 import { Bitcoin, Search } from "lucide-react";
+import { ALL_BTC_FILTER, POOL_PAIR_FILTERS } from "@/lib/utils/tokenRegistry";
 
 interface BtcPoolButtonsProps {
   onFetchPools: (searchTerm: string) => void;
@@ -15,32 +16,12 @@ const BtcPoolButtons: React.FC<BtcPoolButtonsProps> = ({
   isLoading,
   activeFilter 
 }) => {
-  const filterOptions = [
-    {
-      id: 'wbtc-sol',
-      label: 'wBTC-SOL',
-      description: 'Wrapped Bitcoin',
-      icon: Bitcoin
-    },
-    {
-      id: 'zbtc-sol',
-      label: 'zBTC-SOL', 
-      description: 'Zeus Bitcoin',
-      icon: Bitcoin
-    },
-    {
-      id: 'cbbtc-sol',
-      label: 'cbBTC-SOL',
-      description: 'Coinbase Bitcoin', 
-      icon: Bitcoin
-    },
-    {
-      id: 'btc',
-      label: 'All BTC',
-      description: 'All Bitcoin pools',
-      icon: Search
-    }
-  ];
+  const filterOptions = [...POOL_PAIR_FILTERS, ALL_BTC_FILTER].map((filter) => ({
+    id: filter.id,
+    label: filter.label,
+    description: filter.description,
+    icon: filter.id === ALL_BTC_FILTER.id ? Search : Bitcoin
+  }));
 
   return (
     <div className="flex flex-col space-y-3 mb-4">
@@ -6,94 +6,82 @@ import { useWallet } from "@solana/wallet-adapter-react";
 import { ArrowSquareIn} from "@phosphor-icons/react";
 import { Tooltip, TooltipTrigger, TooltipContent } from "@/components/ui/tooltip";
 import { FormattedPool } from "@/lib/utils/poolUtils";
+import { usePoolMetrics } from "@/hooks/usePoolMetrics";
+import { PoolTrendStats } from "./PoolTrendChart";
+import { canBridgeAndDeploy } from "./BridgeDeployModal";
+import type { AnalysisRiskTier, ChatSection, ChatSections, PoolAnalysis } from "@/lib/api/chatStream";
+import type { PoolScore } from "@/lib/utils/poolTypes";
+import { describePegAlert } from "@/lib/services/depegMonitorService";
 
 interface BtcPoolsListProps {
   pools: FormattedPool[];
   onAddLiquidity: (pool: FormattedPool) => void;
+  // Start the bridge-then-deploy pipeline (offered on zBTC pools)
+  onBridgeAndDeploy?: (pool: FormattedPool) => void;
   isLoading: boolean;
+  // Full analysis text; shown as is when the reply has no sections
   aiResponse?: string;
-  aiResponsePart1?: string;
-  aiResponsePart2?: string;
+  sections?: ChatSections;
+  analysis?: PoolAnalysis;
   isStreaming?: boolean;
-  streamingContent?: string | null;
+  // Section currently receiving text, where the cursor goes
+  streamingSection?: ChatSection | null;
 }
 
+const RISK_TIER_LABELS: Record<AnalysisRiskTier, { label: string; className: string }> = {
+  low: { label: "Low", className: "text-[#1BE3C2]" },
+  moderate: { label: "Moderate", className: "text-[#EFB54B]" },
+  high: { label: "High", className: "text-[#FF4040]" },
+};
+
+// Per-factor bars of the composite score; the detail line explains each factor's value
+const PoolScoreBreakdown: React.FC<{ score: PoolScore }> = ({ score }) => (
+  <div className="bg-[#0f0f0f] rounded-lg p-4">
+    <div className="flex justify-between items-center mb-3">
+      <span className="text-sm font-semibold text-white">Pool score</span>
+      <span className="text-sm text-white/60">
+        <span className="text-white font-bold text-base">{score.total}</span>/100 for {score.style}
+      </span>
+    </div>
+    <div className="grid grid-cols-1 lg:grid-cols-2 gap-x-6 gap-y-2">
+      {score.factors.map((factor) => (
+        <div key={factor.id} title={factor.detail}>
+          <div className="flex justify-between text-xs text-white/60">
+            <span>{factor.label}</span>
+            <span>
+              {Math.round(factor.score * 100)} · {Math.round(factor.weight * 100)}% weight
+            </span>
+          </div>
+          <div className="h-1.5 bg-border rounded-full mt-1 overflow-hidden">
+            <div
+              className="h-full bg-primary rounded-full"
+              style={{ width: `${Math.round(factor.score * 100)}%` }}
+            />
+          </div>
+        </div>
+      ))}
+    </div>
+  </div>
+);
+
 const BtcPoolsList: React.FC<BtcPoolsListProps> = ({
   pools,
   onAddLiquidity,
+  onBridgeAndDeploy,
   isLoading,
   aiResponse,
-  aiResponsePart1,
-  aiResponsePart2,
+  sections,
+  analysis,
   isStreaming,
-  streamingContent,
+  streamingSection,
 }) => {
   const { connected } = useWallet();
+  const { metrics } = usePoolMetrics(pools.map((pool) => pool.address));
 
-  // Helper function to find a good split point for streaming content
-  const findSplitPoint = (text: string): number => {
-    if (!text || text.length <= 400) return text?.length || 0;
-    
-    // Try to find a natural split point based on content
-    // Look for risk-related keywords first
-    const riskKeywords = [
-      "Risk Considerations:", 
-      "Risk Analysis:", 
-      "Potential Risks:", 
-      "Risk Assessment:",
-      "Risk Factors:",
-      "Risk Profile:",
-      "Before investing, consider:",
-      "Important considerations:",
-      "Key risks to be aware of:",
-      "Risks to consider:",
-      "Before you dive in"
-    ];
-    
-    for (const keyword of riskKeywords) {
-      const index = text.indexOf(keyword);
-      if (index !== -1 && index > text.length * 0.3) { // Ensure it's not too early in the text
-        return index;
-      }
-    }
-    
-    // Try to find a paragraph break near the middle
-    const midPoint = Math.floor(text.length * 0.6); // Slightly past middle for better distribution
-    const paragraphBreakAfter = text.indexOf("\n\n", midPoint);
-    const paragraphBreakBefore = text.lastIndexOf("\n\n", midPoint);
-    
-    // If we found paragraph breaks, use the closest one
-    if (paragraphBreakAfter !== -1 && paragraphBreakBefore !== -1) {
-      return (midPoint - paragraphBreakBefore) < (paragraphBreakAfter - midPoint)
-        ? paragraphBreakBefore + 2 // +2 to include the newline characters
-        : paragraphBreakAfter;
-    } else if (paragraphBreakAfter !== -1) {
-      return paragraphBreakAfter;
-    } else if (paragraphBreakBefore !== -1) {
-      return paragraphBreakBefore + 2;
-    }
-    
-    // If no paragraph breaks, try to find a sentence end
-    const sentenceEndAfter = text.indexOf(". ", midPoint);
-    const sentenceEndBefore = text.lastIndexOf(". ", midPoint);
-    
-    if (sentenceEndAfter !== -1 && sentenceEndBefore !== -1) {
-      return (midPoint - sentenceEndBefore) < (sentenceEndAfter - midPoint)
-        ? sentenceEndBefore + 2 // +2 to include the period and space
-        : sentenceEndAfter + 2;
-    } else if (sentenceEndAfter !== -1) {
-      return sentenceEndAfter + 2;
-    } else if (sentenceEndBefore !== -1) {
-      return sentenceEndBefore + 2;
-    }
-    
-    // If all else fails, just use the midpoint
-    return midPoint;
-  };
-
-  // Calculate split point for streaming content
-  const splitPoint = streamingContent ? findSplitPoint(streamingContent) : 0;
-  const shouldShowPart2 = streamingContent && streamingContent.length > 400;
+  const suitability = sections ? sections.suitability?.trim() : aiResponse?.trim();
+  const risks = sections?.risks?.trim();
+  const cursorInRisks = streamingSection === "risks";
+  const ilRisk = RISK_TIER_LABELS[analysis?.impermanentLossRisk ?? "moderate"];
 
   if (pools.length === 0) {
     return <p className="text-white">No pools found</p>;
@@ -103,6 +91,21 @@ const BtcPoolsList: React.FC<BtcPoolsListProps> = ({
     <div className="space-y-6">
       {pools.map((pool, index) => (
         <div key={index}>
+          {/* Wrapped BTC trading off its peg */}
+          {pool.pegAlerts && pool.pegAlerts.length > 0 && (
+            <div className="mb-4 border border-[#FF4040] bg-[#ff404022] rounded-2xl px-6 py-3 text-sm text-white">
+              {pool.pegAlerts.map((alert) => (
+                <p key={alert.mint}>⚠️ {describePegAlert(alert)}</p>
+              ))}
+            </div>
+          )}
+
+          {pool.pegReferenceCaveat && (
+            <div className="mb-4 border border-[#EFB54B] bg-[#EFB54B22] rounded-2xl px-6 py-3 text-sm text-white">
+              <p>{pool.pegReferenceCaveat}</p>
+            </div>
+          )}
+
           {/* Pool Header */}
           <div className="border border-primary rounded-2xl px-6 py-4">
             <div className="flex justify-between lg:items-center items-start">
@@ -142,9 +145,31 @@ const BtcPoolsList: React.FC<BtcPoolsListProps> = ({
                     {pool.binStep}
                   </div>
                 </div>
+                {pool.tokenXPriceUsd && (
+                  <div>
+                    <div className="text-xs text-white/60">{pool.name.split("-")[0]} Price</div>
+                    <div
+                      className={`font-semibold ${pool.pricesStale ? "text-[#EFB54B]" : "text-white"}`}
+                      title={pool.pricesStale ? "No price source has a recent quote" : undefined}
+                    >
+                      ${pool.tokenXPriceUsd}
+                    </div>
+                  </div>
+                )}
               </div>
             </div>
 
+            {/* Fee APY history - the 24h figure alone swings day to day */}
+            <div className="mt-6">
+              <PoolTrendStats summary={metrics[pool.address]} />
+            </div>
+
+            {pool.score && (
+              <div className="mt-4">
+                <PoolScoreBreakdown score={pool.score} />
+              </div>
+            )}
+
             <div className="flex flex-col lg:flex-row justify-between lg:items-center mt-6">
               <div className="flex flex-col lg:flex-row gap-2">
                 <Tooltip>
@@ -166,8 +191,18 @@ const BtcPoolsList: React.FC<BtcPoolsListProps> = ({
                   </TooltipContent>
                 </Tooltip>
                 <span className=" bg-[#efb54b33] rounded-full px-4 py-1 font-semibold text-sm flex flex-col lg:flex-row justify-center items-center">
-                  Impermanent Loss Risk: <span className="text-[#EFB54B]">Moderate</span>
+                  Impermanent Loss Risk: <span className={ilRisk.className}>{ilRisk.label}</span>
                 </span>
+                {RISK_TIER_LABELS[pool.riskLevel] && (
+                  <span className="bg-[#efb54b33] rounded-full px-4 py-1 font-semibold text-sm flex flex-col lg:flex-row justify-center items-center">
+                    Token Risk: <span className={RISK_TIER_LABELS[pool.riskLevel].className}>{RISK_TIER_LABELS[pool.riskLevel].label}</span>
+                  </span>
+                )}
+                {analysis && (
+                  <span className="bg-[#1be3c233] rounded-full px-4 py-1 font-semibold text-sm flex justify-center items-center" title={analysis.summary}>
+                    Style fit: {analysis.fitScore}/10
+                  </span>
+                )}
               </div>
               <div>
                 <Button
@@ -181,6 +216,17 @@ const BtcPoolsList: React.FC<BtcPoolsListProps> = ({
                     ? "Invest in this Pool"
                     : "Connect Wallet to Invest"}
                 </Button>
+                {onBridgeAndDeploy && canBridgeAndDeploy(pool) && (
+                  <Button
+                    variant="outline"
+                    size="secondary"
+                    onClick={() => onBridgeAndDeploy(pool)}
+                    disabled={!connected || isLoading}
+                    className="w-full lg:w-fit mt-2 lg:ml-2 bg-transparent border-primary text-white"
+                  >
+                    Bridge BTC &amp; Invest
+                  </Button>
+                )}
               </div>
             </div>
           </div>
@@ -208,38 +254,28 @@ const BtcPoolsList: React.FC<BtcPoolsListProps> = ({
             </div>
           )}
 
-          {/* AI Analysis Part 1 - After Why this pool */}
-          {(aiResponsePart1 || isStreaming) && (
+          {/* AI Analysis - suitability section (and the introduction before it) */}
+          {(suitability || isStreaming) && (
             <div className="mt-4 bg-[#1be3c233] rounded-2xl p-4">
               <h5 className="text-base font-bold mb-4">Why this pool?</h5>
               <div className="prose prose-invert max-w-none">
-                {isStreaming ? (
-                  <div className="whitespace-pre-wrap text-white">
-                    {/* Show content up to the split point */}
-                    <p className="whitespace-pre-wrap text-white">{streamingContent && streamingContent.substring(0, splitPoint)}</p>
-                    {!shouldShowPart2 && <span className="animate-pulse">▊</span>}
-                  </div>
-                ) : (
-                  <p className="whitespace-pre-wrap text-white">{aiResponsePart1 || aiResponse}</p>
-                )}
+                <p className="whitespace-pre-wrap text-white">
+                  {suitability}
+                  {isStreaming && !cursorInRisks && <span className="animate-pulse">▊</span>}
+                </p>
               </div>
             </div>
           )}
 
-          {/* AI Analysis Part 2 - Before Risk Notice */}
-          {(aiResponsePart2 || shouldShowPart2) && (
+          {/* AI Analysis - risks section */}
+          {(risks || (isStreaming && cursorInRisks)) && (
             <div className="mt-4">
               <h5 className="text-base font-bold mb-4">Before You Dive In</h5>
               <div className="prose prose-invert max-w-none">
-                {isStreaming && shouldShowPart2 ? (
-                  <div className="whitespace-pre-wrap text-white">
-                    {/* Show content after the split point */}
-                    <p className="whitespace-pre-wrap text-white">{streamingContent && streamingContent.substring(splitPoint)}</p>
-                    <span className="animate-pulse">▊</span>
-                  </div>
-                ) : (
-                  <p className="whitespace-pre-wrap text-white">{aiResponsePart2}</p>
-                )}
+                <p className="whitespace-pre-wrap text-white">
+                  {risks}
+                  {isStreaming && cursorInRisks && <span className="animate-pulse">▊</span>}
+                </p>
               </div>
             </div>
           )}
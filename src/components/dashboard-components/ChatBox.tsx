@@ -10,20 +10,34 @@ import {
   Wallet,
   ArrowClockwise,
   Shuffle,
+  ChartPieSlice,
 } from "@phosphor-icons/react";
 import BtcPoolsList from "./BtcPoolsList";
 import BtcFilterDropdown from "./BtcFilterDropdown";
 import BtcFilterModal from "./BtcFilterModal";
 import AddLiquidityModal from "./AddLiquidityModal";
+import BridgeDeployModal from "./BridgeDeployModal";
+import PortfolioAllocatorModal from "./PortfolioAllocatorModal";
 import QuickActionButtons from "./QuickActionButtons";
 import PortfolioStyleModal from "./PortfolioStyleModal";
 import ChatMessage from "@/components/chat-message";
 import ChatInput from "@/components/chat-input";
 import JupiterTerminal from "@/components/JupiterTerminal";
-import { fetchMessage } from "@/lib/api/chat";
+import DlmmChatIntegration from "./DlmmChatIntegration";
+import { fetchMessage, type ChatStreamCallbacks, type ChatStreamResult } from "@/lib/api/chat";
+import { appendToSection, startSection, type ChatSection, type ChatSections, type PoolAnalysis } from "@/lib/api/chatStream";
 import { FormattedPool, formatPool, getPreferredBinSteps } from '@/lib/utils/poolUtils';
+import { loadRiskProfile, riskProfileFromStyle, saveRiskProfile, type RiskProfile } from '@/lib/utils/riskProfile';
+import { getPoolPairFilter, isPoolPairFilterId } from '@/lib/utils/tokenRegistry';
+import { describePegAlert, describePegReference } from '@/lib/services/depegMonitorService';
+import { showToast } from '@/lib/utils/showToast';
+import { useDepegMonitor } from '@/hooks/useDepegMonitor';
 import { useErrorHandler } from '@/lib/utils/errorHandling';
 import { usePoolSearchService } from '@/lib/services/poolSearchService';
+import { useDlmmAgent } from '@/hooks/useDlmmAgent';
+import { useChatSession } from '@/hooks/useChatSession';
+import type { ChatSession } from '@/lib/api/chatSessions';
+import { CommandResult, formatCommandResult } from '@/lib/meteora/meteoraChatCommands';
 
 // Type definitions
 type MessageRole = "user" | "assistant";
@@ -32,11 +46,15 @@ interface Message {
   role: MessageRole;
   content: string;
   timestamp: Date;
+  // Pool analyses: the reply split by the API's section events, plus its structured summary
+  sections?: ChatSections;
+  analysis?: PoolAnalysis;
 }
 
 interface MessageWithPool {
   message: Message;
   pools?: FormattedPool[];
+  actions?: CommandResult[];
 }
 
 const ChatBox: React.FC = () => {
@@ -47,9 +65,12 @@ const ChatBox: React.FC = () => {
   const [isPoolLoading, setIsPoolLoading] = useState(false);
   const [selectedPool, setSelectedPool] = useState<FormattedPool | null>(null);
   const [isAddLiquidityModalOpen, setIsAddLiquidityModalOpen] = useState(false);
+  const [isBridgeDeployModalOpen, setIsBridgeDeployModalOpen] = useState(false);
+  const [isAllocatorModalOpen, setIsAllocatorModalOpen] = useState(false);
   const [isPortfolioStyleModalOpen, setIsPortfolioStyleModalOpen] = useState(false);
   const [isBtcFilterModalOpen, setIsBtcFilterModalOpen] = useState(false);
   const [selectedPortfolioStyle, setSelectedPortfolioStyle] = useState<string | null>(null);
+  const [riskProfile, setRiskProfile] = useState<RiskProfile | null>(null);
   const [showWelcomeScreen, setShowWelcomeScreen] = useState(true);
   const [activeTokenFilter, setActiveTokenFilter] = useState<string>('');
   
@@ -66,6 +87,8 @@ const ChatBox: React.FC = () => {
 
   // Streaming states
   const [streamingMessage, setStreamingMessage] = useState<string | null>(null);
+  const [streamingSections, setStreamingSections] = useState<ChatSections>({});
+  const [streamingSection, setStreamingSection] = useState<ChatSection | null>(null);
   const [isStreaming, setIsStreaming] = useState(false);
 
   const messagesEndRef = useRef<HTMLDivElement>(null);
@@ -73,6 +96,54 @@ const ChatBox: React.FC = () => {
   // Services
   const { handleError, handleAsyncError } = useErrorHandler();
   const { service: poolSearchService } = usePoolSearchService();
+  const { runAgent } = useDlmmAgent();
+
+  // Session persistence - restore the thread, pool cards and portfolio style on return
+  const restoreSession = useCallback((session: ChatSession) => {
+    const restored: MessageWithPool[] = session.messages.map((stored) => ({
+      message: {
+        role: stored.role,
+        content: stored.content,
+        timestamp: new Date(stored.timestamp),
+        sections: stored.sections,
+        analysis: stored.analysis,
+      },
+      pools: stored.pools,
+    }));
+
+    setMessageWithPools(restored);
+    setMessages(restored.map((item) => item.message));
+    setShownPoolAddresses(session.shownPoolAddresses);
+    setSelectedPortfolioStyle(session.portfolioStyle);
+    setShowWelcomeScreen(false);
+  }, []);
+
+  // Prepared transactions are not persisted - they must be rebuilt with a fresh blockhash
+  const sessionSnapshot = useMemo(() => ({
+    messages: messageWithPools.map((item) => ({
+      role: item.message.role,
+      content: item.message.content,
+      timestamp: item.message.timestamp.toISOString(),
+      pools: item.pools,
+      sections: item.message.sections,
+      analysis: item.message.analysis,
+    })),
+    shownPoolAddresses,
+    portfolioStyle: selectedPortfolioStyle,
+  }), [messageWithPools, shownPoolAddresses, selectedPortfolioStyle]);
+
+  useChatSession({ snapshot: sessionSnapshot, onRestore: restoreSession });
+
+  // Questionnaire result from an earlier visit
+  useEffect(() => {
+    setRiskProfile(loadRiskProfile());
+  }, []);
+
+  // Profile behind every recommendation; a style without a matching questionnaire result uses its preset
+  const activeRiskProfile = useMemo((): RiskProfile | null => {
+    if (!selectedPortfolioStyle) return null;
+    return riskProfile?.style === selectedPortfolioStyle ? riskProfile : riskProfileFromStyle(selectedPortfolioStyle);
+  }, [riskProfile, selectedPortfolioStyle]);
 
   // Intent detection patterns - moved to useMemo to avoid dependency warnings
   const MESSAGE_PATTERNS = useMemo(() => ({
@@ -104,6 +175,14 @@ const ChatBox: React.FC = () => {
       /other options/i,
       /alternatives/i,
     ],
+    dlmmCommand: [
+      /(?:add|remove|withdraw).*liquidity/i,
+      /(?:put|deposit|add)\s.*(?:into|in|to)\s.*pool/i,
+      /(?:claim|collect).*fee/i,
+      /close.*position/i,
+      /(?:show|list|view|my).*positions?/i,
+      /withdraw.*from.*position/i,
+    ],
     swapRequest: [
       /swap/i,
       /exchange/i,
@@ -117,10 +196,10 @@ const ChatBox: React.FC = () => {
 
   // Core message management
   const addMessage = useCallback(
-    (role: MessageRole, content: string, pools?: FormattedPool[]) => {
+    (role: MessageRole, content: string, pools?: FormattedPool[], actions?: CommandResult[]) => {
       const newMessage = { role, content, timestamp: new Date() };
       setMessages((prev) => [...prev, newMessage]);
-      setMessageWithPools((prev) => [...prev, { message: newMessage, pools }]);
+      setMessageWithPools((prev) => [...prev, { message: newMessage, pools, actions }]);
 
       if (showWelcomeScreen) {
         setShowWelcomeScreen(false);
@@ -129,6 +208,20 @@ const ChatBox: React.FC = () => {
     [showWelcomeScreen]
   );
 
+  // Wrapped BTC peg alerts go into the conversation, or a toast while the welcome screen is up
+  useDepegMonitor({
+    onEscalation: (checks, report) => {
+      const alert = checks.map(describePegAlert).join(' ');
+      // Say so when the check ran against the median fallback rather than the BTC reference
+      const caveat = describePegReference(report);
+      if (showWelcomeScreen) {
+        showToast.warning('BTC peg alert', caveat ? `${alert} ${caveat}` : alert);
+      } else {
+        addMessage("assistant", `⚠️ ${alert} Pools with this token carry extra risk until it recovers.${caveat ? `\n\n${caveat}` : ''}`);
+      }
+    },
+  });
+
   const addErrorMessage = useCallback(
     (error: unknown) => {
       const appError = handleError(error, 'Chat operation');
@@ -137,6 +230,45 @@ const ChatBox: React.FC = () => {
     [addMessage, handleError]
   );
 
+  // Replace the streaming placeholder (the last message) with the finished reply, keeping its pools
+  // unless the analysis came back with an enriched copy (e.g. the scored pool)
+  const completeStreamedMessage = useCallback((result: ChatStreamResult, pools?: FormattedPool[]) => {
+    const finish = (message: Message): Message => ({
+      ...message,
+      content: result.text,
+      sections: Object.keys(result.sections).length > 0 ? result.sections : undefined,
+      analysis: result.analysis,
+    });
+
+    setMessages(prev => prev.length > 0 ? [...prev.slice(0, -1), finish(prev[prev.length - 1])] : prev);
+    setMessageWithPools(prev => prev.length > 0
+      ? [...prev.slice(0, -1), {
+          ...prev[prev.length - 1],
+          message: finish(prev[prev.length - 1].message),
+          ...(pools && { pools }),
+        }]
+      : prev);
+  }, []);
+
+  const startStreaming = useCallback(() => {
+    setStreamingMessage("");
+    setStreamingSections({});
+    setStreamingSection(null);
+    setIsStreaming(true);
+  }, []);
+
+  // Streamed text goes to the plain message and, for pool cards, to its section
+  const streamCallbacks = useMemo((): ChatStreamCallbacks => ({
+    onText: (text, section) => {
+      setStreamingMessage(prev => (prev || "") + text);
+      setStreamingSections(prev => appendToSection(prev, section, text));
+    },
+    onSection: (section) => {
+      setStreamingSection(section);
+      setStreamingSections(prev => startSection(prev, section));
+    },
+  }), []);
+
   /**
    * Cleans up loading messages from the message history
    */
@@ -190,13 +322,19 @@ const ChatBox: React.FC = () => {
     const isSwapRequest = MESSAGE_PATTERNS.swapRequest.some(pattern =>
       pattern.test(lowerMessage)
     );
+
+    // Check for DLMM actions the agent can prepare transactions for
+    const isDlmmCommand = MESSAGE_PATTERNS.dlmmCommand.some(pattern =>
+      pattern.test(lowerMessage)
+    );
     
     return {
       isEducational,
       isPoolRequest,
       isAlternativeRequest,
       isSwapRequest,
-      isGeneralChat: !isEducational && !isPoolRequest && !isAlternativeRequest && !isSwapRequest
+      isDlmmCommand,
+      isGeneralChat: !isEducational && !isPoolRequest && !isAlternativeRequest && !isSwapRequest && !isDlmmCommand
     };
   }, [MESSAGE_PATTERNS]);
 
@@ -210,36 +348,23 @@ const ChatBox: React.FC = () => {
   const handleStreamingResponse = useCallback(async (
     messageHistory: Message[],
     poolData?: FormattedPool,
-    portfolioStyle?: string
+    profile?: RiskProfile | null
   ) => {
     addMessage("assistant", "", undefined);
-    setStreamingMessage("");
-    setIsStreaming(true);
+    startStreaming();
 
     try {
       const response = await fetchMessage(
         messageHistory,
         poolData,
-        portfolioStyle,
-        (chunk) => {
-          setStreamingMessage(prev => (prev || "") + chunk);
-        }
+        profile,
+        streamCallbacks
       );
       
       // Update the placeholder message with the full response
-      setMessages(prev => {
-        const newMessages = [...prev];
-        newMessages[newMessages.length - 1].content = response;
-        return newMessages;
-      });
+      completeStreamedMessage(response);
       
-      setMessageWithPools(prev => {
-        const newMessages = [...prev];
-        newMessages[newMessages.length - 1].message.content = response;
-        return newMessages;
-      });
-      
-      return response;
+      return response.text;
     } catch (error) {
       console.error('Streaming response error:', error);
       addErrorMessage(error);
@@ -248,7 +373,7 @@ const ChatBox: React.FC = () => {
       setStreamingMessage(null);
       setIsStreaming(false);
     }
-  }, [addMessage, addErrorMessage]);
+  }, [addMessage, addErrorMessage, startStreaming, streamCallbacks, completeStreamedMessage]);
 
   // Handle educational queries
   const handleEducationalQuery = useCallback(async (userMessage: string) => {
@@ -266,13 +391,14 @@ const ChatBox: React.FC = () => {
 
   // Declare showBestYieldPool before it's used
   const showBestYieldPool = useCallback(
-    async (style: string | null) => {
+    async (profile: RiskProfile | null) => {
       setIsPoolLoading(true);
+      const style = profile?.style ?? null;
 
       try {
         // Search for pools using the service
         const allPools = await poolSearchService.searchPools({
-          style,
+          profile,
           shownPoolAddresses,
           tokenFilter: activeTokenFilter || undefined, // Include active token filter
           onLoadingMessage: (message) => addMessage("assistant", message),
@@ -287,9 +413,11 @@ const ChatBox: React.FC = () => {
         }
 
         // Get the best pool
-        const selectedPool = poolSearchService.getBestPool(allPools, style, shownPoolAddresses);
+        const bestPool = await poolSearchService.getBestPool(allPools, profile, shownPoolAddresses);
+
+        if (bestPool) {
+          const selectedPool = bestPool.pool;
 
-        if (selectedPool) {
           // Add to shown pools list
           setShownPoolAddresses((prev) => [...prev, selectedPool.address]);
 
@@ -309,42 +437,25 @@ const ChatBox: React.FC = () => {
 
           // First add the pool to the UI without AI analysis
           // Create a simple formatted pool with just the essential data
-          const formattedPool: FormattedPool = formatPool(selectedPool, style || 'conservative');
+          const formattedPool: FormattedPool = formatPool(selectedPool);
           
           // Add empty assistant message with the pool data
           // This will show the pool UI immediately before streaming starts
           addMessage("assistant", "", [formattedPool]);
           
           // Reset streaming state
-          setStreamingMessage("");
-          setIsStreaming(true);
+          startStreaming();
           
                       // We've already added the pool to the message, so we don't need this step anymore
           
           // Now process the selected pool with AI analysis
           await poolSearchService.processSelectedPool({
-            selectedPool,
-            style,
-            onStreamingUpdate: (chunk) => {
-              setStreamingMessage(prev => (prev || "") + chunk);
-            },
-            onComplete: (analysis) => {
-              // Update the placeholder message with the full response
-              setMessages(prev => {
-                const newMessages = [...prev];
-                newMessages[newMessages.length - 1].content = analysis;
-                return newMessages;
-              });
-              
-              // Update the message content but keep our existing pool data
-              setMessageWithPools(prev => {
-                const newMessages = [...prev];
-                newMessages[newMessages.length - 1] = {
-                  message: { ...newMessages[newMessages.length - 1].message, content: analysis },
-                  pools: newMessages[newMessages.length - 1].pools // Keep existing pools
-                };
-                return newMessages;
-              });
+            selectedPool: bestPool,
+            profile,
+            callbacks: streamCallbacks,
+            onComplete: (analysis, analyzedPool) => {
+              // Update the placeholder message with the full response and the scored pool
+              completeStreamedMessage(analysis, [analyzedPool]);
               
               // Reset streaming state
               setStreamingMessage(null);
@@ -394,7 +505,10 @@ const ChatBox: React.FC = () => {
       addErrorMessage,
       shownPoolAddresses,
       activeTokenFilter,
-      cleanupLoadingMessages
+      cleanupLoadingMessages,
+      startStreaming,
+      streamCallbacks,
+      completeStreamedMessage
     ]
   );
 
@@ -404,9 +518,10 @@ const ChatBox: React.FC = () => {
     
     setDifferentPoolRequests((prev) => prev + 1);
 
+    const profile = activeRiskProfile ?? riskProfileFromStyle(null);
     const shownBinStepsForStyle =
-      shownBinStepsPerStyle[selectedPortfolioStyle || "conservative"] || [];
-    const preferredBinSteps = getPreferredBinSteps(selectedPortfolioStyle || "conservative");
+      shownBinStepsPerStyle[profile.style] || [];
+    const preferredBinSteps = getPreferredBinSteps(profile);
 
     const allPreferredBinStepsShown = preferredBinSteps.every((step) =>
       shownBinStepsForStyle.includes(step)
@@ -416,13 +531,13 @@ const ChatBox: React.FC = () => {
       console.log("All preferred bin steps have been shown, resetting tracking to show them again");
       setShownBinStepsPerStyle((prev) => ({
         ...prev,
-        [selectedPortfolioStyle || "conservative"]: [],
+        [profile.style]: [],
       }));
     }
 
-    await showBestYieldPool(selectedPortfolioStyle || "conservative");
+    await showBestYieldPool(profile);
   }, [
-    selectedPortfolioStyle,
+    activeRiskProfile,
     shownBinStepsPerStyle,
     setDifferentPoolRequests,
     setShownBinStepsPerStyle,
@@ -431,8 +546,39 @@ const ChatBox: React.FC = () => {
 
   // Handle general pool requests
   const handlePoolRequest = useCallback(async () => {
-    await showBestYieldPool(selectedPortfolioStyle || null);
-  }, [selectedPortfolioStyle, showBestYieldPool]);
+    await showBestYieldPool(activeRiskProfile);
+  }, [activeRiskProfile, showBestYieldPool]);
+
+  // Handle DLMM actions via the tool-calling agent
+  const handleDlmmCommand = useCallback(async (userMessage: string) => {
+    const messageHistory = [
+      ...messages,
+      {
+        role: "user" as const,
+        content: userMessage,
+        timestamp: new Date(),
+      },
+    ];
+
+    // Share pools already shown so the agent can resolve "the 10bp pool"
+    const knownPools = messageWithPools
+      .flatMap(item => item.pools || [])
+      .slice(-20)
+      .map(pool => ({ name: pool.name, address: pool.address, binStep: pool.binStep }));
+
+    const { message, results } = await runAgent(messageHistory, {
+      portfolioStyle: selectedPortfolioStyle || undefined,
+      knownPools,
+    }, activeRiskProfile);
+
+    const replyParts = [message, ...results.map(formatCommandResult)].filter(Boolean);
+    addMessage(
+      "assistant",
+      replyParts.join("\n\n") || "I couldn't find a DLMM action to take. Could you rephrase your request?",
+      undefined,
+      results.filter(result => result.success && result.prepared)
+    );
+  }, [messages, messageWithPools, selectedPortfolioStyle, activeRiskProfile, runAgent, addMessage]);
 
   // Handle general chat
   const handleGeneralChat = useCallback(async (userMessage: string) => {
@@ -459,14 +605,8 @@ const ChatBox: React.FC = () => {
     ));
     
     // Add user message indicating filter selection
-    const filterLabels: Record<string, string> = {
-      'wbtc-sol': 'wBTC-SOL',
-      'zbtc-sol': 'zBTC-SOL', 
-      'cbbtc-sol': 'cbBTC-SOL',
-      'btc': 'All BTC'
-    };
-    
-    const filterMessage = `Show me ${filterLabels[tokenFilter] || tokenFilter} pools`;
+    const filterLabel = getPoolPairFilter(tokenFilter)?.label || tokenFilter;
+    const filterMessage = `Show me ${filterLabel} pools`;
     addMessage("user", filterMessage);
     
     // Set loading states
@@ -476,7 +616,7 @@ const ChatBox: React.FC = () => {
     try {
       // Use the pool search service with token-specific filtering
       const filteredPools = await poolSearchService.searchPools({
-        style: selectedPortfolioStyle,
+        profile: activeRiskProfile,
         shownPoolAddresses: [], // Reset shown pools for new filter
         tokenFilter, // Pass the token filter
         onLoadingMessage: (message) => addMessage("assistant", message),
@@ -485,53 +625,39 @@ const ChatBox: React.FC = () => {
       });
 
       if (filteredPools.length === 0) {
-        addMessage("assistant", `No ${filterLabels[tokenFilter] || tokenFilter} pools found that match your criteria. Try adjusting your portfolio style or check back later.`);
+        addMessage("assistant", `No ${filterLabel} pools found that match your criteria. Try adjusting your portfolio style or check back later.`);
         return;
       }
 
       // Get the best pool for the selected style and token filter
-      const selectedPool = poolSearchService.getBestPool(
+      const bestPool = await poolSearchService.getBestPool(
         filteredPools, 
-        selectedPortfolioStyle, 
+        activeRiskProfile, 
         []
       );
 
-      if (selectedPool) {
+      if (bestPool) {
+        const selectedPool = bestPool.pool;
+
         // Reset shown pool addresses for new filter
         setShownPoolAddresses([selectedPool.address]);
 
         // First create a formatted pool to display immediately
-        const formattedPool: FormattedPool = formatPool(selectedPool, selectedPortfolioStyle || 'conservative');
+        const formattedPool: FormattedPool = formatPool(selectedPool);
         
         // Add message with the pool data so it shows immediately
         addMessage("assistant", "", [formattedPool]);
         
         // Start streaming the AI analysis
-        setStreamingMessage("");
-        setIsStreaming(true);
+        startStreaming();
 
         await poolSearchService.processSelectedPool({
-          selectedPool,
-          style: selectedPortfolioStyle,
-          onStreamingUpdate: (chunk) => {
-            setStreamingMessage(prev => (prev || "") + chunk);
-          },
-          onComplete: (analysis) => {
-            setMessages(prev => {
-              const newMessages = [...prev];
-              newMessages[newMessages.length - 1].content = analysis;
-              return newMessages;
-            });
-            
-            // Update the message content but keep our existing pool data
-            setMessageWithPools(prev => {
-              const newMessages = [...prev];
-              newMessages[newMessages.length - 1] = {
-                message: { ...newMessages[newMessages.length - 1].message, content: analysis },
-                pools: newMessages[newMessages.length - 1].pools // Keep existing pools
-              };
-              return newMessages;
-            });
+          selectedPool: bestPool,
+          profile: activeRiskProfile,
+          callbacks: streamCallbacks,
+          onComplete: (analysis, analyzedPool) => {
+            // Update the message content and swap in the scored pool
+            completeStreamedMessage(analysis, [analyzedPool]);
             
             setStreamingMessage(null);
             setIsStreaming(false);
@@ -555,11 +681,15 @@ const ChatBox: React.FC = () => {
     }
   }, [
     selectedPortfolioStyle,
+    activeRiskProfile,
     poolSearchService,
     addMessage,
     addErrorMessage,
     handleAsyncError,
-    cleanupLoadingMessages
+    cleanupLoadingMessages,
+    startStreaming,
+    streamCallbacks,
+    completeStreamedMessage
   ]);
 
   // Main refactored handleSendMessage function
@@ -586,6 +716,8 @@ const ChatBox: React.FC = () => {
           await handleSwapRequest();
         } else if (intent.isEducational) {
           await handleEducationalQuery(userMessage);
+        } else if (intent.isDlmmCommand) {
+          await handleDlmmCommand(userMessage);
         } else if (intent.isAlternativeRequest) {
           await handleAlternativePoolRequest();
         } else if (intent.isPoolRequest) {
@@ -609,6 +741,7 @@ const ChatBox: React.FC = () => {
       analyzeMessageIntent,
       handleSwapRequest,
       handleEducationalQuery,
+      handleDlmmCommand,
       handleAlternativePoolRequest,
       handlePoolRequest,
       handleGeneralChat,
@@ -621,6 +754,11 @@ const ChatBox: React.FC = () => {
     setIsAddLiquidityModalOpen(true);
   };
 
+  const handleBridgeAndDeploy = (pool: FormattedPool) => {
+    setSelectedPool(pool);
+    setIsBridgeDeployModalOpen(true);
+  };
+
   const handleKeyDown = (e: React.KeyboardEvent) => {
     if (e.key === "Enter" && !e.shiftKey) {
       e.preventDefault();
@@ -632,8 +770,10 @@ const ChatBox: React.FC = () => {
     handleSendMessage(question);
   };
 
-  const handleSelectPortfolioStyle = async (style: string) => {
-    setSelectedPortfolioStyle(style);
+  const handleSelectRiskProfile = async (profile: RiskProfile) => {
+    setRiskProfile(profile);
+    saveRiskProfile(profile);
+    setSelectedPortfolioStyle(profile.style);
     
     // Close portfolio style modal and open BTC filter modal
     setIsPortfolioStyleModalOpen(false);
@@ -644,13 +784,7 @@ const ChatBox: React.FC = () => {
   setActiveTokenFilter(filter);
   setIsBtcFilterModalOpen(false);
 
-  // Define filter labels inside the function
-  const filterLabels: Record<string, string> = {
-    'wbtc-sol': 'wBTC-SOL',
-    'zbtc-sol': 'zBTC-SOL',
-    'cbbtc-sol': 'cbBTC-SOL',
-    'btc': 'All BTC'
-  };
+  const filterLabel = getPoolPairFilter(filter)?.label || filter;
 
   try {
     if (!showWelcomeScreen) {
@@ -660,34 +794,21 @@ const ChatBox: React.FC = () => {
       addMessage("assistant", "", undefined);
     }
 
-    setStreamingMessage("");
-    setIsStreaming(true);
+    startStreaming();
     
          // Generate concise portfolio + filter specific welcome message
      const portfolioStyle = selectedPortfolioStyle || 'conservative'; // Fix: provide fallback
      const welcomeMessage = await fetchMessage(
        [{ 
          role: "user", 
-         content: `I've selected the ${portfolioStyle} portfolio style and want to focus on ${filterLabels[filter] || filter} pools. Please provide a VERY BRIEF welcome message (2-3 sentences maximum) that welcomes me to Hypebiscus and explains what this combination means for my liquidity pool recommendations. Be concise but engaging.` 
+         content: `I've selected the ${portfolioStyle} portfolio style and want to focus on ${filterLabel} pools. Please provide a VERY BRIEF welcome message (2-3 sentences maximum) that welcomes me to Hypebiscus and explains what this combination means for my liquidity pool recommendations. Be concise but engaging.` 
        }],
        undefined,
-       portfolioStyle, // Use the fallback variable
-       (chunk) => {
-         setStreamingMessage(prev => (prev || "") + chunk);
-       }
+       activeRiskProfile ?? riskProfileFromStyle(portfolioStyle),
+       streamCallbacks
      );
 
-    setMessages(prev => {
-      const newMessages = [...prev];
-      newMessages[newMessages.length - 1].content = welcomeMessage;
-      return newMessages;
-    });
-    
-    setMessageWithPools(prev => {
-      const newMessages = [...prev];
-      newMessages[newMessages.length - 1].message.content = welcomeMessage;
-      return newMessages;
-    });
+    completeStreamedMessage(welcomeMessage);
     
     setStreamingMessage(null);
     setIsStreaming(false);
@@ -709,13 +830,13 @@ const ChatBox: React.FC = () => {
     if (!showWelcomeScreen) {
       addMessage(
         "assistant",
-        `You've selected the ${portfolioStyleFormatted} portfolio style focusing on ${filterLabels[filter] || filter} pools. I'll recommend pools that match your preferences.`
+        `You've selected the ${portfolioStyleFormatted} portfolio style focusing on ${filterLabel} pools. I'll recommend pools that match your preferences.`
       );
     } else {
       setShowWelcomeScreen(false);
       addMessage(
         "assistant",
-        `Welcome! You've selected the ${portfolioStyleFormatted} portfolio style with ${filterLabels[filter] || filter} focus. I'll recommend pools that match your preferences.`
+        `Welcome! You've selected the ${portfolioStyleFormatted} portfolio style with ${filterLabel} focus. I'll recommend pools that match your preferences.`
       );
     }
     
@@ -734,14 +855,14 @@ const ChatBox: React.FC = () => {
 
     setIsPoolLoading(true);
     try {
-      await showBestYieldPool(selectedPortfolioStyle);
+      await showBestYieldPool(activeRiskProfile);
     } catch (error) {
       console.error("Error refreshing pools:", error);
       addErrorMessage(error);
     } finally {
       setIsPoolLoading(false);
     }
-  }, [selectedPortfolioStyle, showBestYieldPool, addMessage, addErrorMessage]);
+  }, [selectedPortfolioStyle, activeRiskProfile, showBestYieldPool, addMessage, addErrorMessage]);
 
   // Effects
   useEffect(() => {
@@ -755,83 +876,24 @@ const ChatBox: React.FC = () => {
     }
   }, [messages, showWelcomeScreen]);
 
-  // Split AI response function
-  const splitAIResponse = (response: string): { part1: string, part2: string } => {
-    if (!response) return { part1: "", part2: "" };
-    
-    const splitKeywords = [
-      "Risk Considerations:", 
-      "Risk Analysis:", 
-      "Potential Risks:", 
-      "Risk Assessment:",
-      "Risk Factors:",
-      "Risk Profile:",
-      "Before investing, consider:",
-      "Important considerations:",
-      "Key risks to be aware of:",
-      "Risks to consider:"
-    ];
-    
-    for (const keyword of splitKeywords) {
-      const index = response.indexOf(keyword);
-      if (index !== -1) {
-        return {
-          part1: response.substring(0, index).trim(),
-          part2: response.substring(index).trim()
-        };
-      }
-    }
-    
-    const questionRegex = /\n\n(Have you considered|Would you like|Are you interested|What are your thoughts|How do you feel|Do you prefer|Are you looking|What's your|What is your|Do you have)[^?]+\?(\s*\n\n[^?]+\?)?$/i;
-    const questionMatch = response.match(questionRegex);
-    
-    if (questionMatch && questionMatch.index !== undefined) {
-      const questionStartIndex = questionMatch.index;
-      const questionText = questionMatch[0];
-      
-      if (response.length < 500) {
-        return {
-          part1: response,
-          part2: ""
-        };
-      }
-      
-      const contentBeforeQuestions = response.substring(0, questionStartIndex);
-      const paragraphs = contentBeforeQuestions.split("\n\n");
-      
-      if (paragraphs.length > 1) {
-        const midPoint = Math.floor(paragraphs.length / 2);
-        return {
-          part1: paragraphs.slice(0, midPoint).join("\n\n").trim(),
-          part2: paragraphs.slice(midPoint).join("\n\n").trim() + questionText
-        };
-      }
-    }
-    
-    const paragraphs = response.split("\n\n");
-    if (paragraphs.length > 1) {
-      const midPoint = Math.floor(paragraphs.length / 2);
-      return {
-        part1: paragraphs.slice(0, midPoint).join("\n\n").trim(),
-        part2: paragraphs.slice(midPoint).join("\n\n").trim()
-      };
-    }
-    
-    const midPoint = Math.floor(response.length / 2);
-    const sentenceEndNearMid = response.substring(0, midPoint).lastIndexOf(". ") + 1;
-    
-    if (sentenceEndNearMid > 0) {
-      return {
-        part1: response.substring(0, sentenceEndNearMid).trim(),
-        part2: response.substring(sentenceEndNearMid).trim()
-      };
-    }
-    
-    return {
-      part1: response,
-      part2: ""
-    };
-  };
+  // Arriving from a completed bridge (/?tokenFilter=wbtc-sol): recommend pools for that token once
+  const handledQueryFilter = useRef(false);
+  useEffect(() => {
+    if (handledQueryFilter.current) return;
+    handledQueryFilter.current = true;
+
+    const params = new URLSearchParams(window.location.search);
+    const filter = params.get('tokenFilter');
+    if (!isPoolPairFilterId(filter)) return;
+
+    // Drop the query so a reload doesn't search again
+    params.delete('tokenFilter');
+    const query = params.toString();
+    window.history.replaceState(null, '', `${window.location.pathname}${query ? `?${query}` : ''}`);
+
+    setShowWelcomeScreen(false);
+    handleTokenFilterSearch(filter);
+  }, [handleTokenFilterSearch]);
 
   // Render component
   if (showWelcomeScreen) {
@@ -919,7 +981,8 @@ const ChatBox: React.FC = () => {
         <PortfolioStyleModal
           isOpen={isPortfolioStyleModalOpen}
           onClose={() => setIsPortfolioStyleModalOpen(false)}
-          onSelectStyle={handleSelectPortfolioStyle}
+          onSelectProfile={handleSelectRiskProfile}
+          initialAnswers={riskProfile?.answers}
         />
         
         {/* BTC Filter Modal */}
@@ -958,6 +1021,19 @@ const ChatBox: React.FC = () => {
             <span className="hidden sm:inline">Swap</span>
           </Button>
 
+          {selectedPortfolioStyle && (
+            <Button
+              variant="secondary"
+              size="secondary"
+              className="bg-secondary/30 border-primary text-white flex items-center gap-2 hover:bg-primary/20 text-xs"
+              onClick={() => setIsAllocatorModalOpen(true)}
+              title="Split a BTC deposit across several pools for your portfolio style"
+            >
+              <ChartPieSlice size={14} />
+              <span className="hidden sm:inline">Allocate</span>
+            </Button>
+          )}
+
           {selectedPortfolioStyle && (
             <Button
               variant="secondary"
@@ -988,6 +1064,9 @@ const ChatBox: React.FC = () => {
                 <>
                   <span className="hidden sm:inline">Portfolio: </span>
                   {selectedPortfolioStyle.charAt(0).toUpperCase() + selectedPortfolioStyle.slice(1)}
+                  {activeRiskProfile?.answers && (
+                    <span className="hidden sm:inline text-sub-text"> · {activeRiskProfile.score}/100</span>
+                  )}
                 </>
               ) : (
                 <>
@@ -1058,6 +1137,9 @@ const ChatBox: React.FC = () => {
                             streamingMessage={showStreamingInMessage ? streamingMessage : undefined}
                             isStreaming={showStreamingInMessage}
                           />
+                          {item.actions && item.actions.length > 0 && (
+                            <DlmmChatIntegration actions={item.actions} />
+                          )}
                         </div>
                       )}
                       {item.message.role === "assistant" &&
@@ -1068,36 +1150,17 @@ const ChatBox: React.FC = () => {
                   )}
                 {item.pools && item.pools.length > 0 && (
                   <div className="w-full">
-                    {(() => {
-                      if (showStreamingInPool) {
-                        return (
-                          <BtcPoolsList
-                            pools={item.pools}
-                            onAddLiquidity={handleAddLiquidity}
-                            isLoading={isPoolLoading}
-                            aiResponse={item.message.content}
-                            aiResponsePart1=""
-                            aiResponsePart2=""
-                            isStreaming={true}
-                            streamingContent={streamingMessage}
-                          />
-                        );
-                      } else {
-                        const { part1, part2 } = splitAIResponse(item.message.content);
-                        return (
-                          <BtcPoolsList
-                            pools={item.pools}
-                            onAddLiquidity={handleAddLiquidity}
-                            isLoading={isPoolLoading}
-                            aiResponse={item.message.content}
-                            aiResponsePart1={part1}
-                            aiResponsePart2={part2}
-                            isStreaming={false}
-                            streamingContent={null}
-                          />
-                        );
-                      }
-                    })()}
+                    <BtcPoolsList
+                      pools={item.pools}
+                      onAddLiquidity={handleAddLiquidity}
+                      onBridgeAndDeploy={handleBridgeAndDeploy}
+                      isLoading={isPoolLoading}
+                      aiResponse={item.message.content}
+                      sections={showStreamingInPool ? streamingSections : item.message.sections}
+                      analysis={item.message.analysis}
+                      isStreaming={!!showStreamingInPool}
+                      streamingSection={streamingSection}
+                    />
 
                     <hr className="mt-12 mb-8 border-border" />
                   </div>
@@ -1134,11 +1197,27 @@ const ChatBox: React.FC = () => {
         pool={selectedPool}
       />
 
+      {/* Bridge BTC then deploy into the pool */}
+      <BridgeDeployModal
+        isOpen={isBridgeDeployModalOpen}
+        onClose={() => setIsBridgeDeployModalOpen(false)}
+        userPortfolioStyle={selectedPortfolioStyle}
+        pool={selectedPool}
+      />
+
+      {/* Multi-pool Allocator Modal */}
+      <PortfolioAllocatorModal
+        isOpen={isAllocatorModalOpen}
+        onClose={() => setIsAllocatorModalOpen(false)}
+        portfolioStyle={selectedPortfolioStyle}
+      />
+
       {/* Portfolio Style Modal */}
       <PortfolioStyleModal
         isOpen={isPortfolioStyleModalOpen}
         onClose={() => setIsPortfolioStyleModalOpen(false)}
-        onSelectStyle={handleSelectPortfolioStyle}
+        onSelectProfile={handleSelectRiskProfile}
+        initialAnswers={riskProfile?.answers}
       />
 
       {/* BTC Filter Modal */}
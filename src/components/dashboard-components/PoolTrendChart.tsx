@@ -0,0 +1,132 @@
+"use client";
+
+import React from "react";
+import { Area, AreaChart, CartesianGrid, ReferenceLine, XAxis, YAxis } from "recharts";
+import {
+  ChartContainer,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart";
+import { cn } from "@/lib/utils/cn";
+import type { PoolMetricsSummary } from "@/lib/utils/poolMetrics";
+
+const chartConfig = {
+  feeApy: {
+    label: "24hr fee / TVL",
+    color: "var(--primary)",
+  },
+} satisfies ChartConfig;
+
+interface PoolTrendChartProps {
+  summary: PoolMetricsSummary;
+  // Sparkline without axes, grid or tooltip, for tables
+  compact?: boolean;
+  className?: string;
+}
+
+const formatPercent = (value: number) => `${value.toFixed(2)}%`;
+
+// Daily fee APY history with the 7-day average as a reference line
+export function PoolTrendChart({ summary, compact = false, className }: PoolTrendChartProps) {
+  const gradientId = React.useId().replace(/:/g, "");
+  const average = summary.sevenDay.average;
+
+  return (
+    <ChartContainer
+      config={chartConfig}
+      className={cn(compact ? "aspect-auto h-8 w-24" : "aspect-auto h-40 w-full", className)}
+    >
+      <AreaChart data={summary.trend} margin={compact ? { top: 2, right: 0, bottom: 2, left: 0 } : { top: 8, right: 8, bottom: 0, left: 0 }}>
+        <defs>
+          <linearGradient id={gradientId} x1="0" y1="0" x2="0" y2="1">
+            <stop offset="5%" stopColor="var(--color-feeApy)" stopOpacity={0.4} />
+            <stop offset="95%" stopColor="var(--color-feeApy)" stopOpacity={0} />
+          </linearGradient>
+        </defs>
+        {!compact && <CartesianGrid vertical={false} strokeDasharray="3 3" />}
+        <XAxis
+          dataKey="date"
+          hide={compact}
+          tickLine={false}
+          axisLine={false}
+          tickMargin={8}
+          minTickGap={24}
+          tickFormatter={(date: string) => date.slice(5)}
+        />
+        <YAxis
+          hide={compact}
+          width={48}
+          tickLine={false}
+          axisLine={false}
+          tickFormatter={formatPercent}
+          domain={[0, "auto"]}
+        />
+        {!compact && (
+          <ChartTooltip
+            content={
+              <ChartTooltipContent
+                indicator="line"
+                formatter={(value) => formatPercent(Number(value))}
+              />
+            }
+          />
+        )}
+        {!compact && average !== null && (
+          <ReferenceLine
+            y={average}
+            stroke="var(--color-feeApy)"
+            strokeDasharray="4 4"
+            strokeOpacity={0.6}
+          />
+        )}
+        <Area
+          dataKey="feeApy"
+          type="monotone"
+          stroke="var(--color-feeApy)"
+          strokeWidth={compact ? 1.5 : 2}
+          fill={`url(#${gradientId})`}
+          isAnimationActive={!compact}
+          dot={false}
+        />
+      </AreaChart>
+    </ChartContainer>
+  );
+}
+
+interface PoolTrendStatsProps {
+  summary: PoolMetricsSummary | undefined;
+}
+
+// 7d / 30d fee APY averages and volatility, or a note while history is still being collected
+export function PoolTrendStats({ summary }: PoolTrendStatsProps) {
+  if (!summary || summary.trend.length < 2) {
+    return (
+      <p className="text-xs text-white/60">
+        Collecting fee history for this pool. 7d and 30d averages appear after two days of data.
+      </p>
+    );
+  }
+
+  const stats = [
+    { label: "7d avg fee / TVL", value: summary.sevenDay.average, prefix: "" },
+    { label: "30d avg fee / TVL", value: summary.thirtyDay.average, prefix: "" },
+    { label: "7d volatility", value: summary.sevenDay.volatility, prefix: "±" },
+  ];
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap gap-6">
+        {stats.map((stat) => (
+          <div key={stat.label}>
+            <div className="text-xs text-white/60">{stat.label}</div>
+            <div className="text-white font-semibold">
+              {stat.value === null ? "N/A" : `${stat.prefix}${formatPercent(stat.value)}`}
+            </div>
+          </div>
+        ))}
+      </div>
+      <PoolTrendChart summary={summary} />
+    </div>
+  );
+}
@@ -0,0 +1,325 @@
+"use client";
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter, DialogDescription } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Loader2, AlertTriangle } from "lucide-react";
+import { showToast } from "@/lib/utils/showToast";
+import { PoolSearchService } from '@/lib/services/poolSearchService';
+import {
+  computeAllocation,
+  usePortfolioAllocatorService,
+  type LegRiskLevel,
+} from '@/lib/services/portfolioAllocatorService';
+import type { ApiPool } from '@/lib/utils/poolTypes';
+import { riskProfileFromStyle } from '@/lib/utils/riskProfile';
+import { usePoolMetrics } from '@/hooks/usePoolMetrics';
+import { PoolTrendChart } from './PoolTrendChart';
+import { useTransactionPreview } from '@/context/TransactionPreviewProvider';
+
+interface PortfolioAllocatorModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  portfolioStyle: string | null;
+}
+
+const RISK_COLORS: Record<LegRiskLevel, string> = {
+  low: 'text-green-400',
+  medium: 'text-yellow-400',
+  high: 'text-red-400',
+};
+
+const PortfolioAllocatorModal: React.FC<PortfolioAllocatorModalProps> = ({
+  isOpen,
+  onClose,
+  portfolioStyle,
+}) => {
+  const style = portfolioStyle || 'conservative';
+  const { service, publicKey, signAllTransactions } = usePortfolioAllocatorService();
+  const { requestApproval, priorityFeePolicy, notifyExpired } = useTransactionPreview();
+
+  const [amount, setAmount] = useState('');
+  const [pools, setPools] = useState<ApiPool[]>([]);
+  const [isLoadingPools, setIsLoadingPools] = useState(false);
+  const [balances, setBalances] = useState<Record<string, number>>({});
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [status, setStatus] = useState('');
+
+  // Load candidate BTC pools when the dialog opens
+  useEffect(() => {
+    if (!isOpen) return;
+    let cancelled = false;
+
+    setIsLoadingPools(true);
+    new PoolSearchService()
+      .searchPools({
+        profile: riskProfileFromStyle(style),
+        shownPoolAddresses: [],
+        tokenFilter: 'btc',
+        onLoadingMessage: () => {},
+        onError: (error) => console.error('Allocator pool search failed:', error),
+        handleAsyncError: async (operation) => {
+          try {
+            return await operation();
+          } catch (error) {
+            console.error('Allocator pool search failed:', error);
+            return null;
+          }
+        },
+      })
+      .then((result) => {
+        if (!cancelled) setPools(result);
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoadingPools(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, style]);
+
+  const totalAmount = parseFloat(amount) || 0;
+  const plan = useMemo(
+    () => (pools.length > 0 && totalAmount > 0 ? computeAllocation(pools, style, totalAmount) : null),
+    [pools, style, totalAmount]
+  );
+
+  // Check the wallet holds enough of each leg's BTC token (only when the set of legs changes)
+  const legAddresses = plan ? plan.legs.map((leg) => leg.pool.address).join(',') : '';
+  useEffect(() => {
+    if (!legAddresses || !publicKey) {
+      setBalances({});
+      return;
+    }
+    let cancelled = false;
+
+    Promise.all(legAddresses.split(',').map(async (address) => {
+      try {
+        return [address, await service.getPoolTokenBalance(address, publicKey)] as const;
+      } catch {
+        return [address, 0] as const;
+      }
+    })).then((entries) => {
+      if (!cancelled) setBalances(Object.fromEntries(entries));
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [legAddresses, publicKey, service]);
+
+  const { metrics } = usePoolMetrics(legAddresses ? legAddresses.split(',') : [], 7);
+
+  const shortLegs = plan
+    ? plan.legs.filter((leg) => balances[leg.pool.address] !== undefined && balances[leg.pool.address] < leg.amount)
+    : [];
+
+  const handleAmountChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const value = e.target.value;
+    if (/^[0-9]*\.?[0-9]*$/.test(value) || value === '') {
+      setAmount(value);
+    }
+  };
+
+  const handleDeploy = async () => {
+    if (!plan || !publicKey) return;
+
+    if (!signAllTransactions) {
+      showToast.error('Wallet Not Supported', 'Your wallet cannot sign a batch of transactions at once.');
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      setStatus('Preparing positions...');
+      const prepared = await service.prepareLegs(plan, publicKey);
+
+      // The legs are independent positions, so each one is simulated against current state
+      setStatus('Reviewing transactions...');
+      const approved = await requestApproval({
+        title: 'Create Positions',
+        description: `Open ${prepared.length} positions across ${prepared.length === 1 ? 'one pool' : `${prepared.length} pools`}.`,
+        transactions: prepared.flatMap((leg) => leg.transactions),
+        signers: prepared.map((leg) => leg.positionKeypair),
+        sequential: false,
+      });
+      if (!approved) return;
+
+      setStatus('Waiting for wallet approval...');
+      const signatures = await service.submitBatch(prepared, publicKey, signAllTransactions, {
+        policy: priorityFeePolicy,
+        onExpired: notifyExpired,
+      });
+
+      showToast.success(
+        'Portfolio Deployed',
+        `Created ${prepared.length} positions in ${signatures.length} transactions.`
+      );
+      setAmount('');
+      onClose();
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      if (/user rejected|user denied|cancelled/i.test(message)) {
+        showToast.warning('Transaction Cancelled', 'You cancelled the transaction. Your funds are safe.');
+      } else {
+        showToast.error('Deployment Failed', message);
+      }
+    } finally {
+      setIsSubmitting(false);
+      setStatus('');
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={isSubmitting ? undefined : onClose}>
+      <DialogContent className="bg-[#161616] border-border text-white max-w-2xl mx-auto max-h-[90vh] overflow-y-auto">
+        <DialogHeader className="space-y-3">
+          <DialogTitle className="text-white text-xl">Allocate Across Pools</DialogTitle>
+          <DialogDescription className="text-sm text-sub-text">
+            Spread your BTC across wBTC, zBTC and cbBTC pools for a {style} portfolio
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6 mt-4">
+          <div className="space-y-2">
+            <label className="text-sm text-sub-text block font-medium">
+              How much BTC do you want to deploy?
+            </label>
+            <input
+              type="text"
+              inputMode="decimal"
+              value={amount}
+              onChange={handleAmountChange}
+              placeholder="0.5"
+              className="w-full bg-transparent border border-border rounded-lg px-4 py-3 text-white focus:outline-none focus:border-primary"
+              disabled={isSubmitting}
+            />
+          </div>
+
+          {isLoadingPools && (
+            <div className="flex items-center gap-2 text-sm text-sub-text">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              Finding BTC pools...
+            </div>
+          )}
+
+          {!isLoadingPools && pools.length === 0 && isOpen && (
+            <div className="text-sm text-sub-text">No eligible BTC pools are available right now.</div>
+          )}
+
+          {plan && plan.legs.length > 0 && (
+            <div className="space-y-3">
+              <div className="overflow-x-auto">
+                <table className="min-w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-xs text-gray-500 uppercase">
+                      <th className="py-2 pr-4">Pool</th>
+                      <th className="py-2 pr-4">Weight</th>
+                      <th className="py-2 pr-4">Amount</th>
+                      <th className="py-2 pr-4">Est. Fee APY</th>
+                      <th className="py-2 pr-4">7d Trend</th>
+                      <th className="py-2 pr-4">Daily Fees</th>
+                      <th className="py-2">Risk</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {plan.legs.map((leg) => {
+                      const balance = balances[leg.pool.address];
+                      const isShort = balance !== undefined && balance < leg.amount;
+                      const trend = metrics[leg.pool.address];
+                      return (
+                        <tr key={leg.pool.address} className="border-t border-border">
+                          <td className="py-2 pr-4">
+                            <div className="font-medium">{leg.pool.name}</div>
+                            <div className="text-xs text-sub-text">Bin step {leg.pool.bin_step ?? 'N/A'}</div>
+                          </td>
+                          <td className="py-2 pr-4 font-mono">{(leg.weight * 100).toFixed(1)}%</td>
+                          <td className="py-2 pr-4 font-mono">
+                            <div>{leg.amount.toFixed(8)}</div>
+                            {balance !== undefined && (
+                              <div className={`text-xs ${isShort ? 'text-red-400' : 'text-sub-text'}`}>
+                                Balance {balance.toFixed(8)}
+                              </div>
+                            )}
+                          </td>
+                          <td className="py-2 pr-4 font-mono">{leg.expectedFeeApy.toFixed(2)}%</td>
+                          <td className="py-2 pr-4">
+                            {trend && trend.trend.length >= 2 ? (
+                              <>
+                                <PoolTrendChart summary={trend} compact />
+                                <div className="text-xs text-sub-text font-mono">
+                                  avg {trend.sevenDay.average?.toFixed(2) ?? 'N/A'}%/day
+                                </div>
+                              </>
+                            ) : (
+                              <span className="text-xs text-sub-text">No history yet</span>
+                            )}
+                          </td>
+                          <td className="py-2 pr-4 font-mono">{leg.expectedDailyFees.toFixed(8)}</td>
+                          <td className={`py-2 capitalize ${RISK_COLORS[leg.risk.level]}`}>
+                            {leg.risk.level}
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+
+              <div className="flex justify-between text-sm border-t border-border pt-3">
+                <span className="text-sub-text">Blended fee APY</span>
+                <span className="font-mono">{plan.blendedFeeApy.toFixed(2)}%</span>
+              </div>
+              <div className="flex justify-between text-sm">
+                <span className="text-sub-text">Blended risk score</span>
+                <span className="font-mono">{(plan.blendedRiskScore * 100).toFixed(0)} / 100</span>
+              </div>
+              <p className="text-xs text-sub-text">
+                Fee APY is annualized from the last 24 hours of fees and will change with trading activity.
+              </p>
+
+              {shortLegs.length > 0 && (
+                <div className="flex items-start gap-2 bg-primary/10 border border-primary rounded-lg p-3 text-sm text-primary">
+                  <AlertTriangle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+                  <span>
+                    Not enough {shortLegs.map((leg) => leg.pool.name.split('-')[0]).join(', ')} in your wallet for this allocation.
+                  </span>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+
+        <DialogFooter className="mt-6 flex flex-col gap-3 sm:flex-row">
+          <Button
+            onClick={handleDeploy}
+            disabled={!plan || plan.legs.length === 0 || !publicKey || isSubmitting || shortLegs.length > 0}
+            className="bg-primary hover:bg-primary/80 w-full sm:w-auto order-1 sm:order-2"
+          >
+            {isSubmitting ? (
+              <>
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                {status || 'Deploying...'}
+              </>
+            ) : !publicKey ? (
+              'Connect Wallet'
+            ) : (
+              `Create ${plan?.legs.length || 0} Positions`
+            )}
+          </Button>
+          <Button
+            variant="outline"
+            onClick={onClose}
+            disabled={isSubmitting}
+            className="w-full sm:w-auto order-2 sm:order-1"
+          >
+            Cancel
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default PortfolioAllocatorModal;
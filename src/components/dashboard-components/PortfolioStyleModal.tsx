@@ -1,136 +1,191 @@
 "use client";
 
-import React, { useState } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import { Dialog, DialogContent, DialogTitle, DialogDescription } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
+import {
+  buildRiskProfile,
+  RISK_QUESTIONS,
+  type RiskAnswers,
+  type RiskProfile,
+} from '@/lib/utils/riskProfile';
 
 interface PortfolioStyleModalProps {
   isOpen: boolean;
   onClose: () => void;
-  onSelectStyle: (style: string) => void;
+  onSelectProfile: (profile: RiskProfile) => void;
+  // Answers of the saved profile, so retaking the questionnaire starts from them
+  initialAnswers?: RiskAnswers;
 }
 
-type PortfolioStyle = {
-  id: string;
-  title: string;
-  description: string;
-  icon?: string;
+const STYLE_LABELS: Record<RiskProfile['style'], { title: string; icon: string }> = {
+  conservative: { title: 'Conservative', icon: '🛡️' },
+  moderate: { title: 'Moderate', icon: '⚖️' },
+  aggressive: { title: 'Aggressive', icon: '🚀' },
 };
 
-const PortfolioStyleModal: React.FC<PortfolioStyleModalProps> = ({ 
-  isOpen, 
+const PortfolioStyleModal: React.FC<PortfolioStyleModalProps> = ({
+  isOpen,
   onClose,
-  onSelectStyle
+  onSelectProfile,
+  initialAnswers
 }) => {
-  const [selectedStyle, setSelectedStyle] = useState<string | null>(null);
-  
-  const portfolioStyles: PortfolioStyle[] = [
-    {
-      id: 'conservative',
-      title: 'Conservative',
-      description: 'Protect your capital by focusing on stable, audited pools-lower risk, safe but smaller returns.',
-      icon: '🛡️'
-    },
-    {
-      id: 'moderate',
-      title: 'Moderate',
-      description: 'Balance growth and stability using a mix of established and growth pools-moderate risk, steadier returns.',
-      icon: '⚖️'
-    },
-    {
-      id: 'aggressive',
-      title: 'Aggressive',
-      description: 'Maximize returns with higher-yield, more volatile pools-expect bigger ups and downs.',
-      icon: '🚀'
-    }
-  ];
-  
-  const handleStyleSelect = (styleId: string) => {
-    setSelectedStyle(styleId);
+  const [step, setStep] = useState(0);
+  const [answers, setAnswers] = useState<Partial<RiskAnswers>>({});
+
+  // Start over each time the questionnaire opens
+  useEffect(() => {
+    if (!isOpen) return;
+    setStep(0);
+    setAnswers(initialAnswers ?? {});
+  }, [isOpen, initialAnswers]);
+
+  const isSummary = step === RISK_QUESTIONS.length;
+  const question = RISK_QUESTIONS[step];
+
+  const profile = useMemo(() => {
+    const complete = RISK_QUESTIONS.every((item) => answers[item.id] !== undefined);
+    return complete ? buildRiskProfile(answers as RiskAnswers) : null;
+  }, [answers]);
+
+  const handleAnswer = (value: string) => {
+    if (!question) return;
+    setAnswers((prev) => ({ ...prev, [question.id]: value }));
   };
-  
+
   const handleConfirm = () => {
-    if (selectedStyle) {
-      onSelectStyle(selectedStyle);
+    if (profile) {
+      onSelectProfile(profile);
       onClose();
     }
   };
 
+  const selected = question ? answers[question.id] : undefined;
+
   return (
     <Dialog open={isOpen} onOpenChange={onClose}>
       <DialogContent aria-describedby="portfolio-style-description">
         <DialogTitle className='text-center text-2xl font-bold'>
-          Choose Your Portfolio Style
+          Build Your Risk Profile
         </DialogTitle>
         <DialogDescription id="portfolio-style-description" className="text-center text-sub-text">
-          Select your preferred investment style to get recommendations that match your risk tolerance and goals.
+          {RISK_QUESTIONS.length} quick questions turn your goals into the ranges, bin steps and pool sizes we recommend.
         </DialogDescription>
-        
+
         {/* Modal Content */}
-        <div className='pt-8'>  
-          {/* Subtitle */}
-          <div className="mb-6 flex flex-col items-start ">
-            <h3 className="text-md white mb-2">Select Your Preferred Investment Style</h3>
-            <p className="text-sm text-sub-text">
-              Choose how you want to grow your portfolio. Your selection helps us recommend the best liquidity pools for your risk comfort and goals.
-            </p>
+        <div className='pt-8'>
+          {/* Progress */}
+          <div className="flex gap-1 mb-6" aria-hidden="true">
+            {[...RISK_QUESTIONS, null].map((_, index) => (
+              <div
+                key={index}
+                className={`h-1 flex-1 rounded-full ${index <= step ? 'bg-primary' : 'bg-border'}`}
+              />
+            ))}
           </div>
-          
-          {/* Options */}
-          <div className="space-y-3 mb-8" role="radiogroup" aria-labelledby="portfolio-style-description">
-            {portfolioStyles.map((style) => {
-              const isSelected = selectedStyle === style.id;
-              
-              return (
-                <div
-                  key={style.id}
-                  className={`cursor-pointer rounded-2xl border px-5 py-4 transition-all ${
-                    isSelected ? "bg-primary border-primary" : "bg-transparent border-primary"
-                  }`}
-                  onClick={() => handleStyleSelect(style.id)}
-                  role="radio"
-                  aria-checked={isSelected}
-                  aria-labelledby={`style-${style.id}-title`}
-                  aria-describedby={`style-${style.id}-desc`}
-                  tabIndex={0}
-                  onKeyDown={(e) => {
-                    if (e.key === 'Enter' || e.key === ' ') {
-                      e.preventDefault();
-                      handleStyleSelect(style.id);
-                    }
-                  }}
-                >
-                  <div className="flex items-center">
-                    <div className="flex-1">
-                      <div className="flex items-center">
-                        {style.icon && <span className="mr-2" aria-hidden="true">{style.icon}</span>}
-                        <h3 id={`style-${style.id}-title`} className="font-medium text-white">
-                          {style.title}
-                        </h3>
-                      </div>
-                      <p id={`style-${style.id}-desc`} className="text-sm text-white mt-1">
-                        {style.description}
-                      </p>
+
+          {question && (
+            <>
+              <div className="mb-6 flex flex-col items-start">
+                <p className="text-xs text-sub-text mb-1">Question {step + 1} of {RISK_QUESTIONS.length}</p>
+                <h3 className="text-md white mb-2">{question.title}</h3>
+                <p className="text-sm text-sub-text">{question.description}</p>
+              </div>
+
+              {/* Options */}
+              <div className="space-y-3 mb-8" role="radiogroup" aria-label={question.title}>
+                {question.options.map((option) => {
+                  const isSelected = selected === option.value;
+
+                  return (
+                    <div
+                      key={option.value}
+                      className={`cursor-pointer rounded-2xl border px-5 py-3 transition-all ${
+                        isSelected ? "bg-primary border-primary" : "bg-transparent border-primary"
+                      }`}
+                      onClick={() => handleAnswer(option.value)}
+                      role="radio"
+                      aria-checked={isSelected}
+                      tabIndex={0}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter' || e.key === ' ') {
+                          e.preventDefault();
+                          handleAnswer(option.value);
+                        }
+                      }}
+                    >
+                      <span className="font-medium text-white">{option.label}</span>
                     </div>
-                  </div>
+                  );
+                })}
+              </div>
+            </>
+          )}
+
+          {isSummary && profile && (
+            <div className="mb-8 space-y-4">
+              <div className="flex items-center justify-between">
+                <h3 className="text-md text-white flex items-center gap-2">
+                  <span aria-hidden="true">{STYLE_LABELS[profile.style].icon}</span>
+                  {STYLE_LABELS[profile.style].title}
+                </h3>
+                <span className="text-sm text-sub-text">Risk score {profile.score}/100</span>
+              </div>
+              <div className="grid grid-cols-2 gap-3 text-sm">
+                <div className="bg-[#0f0f0f] rounded-lg p-3">
+                  <p className="text-sub-text text-xs">Price range width</p>
+                  <p className="text-white font-semibold">~{profile.targetRangeWidthPercent}%</p>
                 </div>
-              );
-            })}
+                <div className="bg-[#0f0f0f] rounded-lg p-3">
+                  <p className="text-sub-text text-xs">Acceptable IL</p>
+                  <p className="text-white font-semibold">up to {profile.maxImpermanentLossPercent}%</p>
+                </div>
+                <div className="bg-[#0f0f0f] rounded-lg p-3">
+                  <p className="text-sub-text text-xs">Bin steps</p>
+                  <p className="text-white font-semibold">{profile.allowedBinSteps.join(', ')}</p>
+                </div>
+                <div className="bg-[#0f0f0f] rounded-lg p-3">
+                  <p className="text-sub-text text-xs">Minimum pool TVL</p>
+                  <p className="text-white font-semibold">${profile.minTvl.toLocaleString()}</p>
+                </div>
+              </div>
+            </div>
+          )}
+
+          <div className="flex gap-3">
+            {step > 0 && (
+              <Button
+                variant="outline"
+                onClick={() => setStep(step - 1)}
+                className="flex-1 bg-transparent border-border"
+              >
+                Back
+              </Button>
+            )}
+            {isSummary ? (
+              <Button
+                variant="default"
+                onClick={handleConfirm}
+                disabled={!profile}
+                className="flex-1"
+              >
+                Use This Profile
+              </Button>
+            ) : (
+              <Button
+                variant="default"
+                onClick={() => setStep(step + 1)}
+                disabled={!selected}
+                className="flex-1"
+              >
+                Continue
+              </Button>
+            )}
           </div>
-          
-          {/* Continue Button */}
-          <Button
-            variant="default"
-            onClick={handleConfirm}
-            disabled={!selectedStyle}
-            className="w-full"
-          >
-            Continue
-          </Button>
         </div>
       </DialogContent>
     </Dialog>
   );
 };
 
-export default PortfolioStyleModal;
\ No newline at end of file
+export default PortfolioStyleModal;
@@ -1,3 +1,5 @@
+import type { PositionRangeStatus } from "@/lib/services/positionMonitorService"
+
 export function RangeBar({ min, max, current }: { min: number, max: number, current: number }) {
 	const currentPercent = ((current - min) / (max - min)) * 100
 
@@ -30,4 +32,19 @@ export function RangeBar({ min, max, current }: { min: number, max: number, curr
 			</div>
 		</div>
 	)
-} 
\ No newline at end of file
+} 
+const STATUS_STYLES: Record<PositionRangeStatus, { label: string, className: string }> = {
+	'in-range': { label: 'In Range', className: 'bg-green-500/10 text-green-400 border-green-500/40' },
+	'near-edge': { label: 'Near Edge', className: 'bg-yellow-500/10 text-yellow-400 border-yellow-500/40' },
+	'out-of-range': { label: 'Out of Range', className: 'bg-red-500/10 text-red-400 border-red-500/40' },
+}
+
+export function RangeStatusBadge({ status }: { status: PositionRangeStatus }) {
+	const { label, className } = STATUS_STYLES[status]
+
+	return (
+		<span className={`inline-block text-xs px-2 py-0.5 rounded-full border ${className}`}>
+			{label}
+		</span>
+	)
+}
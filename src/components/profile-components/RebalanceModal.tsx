@@ -0,0 +1,187 @@
+"use client";
+
+import React, { useCallback, useEffect, useState } from "react";
+import { StrategyType } from "@meteora-ag/dlmm";
+import { Loader2 } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { showToast } from "@/lib/utils/showToast";
+import type { PositionHealth, RebalancePlan } from "@/lib/services/positionMonitorService";
+import { RangeStatusBadge } from "./RangeBar";
+
+const STRATEGY_LABELS: Record<StrategyType, string> = {
+  [StrategyType.Spot]: "Spot",
+  [StrategyType.Curve]: "Curve",
+  [StrategyType.BidAsk]: "Bid-Ask",
+};
+
+interface RebalanceModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  pairName: string;
+  health: PositionHealth;
+  prepareRebalance: (options: { swap: boolean }) => Promise<RebalancePlan>;
+  executeRebalance: (plan: RebalancePlan) => Promise<string[] | null>;
+}
+
+// Shows the remove → swap → re-add plan for a drifted position and signs it on confirm
+export function RebalanceModal({
+  isOpen,
+  onClose,
+  pairName,
+  health,
+  prepareRebalance,
+  executeRebalance,
+}: RebalanceModalProps) {
+  const [swap, setSwap] = useState(false);
+  const [plan, setPlan] = useState<RebalancePlan | null>(null);
+  const [preparing, setPreparing] = useState(false);
+  const [executing, setExecuting] = useState(false);
+  const [error, setError] = useState("");
+
+  const loadPlan = useCallback(async () => {
+    setPreparing(true);
+    setError("");
+    setPlan(null);
+    try {
+      setPlan(await prepareRebalance({ swap }));
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setPreparing(false);
+    }
+  }, [prepareRebalance, swap]);
+
+  // Build a fresh plan whenever the dialog opens or the swap option changes
+  useEffect(() => {
+    if (isOpen) loadPlan();
+  }, [isOpen, loadPlan]);
+
+  async function handleConfirm() {
+    if (!plan) return;
+    setExecuting(true);
+    try {
+      const signatures = await executeRebalance(plan);
+      if (!signatures) return;
+      showToast.success(
+        "Position rebalanced",
+        `Your liquidity is now in bins ${plan.newRange.minBinId}-${plan.newRange.maxBinId}.`
+      );
+      onClose();
+    } catch (err) {
+      showToast.error("Rebalance failed", (err as Error).message);
+    } finally {
+      setExecuting(false);
+    }
+  }
+
+  return (
+    <Dialog open={isOpen} onOpenChange={executing ? undefined : onClose}>
+      <DialogContent className="bg-[#161616] border-border text-white max-w-lg mx-auto max-h-[90vh] overflow-y-auto">
+        <DialogHeader className="space-y-3">
+          <DialogTitle className="text-white text-xl">Rebalance Position</DialogTitle>
+          <DialogDescription className="text-sm text-sub-text">
+            Move your {pairName} liquidity back around the current price so it keeps earning fees
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 mt-4">
+          <div className="flex items-center justify-between text-sm">
+            <span className="text-sub-text">Status</span>
+            <RangeStatusBadge status={health.status} />
+          </div>
+          <div className="flex items-center justify-between text-sm">
+            <span className="text-sub-text">Current range</span>
+            <span className="font-mono">
+              {health.lowerBinId} – {health.upperBinId}
+            </span>
+          </div>
+          <div className="flex items-center justify-between text-sm">
+            <span className="text-sub-text">Active bin</span>
+            <span className="font-mono">{health.activeBinId}</span>
+          </div>
+
+          <label className="flex items-center gap-2 text-sm cursor-pointer">
+            <Checkbox
+              checked={swap}
+              onCheckedChange={(checked) => setSwap(checked === true)}
+              disabled={preparing || executing}
+            />
+            Swap half to hold both tokens (re-add centred on the active bin)
+          </label>
+
+          {preparing && (
+            <div className="flex items-center gap-2 text-sm text-sub-text">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              Preparing rebalance plan...
+            </div>
+          )}
+
+          {error && (
+            <div className="bg-primary/10 border border-primary rounded-lg p-3 text-sm text-primary">
+              {error}
+            </div>
+          )}
+
+          {plan && (
+            <div className="bg-card-foreground border border-border rounded-lg p-4 space-y-3">
+              <div className="flex items-center justify-between text-sm">
+                <span className="text-sub-text">New range</span>
+                <span className="font-mono">
+                  {plan.newRange.minBinId} – {plan.newRange.maxBinId}
+                </span>
+              </div>
+              <div className="flex items-center justify-between text-sm">
+                <span className="text-sub-text">Strategy</span>
+                <span>{STRATEGY_LABELS[plan.strategyType]}</span>
+              </div>
+              <ol className="list-decimal list-inside space-y-1 text-sm">
+                {plan.steps.map((step) => (
+                  <li key={step.kind}>
+                    {step.description}
+                    {step.transactions.length > 1 && (
+                      <span className="text-sub-text"> ({step.transactions.length} transactions)</span>
+                    )}
+                  </li>
+                ))}
+              </ol>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter className="mt-6 flex flex-col gap-3 sm:flex-row">
+          <Button
+            onClick={handleConfirm}
+            disabled={!plan || preparing || executing}
+            className="bg-primary hover:bg-primary/80 w-full sm:w-auto order-1 sm:order-2"
+          >
+            {executing ? (
+              <>
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                Rebalancing...
+              </>
+            ) : (
+              "Approve & Rebalance"
+            )}
+          </Button>
+          <Button
+            variant="outline"
+            onClick={onClose}
+            disabled={executing}
+            className="w-full sm:w-auto order-2 sm:order-1"
+          >
+            Cancel
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
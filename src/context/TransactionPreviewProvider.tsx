@@ -0,0 +1,232 @@
+// src/context/TransactionPreviewProvider.tsx
+// Every DLMM action goes through this before the wallet prompt: the transactions are
+// simulated, their effects shown, and the action blocked if the simulation fails.
+// Approved transactions are sent as v0 transactions with the chosen priority fee.
+
+'use client'
+
+import { createContext, FC, ReactNode, useCallback, useContext, useEffect, useMemo, useRef, useState } from 'react'
+import { Connection, Keypair, PublicKey, Transaction } from '@solana/web3.js'
+import { useWallet } from '@solana/wallet-adapter-react'
+import { TransactionPreviewDialog } from '@/components/TransactionPreviewDialog'
+import {
+  TransactionPreviewService,
+  type TransactionPreview,
+} from '@/lib/services/transactionPreviewService'
+import {
+  SPEED_TIERS,
+  TransactionBuilder,
+  type PriorityFeePolicy,
+  type SpeedTier,
+} from '@/lib/services/transactionBuilder'
+import { showToast } from '@/lib/utils/showToast'
+
+export interface TransactionPreviewRequest {
+  // Action name, e.g. "Add Liquidity"
+  title: string
+  description?: string
+  transactions: Transaction[]
+  // Extra signers (e.g. a new position keypair); each is only applied where required
+  signers?: Keypair[]
+  // Whether later transactions build on earlier ones (default true)
+  sequential?: boolean
+  // Last check after approval and before the wallet prompt (e.g. the price has not moved); throw to abort
+  beforeSend?: () => Promise<unknown>
+  // Check right before transaction `index` is sent, once the earlier ones landed; throw to stop there
+  beforeTransaction?: (index: number) => Promise<unknown>
+}
+
+interface TransactionPreviewContextValue {
+  // Show the preview and resolve with it once approved, or null when cancelled
+  requestApproval: (request: TransactionPreviewRequest) => Promise<TransactionPreview | null>
+  // Preview, then sign and send each transaction in order; null when cancelled
+  previewAndSend: (request: TransactionPreviewRequest) => Promise<string[] | null>
+  // Priority fee policy in effect (the user's speed choice, or the configured default)
+  priorityFeePolicy: PriorityFeePolicy
+  // Toast shown when a transaction expired and the wallet is about to prompt again
+  notifyExpired: (attempt: number) => void
+  connection: Connection
+}
+
+interface PreviewState {
+  request: TransactionPreviewRequest
+  preview: TransactionPreview | null
+  isSimulating: boolean
+  loadError: string | null
+  // Estimated priority fee in lamports across the whole action
+  priorityFee: number | null
+}
+
+const SPEED_TIER_KEY = 'hypebiscus_priority_speed'
+
+const TransactionPreviewContext = createContext<TransactionPreviewContextValue | null>(null)
+
+export const TransactionPreviewProvider: FC<{ children: ReactNode }> = ({ children }) => {
+  const { publicKey, sendTransaction } = useWallet()
+  const [state, setState] = useState<PreviewState | null>(null)
+  const resolveRef = useRef<((preview: TransactionPreview | null) => void) | null>(null)
+
+  const [speedTier, setSpeedTier] = useState<SpeedTier | null>(null)
+
+  const service = useMemo(() => new TransactionPreviewService(new Connection(
+    process.env.NEXT_PUBLIC_SOLANA_RPC_URL || 'https://api.mainnet-beta.solana.com'
+  )), [])
+  const builder = useMemo(() => new TransactionBuilder(service.connection), [service])
+
+  // The user's speed choice outlives the page; read it after mount so SSR markup matches
+  useEffect(() => {
+    const stored = localStorage.getItem(SPEED_TIER_KEY)
+    if (stored && stored in SPEED_TIERS) setSpeedTier(stored as SpeedTier)
+  }, [])
+
+  const changeSpeedTier = useCallback((tier: SpeedTier) => {
+    setSpeedTier(tier)
+    localStorage.setItem(SPEED_TIER_KEY, tier)
+  }, [])
+
+  const priorityFeePolicy = useMemo<PriorityFeePolicy>(
+    () => speedTier ? { kind: 'speed', tier: speedTier } : builder.defaultPolicy,
+    [speedTier, builder]
+  )
+
+  const notifyExpired = useCallback((attempt: number) => {
+    showToast.warning(
+      'Transaction expired',
+      `The network did not include it in time. Please approve attempt ${attempt} in your wallet.`
+    )
+  }, [])
+
+  const simulate = useCallback(async (request: TransactionPreviewRequest, feePayer: PublicKey) => {
+    setState({ request, preview: null, isSimulating: true, loadError: null, priorityFee: null })
+    try {
+      const preview = await service.previewTransactions(request.transactions, feePayer, {
+        sequential: request.sequential,
+      })
+      setState(current => current && current.request === request
+        ? { ...current, preview, isSimulating: false }
+        : current)
+    } catch (error) {
+      setState(current => current && current.request === request
+        ? { ...current, isSimulating: false, loadError: error instanceof Error ? error.message : 'Unknown error' }
+        : current)
+    }
+  }, [service])
+
+  // Re-quote the priority fee whenever a preview arrives or the speed changes
+  const quotedPreview = state?.preview || null
+  const quotedRequest = state?.request || null
+  useEffect(() => {
+    if (!quotedPreview || !quotedRequest) return
+    let cancelled = false
+
+    Promise.all(quotedRequest.transactions.map((transaction, index) =>
+      builder.quotePriorityFee(transaction, quotedPreview.simulations[index]?.computeUnits ?? null, priorityFeePolicy)
+    ))
+      .then(quotes => {
+        if (cancelled) return
+        const priorityFee = quotes.reduce((total, quote) => total + quote.lamports, 0)
+        setState(current => current && current.preview === quotedPreview ? { ...current, priorityFee } : current)
+      })
+      .catch(error => console.warn('Failed to quote priority fee:', error))
+
+    return () => {
+      cancelled = true
+    }
+  }, [quotedPreview, quotedRequest, priorityFeePolicy, builder])
+
+  const settle = useCallback((preview: TransactionPreview | null) => {
+    resolveRef.current?.(preview)
+    resolveRef.current = null
+    setState(null)
+  }, [])
+
+  const requestApproval = useCallback((request: TransactionPreviewRequest): Promise<TransactionPreview | null> => {
+    if (!publicKey) {
+      return Promise.reject(new Error('Please connect your wallet to continue.'))
+    }
+
+    // A new request supersedes one that is still open
+    resolveRef.current?.(null)
+
+    return new Promise(resolve => {
+      resolveRef.current = resolve
+      simulate(request, publicKey)
+    })
+  }, [publicKey, simulate])
+
+  const previewAndSend = useCallback(async (request: TransactionPreviewRequest): Promise<string[] | null> => {
+    const preview = await requestApproval(request)
+    if (!preview || !publicKey) return null
+
+    await request.beforeSend?.()
+
+    const signers = request.signers || []
+    const signatures: string[] = []
+
+    for (let index = 0; index < request.transactions.length; index++) {
+      const transaction = request.transactions[index]
+      let simulation = preview.simulations[index]
+
+      await request.beforeTransaction?.(index)
+
+      // Steps that could not be simulated up front are checked now that earlier steps landed
+      if (simulation?.status === 'dependent') {
+        simulation = await service.assertSimulates(transaction, publicKey)
+      }
+
+      const signature = await builder.sendWithRetry(
+        transaction,
+        publicKey,
+        versioned => sendTransaction(versioned, service.connection),
+        {
+          policy: priorityFeePolicy,
+          computeUnits: simulation?.status === 'success' ? simulation.computeUnits : null,
+          signers,
+          onExpired: notifyExpired,
+        }
+      )
+      signatures.push(signature)
+    }
+
+    return signatures
+  }, [requestApproval, publicKey, sendTransaction, service, builder, priorityFeePolicy, notifyExpired])
+
+  const value = useMemo(() => ({
+    requestApproval,
+    previewAndSend,
+    priorityFeePolicy,
+    notifyExpired,
+    connection: service.connection,
+  }), [requestApproval, previewAndSend, priorityFeePolicy, notifyExpired, service])
+
+  return (
+    <TransactionPreviewContext.Provider value={value}>
+      {children}
+      <TransactionPreviewDialog
+        isOpen={state !== null}
+        title={state?.request.title || ''}
+        description={state?.request.description}
+        preview={state?.preview || null}
+        isSimulating={state?.isSimulating || false}
+        loadError={state?.loadError || null}
+        priorityFee={state?.priorityFee ?? null}
+        speedTier={priorityFeePolicy.kind === 'speed' ? priorityFeePolicy.tier : null}
+        onSpeedTierChange={changeSpeedTier}
+        onConfirm={() => state?.preview?.canProceed && settle(state.preview)}
+        onCancel={() => settle(null)}
+        onRetry={() => state && publicKey && simulate(state.request, publicKey)}
+      />
+    </TransactionPreviewContext.Provider>
+  )
+}
+
+/**
+ * Access the transaction preview flow (must be inside TransactionPreviewProvider)
+ */
+export function useTransactionPreview(): TransactionPreviewContextValue {
+  const context = useContext(TransactionPreviewContext)
+  if (!context) {
+    throw new Error('useTransactionPreview must be used within a <TransactionPreviewProvider />')
+  }
+  return context
+}
@@ -0,0 +1,180 @@
+// src/hooks/useBridgeDeployPipelines.ts
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { Connection, PublicKey } from '@solana/web3.js';
+import { showToast } from '@/lib/utils/showToast';
+import { useTransactionPreview } from '@/context/TransactionPreviewProvider';
+import type { BridgeJobsState } from '@/hooks/useBridgeJobs';
+import type { DlmmStrategyName } from '@/lib/meteora/meteoraChatTools';
+import {
+  BridgeDeployPipelineService,
+  advanceFromBridgeJob,
+  cancelPipeline,
+  createPipeline,
+  isActivePipeline,
+  withPipelineError,
+  type BridgeDeployPipeline,
+} from '@/lib/services/bridgeDeployPipeline';
+import { loadPipelines, removePipeline, upsertPipeline } from '@/lib/services/bridgeDeployPipelineStore';
+
+const MINT_POLL_INTERVAL_MS = 15000;
+
+export interface StartPipelineOptions {
+  poolAddress: string;
+  poolName: string;
+  amountSats: string;
+  swapPercent: number;
+  strategy: DlmmStrategyName;
+}
+
+/**
+ * Bridge-then-deploy pipelines of the connected wallet. Bridging and the mint wait advance
+ * on their own (from the shared bridge jobs); the swap and deposit run when the user
+ * continues, since each needs a signature.
+ */
+export const useBridgeDeployPipelines = (bridge: BridgeJobsState) => {
+  const { wallet, jobs, startDeposit } = bridge;
+  const { previewAndSend } = useTransactionPreview();
+  const [pipelines, setPipelines] = useState<BridgeDeployPipeline[]>([]);
+  const [runningId, setRunningId] = useState<string | null>(null);
+
+  const service = useMemo(() => new BridgeDeployPipelineService(new Connection(
+    process.env.NEXT_PUBLIC_SOLANA_RPC_URL || 'https://api.mainnet-beta.solana.com'
+  )), []);
+
+  const pipelinesRef = useRef(pipelines);
+  pipelinesRef.current = pipelines;
+  const jobsRef = useRef(jobs);
+  jobsRef.current = jobs;
+
+  // Restore the wallet's pipelines
+  useEffect(() => {
+    setPipelines(wallet ? loadPipelines(wallet) : []);
+  }, [wallet]);
+
+  const savePipeline = useCallback((pipeline: BridgeDeployPipeline) => {
+    setPipelines(upsertPipeline(pipeline));
+  }, []);
+
+  // Follow each bridging pipeline's job
+  useEffect(() => {
+    for (const pipeline of pipelinesRef.current) {
+      if (pipeline.stage !== 'bridging') continue;
+      const next = advanceFromBridgeJob(pipeline, jobs.find(job => job.id === pipeline.bridgeJobId));
+      if (next !== pipeline) {
+        savePipeline(next);
+        if (next.stage === 'failed') showToast.error('Bridge & deploy stopped', next.error ?? 'The bridge did not complete.');
+      }
+    }
+  }, [jobs, savePipeline]);
+
+  const isAwaitingMint = pipelines.some(pipeline => pipeline.stage === 'awaiting_mint');
+
+  // Watch the wallet for the minted zBTC
+  useEffect(() => {
+    if (!isAwaitingMint) return;
+    let cancelled = false;
+
+    const check = async () => {
+      for (const pipeline of pipelinesRef.current.filter(item => item.stage === 'awaiting_mint')) {
+        try {
+          const job = jobsRef.current.find(item => item.id === pipeline.bridgeJobId);
+          const next = await service.checkMint(pipeline, job);
+          if (cancelled || next === pipeline) continue;
+          savePipeline(next);
+          showToast.success('zBTC arrived', `Continue to ${next.stage === 'swapping' ? 'swap and ' : ''}open your ${next.poolName} position.`);
+        } catch (error) {
+          console.warn(`Failed to check the mint for pipeline ${pipeline.id}:`, error);
+        }
+      }
+    };
+
+    check();
+    const timer = setInterval(check, MINT_POLL_INTERVAL_MS);
+    return () => {
+      cancelled = true;
+      clearInterval(timer);
+    };
+  }, [isAwaitingMint, service, savePipeline]);
+
+  const startPipeline = useCallback(async (options: StartPipelineOptions): Promise<BridgeDeployPipeline> => {
+    if (!wallet) throw new Error('Please connect your wallet first');
+
+    // Check the pool before any BTC is asked for
+    await service.getPoolSides(options.poolAddress);
+    const baseline = await service.getZbtcBalance(new PublicKey(wallet));
+    const job = await startDeposit(options.amountSats);
+
+    const pipeline = createPipeline({
+      wallet,
+      ...options,
+      bridgeJobId: job.id,
+      zbtcBaseline: baseline.toString(),
+    });
+    savePipeline(pipeline);
+    return pipeline;
+  }, [wallet, service, startDeposit, savePipeline]);
+
+  // Run the signing stage the pipeline is on; errors stay on the stage so it can be retried
+  const continuePipeline = useCallback(async (pipelineId: string) => {
+    let pipeline = pipelinesRef.current.find(item => item.id === pipelineId);
+    if (!pipeline) return;
+
+    setRunningId(pipelineId);
+    try {
+      if (pipeline.stage === 'swapping') {
+        const swap = await service.buildSwap(pipeline);
+        const signatures = await previewAndSend({
+          title: 'Swap zBTC',
+          description: `Swap ${pipeline.swapPercent}% of the bridged zBTC for the other token of ${pipeline.poolName}.`,
+          transactions: [swap.transaction],
+        });
+        if (!signatures) return;
+
+        pipeline = service.completeSwap(pipeline, swap, signatures[signatures.length - 1]);
+        savePipeline(pipeline);
+      }
+
+      if (pipeline.stage === 'depositing') {
+        const result = await service.buildDeposit(pipeline);
+        const signatures = await previewAndSend({
+          title: 'Add Liquidity',
+          description: `Open a ${pipeline.poolName} position with the bridged zBTC.`,
+          transactions: Array.isArray(result.transaction) ? result.transaction : [result.transaction],
+          signers: [result.positionKeypair],
+          beforeSend: () => service.positions.assertActiveBinWithinSlippage(result.activeBinGuard),
+        });
+        if (!signatures) return;
+
+        pipeline = service.completeDeposit(pipeline, result.positionKeypair.publicKey.toBase58(), signatures);
+        savePipeline(pipeline);
+        showToast.success('Position opened', `Your bridged BTC is now providing liquidity in ${pipeline.poolName}.`);
+      }
+    } catch (error) {
+      console.error(`Pipeline ${pipelineId} stage ${pipeline.stage} failed:`, error);
+      savePipeline(withPipelineError(pipeline, error instanceof Error ? error.message : 'Unknown error'));
+    } finally {
+      setRunningId(null);
+    }
+  }, [service, previewAndSend, savePipeline]);
+
+  // The bridge job itself keeps running; only the deploy steps are dropped
+  const cancel = useCallback((pipelineId: string) => {
+    const pipeline = pipelinesRef.current.find(item => item.id === pipelineId);
+    if (pipeline) savePipeline(cancelPipeline(pipeline));
+  }, [savePipeline]);
+
+  const dismiss = useCallback((pipelineId: string) => {
+    if (!wallet) return;
+    setPipelines(removePipeline(wallet, pipelineId));
+  }, [wallet]);
+
+  return {
+    pipelines,
+    activePipelines: pipelines.filter(isActivePipeline),
+    runningId,
+    startPipeline,
+    continuePipeline,
+    cancel,
+    dismiss,
+  };
+};
@@ -0,0 +1,133 @@
+// src/hooks/useBridgeJobs.ts
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { useWallet } from '@solana/wallet-adapter-react';
+import { showToast } from '@/lib/utils/showToast';
+import { useTransactionPreview } from '@/context/TransactionPreviewProvider';
+import {
+  getBridgeService,
+  isActiveBridgeJob,
+  type BridgeJob,
+  type BridgeService,
+} from '@/lib/services/bridgeService';
+import { loadBridgeJobs, removeBridgeJob, upsertBridgeJob } from '@/lib/services/bridgeJobStore';
+
+/**
+ * Bridge jobs of the connected wallet: starts deposits and redeems, persists every
+ * update, and keeps polling unfinished jobs (including ones restored after a reload)
+ */
+export const useBridgeJobs = () => {
+  const { publicKey } = useWallet();
+  const { previewAndSend } = useTransactionPreview();
+  const wallet = publicKey?.toBase58() ?? null;
+  const [jobs, setJobs] = useState<BridgeJob[]>([]);
+
+  const { service, configError } = useMemo((): { service: BridgeService | null; configError: string | null } => {
+    try {
+      return { service: getBridgeService(), configError: null };
+    } catch (error) {
+      console.error('Bridge is not configured:', error);
+      return { service: null, configError: error instanceof Error ? error.message : 'Bridge is not configured' };
+    }
+  }, []);
+
+  const jobsRef = useRef(jobs);
+  jobsRef.current = jobs;
+
+  // Restore the wallet's jobs
+  useEffect(() => {
+    setJobs(wallet ? loadBridgeJobs(wallet) : []);
+  }, [wallet]);
+
+  const saveJob = useCallback((job: BridgeJob) => {
+    setJobs(upsertBridgeJob(job));
+  }, []);
+
+  const hasActiveJobs = jobs.some(isActiveBridgeJob);
+
+  // Poll unfinished jobs; only transitions are toasted
+  useEffect(() => {
+    if (!service || !wallet || !hasActiveJobs) return;
+    let cancelled = false;
+
+    const refresh = async () => {
+      for (const job of jobsRef.current.filter(isActiveBridgeJob)) {
+        try {
+          const next = await service.refreshJob(job);
+          if (cancelled || next.updatedAt === job.updatedAt) continue;
+          saveJob(next);
+
+          if (next.status === 'completed') {
+            showToast.success(
+              'Bridge complete',
+              next.direction === 'deposit' ? 'zBTC has arrived in your wallet.' : 'BTC has been sent to your address.'
+            );
+          } else if (next.status === 'failed' || next.status === 'expired') {
+            showToast.error('Bridge stopped', next.error ?? 'The bridge could not complete.');
+          }
+        } catch (error) {
+          // Usually a flaky API; the next poll tries again
+          console.warn(`Failed to refresh bridge job ${job.id}:`, error);
+        }
+      }
+    };
+
+    refresh();
+    const timer = setInterval(refresh, service.pollIntervalMs);
+    return () => {
+      cancelled = true;
+      clearInterval(timer);
+    };
+  }, [service, wallet, hasActiveJobs, saveJob]);
+
+  const startDeposit = useCallback(async (amountSats: string): Promise<BridgeJob> => {
+    if (!wallet) throw new Error('Please connect your wallet first');
+    if (!service) throw new Error(configError ?? 'Bridge is not configured');
+
+    const job = await service.createDeposit({ wallet, amountSats });
+    saveJob(job);
+    return job;
+  }, [wallet, service, configError, saveJob]);
+
+  // Resolves to null when the burn transaction preview is cancelled
+  const startRedeem = useCallback(async (amountSats: string, btcAddress: string): Promise<BridgeJob | null> => {
+    if (!wallet) throw new Error('Please connect your wallet first');
+    if (!service) throw new Error(configError ?? 'Bridge is not configured');
+
+    const { job, transaction } = await service.createRedeem({ wallet, amountSats, btcAddress });
+    if (!transaction) {
+      saveJob(job);
+      return job;
+    }
+
+    const signatures = await previewAndSend({
+      title: 'Redeem zBTC',
+      description: `Burn zBTC to release BTC to ${btcAddress}.`,
+      transactions: [transaction],
+    });
+    if (!signatures) return null;
+
+    // Persist the signed burn before telling Zeus, so it is never lost
+    const signed = { ...job, solanaSignature: signatures[signatures.length - 1], updatedAt: Date.now() };
+    saveJob(signed);
+    const submitted = await service.submitRedeem(signed, signed.solanaSignature);
+    saveJob(submitted);
+    return submitted;
+  }, [wallet, service, configError, previewAndSend, saveJob]);
+
+  const dismissJob = useCallback((jobId: string) => {
+    if (!wallet) return;
+    setJobs(removeBridgeJob(wallet, jobId));
+  }, [wallet]);
+
+  return {
+    wallet,
+    jobs,
+    service,
+    configError,
+    startDeposit,
+    startRedeem,
+    dismissJob,
+  };
+};
+
+export type BridgeJobsState = ReturnType<typeof useBridgeJobs>;
@@ -0,0 +1,161 @@
+// src/hooks/useChatSession.ts
+import { useEffect, useRef, useState } from 'react';
+import { useWallet } from '@solana/wallet-adapter-react';
+import {
+  ChatSession,
+  ChatSessionOwner,
+  StoredChatMessage,
+  fetchChatOwner,
+  fetchChatSession,
+  fetchLatestChatSession,
+  getActiveSessionId,
+  requestChatChallenge,
+  saveChatSession,
+  setActiveSessionId,
+  signInChatWallet,
+  signOutChatWallet,
+} from '@/lib/api/chatSessions';
+
+const SAVE_DEBOUNCE_MS = 1000;
+
+interface ChatSessionSnapshot {
+  messages: StoredChatMessage[];
+  shownPoolAddresses: string[];
+  portfolioStyle: string | null;
+}
+
+interface UseChatSessionOptions {
+  snapshot: ChatSessionSnapshot;
+  onRestore: (session: ChatSession) => void;
+}
+
+/**
+ * Persists the chat thread server-side and restores it on return.
+ * Sessions are keyed to the connected wallet once it signs a sign-in message, or to the
+ * browser's anonymous id before that (or if the wallet can't or won't sign).
+ */
+export const useChatSession = ({ snapshot, onRestore }: UseChatSessionOptions) => {
+  const { publicKey, signMessage } = useWallet();
+  const [owner, setOwner] = useState<ChatSessionOwner | null>(null);
+  const [sessionId, setSessionId] = useState<string | null>(null);
+  const [isRestoring, setIsRestoring] = useState(true);
+
+  const onRestoreRef = useRef(onRestore);
+  onRestoreRef.current = onRestore;
+  const hasMessagesRef = useRef(snapshot.messages.length > 0);
+  hasMessagesRef.current = snapshot.messages.length > 0;
+
+  const signMessageRef = useRef(signMessage);
+  signMessageRef.current = signMessage;
+
+  // Resolve the session owner from the server; a connected wallet must prove itself by signing
+  useEffect(() => {
+    let cancelled = false;
+    const wallet = publicKey?.toBase58() ?? null;
+
+    const resolveOwner = async (): Promise<ChatSessionOwner> => {
+      const current = await fetchChatOwner();
+      if (!wallet) {
+        return current.type === 'wallet' ? await signOutChatWallet() : current;
+      }
+      if (current.type === 'wallet' && current.id === wallet) {
+        return current;
+      }
+
+      const sign = signMessageRef.current;
+      if (sign) {
+        try {
+          const { challenge, message } = await requestChatChallenge(wallet);
+          const signature = await sign(new TextEncoder().encode(message));
+          return await signInChatWallet(wallet, challenge, signature);
+        } catch (error) {
+          console.warn('Wallet sign-in declined, keeping chat history anonymous:', error);
+        }
+      }
+      return current.type === 'wallet' ? await signOutChatWallet() : current;
+    };
+
+    resolveOwner()
+      .then(resolved => {
+        if (!cancelled) setOwner(resolved);
+      })
+      .catch(error => {
+        console.error('Failed to resolve chat session owner:', error);
+        if (!cancelled) setIsRestoring(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [publicKey]);
+
+  // Load the owner's session when the owner changes
+  useEffect(() => {
+    if (!owner) return;
+    let cancelled = false;
+
+    const loadSession = async () => {
+      setIsRestoring(true);
+
+      // Keep an in-progress thread (e.g. wallet connected mid-chat) and save it under the new owner
+      if (hasMessagesRef.current) {
+        const newSessionId = crypto.randomUUID();
+        setActiveSessionId(owner.id, newSessionId);
+        setSessionId(newSessionId);
+        setIsRestoring(false);
+        return;
+      }
+
+      try {
+        const activeSessionId = getActiveSessionId(owner.id);
+        const session = activeSessionId
+          ? await fetchChatSession(activeSessionId)
+          : await fetchLatestChatSession();
+
+        if (cancelled) return;
+
+        if (session && session.messages.length > 0) {
+          onRestoreRef.current(session);
+          setActiveSessionId(owner.id, session.id);
+          setSessionId(session.id);
+        } else {
+          const newSessionId = activeSessionId || crypto.randomUUID();
+          setActiveSessionId(owner.id, newSessionId);
+          setSessionId(newSessionId);
+        }
+      } catch (error) {
+        console.error('Failed to restore chat session:', error);
+        if (!cancelled) {
+          setSessionId(crypto.randomUUID());
+        }
+      } finally {
+        if (!cancelled) {
+          setIsRestoring(false);
+        }
+      }
+    };
+
+    loadSession();
+    return () => {
+      cancelled = true;
+    };
+  }, [owner]);
+
+  // Debounced save whenever the thread changes (callers should memoize the snapshot)
+  useEffect(() => {
+    if (isRestoring || !owner || !sessionId || snapshot.messages.length === 0) return;
+
+    const timer = setTimeout(() => {
+      saveChatSession(sessionId, snapshot).catch(error => {
+        console.error('Failed to save chat session:', error);
+      });
+    }, SAVE_DEBOUNCE_MS);
+
+    return () => clearTimeout(timer);
+  }, [snapshot, isRestoring, owner, sessionId]);
+
+  return {
+    sessionId,
+    isRestoring,
+  };
+};
@@ -0,0 +1,58 @@
+// src/hooks/useDepegMonitor.ts
+import { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  checkBtcPegs,
+  type PegReport,
+  type PegStatus,
+  type TokenPegCheck,
+} from '@/lib/services/depegMonitorService';
+
+const DEFAULT_INTERVAL_MS = 5 * 60 * 1000;
+
+const SEVERITY: Record<PegStatus, number> = { pegged: 0, watch: 1, depegged: 2 };
+
+interface UseDepegMonitorOptions {
+  intervalMs?: number;
+  // Tokens whose status got worse since the previous check (the first check counts too),
+  // with the report they came from
+  onEscalation?: (checks: TokenPegCheck[], report: PegReport) => void;
+}
+
+/**
+ * Periodically checks wrapped BTC tokens against the BTC reference and reports tokens
+ * whose peg status worsens, so callers alert once per excursion rather than every poll.
+ */
+export const useDepegMonitor = ({ intervalMs = DEFAULT_INTERVAL_MS, onEscalation }: UseDepegMonitorOptions = {}) => {
+  const [report, setReport] = useState<PegReport | null>(null);
+
+  const statusRef = useRef<Map<string, PegStatus>>(new Map());
+  const onEscalationRef = useRef(onEscalation);
+  onEscalationRef.current = onEscalation;
+
+  const checkNow = useCallback(async () => {
+    try {
+      const next = await checkBtcPegs();
+      const previous = statusRef.current;
+
+      const escalated = next.tokens.filter(check =>
+        SEVERITY[check.status] > SEVERITY[previous.get(check.mint) ?? 'pegged']
+      );
+      statusRef.current = new Map(next.tokens.map(check => [check.mint, check.status]));
+
+      setReport(next);
+      if (escalated.length > 0) {
+        onEscalationRef.current?.(escalated, next);
+      }
+    } catch (error) {
+      console.error('Depeg check failed:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    checkNow();
+    const timer = setInterval(checkNow, intervalMs);
+    return () => clearInterval(timer);
+  }, [intervalMs, checkNow]);
+
+  return { report, checkNow };
+};
@@ -0,0 +1,86 @@
+// src/hooks/useDlmmAgent.ts
+import { useCallback } from 'react';
+import { fetchAgentResponse } from '@/lib/api/chat';
+import { useMeteoraDlmmService } from '@/lib/meteora/meteoraDlmmService';
+import { useMeteoraPositionService } from '@/lib/meteora/meteoraPositionService';
+import {
+  executeDlmmToolCall,
+  type CommandResult,
+  type PreparedTransactions,
+} from '@/lib/meteora/meteoraChatCommands';
+import type { AgentToolContext } from '@/lib/meteora/meteoraChatTools';
+import type { RiskProfile } from '@/lib/utils/riskProfile';
+import { useTransactionPreview } from '@/context/TransactionPreviewProvider';
+
+interface AgentMessage {
+  role: string;
+  content: string;
+}
+
+export interface DlmmAgentResult {
+  message: string;
+  results: CommandResult[];
+}
+
+/**
+ * Runs the DLMM chat agent: the API picks tools, the client executes them
+ * into unsigned transactions, and the user signs them explicitly.
+ */
+export const useDlmmAgent = () => {
+  const { service: dlmmService, publicKey } = useMeteoraDlmmService();
+  const { service: positionService } = useMeteoraPositionService();
+  const { previewAndSend } = useTransactionPreview();
+
+  const runAgent = useCallback(async (
+    messages: AgentMessage[],
+    context: AgentToolContext = {},
+    riskProfile?: RiskProfile | null
+  ): Promise<DlmmAgentResult> => {
+    const agentResponse = await fetchAgentResponse(messages, {
+      ...context,
+      walletConnected: !!publicKey,
+    }, riskProfile);
+
+    const results: CommandResult[] = [];
+    for (const call of agentResponse.toolCalls) {
+      results.push(await executeDlmmToolCall({
+        call,
+        userPublicKey: publicKey || undefined,
+        portfolioStyle: context.portfolioStyle,
+        service: {
+          dlmm: dlmmService,
+          position: positionService,
+        },
+      }));
+    }
+
+    return {
+      message: agentResponse.message,
+      results,
+    };
+  }, [publicKey, dlmmService, positionService]);
+
+  // Preview, then sign and send prepared transactions in order; null when the user cancels the preview
+  const submitPrepared = useCallback(async (
+    prepared: PreparedTransactions,
+    title: string = 'Transaction'
+  ): Promise<string[] | null> => {
+    if (!publicKey) {
+      throw new Error('Please connect your wallet to sign this transaction.');
+    }
+
+    const guard = prepared.activeBinGuard;
+    return previewAndSend({
+      title,
+      transactions: prepared.transactions,
+      signers: prepared.signers,
+      beforeSend: guard ? () => positionService.assertActiveBinWithinSlippage(guard) : undefined,
+    });
+  }, [publicKey, previewAndSend, positionService]);
+
+  return {
+    publicKey,
+    runAgent,
+    submitPrepared,
+  };
+};
@@ -0,0 +1,74 @@
+// src/hooks/usePoolBinDistribution.ts
+import { useEffect, useMemo, useState } from 'react';
+import { Connection } from '@solana/web3.js';
+import { MeteoraPositionService } from '@/lib/meteora/meteoraPositionService';
+import { initializedSpan, type PoolBinIndex } from '@/lib/meteora/binArrayIndexer';
+
+export interface BinDepthPoint {
+  binId: number;
+  // Price of one token X in token Y (UI units)
+  price: number;
+  // Reserves of the bin, both valued in token Y (UI units) so they stack comparably
+  liquidityX: number;
+  liquidityY: number;
+}
+
+interface BinDistribution {
+  binIndex: PoolBinIndex;
+  points: BinDepthPoint[];
+  // Bins that can be used without creating bin arrays
+  span: { minBinId: number; maxBinId: number } | null;
+}
+
+/**
+ * Load a pool's on-chain bin distribution around the active bin for depth charts
+ */
+export const usePoolBinDistribution = (poolAddress: string | null) => {
+  const [distribution, setDistribution] = useState<BinDistribution | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const service = useMemo(() => new MeteoraPositionService(new Connection(
+    process.env.NEXT_PUBLIC_SOLANA_RPC_URL || 'https://api.mainnet-beta.solana.com'
+  )), []);
+
+  useEffect(() => {
+    if (!poolAddress) {
+      setDistribution(null);
+      return;
+    }
+    let cancelled = false;
+
+    setIsLoading(true);
+    setError(null);
+    Promise.all([service.getPoolBinIndex(poolAddress), service.initializePool(poolAddress)])
+      .then(([binIndex, pool]) => {
+        if (cancelled) return;
+        const decimalsX = pool.tokenX.mint.decimals;
+        const decimalsY = pool.tokenY.mint.decimals;
+        const yScale = Math.pow(10, decimalsY);
+
+        const points = binIndex.bins.map((bin) => ({
+          binId: bin.binId,
+          price: bin.price * Math.pow(10, decimalsX - decimalsY),
+          liquidityX: (Number(bin.amountX.toString()) * bin.price) / yScale,
+          liquidityY: Number(bin.amountY.toString()) / yScale,
+        }));
+
+        setDistribution({ binIndex, points, span: initializedSpan(binIndex) });
+      })
+      .catch((err) => {
+        console.error('Failed to load bin distribution:', err);
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Unknown error');
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [poolAddress, service]);
+
+  return { distribution, isLoading, error };
+};
@@ -0,0 +1,41 @@
+// src/hooks/usePoolMetrics.ts
+import { useEffect, useState } from 'react';
+import { fetchPoolMetrics } from '@/lib/api/poolMetrics';
+import type { PoolMetricsSummary } from '@/lib/utils/poolMetrics';
+
+/**
+ * Load fee APY history for a set of pools, keyed by pool address
+ */
+export const usePoolMetrics = (addresses: string[], days: number = 30) => {
+  const [metrics, setMetrics] = useState<Record<string, PoolMetricsSummary>>({});
+  const [isLoading, setIsLoading] = useState(false);
+
+  // Re-fetch only when the set of pools changes, not on every new array
+  const addressKey = addresses.join(',');
+
+  useEffect(() => {
+    if (!addressKey) {
+      setMetrics({});
+      return;
+    }
+    let cancelled = false;
+
+    setIsLoading(true);
+    fetchPoolMetrics(addressKey.split(','), days)
+      .then((summaries) => {
+        if (!cancelled) {
+          setMetrics(Object.fromEntries(summaries.map((summary) => [summary.address, summary])));
+        }
+      })
+      .catch((error) => console.error('Failed to load pool metrics:', error))
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [addressKey, days]);
+
+  return { metrics, isLoading };
+};
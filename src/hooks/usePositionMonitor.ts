@@ -0,0 +1,153 @@
+// src/hooks/usePositionMonitor.ts
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { Connection } from '@solana/web3.js';
+import { useWallet } from '@solana/wallet-adapter-react';
+import type { LbPosition } from '@meteora-ag/dlmm';
+import { showToast } from '@/lib/utils/showToast';
+import { useTransactionPreview } from '@/context/TransactionPreviewProvider';
+import { DLMMError, DLMMErrorType } from '@/lib/meteora/meteoraDlmmService';
+import {
+  PositionMonitorService,
+  type PositionHealth,
+  type RebalancePlan,
+} from '@/lib/services/positionMonitorService';
+
+const DEFAULT_INTERVAL_MS = 60000;
+
+interface UsePositionMonitorOptions {
+  intervalMs?: number;
+  // Called after a rebalance lands so the caller can reload positions
+  onRebalanced?: () => void;
+}
+
+/**
+ * Periodically checks the connected wallet's positions against their pools' active bins,
+ * warns when one drifts out of range, and prepares / executes rebalance plans.
+ */
+export const usePositionMonitor = ({ intervalMs = DEFAULT_INTERVAL_MS, onRebalanced }: UsePositionMonitorOptions = {}) => {
+  const { publicKey } = useWallet();
+  const { previewAndSend } = useTransactionPreview();
+  const [health, setHealth] = useState<Map<string, PositionHealth>>(new Map());
+  const [lastChecked, setLastChecked] = useState<number | null>(null);
+  const [rebalancing, setRebalancing] = useState<string | null>(null);
+
+  const service = useMemo(() => new PositionMonitorService(new Connection(
+    process.env.NEXT_PUBLIC_SOLANA_RPC_URL || 'https://api.mainnet-beta.solana.com'
+  )), []);
+
+  const healthRef = useRef(health);
+  healthRef.current = health;
+  const onRebalancedRef = useRef(onRebalanced);
+  onRebalancedRef.current = onRebalanced;
+
+  const checkNow = useCallback(async () => {
+    if (!publicKey) return;
+
+    try {
+      const results = await service.checkPositions(publicKey);
+      const previous = healthRef.current;
+
+      // Only alert on transitions so a position stuck out of range doesn't toast every poll
+      const newlyOutOfRange = results.filter(result =>
+        result.status === 'out-of-range' &&
+        previous.get(result.positionAddress)?.status !== 'out-of-range'
+      );
+      if (newlyOutOfRange.length > 0) {
+        showToast.warning(
+          'Position out of range',
+          newlyOutOfRange.length === 1
+            ? 'One of your positions has stopped earning fees. Consider rebalancing it.'
+            : `${newlyOutOfRange.length} positions have stopped earning fees. Consider rebalancing them.`
+        );
+      }
+
+      setHealth(new Map(results.map(result => [result.positionAddress, result])));
+      setLastChecked(Date.now());
+    } catch (error) {
+      console.error('Position monitor check failed:', error);
+    }
+  }, [publicKey, service]);
+
+  // Poll while a wallet is connected
+  useEffect(() => {
+    if (!publicKey) {
+      setHealth(new Map());
+      setLastChecked(null);
+      return;
+    }
+
+    checkNow();
+    const timer = setInterval(checkNow, intervalMs);
+    return () => clearInterval(timer);
+  }, [publicKey, intervalMs, checkNow]);
+
+  const prepareRebalance = useCallback(async (
+    lbPairAddress: string,
+    position: LbPosition,
+    options: { swap?: boolean } = {}
+  ): Promise<RebalancePlan> => {
+    if (!publicKey) {
+      throw new Error('Please connect your wallet to rebalance.');
+    }
+
+    return service.buildRebalancePlan({
+      lbPairAddress,
+      position,
+      userPublicKey: publicKey,
+      swap: options.swap,
+    });
+  }, [publicKey, service]);
+
+  // Preview the whole plan, then sign and confirm each step before the next, since later
+  // steps spend what earlier ones return. Resolves to null when the preview is cancelled.
+  const executeRebalance = useCallback(async (plan: RebalancePlan): Promise<string[] | null> => {
+    if (!publicKey) {
+      throw new Error('Please connect your wallet to rebalance.');
+    }
+
+    const transactions = plan.steps.flatMap(step => step.transactions);
+    const addIndex = transactions.length - (plan.steps.find(step => step.kind === 'add')?.transactions.length ?? 0);
+
+    setRebalancing(plan.positionAddress);
+    try {
+      const signatures = await previewAndSend({
+        title: 'Rebalance',
+        description: `Move liquidity to bins ${plan.newRange.minBinId}-${plan.newRange.maxBinId}.`,
+        transactions,
+        signers: plan.steps.flatMap(step => step.signers),
+        sequential: true,
+        beforeTransaction: async index => {
+          if (index === addIndex) await service.assertActiveBinWithinSlippage(plan.activeBinGuard);
+        },
+      });
+      if (!signatures) return null;
+
+      onRebalancedRef.current?.();
+      await checkNow();
+      return signatures;
+    } catch (error) {
+      if (error instanceof DLMMError && error.type === DLMMErrorType.ACTIVE_BIN_MOVED) {
+        // The old position is already withdrawn and closed, so there is no plan to rebuild
+        onRebalancedRef.current?.();
+        await checkNow();
+        throw new DLMMError(
+          error.type,
+          `${error.message} Your liquidity was withdrawn to your wallet; add it to a new position at the current price.`,
+          error.details
+        );
+      }
+      throw error;
+    } finally {
+      setRebalancing(null);
+    }
+  }, [publicKey, previewAndSend, checkNow, service]);
+
+  return {
+    health,
+    lastChecked,
+    rebalancing,
+    checkNow,
+    prepareRebalance,
+    executeRebalance,
+  };
+};
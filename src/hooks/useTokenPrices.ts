@@ -0,0 +1,43 @@
+// src/hooks/useTokenPrices.ts
+import { useEffect, useState } from 'react';
+import { getPriceOracle, type OraclePriceMap } from '@/lib/services/priceOracleService';
+
+const DEFAULT_REFRESH_MS = 60 * 1000;
+
+/**
+ * Oracle USD prices for a set of mints, refreshed periodically. Prices stay at their last
+ * value while a refresh is in flight or fails.
+ */
+export const useTokenPrices = (mints: string[], refreshMs: number = DEFAULT_REFRESH_MS) => {
+  const [prices, setPrices] = useState<OraclePriceMap>({});
+  const [loading, setLoading] = useState(false);
+
+  // Callers usually build the array inline, so key the effect on its contents
+  const key = mints.filter(Boolean).join(',');
+
+  useEffect(() => {
+    if (!key) return;
+    let cancelled = false;
+
+    const load = async () => {
+      setLoading(true);
+      try {
+        const next = await getPriceOracle().getPrices(key.split(','));
+        if (!cancelled) setPrices(next);
+      } catch (error) {
+        console.error('Failed to fetch token prices:', error);
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    load();
+    const timer = setInterval(load, refreshMs);
+    return () => {
+      cancelled = true;
+      clearInterval(timer);
+    };
+  }, [key, refreshMs]);
+
+  return { prices, loading };
+};
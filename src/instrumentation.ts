@@ -0,0 +1,10 @@
+// src/instrumentation.ts
+// Runs once when the Next.js server starts.
+
+export async function register() {
+  // The collector writes to disk, so only start it in the Node.js runtime
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    const { startPoolMetricsCollector } = await import('@/lib/services/poolMetricsCollector');
+    startPoolMetricsCollector();
+  }
+}
@@ -1,5 +1,18 @@
 // src/lib/api/chat.ts
 
+import type { AgentResponse, AgentToolContext } from '@/lib/meteora/meteoraChatTools';
+import type { RiskProfile } from '@/lib/utils/riskProfile';
+import {
+  appendToSection,
+  createChatStreamDecoder,
+  startSection,
+  type ChatSection,
+  type ChatSections,
+  type ChatStreamEvent,
+  type ChatUsage,
+  type PoolAnalysis,
+} from './chatStream';
+
 interface MessageForAPI {
   role: string;
   content: string;
@@ -26,6 +39,23 @@ interface ChatAPIRequest {
   messages: MessageForAPI[];
   poolData?: Pool;
   portfolioStyle?: string;
+  riskProfile?: RiskProfile;
+}
+
+export interface ChatStreamCallbacks {
+  // Text as it arrives, tagged with its section (null before the first boundary and in plain chat)
+  onText?: (text: string, section: ChatSection | null) => void;
+  onSection?: (section: ChatSection) => void;
+  onAnalysis?: (analysis: PoolAnalysis) => void;
+  onUsage?: (usage: ChatUsage) => void;
+}
+
+export interface ChatStreamResult {
+  // Full reply with the section markers removed
+  text: string;
+  sections: ChatSections;
+  analysis?: PoolAnalysis;
+  usage?: ChatUsage;
 }
 
 /**
@@ -66,30 +96,67 @@ async function handleAPIError(response: Response): Promise<never> {
 }
 
 /**
- * Handle streaming response from API
+ * Read the SSE stream from the API, dispatching each event to the callbacks
  */
 async function handleStreamingResponse(
   response: Response,
-  onStreamUpdate?: (chunk: string) => void
-): Promise<string> {
+  callbacks: ChatStreamCallbacks
+): Promise<ChatStreamResult> {
   const reader = response.body!.getReader();
   const decoder = new TextDecoder();
-  let result = '';
+  const events = createChatStreamDecoder();
+  const result: ChatStreamResult = { text: '', sections: {} };
+  let sections: ChatSections = {};
+  let sectioned = false;
+  let done = false;
+
+  const dispatch = (event: ChatStreamEvent) => {
+    switch (event.type) {
+      case 'text':
+        result.text += event.text;
+        sections = appendToSection(sections, event.section, event.text);
+        callbacks.onText?.(event.text, event.section);
+        break;
+      case 'section':
+        // Keep the sections apart in the plain text too
+        if (result.text && !result.text.endsWith('\n\n')) result.text += '\n\n';
+        sections = startSection(sections, event.section);
+        sectioned = true;
+        callbacks.onSection?.(event.section);
+        break;
+      case 'analysis':
+        result.analysis = event.analysis;
+        callbacks.onAnalysis?.(event.analysis);
+        break;
+      case 'usage':
+        result.usage = event.usage;
+        callbacks.onUsage?.(event.usage);
+        break;
+      case 'error':
+        throw new ChatAPIError(event.message);
+      case 'done':
+        done = true;
+        break;
+    }
+  };
 
   try {
     while (true) {
-      const { done, value } = await reader.read();
-      if (done) break;
-      
-      const chunk = decoder.decode(value);
-      result += chunk;
-      
-      onStreamUpdate?.(chunk);
+      const { done: streamDone, value } = await reader.read();
+      if (streamDone) break;
+      events.push(decoder.decode(value, { stream: true })).forEach(dispatch);
     }
-    return result;
+    events.push(decoder.decode()).forEach(dispatch);
+    events.flush().forEach(dispatch);
   } finally {
     reader.releaseLock();
   }
+
+  if (!done) {
+    throw new ChatAPIError('The response ended unexpectedly. Please try again.');
+  }
+  // Plain replies (and analyses where the model skipped the markers) carry no sections
+  return sectioned ? { ...result, sections } : result;
 }
 
 /**
@@ -98,7 +165,7 @@ async function handleStreamingResponse(
 function createRequestPayload(
   messages: MessageForAPI[],
   poolData?: Pool,
-  portfolioStyle?: string
+  riskProfile?: RiskProfile | null
 ): ChatAPIRequest {
   const formattedMessages = messages.map(msg => ({
     role: msg.role,
@@ -108,20 +175,22 @@ function createRequestPayload(
   return {
     messages: formattedMessages,
     poolData,
-    portfolioStyle
+    portfolioStyle: riskProfile?.style,
+    riskProfile: riskProfile ?? undefined
   };
 }
 
 /**
- * Send message to chat API with improved error handling and type safety
+ * Send message to chat API with improved error handling and type safety.
+ * Streamed replies are dispatched to the callbacks as they arrive and resolve to the assembled result.
  */
 export async function fetchMessage(
   messages: MessageForAPI[],
   poolData?: Pool,
-  portfolioStyle?: string,
-  onStreamUpdate?: (chunk: string) => void
-): Promise<string> {
-  const payload = createRequestPayload(messages, poolData, portfolioStyle);
+  riskProfile?: RiskProfile | null,
+  callbacks: ChatStreamCallbacks = {}
+): Promise<ChatStreamResult> {
+  const payload = createRequestPayload(messages, poolData, riskProfile);
   
   console.log('Sending message to API', {
     messageCount: payload.messages.length,
@@ -146,14 +215,14 @@ export async function fetchMessage(
 
     // Handle streaming response
     if (response.headers.get('Content-Type')?.includes('text/event-stream')) {
-      return await handleStreamingResponse(response, onStreamUpdate);
+      return await handleStreamingResponse(response, callbacks);
     }
 
     // Handle traditional JSON response (fallback)
     const data = await response.json();
     console.log('Received data from API:', data);
     
-    return data.message || '';
+    return { text: data.message || '', sections: {} };
   } catch (error) {
     if (error instanceof ChatAPIError) {
       throw error;
@@ -166,4 +235,56 @@ export async function fetchMessage(
       error instanceof Error ? error.stack : undefined
     );
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Ask the chat agent to turn the conversation into DLMM tool calls.
+ * The returned calls are executed client-side so transactions stay unsigned until the user approves.
+ */
+export async function fetchAgentResponse(
+  messages: MessageForAPI[],
+  toolContext: AgentToolContext = {},
+  riskProfile?: RiskProfile | null
+): Promise<AgentResponse> {
+  const payload = {
+    ...createRequestPayload(messages, undefined, riskProfile),
+    portfolioStyle: riskProfile?.style ?? toolContext.portfolioStyle,
+    mode: 'agent' as const,
+    toolContext
+  };
+
+  console.log('Sending agent request to API', {
+    messageCount: payload.messages.length,
+    knownPools: toolContext.knownPools?.length || 0
+  });
+
+  try {
+    const response = await fetch('/api/chat', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(payload),
+    });
+
+    if (!response.ok) {
+      await handleAPIError(response);
+    }
+
+    const data = await response.json();
+    return {
+      message: typeof data.message === 'string' ? data.message : '',
+      toolCalls: Array.isArray(data.toolCalls) ? data.toolCalls : []
+    };
+  } catch (error) {
+    if (error instanceof ChatAPIError) {
+      throw error;
+    }
+
+    throw new ChatAPIError(
+      error instanceof Error ? error.message : 'Unknown error occurred',
+      undefined,
+      error instanceof Error ? error.stack : undefined
+    );
+  }
+}
@@ -0,0 +1,180 @@
+// src/lib/api/chatSessions.ts
+
+import { ChatAPIError } from './chat';
+import type { FormattedPool } from '@/lib/utils/poolUtils';
+import type { ChatSections, PoolAnalysis } from './chatStream';
+
+export type ChatSessionOwnerType = 'wallet' | 'anonymous';
+
+export interface StoredChatMessage {
+  role: 'user' | 'assistant';
+  content: string;
+  timestamp: string;
+  pools?: FormattedPool[];
+  sections?: ChatSections;
+  analysis?: PoolAnalysis;
+}
+
+export interface ChatSession {
+  id: string;
+  ownerId: string;
+  ownerType: ChatSessionOwnerType;
+  messages: StoredChatMessage[];
+  shownPoolAddresses: string[];
+  portfolioStyle: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// What the client saves; the server adds the owner from the sign-in cookie
+export interface ChatSessionContents {
+  messages: StoredChatMessage[];
+  shownPoolAddresses: string[];
+  portfolioStyle: string | null;
+}
+
+export interface ChatSessionUpdate extends ChatSessionContents {
+  ownerId: string;
+  ownerType: ChatSessionOwnerType;
+}
+
+export interface ChatSessionOwner {
+  id: string;
+  type: ChatSessionOwnerType;
+}
+
+// Message a wallet signs to prove ownership; challenge is sent back with the signature
+export interface ChatAuthChallenge {
+  challenge: string;
+  message: string;
+  expiresAt: string;
+}
+
+const SESSION_ID_KEY_PREFIX = 'hypebiscus_chat_session_';
+
+/**
+ * Remember which session an owner is currently using
+ */
+export function getActiveSessionId(ownerId: string): string | null {
+  return localStorage.getItem(`${SESSION_ID_KEY_PREFIX}${ownerId}`);
+}
+
+export function setActiveSessionId(ownerId: string, sessionId: string | null): void {
+  if (sessionId) {
+    localStorage.setItem(`${SESSION_ID_KEY_PREFIX}${ownerId}`, sessionId);
+  } else {
+    localStorage.removeItem(`${SESSION_ID_KEY_PREFIX}${ownerId}`);
+  }
+}
+
+async function handleSessionResponse<T>(response: Response): Promise<T> {
+  if (!response.ok) {
+    let message = 'Chat session request failed';
+    try {
+      const errorData = await response.json();
+      message = errorData.message || errorData.error || message;
+    } catch {
+      // Ignore JSON parsing errors
+    }
+    throw new ChatAPIError(message, response.status);
+  }
+
+  return await response.json();
+}
+
+/**
+ * Current owner from the sign-in cookie; browsers without one get an anonymous id
+ */
+export async function fetchChatOwner(): Promise<ChatSessionOwner> {
+  const response = await fetch('/api/chat/auth');
+  const data = await handleSessionResponse<{ owner: ChatSessionOwner }>(response);
+  return data.owner;
+}
+
+/**
+ * Challenge for a wallet to sign
+ */
+export async function requestChatChallenge(wallet: string): Promise<ChatAuthChallenge> {
+  const response = await fetch('/api/chat/auth/challenge', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ wallet }),
+  });
+
+  return await handleSessionResponse<ChatAuthChallenge>(response);
+}
+
+/**
+ * Exchange a signed challenge for a wallet sign-in
+ */
+export async function signInChatWallet(wallet: string, challenge: string, signature: Uint8Array): Promise<ChatSessionOwner> {
+  const response = await fetch('/api/chat/auth', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ wallet, challenge, signature: btoa(String.fromCharCode(...signature)) }),
+  });
+
+  const data = await handleSessionResponse<{ owner: ChatSessionOwner }>(response);
+  return data.owner;
+}
+
+/**
+ * Drop the wallet sign-in and fall back to the browser's anonymous id
+ */
+export async function signOutChatWallet(): Promise<ChatSessionOwner> {
+  const response = await fetch('/api/chat/auth', { method: 'DELETE' });
+  const data = await handleSessionResponse<{ owner: ChatSessionOwner }>(response);
+  return data.owner;
+}
+
+/**
+ * Load the signed-in owner's most recently updated session, if any
+ */
+export async function fetchLatestChatSession(): Promise<ChatSession | null> {
+  const response = await fetch('/api/chat/sessions');
+  const data = await handleSessionResponse<{ sessions: ChatSession[] }>(response);
+  return data.sessions[0] || null;
+}
+
+/**
+ * Load a specific session
+ */
+export async function fetchChatSession(sessionId: string): Promise<ChatSession | null> {
+  const response = await fetch(`/api/chat/sessions/${encodeURIComponent(sessionId)}`);
+
+  if (response.status === 404) {
+    return null;
+  }
+
+  const data = await handleSessionResponse<{ session: ChatSession }>(response);
+  return data.session;
+}
+
+/**
+ * Create or replace a session's contents
+ */
+export async function saveChatSession(sessionId: string, contents: ChatSessionContents): Promise<ChatSession> {
+  const response = await fetch(`/api/chat/sessions/${encodeURIComponent(sessionId)}`, {
+    method: 'PUT',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(contents),
+  });
+
+  const data = await handleSessionResponse<{ session: ChatSession }>(response);
+  return data.session;
+}
+
+/**
+ * Delete a session
+ */
+export async function deleteChatSession(sessionId: string): Promise<void> {
+  const response = await fetch(`/api/chat/sessions/${encodeURIComponent(sessionId)}`, { method: 'DELETE' });
+
+  await handleSessionResponse<{ success: boolean }>(response);
+}
@@ -0,0 +1,265 @@
+// src/lib/api/chatStream.ts
+// Server-sent event protocol of /api/chat. The route writes these events; fetchMessage reads them.
+// Pool analyses are split into sections on the server so the UI never guesses where risks start.
+
+export type ChatSection = 'suitability' | 'risks';
+
+export type ChatSections = Partial<Record<ChatSection, string>>;
+
+export type AnalysisRiskTier = 'low' | 'moderate' | 'high';
+
+// Structured summary the model appends to a pool analysis
+export interface PoolAnalysis {
+  // How well the pool fits the requested portfolio style, 1-10
+  fitScore: number;
+  riskLevel: AnalysisRiskTier;
+  impermanentLossRisk: AnalysisRiskTier;
+  summary: string;
+}
+
+export interface ChatUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export type ChatStreamEvent =
+  // section is null for text before the first boundary (and for plain chat replies)
+  | { type: 'text'; text: string; section: ChatSection | null }
+  | { type: 'section'; section: ChatSection }
+  | { type: 'analysis'; analysis: PoolAnalysis }
+  | { type: 'usage'; usage: ChatUsage }
+  | { type: 'error'; message: string }
+  | { type: 'done' };
+
+const CHAT_SECTIONS: ChatSection[] = ['suitability', 'risks'];
+const RISK_TIERS: AnalysisRiskTier[] = ['low', 'moderate', 'high'];
+
+/**
+ * Serialize one event as an SSE frame
+ */
+export function encodeChatStreamEvent(event: ChatStreamEvent): string {
+  return `event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`;
+}
+
+function parseChatStreamEvent(data: string): ChatStreamEvent | null {
+  let value: unknown;
+  try {
+    value = JSON.parse(data);
+  } catch {
+    return null;
+  }
+  if (!value || typeof value !== 'object') return null;
+
+  const event = value as Record<string, unknown>;
+  switch (event.type) {
+    case 'text':
+      return typeof event.text === 'string' && (event.section === null || CHAT_SECTIONS.includes(event.section as ChatSection))
+        ? { type: 'text', text: event.text, section: event.section as ChatSection | null }
+        : null;
+    case 'section':
+      return CHAT_SECTIONS.includes(event.section as ChatSection)
+        ? { type: 'section', section: event.section as ChatSection }
+        : null;
+    case 'analysis': {
+      const analysis = parsePoolAnalysis(event.analysis);
+      return analysis ? { type: 'analysis', analysis } : null;
+    }
+    case 'usage': {
+      const usage = event.usage as Record<string, unknown> | undefined;
+      return usage && typeof usage.inputTokens === 'number' && typeof usage.outputTokens === 'number'
+        ? { type: 'usage', usage: { inputTokens: usage.inputTokens, outputTokens: usage.outputTokens } }
+        : null;
+    }
+    case 'error':
+      return { type: 'error', message: typeof event.message === 'string' ? event.message : 'Unknown error' };
+    case 'done':
+      return { type: 'done' };
+    default:
+      return null;
+  }
+}
+
+/**
+ * Incremental SSE decoder: feed it decoded text as it arrives, get back complete events.
+ * Comments, unknown events and malformed payloads are skipped.
+ */
+export function createChatStreamDecoder() {
+  let buffer = '';
+
+  const parseFrame = (frame: string): ChatStreamEvent | null => {
+    const data = frame
+      .split('\n')
+      .filter(line => line.startsWith('data:'))
+      .map(line => line.slice(line.startsWith('data: ') ? 6 : 5))
+      .join('\n');
+    return data ? parseChatStreamEvent(data) : null;
+  };
+
+  return {
+    push(text: string): ChatStreamEvent[] {
+      buffer += text.replace(/\r\n?/g, '\n');
+      const events: ChatStreamEvent[] = [];
+
+      let boundary = buffer.indexOf('\n\n');
+      while (boundary !== -1) {
+        const event = parseFrame(buffer.slice(0, boundary));
+        if (event) events.push(event);
+        buffer = buffer.slice(boundary + 2);
+        boundary = buffer.indexOf('\n\n');
+      }
+      return events;
+    },
+    // A final frame without the trailing blank line
+    flush(): ChatStreamEvent[] {
+      const event = buffer.trim() ? parseFrame(buffer) : null;
+      buffer = '';
+      return event ? [event] : [];
+    },
+  };
+}
+
+/**
+ * Validate the model's analysis JSON, tolerating a code fence around it
+ */
+export function parsePoolAnalysis(value: unknown): PoolAnalysis | null {
+  let candidate = value;
+  if (typeof candidate === 'string') {
+    const json = candidate.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+    try {
+      candidate = JSON.parse(json);
+    } catch {
+      return null;
+    }
+  }
+  if (!candidate || typeof candidate !== 'object') return null;
+
+  const { fitScore, riskLevel, impermanentLossRisk, summary } = candidate as Record<string, unknown>;
+  if (typeof fitScore !== 'number' || !Number.isFinite(fitScore)) return null;
+  if (!RISK_TIERS.includes(riskLevel as AnalysisRiskTier) || !RISK_TIERS.includes(impermanentLossRisk as AnalysisRiskTier)) return null;
+
+  return {
+    fitScore: Math.min(10, Math.max(1, Math.round(fitScore))),
+    riskLevel: riskLevel as AnalysisRiskTier,
+    impermanentLossRisk: impermanentLossRisk as AnalysisRiskTier,
+    summary: typeof summary === 'string' ? summary.slice(0, 500) : '',
+  };
+}
+
+/**
+ * Add streamed text to its section. The introduction before the first boundary leads into
+ * the suitability section, so it is shown there.
+ */
+export function appendToSection(sections: ChatSections, section: ChatSection | null, text: string): ChatSections {
+  const key = section ?? 'suitability';
+  return { ...sections, [key]: (sections[key] ?? '') + text };
+}
+
+/**
+ * Open a section boundary; text already in the section (the introduction) gets a paragraph break
+ */
+export function startSection(sections: ChatSections, section: ChatSection): ChatSections {
+  const existing = sections[section];
+  return existing && !existing.endsWith('\n') ? { ...sections, [section]: `${existing}\n\n` } : sections;
+}
+
+export function isChatSections(value: unknown): value is ChatSections {
+  return !!value && typeof value === 'object' && !Array.isArray(value) &&
+    Object.entries(value).every(([key, text]) => CHAT_SECTIONS.includes(key as ChatSection) && typeof text === 'string');
+}
+
+// Section markers the model is asked to write on their own line; the analysis JSON follows its marker
+export const SECTION_MARKERS: Record<ChatSection | 'analysis', string> = {
+  suitability: '[[suitability]]',
+  risks: '[[risks]]',
+  analysis: '[[analysis]]',
+};
+
+// Longest marker; an unclosed "[[" held longer than this is ordinary text
+const MAX_MARKER_LENGTH = Math.max(...Object.values(SECTION_MARKERS).map(marker => marker.length));
+
+type SplitterOutput =
+  | { type: 'text'; text: string; section: ChatSection | null }
+  | { type: 'section'; section: ChatSection };
+
+/**
+ * Turns the model's raw text deltas into section-tagged text, stripping the markers.
+ * Markers may arrive split across deltas, so a possible marker prefix is held back until
+ * it can be decided. Everything after the analysis marker is collected as JSON.
+ */
+export function createSectionSplitter() {
+  let pending = '';
+  let section: ChatSection | null = null;
+  let analysisJson: string | null = null;
+  // Drop the newline that follows a marker line
+  let atSectionStart = false;
+
+  const emitText = (text: string, out: SplitterOutput[]) => {
+    let value = text;
+    if (atSectionStart) {
+      value = value.replace(/^\s+/, '');
+      if (!value) return;
+      atSectionStart = false;
+    }
+    if (value) out.push({ type: 'text', text: value, section });
+  };
+
+  const drain = (final: boolean): SplitterOutput[] => {
+    const out: SplitterOutput[] = [];
+
+    while (pending) {
+      if (analysisJson !== null) {
+        analysisJson += pending;
+        pending = '';
+        break;
+      }
+
+      const start = pending.indexOf('[[');
+      if (start === -1) {
+        // A lone trailing "[" may be the start of a marker
+        const hold = !final && pending.endsWith('[') ? 1 : 0;
+        emitText(pending.slice(0, pending.length - hold), out);
+        pending = pending.slice(pending.length - hold);
+        break;
+      }
+
+      emitText(pending.slice(0, start), out);
+      pending = pending.slice(start);
+
+      const end = pending.indexOf(']]');
+      if (end === -1) {
+        if (!final && pending.length < MAX_MARKER_LENGTH) break;
+        // Not a marker after all
+        emitText(pending.slice(0, 2), out);
+        pending = pending.slice(2);
+        continue;
+      }
+
+      const raw = pending.slice(0, end + 2);
+      const marker = raw.toLowerCase();
+      pending = pending.slice(end + 2);
+
+      if (marker === SECTION_MARKERS.analysis) {
+        analysisJson = '';
+      } else if (marker === SECTION_MARKERS.suitability || marker === SECTION_MARKERS.risks) {
+        section = marker === SECTION_MARKERS.risks ? 'risks' : 'suitability';
+        atSectionStart = true;
+        out.push({ type: 'section', section });
+      } else {
+        emitText(raw, out);
+      }
+    }
+
+    return out;
+  };
+
+  return {
+    push(text: string): SplitterOutput[] {
+      pending += text;
+      return drain(false);
+    },
+    end(): { output: SplitterOutput[]; analysis: PoolAnalysis | null } {
+      const output = drain(true);
+      return { output, analysis: analysisJson ? parsePoolAnalysis(analysisJson) : null };
+    },
+  };
+}
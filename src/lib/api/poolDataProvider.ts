@@ -0,0 +1,233 @@
+// src/lib/api/poolDataProvider.ts
+// Pluggable source for Meteora pool groups and Jupiter token metadata.
+// The provider is picked from NEXT_PUBLIC_POOL_DATA_PROVIDER so pool flows can run
+// against the live APIs, a local mock server, or bundled fixtures with no network.
+
+import type { PoolsResponse } from './pools';
+
+// Token metadata in the shape of the Jupiter token search API
+export interface TokenMeta {
+  icon: string;
+  symbol: string;
+  usdPrice?: number;
+  [key: string]: unknown;
+}
+
+export interface PoolDataProvider {
+  readonly name: string;
+  // Pool groups matching a search term (e.g. 'wbtc-sol', 'zbtc')
+  fetchPools(searchTerm: string): Promise<PoolsResponse>;
+  // Metadata for a token mint, or null when the mint is unknown
+  fetchTokenMeta(mint: string): Promise<TokenMeta | null>;
+}
+
+export type PoolDataProviderKind = 'meteora' | 'cached' | 'fixture';
+
+export interface PoolDataConfig {
+  provider: PoolDataProviderKind;
+  meteoraApiUrl: string;
+  jupiterApiUrl: string;
+}
+
+export interface PoolDataFixtures {
+  pools: PoolsResponse;
+  tokens: Record<string, TokenMeta>;
+}
+
+const DEFAULT_METEORA_API_URL = 'https://dlmm-api.meteora.ag';
+const DEFAULT_JUPITER_API_URL = 'https://lite-api.jup.ag';
+const PROVIDER_KINDS: PoolDataProviderKind[] = ['meteora', 'cached', 'fixture'];
+
+const POOL_CACHE_TTL = 60 * 1000; // 1 minute
+const TOKEN_META_CACHE_TTL = 60 * 60 * 1000; // 1 hour
+
+/**
+ * Read the pool data configuration from the environment
+ */
+export function getPoolDataConfig(): PoolDataConfig {
+  const kind = process.env.NEXT_PUBLIC_POOL_DATA_PROVIDER as PoolDataProviderKind | undefined;
+
+  return {
+    provider: kind && PROVIDER_KINDS.includes(kind) ? kind : 'cached',
+    meteoraApiUrl: (process.env.NEXT_PUBLIC_METEORA_API_URL || DEFAULT_METEORA_API_URL).replace(/\/+$/, ''),
+    jupiterApiUrl: (process.env.NEXT_PUBLIC_JUPITER_API_URL || DEFAULT_JUPITER_API_URL).replace(/\/+$/, ''),
+  };
+}
+
+/**
+ * Apply the Meteora search semantics to a recorded payload: a group matches when
+ * every dash-separated part of the term appears in its name (case-insensitive)
+ */
+export function searchPoolsResponse(payload: PoolsResponse, searchTerm: string): PoolsResponse {
+  const parts = searchTerm.toLowerCase().split('-').filter(Boolean);
+  const groups = payload.groups.filter(group => {
+    const name = group.name.toLowerCase();
+    return parts.every(part => name.includes(part));
+  });
+
+  return { groups, total: groups.length };
+}
+
+/**
+ * Live Meteora DLMM API and Jupiter token API (or anything serving the same routes)
+ */
+export class MeteoraHttpPoolDataProvider implements PoolDataProvider {
+  readonly name = 'meteora';
+
+  constructor(
+    private readonly meteoraApiUrl: string = DEFAULT_METEORA_API_URL,
+    private readonly jupiterApiUrl: string = DEFAULT_JUPITER_API_URL
+  ) {}
+
+  async fetchPools(searchTerm: string): Promise<PoolsResponse> {
+    const response = await fetch(
+      `${this.meteoraApiUrl}/pair/all_by_groups?search_term=${encodeURIComponent(searchTerm)}`
+    );
+
+    if (!response.ok) {
+      throw new Error(`Failed to fetch ${searchTerm} pools`);
+    }
+
+    return await response.json();
+  }
+
+  async fetchTokenMeta(mint: string): Promise<TokenMeta | null> {
+    const response = await fetch(
+      `${this.jupiterApiUrl}/tokens/v2/search?query=${encodeURIComponent(mint)}`
+    );
+
+    if (!response.ok) {
+      throw new Error(`Failed to fetch token metadata for ${mint}`);
+    }
+
+    // The API returns an array, take the first match
+    const tokens: TokenMeta[] = await response.json();
+    return tokens[0] ?? null;
+  }
+}
+
+/**
+ * Wraps another provider with TTL caches. In-flight requests are shared so
+ * concurrent callers (e.g. every wallet position row) trigger one fetch per key.
+ */
+export class CachedPoolDataProvider implements PoolDataProvider {
+  readonly name: string;
+  private poolCache = new Map<string, { value: Promise<PoolsResponse>; timestamp: number }>();
+  private tokenCache = new Map<string, { value: Promise<TokenMeta | null>; timestamp: number }>();
+
+  constructor(
+    private readonly inner: PoolDataProvider,
+    private readonly poolTtl: number = POOL_CACHE_TTL,
+    private readonly tokenTtl: number = TOKEN_META_CACHE_TTL
+  ) {
+    this.name = `cached:${inner.name}`;
+  }
+
+  fetchPools(searchTerm: string): Promise<PoolsResponse> {
+    return this.cached(this.poolCache, searchTerm.toLowerCase(), this.poolTtl, () =>
+      this.inner.fetchPools(searchTerm)
+    );
+  }
+
+  fetchTokenMeta(mint: string): Promise<TokenMeta | null> {
+    return this.cached(this.tokenCache, mint, this.tokenTtl, () => this.inner.fetchTokenMeta(mint));
+  }
+
+  clear(): void {
+    this.poolCache.clear();
+    this.tokenCache.clear();
+  }
+
+  private cached<T>(
+    cache: Map<string, { value: Promise<T>; timestamp: number }>,
+    key: string,
+    ttl: number,
+    load: () => Promise<T>
+  ): Promise<T> {
+    const entry = cache.get(key);
+    if (entry && Date.now() - entry.timestamp < ttl) {
+      return entry.value;
+    }
+
+    const value = load();
+    cache.set(key, { value, timestamp: Date.now() });
+    // Failures are not cached
+    value.catch(() => {
+      if (cache.get(key)?.value === value) cache.delete(key);
+    });
+    return value;
+  }
+}
+
+/**
+ * Serves sample payloads from fixtures/meteora (or the given fixtures) without any network
+ */
+export class FixturePoolDataProvider implements PoolDataProvider {
+  readonly name = 'fixture';
+  private fixtures: Promise<PoolDataFixtures>;
+
+  constructor(fixtures?: PoolDataFixtures) {
+    this.fixtures = fixtures ? Promise.resolve(fixtures) : loadBundledFixtures();
+  }
+
+  async fetchPools(searchTerm: string): Promise<PoolsResponse> {
+    const { pools } = await this.fixtures;
+    return searchPoolsResponse(pools, searchTerm);
+  }
+
+  async fetchTokenMeta(mint: string): Promise<TokenMeta | null> {
+    const { tokens } = await this.fixtures;
+    return tokens[mint] ?? null;
+  }
+}
+
+/**
+ * Load the bundled fixtures lazily so they stay out of the main bundle
+ */
+export async function loadBundledFixtures(): Promise<PoolDataFixtures> {
+  const [pools, tokens] = await Promise.all([
+    import('../../../fixtures/meteora/pools.json'),
+    import('../../../fixtures/meteora/tokens.json'),
+  ]);
+
+  return {
+    pools: pools.default as PoolsResponse,
+    tokens: tokens.default as Record<string, TokenMeta>,
+  };
+}
+
+/**
+ * Build a provider for a configuration
+ */
+export function createPoolDataProvider(config: PoolDataConfig = getPoolDataConfig()): PoolDataProvider {
+  switch (config.provider) {
+    case 'fixture':
+      return new FixturePoolDataProvider();
+    case 'meteora':
+      return new MeteoraHttpPoolDataProvider(config.meteoraApiUrl, config.jupiterApiUrl);
+    case 'cached':
+    default:
+      return new CachedPoolDataProvider(
+        new MeteoraHttpPoolDataProvider(config.meteoraApiUrl, config.jupiterApiUrl)
+      );
+  }
+}
+
+let activeProvider: PoolDataProvider | null = null;
+
+/**
+ * The configured provider, shared across the app so caches are too
+ */
+export function getPoolDataProvider(): PoolDataProvider {
+  if (!activeProvider) {
+    activeProvider = createPoolDataProvider();
+  }
+  return activeProvider;
+}
+
+/**
+ * Replace the shared provider (e.g. with fixtures in tests); pass null to reset to config
+ */
+export function setPoolDataProvider(provider: PoolDataProvider | null): void {
+  activeProvider = provider;
+}
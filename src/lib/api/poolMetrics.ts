@@ -0,0 +1,47 @@
+// src/lib/api/poolMetrics.ts
+
+import { ChatAPIError } from './chat';
+import type { PoolMetricsSummary } from '@/lib/utils/poolMetrics';
+
+const METRICS_CACHE_TTL = 5 * 60 * 1000; // 5 minutes
+const metricsCache = new Map<string, { value: PoolMetricsSummary; timestamp: number }>();
+
+/**
+ * Fetch fee APY history and 7d/30d stats for pools, served from a short-lived cache
+ * @param addresses Pool addresses (at most 20)
+ * @param days Days of daily trend points to return
+ */
+export async function fetchPoolMetrics(addresses: string[], days: number = 30): Promise<PoolMetricsSummary[]> {
+  const now = Date.now();
+  const cacheKey = (address: string) => `${address}:${days}`;
+  const missing = addresses.filter(address => {
+    const cached = metricsCache.get(cacheKey(address));
+    return !cached || now - cached.timestamp >= METRICS_CACHE_TTL;
+  });
+
+  if (missing.length > 0) {
+    const response = await fetch(
+      `/api/pools/metrics?addresses=${encodeURIComponent(missing.join(','))}&days=${days}`
+    );
+
+    if (!response.ok) {
+      let message = 'Failed to load pool metrics';
+      try {
+        const errorData = await response.json();
+        message = errorData.message || errorData.error || message;
+      } catch {
+        // Ignore JSON parsing errors
+      }
+      throw new ChatAPIError(message, response.status);
+    }
+
+    const data: { metrics: PoolMetricsSummary[] } = await response.json();
+    for (const summary of data.metrics) {
+      metricsCache.set(cacheKey(summary.address), { value: summary, timestamp: now });
+    }
+  }
+
+  return addresses
+    .map(address => metricsCache.get(cacheKey(address))?.value)
+    .filter((summary): summary is PoolMetricsSummary => summary !== undefined);
+}
@@ -1,5 +1,7 @@
 // src/lib/api/pools.ts
 
+import { getPoolDataProvider } from './poolDataProvider';
+
 export interface Pool {
     name: string;
     address: string;
@@ -9,31 +11,25 @@ export interface Pool {
     fees_24h: number;
     trade_volume_24h: number;
     bin_step?: number;
+    mint_x?: string;
+    mint_y?: string;
   }
-  
+
   export interface Group {
     name: string;
     pairs: Pool[];
   }
-  
+
   export interface PoolsResponse {
     groups: Group[];
     total: number;
   }
-  
+
   /**
-   * Fetch BTC pool data from the Meteora API
+   * Fetch BTC pool data from the configured pool data provider (Meteora API by default)
    * @param searchTerm The search term (e.g., 'wbtc-sol', 'zbtc-sol')
    * @returns Promise with the pools data
    */
   export const fetchPools = async (searchTerm: string): Promise<PoolsResponse> => {
-    const response = await fetch(
-      `https://dlmm-api.meteora.ag/pair/all_by_groups?search_term=${searchTerm}`
-    );
-    
-    if (!response.ok) {
-      throw new Error(`Failed to fetch ${searchTerm} pools`);
-    }
-    
-    return await response.json();
+    return getPoolDataProvider().fetchPools(searchTerm);
   }
\ No newline at end of file
@@ -0,0 +1,364 @@
+// src/lib/backtest/dlmmBacktest.ts
+// Replays a historical price/volume series through a bin-accurate DLMM position simulation.
+// All values are expressed in quote-token (Y) units; prices are Y per X.
+
+import { StrategyType } from '@meteora-ag/dlmm';
+import type { DlmmStrategyName } from '@/lib/meteora/meteoraChatTools';
+import type { PricePoint } from './priceSeries';
+
+export const STRATEGY_BY_NAME: Record<DlmmStrategyName, StrategyType> = {
+  spot: StrategyType.Spot,
+  curve: StrategyType.Curve,
+  bid_ask: StrategyType.BidAsk,
+};
+
+export interface RebalancePolicy {
+  // Re-center the range after this many consecutive out-of-range periods
+  outOfRangePeriods: number;
+  // Cost of withdrawing, swapping and re-adding, in basis points of position value
+  costBps: number;
+}
+
+export interface BacktestConfig {
+  binStep: number;
+  // Total number of bins in the position, centered on the entry bin
+  rangeWidth: number;
+  strategy: StrategyType;
+  // Starting position value in quote units
+  initialValue?: number;
+  // Swap fee charged per unit of volume; defaults to the bin step (as in most DLMM pools)
+  baseFeeBps?: number;
+  // Share of pool TVL sitting in the active bin, used to size our share of fees
+  activeBinDepthRatio?: number;
+  // TVL used when the series has no tvl column
+  poolTvl?: number;
+  rebalance?: RebalancePolicy | null;
+}
+
+export interface EquityPoint {
+  timestamp: number;
+  price: number;
+  activeBin: number;
+  inRange: boolean;
+  positionValue: number;
+  hodlValue: number;
+  feeIncome: number;
+}
+
+export interface BacktestResult {
+  strategy: StrategyType;
+  binStep: number;
+  rangeWidth: number;
+  periods: number;
+  initialValue: number;
+  // Value of the liquidity left in the bins at the end
+  positionValue: number;
+  // Value of the initial token amounts held untouched
+  hodlValue: number;
+  feeIncome: number;
+  // positionValue + rebalanceCost - hodlValue
+  impermanentLoss: number;
+  impermanentLossPct: number;
+  // Total paid for rebalancing, already taken out of positionValue
+  rebalanceCost: number;
+  // positionValue + feeIncome
+  finalValue: number;
+  netPnl: number;
+  // Fraction of periods with the active bin inside the range (0-1)
+  timeInRange: number;
+  rebalances: number;
+  equity: EquityPoint[];
+}
+
+export class BacktestConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BacktestConfigError';
+  }
+}
+
+const DEFAULT_INITIAL_VALUE = 1000;
+const DEFAULT_ACTIVE_BIN_DEPTH_RATIO = 0.05;
+const DEFAULT_POOL_TVL = 100000;
+const MAX_RANGE_WIDTH = 1400;
+
+interface SimulatedPosition {
+  // Bin id of the first bin in the range
+  lowerBin: number;
+  amountsX: number[];
+  amountsY: number[];
+}
+
+/**
+ * Price of a bin relative to the reference price at bin 0
+ */
+function binPrice(referencePrice: number, binStep: number, binId: number): number {
+  return referencePrice * Math.pow(1 + binStep / 10000, binId);
+}
+
+/**
+ * Bin id containing a price
+ */
+function priceToBin(referencePrice: number, binStep: number, price: number): number {
+  return Math.floor(Math.log(price / referencePrice) / Math.log(1 + binStep / 10000) + 1e-9);
+}
+
+/**
+ * Relative liquidity weight of each bin for a strategy, by distance from the center bin
+ */
+export function strategyWeights(strategy: StrategyType, rangeWidth: number): number[] {
+  const center = (rangeWidth - 1) / 2;
+  const sigma = Math.max(1, rangeWidth / 4);
+
+  return Array.from({ length: rangeWidth }, (_, index) => {
+    const distance = Math.abs(index - center);
+    switch (strategy) {
+      case StrategyType.Curve:
+        return Math.exp(-(distance * distance) / (2 * sigma * sigma));
+      case StrategyType.BidAsk:
+        return distance + 1;
+      case StrategyType.Spot:
+      default:
+        return 1;
+    }
+  });
+}
+
+/**
+ * Open a position worth `value` at `price`, centered on `activeBin`.
+ * Bins above the active bin hold X, bins below hold Y and the active bin holds both.
+ * X is bought at the market price, so the new position is worth exactly `value`.
+ */
+function openPosition(
+  value: number,
+  activeBin: number,
+  config: Required<Pick<BacktestConfig, 'rangeWidth' | 'strategy'>>,
+  price: number
+): SimulatedPosition {
+  const weights = strategyWeights(config.strategy, config.rangeWidth);
+  const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+  const lowerBin = activeBin - Math.floor((config.rangeWidth - 1) / 2);
+
+  const amountsX: number[] = [];
+  const amountsY: number[] = [];
+
+  weights.forEach((weight, index) => {
+    const binId = lowerBin + index;
+    const binValue = value * weight / totalWeight;
+
+    if (binId > activeBin) {
+      amountsX.push(binValue / price);
+      amountsY.push(0);
+    } else if (binId < activeBin) {
+      amountsX.push(0);
+      amountsY.push(binValue);
+    } else {
+      amountsX.push(binValue / 2 / price);
+      amountsY.push(binValue / 2);
+    }
+  });
+
+  return { lowerBin, amountsX, amountsY };
+}
+
+/**
+ * Convert bins the price has crossed: bins below the active bin end up in Y,
+ * bins above it end up in X, each swapped at its own bin price.
+ */
+function applyBinCrossings(
+  position: SimulatedPosition,
+  activeBin: number,
+  binStep: number,
+  referencePrice: number
+): void {
+  position.amountsX.forEach((_, index) => {
+    const binId = position.lowerBin + index;
+    const price = binPrice(referencePrice, binStep, binId);
+
+    if (binId < activeBin && position.amountsX[index] > 0) {
+      position.amountsY[index] += position.amountsX[index] * price;
+      position.amountsX[index] = 0;
+    } else if (binId > activeBin && position.amountsY[index] > 0) {
+      position.amountsX[index] += position.amountsY[index] / price;
+      position.amountsY[index] = 0;
+    }
+  });
+}
+
+/**
+ * Value of a single bin (or of nothing, if the bin is outside the range)
+ */
+function binValue(position: SimulatedPosition, binId: number, price: number): number {
+  const index = binId - position.lowerBin;
+  if (index < 0 || index >= position.amountsX.length) return 0;
+  return position.amountsX[index] * price + position.amountsY[index];
+}
+
+/**
+ * Mark-to-market value of the whole position
+ */
+function positionValue(position: SimulatedPosition, price: number): number {
+  return position.amountsX.reduce((sum, amountX, index) => sum + amountX * price + position.amountsY[index], 0);
+}
+
+/**
+ * Validate a config and fill in defaults
+ */
+function resolveConfig(config: BacktestConfig) {
+  if (!Number.isInteger(config.binStep) || config.binStep < 1 || config.binStep > 500) {
+    throw new BacktestConfigError('binStep must be an integer between 1 and 500');
+  }
+  if (!Number.isInteger(config.rangeWidth) || config.rangeWidth < 1 || config.rangeWidth > MAX_RANGE_WIDTH) {
+    throw new BacktestConfigError(`rangeWidth must be an integer between 1 and ${MAX_RANGE_WIDTH}`);
+  }
+  if (!Object.values(STRATEGY_BY_NAME).includes(config.strategy)) {
+    throw new BacktestConfigError('strategy must be Spot, Curve or BidAsk');
+  }
+
+  const initialValue = config.initialValue ?? DEFAULT_INITIAL_VALUE;
+  const baseFeeBps = config.baseFeeBps ?? config.binStep;
+  const activeBinDepthRatio = config.activeBinDepthRatio ?? DEFAULT_ACTIVE_BIN_DEPTH_RATIO;
+  const poolTvl = config.poolTvl ?? DEFAULT_POOL_TVL;
+
+  if (!(initialValue > 0)) throw new BacktestConfigError('initialValue must be positive');
+  if (!(baseFeeBps >= 0 && baseFeeBps <= 10000)) throw new BacktestConfigError('baseFeeBps must be between 0 and 10000');
+  if (!(activeBinDepthRatio > 0 && activeBinDepthRatio <= 1)) {
+    throw new BacktestConfigError('activeBinDepthRatio must be between 0 and 1');
+  }
+  if (!(poolTvl > 0)) throw new BacktestConfigError('poolTvl must be positive');
+
+  const rebalance = config.rebalance || null;
+  if (rebalance && (!Number.isInteger(rebalance.outOfRangePeriods) || rebalance.outOfRangePeriods < 1 || rebalance.costBps < 0)) {
+    throw new BacktestConfigError('rebalance needs a positive outOfRangePeriods and non-negative costBps');
+  }
+
+  return { ...config, initialValue, baseFeeBps, activeBinDepthRatio, poolTvl, rebalance };
+}
+
+/**
+ * Run a backtest of one strategy over a price series
+ */
+export function runBacktest(series: PricePoint[], config: BacktestConfig): BacktestResult {
+  if (series.length < 2) {
+    throw new BacktestConfigError('Price series needs at least two points');
+  }
+
+  const resolved = resolveConfig(config);
+  const { binStep, rangeWidth, strategy } = resolved;
+  const feeRate = resolved.baseFeeBps / 10000;
+
+  // Bin 0 is the entry bin; every later price maps onto the same bin grid
+  const referencePrice = series[0].price;
+  let activeBin = 0;
+  let position = openPosition(resolved.initialValue, activeBin, { rangeWidth, strategy }, referencePrice);
+
+  // HODL benchmark keeps the token amounts of the initial deposit
+  const hodlX = position.amountsX.reduce((sum, amount) => sum + amount, 0);
+  const hodlY = position.amountsY.reduce((sum, amount) => sum + amount, 0);
+
+  let feeIncome = 0;
+  let rebalanceCost = 0;
+  let rebalances = 0;
+  let periodsInRange = 0;
+  let periodsOutOfRange = 0;
+  const equity: EquityPoint[] = [];
+
+  series.forEach((point, index) => {
+    const previousBin = activeBin;
+    activeBin = priceToBin(referencePrice, binStep, point.price);
+    applyBinCrossings(position, activeBin, binStep, referencePrice);
+
+    // Fees: the period's volume is spread over every bin the price traversed,
+    // and we earn our share of the liquidity in each of those bins
+    if (index > 0 && point.volume > 0) {
+      const fromBin = Math.min(previousBin, activeBin);
+      const toBin = Math.max(previousBin, activeBin);
+      const traversed = toBin - fromBin + 1;
+      const binDepth = (point.tvl ?? resolved.poolTvl) * resolved.activeBinDepthRatio;
+
+      for (let binId = fromBin; binId <= toBin; binId++) {
+        const price = binPrice(referencePrice, binStep, binId);
+        const ourLiquidity = binValue(position, binId, price);
+        if (ourLiquidity <= 0) continue;
+
+        const share = Math.min(1, ourLiquidity / (binDepth + ourLiquidity));
+        feeIncome += (point.volume / traversed) * feeRate * share;
+      }
+    }
+
+    const upperBin = position.lowerBin + rangeWidth - 1;
+    const inRange = activeBin >= position.lowerBin && activeBin <= upperBin;
+    if (inRange) {
+      periodsInRange++;
+      periodsOutOfRange = 0;
+    } else {
+      periodsOutOfRange++;
+    }
+
+    // Optional rebalance: withdraw everything, pay the cost and re-center on the active bin
+    if (!inRange && resolved.rebalance && periodsOutOfRange >= resolved.rebalance.outOfRangePeriods) {
+      const value = positionValue(position, point.price);
+      const cost = value * resolved.rebalance.costBps / 10000;
+      rebalanceCost += cost;
+      rebalances++;
+      periodsOutOfRange = 0;
+      position = openPosition(value - cost, activeBin, { rangeWidth, strategy }, point.price);
+    }
+
+    equity.push({
+      timestamp: point.timestamp,
+      price: point.price,
+      activeBin,
+      inRange,
+      positionValue: positionValue(position, point.price),
+      hodlValue: hodlX * point.price + hodlY,
+      feeIncome,
+    });
+  });
+
+  const lastPrice = series[series.length - 1].price;
+  const finalPositionValue = positionValue(position, lastPrice);
+  const hodlValue = hodlX * lastPrice + hodlY;
+  // Rebalance costs come out of the position but are reported on their own, not as IL
+  const impermanentLoss = finalPositionValue + rebalanceCost - hodlValue;
+  const finalValue = finalPositionValue + feeIncome;
+
+  return {
+    strategy,
+    binStep,
+    rangeWidth,
+    periods: series.length,
+    initialValue: resolved.initialValue,
+    positionValue: finalPositionValue,
+    hodlValue,
+    feeIncome,
+    impermanentLoss,
+    impermanentLossPct: hodlValue > 0 ? (impermanentLoss / hodlValue) * 100 : 0,
+    rebalanceCost,
+    finalValue,
+    netPnl: finalValue - resolved.initialValue,
+    timeInRange: periodsInRange / series.length,
+    rebalances,
+    equity,
+  };
+}
+
+/**
+ * Run the same configuration for every strategy, best final value first
+ */
+export function compareStrategies(
+  series: PricePoint[],
+  config: Omit<BacktestConfig, 'strategy'>
+): BacktestResult[] {
+  return Object.values(STRATEGY_BY_NAME)
+    .map(strategy => runBacktest(series, { ...config, strategy }))
+    .sort((a, b) => b.finalValue - a.finalValue);
+}
+
+/**
+ * Readable name of a strategy type
+ */
+export function strategyName(strategy: StrategyType): DlmmStrategyName {
+  const entry = Object.entries(STRATEGY_BY_NAME).find(([, value]) => value === strategy);
+  return (entry ? entry[0] : 'spot') as DlmmStrategyName;
+}
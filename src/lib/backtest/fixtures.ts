@@ -0,0 +1,59 @@
+// src/lib/backtest/fixtures.ts
+// Loads offline price series fixtures from fixtures/backtest (server / CLI only).
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { parseSeriesFile, PriceSeriesError, type PricePoint } from './priceSeries';
+
+const FIXTURE_EXTENSIONS = ['.csv', '.json'];
+
+/**
+ * Directory holding the backtest fixtures (override with BACKTEST_FIXTURE_DIR)
+ */
+export function getFixtureDir(): string {
+  return process.env.BACKTEST_FIXTURE_DIR || path.join(process.cwd(), 'fixtures', 'backtest');
+}
+
+/**
+ * List available fixture names (file names without extension)
+ */
+export async function listFixtures(): Promise<string[]> {
+  try {
+    const files = await fs.readdir(getFixtureDir());
+    return files
+      .filter(file => FIXTURE_EXTENSIONS.includes(path.extname(file).toLowerCase()))
+      .map(file => path.basename(file, path.extname(file)))
+      .sort();
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return [];
+    }
+    throw error;
+  }
+}
+
+/**
+ * Load a fixture by name. Only names returned by listFixtures are accepted,
+ * so request input can never reach arbitrary paths.
+ */
+export async function loadFixture(name: string): Promise<PricePoint[]> {
+  const files = await fs.readdir(getFixtureDir()).catch(() => [] as string[]);
+  const file = files.find(candidate =>
+    FIXTURE_EXTENSIONS.includes(path.extname(candidate).toLowerCase()) &&
+    path.basename(candidate, path.extname(candidate)) === name
+  );
+
+  if (!file) {
+    throw new PriceSeriesError(`Unknown fixture: ${name}`);
+  }
+
+  return loadSeriesFile(path.join(getFixtureDir(), file));
+}
+
+/**
+ * Load a series from any CSV/JSON file path (used by the CLI)
+ */
+export async function loadSeriesFile(filePath: string): Promise<PricePoint[]> {
+  const content = await fs.readFile(filePath, 'utf8');
+  return parseSeriesFile(filePath, content);
+}
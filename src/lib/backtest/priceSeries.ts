@@ -0,0 +1,155 @@
+// src/lib/backtest/priceSeries.ts
+// Parsing of historical price/volume series used as backtest input.
+// CSV: header row with timestamp,price,volume[,tvl]; lines starting with # are comments.
+// JSON: an array of points, or an object with a `points` array.
+
+export interface PricePoint {
+  // Unix time in milliseconds
+  timestamp: number;
+  // Quote-token price of one base token (Y per X)
+  price: number;
+  // Volume traded during the period, in quote-token units
+  volume: number;
+  // Pool TVL at the period, in quote-token units (optional)
+  tvl?: number;
+}
+
+export class PriceSeriesError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PriceSeriesError';
+  }
+}
+
+const REQUIRED_COLUMNS = ['timestamp', 'price', 'volume'];
+
+/**
+ * Parse a timestamp given as ISO date, unix seconds or unix milliseconds
+ */
+function parseTimestamp(value: unknown, position: string): number {
+  if (typeof value === 'number' || (typeof value === 'string' && /^\d+(\.\d+)?$/.test(value.trim()))) {
+    const numeric = Number(value);
+    // Values below 1e12 are treated as seconds
+    return numeric < 1e12 ? numeric * 1000 : numeric;
+  }
+
+  if (typeof value === 'string') {
+    const parsed = Date.parse(value.trim());
+    if (!Number.isNaN(parsed)) {
+      return parsed;
+    }
+  }
+
+  throw new PriceSeriesError(`Invalid timestamp at ${position}`);
+}
+
+/**
+ * Parse a finite, non-negative number
+ */
+function parseNumber(value: unknown, field: string, position: string): number {
+  const numeric = typeof value === 'string' ? Number(value.trim()) : value;
+  if (typeof numeric !== 'number' || !Number.isFinite(numeric) || numeric < 0) {
+    throw new PriceSeriesError(`Invalid ${field} at ${position}`);
+  }
+  return numeric;
+}
+
+/**
+ * Build a validated point from loosely typed fields
+ */
+function toPricePoint(raw: Record<string, unknown>, position: string): PricePoint {
+  const price = parseNumber(raw.price, 'price', position);
+  if (price === 0) {
+    throw new PriceSeriesError(`Price must be positive at ${position}`);
+  }
+
+  const point: PricePoint = {
+    timestamp: parseTimestamp(raw.timestamp, position),
+    price,
+    volume: parseNumber(raw.volume, 'volume', position),
+  };
+
+  if (raw.tvl !== undefined && raw.tvl !== '') {
+    point.tvl = parseNumber(raw.tvl, 'tvl', position);
+  }
+
+  return point;
+}
+
+/**
+ * Sort by time and reject series too short to simulate
+ */
+function finalizeSeries(points: PricePoint[]): PricePoint[] {
+  if (points.length < 2) {
+    throw new PriceSeriesError('Price series needs at least two points');
+  }
+  return [...points].sort((a, b) => a.timestamp - b.timestamp);
+}
+
+/**
+ * Parse a CSV price series
+ */
+export function parseCsvSeries(content: string): PricePoint[] {
+  const lines = content
+    .split(/\r?\n/)
+    .map(line => line.trim())
+    .filter(line => line.length > 0 && !line.startsWith('#'));
+
+  if (lines.length === 0) {
+    throw new PriceSeriesError('CSV series is empty');
+  }
+
+  const header = lines[0].split(',').map(column => column.trim().toLowerCase());
+  const missing = REQUIRED_COLUMNS.filter(column => !header.includes(column));
+  if (missing.length > 0) {
+    throw new PriceSeriesError(`CSV series is missing columns: ${missing.join(', ')}`);
+  }
+
+  const points = lines.slice(1).map((line, index) => {
+    const cells = line.split(',');
+    const raw: Record<string, unknown> = {};
+    header.forEach((column, columnIndex) => {
+      raw[column] = cells[columnIndex]?.trim();
+    });
+    return toPricePoint(raw, `line ${index + 2}`);
+  });
+
+  return finalizeSeries(points);
+}
+
+/**
+ * Parse a JSON price series (already-decoded value)
+ */
+export function parseJsonSeries(data: unknown): PricePoint[] {
+  const points = Array.isArray(data)
+    ? data
+    : data && typeof data === 'object' && Array.isArray((data as { points?: unknown }).points)
+      ? (data as { points: unknown[] }).points
+      : null;
+
+  if (!points) {
+    throw new PriceSeriesError('JSON series must be an array or an object with a points array');
+  }
+
+  return finalizeSeries(points.map((point, index) => {
+    if (!point || typeof point !== 'object') {
+      throw new PriceSeriesError(`Invalid point at index ${index}`);
+    }
+    return toPricePoint(point as Record<string, unknown>, `index ${index}`);
+  }));
+}
+
+/**
+ * Parse a series from file contents, picking the format from the file name
+ */
+export function parseSeriesFile(fileName: string, content: string): PricePoint[] {
+  if (fileName.toLowerCase().endsWith('.json')) {
+    try {
+      return parseJsonSeries(JSON.parse(content));
+    } catch (error) {
+      if (error instanceof PriceSeriesError) throw error;
+      throw new PriceSeriesError(`Invalid JSON in ${fileName}`);
+    }
+  }
+  return parseCsvSeries(content);
+}
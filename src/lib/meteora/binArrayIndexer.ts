@@ -0,0 +1,277 @@
+// src/lib/meteora/binArrayIndexer.ts
+// Reads a pool's bin array accounts around the active bin in one batched RPC call and decodes
+// per-bin reserves, so range recommendations reflect which bins exist and hold liquidity on-chain.
+
+import DLMM, { decodeAccount, deriveBinArray, type LbPair } from '@meteora-ag/dlmm';
+import { Connection, PublicKey } from '@solana/web3.js';
+import { BN } from '@coral-xyz/anchor';
+
+export const BINS_PER_ARRAY = 70;
+
+// BinArray (bytemuck, repr C): discriminator, index i64, version u8, 7 bytes padding, lb_pair, then 70 bins
+const BIN_ARRAY_DISCRIMINATOR = Buffer.from([92, 142, 92, 220, 5, 148, 70, 181]);
+const BIN_ARRAY_HEADER_SIZE = 56;
+// Bin: amount_x u64, amount_y u64, price u128, liquidity_supply u128, then fee / order bookkeeping
+const BIN_SIZE = 144;
+export const BIN_ARRAY_ACCOUNT_SIZE = BIN_ARRAY_HEADER_SIZE + BINS_PER_ARRAY * BIN_SIZE;
+
+const Q64 = Math.pow(2, 64);
+// Bin arrays fetched on each side of the active one (7 arrays = 490 bins)
+const DEFAULT_WINDOW = 3;
+// Largest explicit range looked up outside the window in one call (~1400 bins)
+const MAX_RANGE_ARRAYS = 20;
+
+export interface IndexedBin {
+  binId: number;
+  amountX: BN;
+  amountY: BN;
+  liquiditySupply: BN;
+  // Price of one raw X unit in raw Y units (decoded from Q64.64)
+  price: number;
+  // Reserves valued in raw Y units, the depth measure used to compare bins
+  liquidity: number;
+}
+
+export interface DecodedBinArray {
+  index: number;
+  version: number;
+  lbPair: string;
+  bins: IndexedBin[];
+}
+
+export interface PoolBinIndex {
+  poolAddress: string;
+  activeBinId: number;
+  binStep: number;
+  // Bin array indexes that were looked up (inclusive), initialized or not
+  firstArray: number;
+  lastArray: number;
+  // Indexes of the bin arrays that exist on-chain within the fetched window
+  initializedArrays: number[];
+  // Every bin of the initialized arrays, ascending by bin id
+  bins: IndexedBin[];
+  fetchedAt: number;
+}
+
+export class BinArrayDecodeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BinArrayDecodeError';
+  }
+}
+
+// Decoded windows per pool; bins move with every swap, so keep this short
+const poolBinCache = new Map<string, PoolBinIndex>();
+const pendingFetches = new Map<string, Promise<PoolBinIndex>>();
+const CACHE_DURATION = 30000;
+
+/**
+ * Index of the bin array holding a bin (floor division, so negative bins round down)
+ */
+export function binArrayIndexForBin(binId: number): number {
+  return Math.floor(binId / BINS_PER_ARRAY);
+}
+
+function readU64(data: Buffer, offset: number): BN {
+  return new BN(data.subarray(offset, offset + 8), 'le');
+}
+
+function readU128(data: Buffer, offset: number): BN {
+  return new BN(data.subarray(offset, offset + 16), 'le');
+}
+
+/**
+ * Decode a raw BinArray account
+ */
+export function decodeBinArray(data: Buffer): DecodedBinArray {
+  if (data.length < BIN_ARRAY_ACCOUNT_SIZE) {
+    throw new BinArrayDecodeError(`Bin array account is ${data.length} bytes, expected ${BIN_ARRAY_ACCOUNT_SIZE}`);
+  }
+  if (!data.subarray(0, 8).equals(BIN_ARRAY_DISCRIMINATOR)) {
+    throw new BinArrayDecodeError('Account is not a DLMM bin array');
+  }
+
+  const index = new BN(data.subarray(8, 16), 'le').fromTwos(64).toNumber();
+  const version = data.readUInt8(16);
+  const lbPair = new PublicKey(data.subarray(24, 56)).toBase58();
+
+  const bins: IndexedBin[] = [];
+  for (let position = 0; position < BINS_PER_ARRAY; position++) {
+    const offset = BIN_ARRAY_HEADER_SIZE + position * BIN_SIZE;
+    const amountX = readU64(data, offset);
+    const amountY = readU64(data, offset + 8);
+    const price = Number(readU128(data, offset + 16).toString()) / Q64;
+
+    bins.push({
+      binId: index * BINS_PER_ARRAY + position,
+      amountX,
+      amountY,
+      liquiditySupply: readU128(data, offset + 32),
+      price,
+      liquidity: Number(amountX.toString()) * price + Number(amountY.toString()),
+    });
+  }
+
+  return { index, version, lbPair, bins };
+}
+
+/**
+ * Bins of an index within [minBinId, maxBinId]
+ */
+export function binsInRange(index: PoolBinIndex, minBinId: number, maxBinId: number): IndexedBin[] {
+  return index.bins.filter(bin => bin.binId >= minBinId && bin.binId <= maxBinId);
+}
+
+/**
+ * Bin id span of the contiguous initialized bin arrays around a bin, or null when
+ * the bin's own array does not exist
+ */
+export function initializedSpan(index: PoolBinIndex, binId: number = index.activeBinId): { minBinId: number; maxBinId: number } | null {
+  const initialized = new Set(index.initializedArrays);
+  let lower = binArrayIndexForBin(binId);
+  if (!initialized.has(lower)) return null;
+
+  let upper = lower;
+  while (initialized.has(lower - 1)) lower--;
+  while (initialized.has(upper + 1)) upper++;
+
+  return {
+    minBinId: lower * BINS_PER_ARRAY,
+    maxBinId: (upper + 1) * BINS_PER_ARRAY - 1,
+  };
+}
+
+/**
+ * Fetches and caches decoded bin arrays per pool
+ */
+export class BinArrayIndexer {
+  private _connection: Connection;
+  private window: number;
+
+  constructor(connection: Connection, window: number = DEFAULT_WINDOW) {
+    this._connection = connection;
+    this.window = window;
+  }
+
+  get connection(): Connection {
+    return this._connection;
+  }
+
+  /**
+   * Decoded bins around the pool's active bin (cached briefly; concurrent callers share one fetch)
+   */
+  async getPoolBins(pool: DLMM, { force = false }: { force?: boolean } = {}): Promise<PoolBinIndex> {
+    const poolAddress = pool.pubkey.toBase58();
+
+    const cached = poolBinCache.get(poolAddress);
+    if (!force && cached && Date.now() - cached.fetchedAt < CACHE_DURATION) {
+      return cached;
+    }
+
+    const pending = pendingFetches.get(poolAddress);
+    if (pending) return pending;
+
+    const fetch = this.fetchPoolBins(pool)
+      .then(index => {
+        poolBinCache.set(poolAddress, index);
+        return index;
+      })
+      .finally(() => pendingFetches.delete(poolAddress));
+    pendingFetches.set(poolAddress, fetch);
+    return fetch;
+  }
+
+  /**
+   * Bins of [minBinId, maxBinId] whose bin arrays exist, looking outside the cached
+   * window (uncached) when the range extends past it
+   */
+  async getBinsInRange(pool: DLMM, minBinId: number, maxBinId: number): Promise<IndexedBin[]> {
+    const index = await this.getPoolBins(pool);
+    const firstArray = binArrayIndexForBin(minBinId);
+    const lastArray = binArrayIndexForBin(maxBinId);
+
+    if (firstArray >= index.firstArray && lastArray <= index.lastArray) {
+      return binsInRange(index, minBinId, maxBinId);
+    }
+    if (lastArray - firstArray + 1 > MAX_RANGE_ARRAYS) {
+      throw new Error(`Bin range ${minBinId}-${maxBinId} spans more than ${MAX_RANGE_ARRAYS} bin arrays`);
+    }
+
+    const arrayIndexes: number[] = [];
+    for (let arrayIndex = firstArray; arrayIndex <= lastArray; arrayIndex++) {
+      arrayIndexes.push(arrayIndex);
+    }
+    const { bins } = await this.fetchArrays(pool, arrayIndexes);
+    return bins.filter(bin => bin.binId >= minBinId && bin.binId <= maxBinId);
+  }
+
+  invalidate(poolAddress: string): void {
+    poolBinCache.delete(poolAddress);
+  }
+
+  private async fetchPoolBins(pool: DLMM): Promise<PoolBinIndex> {
+    // Center on the last known active bin, and fetch the pair itself in the same call
+    // to learn where the price is now
+    let index = await this.fetchWindow(pool, pool.lbPair.activeId);
+
+    // The price moved past the fetched window since the pool was loaded; center on it instead
+    const activeArray = binArrayIndexForBin(index.activeBinId);
+    const centerArray = binArrayIndexForBin(pool.lbPair.activeId);
+    if (Math.abs(activeArray - centerArray) > this.window) {
+      index = await this.fetchWindow(pool, index.activeBinId);
+    }
+
+    return index;
+  }
+
+  private async fetchWindow(pool: DLMM, centerBinId: number): Promise<PoolBinIndex> {
+    const center = binArrayIndexForBin(centerBinId);
+    const arrayIndexes: number[] = [];
+    for (let offset = -this.window; offset <= this.window; offset++) {
+      arrayIndexes.push(center + offset);
+    }
+
+    // The pair rides along in the same call to learn where the price is now
+    const { pair, initializedArrays, bins } = await this.fetchArrays(pool, arrayIndexes);
+
+    return {
+      poolAddress: pool.pubkey.toBase58(),
+      activeBinId: pair.activeId,
+      binStep: pair.binStep,
+      firstArray: arrayIndexes[0],
+      lastArray: arrayIndexes[arrayIndexes.length - 1],
+      initializedArrays,
+      bins,
+      fetchedAt: Date.now(),
+    };
+  }
+
+  private async fetchArrays(
+    pool: DLMM,
+    arrayIndexes: number[]
+  ): Promise<{ pair: LbPair; initializedArrays: number[]; bins: IndexedBin[] }> {
+    const programId = pool.program.programId;
+    const keys = arrayIndexes.map(arrayIndex => deriveBinArray(pool.pubkey, new BN(arrayIndex), programId)[0]);
+    const [pairInfo, ...arrayInfos] = await this._connection.getMultipleAccountsInfo([pool.pubkey, ...keys]);
+
+    if (!pairInfo) {
+      throw new Error(`Pool ${pool.pubkey.toBase58()} not found`);
+    }
+    const pair = decodeAccount<LbPair>(pool.program, 'lbPair', pairInfo.data);
+
+    const initializedArrays: number[] = [];
+    const bins: IndexedBin[] = [];
+    arrayInfos.forEach((info, position) => {
+      if (!info) return;
+      try {
+        const decoded = decodeBinArray(info.data);
+        initializedArrays.push(decoded.index);
+        bins.push(...decoded.bins);
+      } catch (error) {
+        console.warn(`Skipping bin array ${arrayIndexes[position]} of ${pool.pubkey.toBase58()}:`, error);
+      }
+    });
+
+    return { pair, initializedArrays, bins };
+  }
+}
@@ -1,9 +1,22 @@
 // src/lib/meteora/meteoraChatCommands.ts
 import { MeteoraDlmmService} from './meteoraDlmmService';
-import { MeteoraPositionService } from './meteoraPositionService';
-import { PublicKey } from '@solana/web3.js';
-import { StrategyType } from '@meteora-ag/dlmm';
-import { BN } from 'bn.js';
+import { MeteoraPositionService, type ActiveBinGuard } from './meteoraPositionService';
+import type { DlmmToolCall, AddLiquidityInput, SwapInput, DlmmStrategyName } from './meteoraChatTools';
+import { fetchPools, type Pool } from '@/lib/api/pools';
+import { Connection, Keypair, PublicKey, Transaction } from '@solana/web3.js';
+import DLMM, { StrategyType } from '@meteora-ag/dlmm';
+import { BN } from '@coral-xyz/anchor';
+import {
+  NATIVE_SOL_MINT,
+  formatTokenAmount,
+  lamportsAmount,
+  percentOfTokenAmount,
+  toUiNumber,
+  tokenAmount,
+  tokenAmountFromUi,
+  type TokenAmount,
+} from '@/lib/utils/tokenAmount';
+import { findTokenBySymbol } from '@/lib/utils/tokenRegistry';
 
 // Command types
 export enum CommandType {
@@ -39,6 +52,8 @@ export interface CommandData {
   pools?: PoolInfo[];
   positions?: PositionInfo[];
   amount?: number;
+  // Exact amount the prepared transactions move, for display
+  tokenAmount?: TokenAmount;
   token?: string;
   fromToken?: string;
   toToken?: string;
@@ -49,6 +64,14 @@ export interface CommandData {
   useAutoFill?: boolean;
 }
 
+// Unsigned transactions prepared for the user to review and sign
+export interface PreparedTransactions {
+  transactions: Transaction[];
+  signers: Keypair[];
+  // Deposits re-check the active bin before signing, as the user may approve much later
+  activeBinGuard?: ActiveBinGuard;
+}
+
 // Command result interface
 export interface CommandResult {
   type: CommandType;
@@ -56,29 +79,54 @@ export interface CommandResult {
   message: string;
   data?: CommandData;
   error?: string;
+  toolCallId?: string;
+  prepared?: PreparedTransactions;
 }
 
-// Parse command interface
-export interface CommandParams {
-  command: string;
+// Tool call execution interface
+export interface ToolCallParams {
+  call: DlmmToolCall;
   userPublicKey?: PublicKey;
+  portfolioStyle?: string;
   service: {
     dlmm: MeteoraDlmmService;
     position: MeteoraPositionService;
   };
 }
 
+const WSOL_MINT = NATIVE_SOL_MINT;
+// Position rent + transaction fees kept aside when depositing a share of native SOL
+const SOL_RESERVE_LAMPORTS = 72_000_000;
+
+export const STRATEGY_TYPES: Record<DlmmStrategyName, StrategyType> = {
+  spot: StrategyType.Spot,
+  curve: StrategyType.Curve,
+  bid_ask: StrategyType.BidAsk,
+};
+
+const TOOL_COMMAND_TYPES: Record<DlmmToolCall['name'], CommandType> = {
+  get_pools: CommandType.GET_POOLS,
+  get_positions: CommandType.GET_POSITION,
+  add_liquidity: CommandType.ADD_LIQUIDITY,
+  remove_liquidity: CommandType.REMOVE_LIQUIDITY,
+  claim_fees: CommandType.CLAIM_FEES,
+  close_position: CommandType.CLOSE_POSITION,
+  swap: CommandType.SWAP,
+};
+
 /**
- * Parse a chat message to identify and execute DLMM commands
+ * Execute a tool call chosen by the chat agent.
+ * Read-only tools return data; write tools return unsigned transactions for the user to sign.
  */
-export async function parseDlmmCommand(params: CommandParams): Promise<CommandResult> {
-  const { command, userPublicKey, service } = params;
-  const lowerCommand = command.toLowerCase().trim();
+export async function executeDlmmToolCall(params: ToolCallParams): Promise<CommandResult> {
+  const { call, userPublicKey, portfolioStyle, service } = params;
+  const type = TOOL_COMMAND_TYPES[call.name];
 
   // Check if user is connected for non-query commands
-  if (!userPublicKey && !isQueryCommand(lowerCommand)) {
+  if (!userPublicKey && call.name !== 'get_pools') {
     return {
-      type: CommandType.UNKNOWN,
+      type,
+      toolCallId: call.id,
       success: false,
       message: "Please connect your wallet to perform DLMM operations.",
       error: "No wallet connected"
@@ -86,242 +134,330 @@ export async function parseDlmmCommand(params: CommandParams): Promise<CommandRe
   }
 
   try {
-    // Handle get pools command
-    if (lowerCommand.includes('list pools') || lowerCommand.includes('show pools') || lowerCommand.includes('get pools')) {
-      return await handleGetPoolsCommand(service.dlmm);
-    }
-    
-    // Handle get position command
-    else if (lowerCommand.includes('my position') || lowerCommand.includes('show position') || lowerCommand.includes('list position')) {
-      if (!userPublicKey) {
-        return {
-          type: CommandType.GET_POSITION,
-          success: false,
-          message: "Please connect your wallet to view your positions.",
-          error: "No wallet connected"
-        };
-      }
-      
-      const poolAddress = extractPoolAddress(lowerCommand);
-      return await handleGetPositionCommand(service.dlmm, userPublicKey, poolAddress);
-    }
-    
-    // Handle add liquidity command
-    else if (lowerCommand.includes('add liquidity') || lowerCommand.match(/add\s+\d+(\.\d+)?\s+to\s+pool/i)) {
-      if (!userPublicKey) {
-        return {
-          type: CommandType.ADD_LIQUIDITY,
-          success: false,
-          message: "Please connect your wallet to add liquidity.",
-          error: "No wallet connected"
-        };
-      }
-      
-      const { amount, token, poolAddress } = extractLiquidityParams(lowerCommand);
-      
-      if (!amount || !poolAddress) {
-        return {
-          type: CommandType.ADD_LIQUIDITY,
-          success: false,
-          message: "Please specify the amount and pool for adding liquidity. Example: 'Add 10 SOL to pool [address]'",
-          error: "Invalid parameters"
-        };
-      }
-      
-      // Enhanced response with estimated Y amount calculation
-      try {
-        const activeBin = await service.dlmm.getActiveBin(poolAddress);
-        const bnAmount = new BN(amount * Math.pow(10, 9)); // Assuming 9 decimals
-        
-        // Calculate estimated Y amount for balanced position
-        const estimatedY = service.dlmm.calculateBalancedYAmount(
-          activeBin.binId,
-          50, // Default bin step
-          bnAmount,
-          activeBin.xAmount,
-          activeBin.yAmount,
-          activeBin.binId - 10,
-          activeBin.binId + 10,
-          StrategyType.BidAsk
+    let result: CommandResult;
+
+    switch (call.name) {
+      case 'get_pools':
+        result = await handleGetPoolsCommand(service.dlmm, call.input.limit);
+        break;
+
+      case 'get_positions':
+        result = await handleGetPositionCommand(service.dlmm, userPublicKey!, call.input.pool_address);
+        break;
+
+      case 'add_liquidity':
+        result = await prepareAddLiquidity(service, userPublicKey!, call.input, portfolioStyle);
+        break;
+
+      case 'remove_liquidity': {
+        const poolAddress = await resolvePositionPool(service.dlmm.connection, userPublicKey!, call.input.position_id, call.input.pool_address);
+        const transactions = await service.position.removeLiquidityFromPosition(
+          { poolAddress, positionPubkey: call.input.position_id, userPublicKey: userPublicKey! },
+          call.input.percentage,
+          call.input.percentage >= 100
         );
-        
-        const estimatedYFormatted = (estimatedY.toNumber() / Math.pow(10, 9)).toFixed(6);
-        
-        return {
-          type: CommandType.ADD_LIQUIDITY,
-          success: true,
-          message: `Preparing to add ${amount} ${token || ''} to pool ${poolAddress.substring(0, 8)}... Estimated paired amount: ${estimatedYFormatted}`,
-          data: { 
-            amount, 
-            token,
-            poolAddress,
-            estimatedYAmount: estimatedYFormatted,
-            useAutoFill: true
-          }
-        };
-      } catch {
-        // Remove unused _error parameter
-        return {
-          type: CommandType.ADD_LIQUIDITY,
+        result = {
+          type,
           success: true,
-          message: `Preparing to add ${amount} ${token || ''} to pool ${poolAddress.substring(0, 8)}...`,
-          data: { amount, token, poolAddress }
-        };
-      }
-    }
-    
-    // Handle remove liquidity command
-    else if (lowerCommand.includes('remove liquidity') || lowerCommand.match(/remove\s+\d+(\.\d+)?%?\s+from\s+position/i)) {
-      if (!userPublicKey) {
-        return {
-          type: CommandType.REMOVE_LIQUIDITY,
-          success: false,
-          message: "Please connect your wallet to remove liquidity.",
-          error: "No wallet connected"
-        };
-      }
-      
-      const { percentage, positionId } = extractRemoveLiquidityParams(lowerCommand);
-      
-      if (!percentage || !positionId) {
-        return {
-          type: CommandType.REMOVE_LIQUIDITY,
-          success: false,
-          message: "Please specify the percentage and position for removing liquidity. Example: 'Remove 50% from position [address]'",
-          error: "Invalid parameters"
-        };
-      }
-      
-      return {
-        type: CommandType.REMOVE_LIQUIDITY,
-        success: true,
-        message: `Preparing to remove ${percentage}% from position ${positionId.substring(0, 8)}...`,
-        data: { percentage, positionId }
-      };
-    }
-    
-    // Handle claim fees command
-    else if (lowerCommand.includes('claim fee') || lowerCommand.includes('collect fee')) {
-      if (!userPublicKey) {
-        return {
-          type: CommandType.CLAIM_FEES,
-          success: false,
-          message: "Please connect your wallet to claim fees.",
-          error: "No wallet connected"
-        };
-      }
-      
-      const positionId = extractPositionId(lowerCommand);
-      
-      if (!positionId) {
-        return {
-          type: CommandType.CLAIM_FEES,
-          success: false,
-          message: "Please specify the position to claim fees from. Example: 'Claim fees from position [address]'",
-          error: "Invalid parameters"
-        };
-      }
-      
-      return {
-        type: CommandType.CLAIM_FEES,
-        success: true,
-        message: `Preparing to claim fees from position ${positionId.substring(0, 8)}...`,
-        data: { positionId }
-      };
-    }
-    
-    // Handle close position command
-    else if (lowerCommand.includes('close position')) {
-      if (!userPublicKey) {
-        return {
-          type: CommandType.CLOSE_POSITION,
-          success: false,
-          message: "Please connect your wallet to close a position.",
-          error: "No wallet connected"
+          message: `Prepared removal of ${call.input.percentage}% from position ${call.input.position_id.substring(0, 8)}...`,
+          data: { percentage: call.input.percentage, positionId: call.input.position_id, poolAddress },
+          prepared: { transactions: toTransactionList(transactions), signers: [] }
         };
+        break;
       }
-      
-      const positionId = extractPositionId(lowerCommand);
-      
-      if (!positionId) {
-        return {
-          type: CommandType.CLOSE_POSITION,
-          success: false,
-          message: "Please specify the position to close. Example: 'Close position [address]'",
-          error: "Invalid parameters"
-        };
-      }
-      
-      return {
-        type: CommandType.CLOSE_POSITION,
-        success: true,
-        message: `Preparing to close position ${positionId.substring(0, 8)}...`,
-        data: { positionId }
-      };
-    }
-    
-    // Handle swap command
-    else if (lowerCommand.includes('swap') || lowerCommand.match(/swap\s+\d+(\.\d+)?\s+[a-z]+\s+for\s+[a-z]+/i)) {
-      if (!userPublicKey) {
-        return {
-          type: CommandType.SWAP,
-          success: false,
-          message: "Please connect your wallet to perform a swap.",
-          error: "No wallet connected"
+
+      case 'claim_fees': {
+        const poolAddress = await resolvePositionPool(service.dlmm.connection, userPublicKey!, call.input.position_id, call.input.pool_address);
+        const transactions = await service.position.claimFees({ poolAddress, positionPubkey: call.input.position_id, userPublicKey: userPublicKey! });
+        result = {
+          type,
+          success: true,
+          message: `Prepared fee claim for position ${call.input.position_id.substring(0, 8)}...`,
+          data: { positionId: call.input.position_id, poolAddress },
+          prepared: { transactions: toTransactionList(transactions), signers: [] }
         };
+        break;
       }
-      
-      const { amount, fromToken, toToken, poolAddress } = extractSwapParams(lowerCommand);
-      
-      if (!amount || !fromToken || !toToken) {
-        return {
-          type: CommandType.SWAP,
-          success: false,
-          message: "Please specify the amount, tokens, and pool for swapping. Example: 'Swap 10 SOL for USDC in pool [address]'",
-          error: "Invalid parameters"
+
+      case 'close_position': {
+        const poolAddress = await resolvePositionPool(service.dlmm.connection, userPublicKey!, call.input.position_id, call.input.pool_address);
+        const transactions = await service.position.closePosition({ poolAddress, positionPubkey: call.input.position_id, userPublicKey: userPublicKey! });
+        result = {
+          type,
+          success: true,
+          message: `Prepared closing of position ${call.input.position_id.substring(0, 8)}...`,
+          data: { positionId: call.input.position_id, poolAddress },
+          prepared: { transactions: toTransactionList(transactions), signers: [] }
         };
+        break;
       }
-      
-      return {
-        type: CommandType.SWAP,
-        success: true,
-        message: `Preparing to swap ${amount} ${fromToken} for ${toToken}${poolAddress ? ` in pool ${poolAddress.substring(0, 8)}` : ''}...`,
-        data: { amount, fromToken, toToken, poolAddress }
-      };
-    }
-    
-    // Unknown command
-    else {
-      return {
-        type: CommandType.UNKNOWN,
-        success: false,
-        message: "I didn't recognize that as a DLMM command. Try commands like 'list pools', 'show my positions', 'add liquidity', 'remove liquidity', 'claim fees', 'close position', or 'swap'.",
-        error: "Unknown command"
-      };
+
+      case 'swap':
+        result = await prepareSwap(service.dlmm, userPublicKey!, call.input);
+        break;
     }
+
+    return { ...result, toolCallId: call.id };
   } catch (error) {
     return {
-      type: CommandType.UNKNOWN,
+      type,
+      toolCallId: call.id,
       success: false,
-      message: "An error occurred while processing your command.",
+      message: "An error occurred while preparing this action.",
       error: error instanceof Error ? error.message : String(error)
     };
   }
 }
 
 /**
- * Check if command is just a query (no wallet needed)
+ * Normalise SDK results that may be a single transaction or a batch
  */
-function isQueryCommand(command: string): boolean {
-  return command.includes('list pools') || 
-         command.includes('show pools') || 
-         command.includes('get pools');
+function toTransactionList(transaction: Transaction | Transaction[]): Transaction[] {
+  return Array.isArray(transaction) ? transaction : [transaction];
+}
+
+/**
+ * Find the pool a position belongs to when the agent did not supply one
+ */
+async function resolvePositionPool(
+  connection: Connection,
+  userPublicKey: PublicKey,
+  positionId: string,
+  poolAddress?: string
+): Promise<string> {
+  if (poolAddress) {
+    return poolAddress;
+  }
+
+  const positionsByPool = await DLMM.getAllLbPairPositionsByUser(connection, userPublicKey);
+  for (const [lbPairAddress, positionInfo] of positionsByPool.entries()) {
+    if (positionInfo.lbPairPositionsData.some(position => position.publicKey.toBase58() === positionId)) {
+      return lbPairAddress;
+    }
+  }
+
+  throw new Error(`Position ${positionId.substring(0, 8)}... was not found in your wallet`);
+}
+
+/**
+ * Resolve a pair name and optional bin step (e.g. "zBTC-SOL", 10) to the most liquid matching pool
+ */
+async function resolvePoolByPair(pair: string, binStep?: number): Promise<Pool> {
+  const normalizedPair = pair.toLowerCase();
+  const response = await fetchPools(normalizedPair);
+  const reversedPair = normalizedPair.split('-').reverse().join('-');
+
+  const candidates = response.groups
+    .flatMap(group => group.pairs)
+    .filter(pool => {
+      const name = pool.name.toLowerCase();
+      return (name === normalizedPair || name === reversedPair) &&
+        (binStep === undefined || pool.bin_step === binStep);
+    })
+    .sort((a, b) => parseFloat(b.liquidity) - parseFloat(a.liquidity));
+
+  if (candidates.length === 0) {
+    throw new Error(`No ${pair}${binStep ? ` pool with bin step ${binStep}` : ''} pool found`);
+  }
+
+  return candidates[0];
+}
+
+/**
+ * Get decimals for a token mint
+ */
+async function getMintDecimals(connection: Connection, mint: PublicKey): Promise<number> {
+  const accountInfo = await connection.getParsedAccountInfo(mint);
+  const data = accountInfo.value?.data;
+
+  if (!data || !('parsed' in data)) {
+    throw new Error(`Unable to read token mint ${mint.toBase58().substring(0, 8)}...`);
+  }
+
+  return data.parsed.info.decimals as number;
+}
+
+/**
+ * Get the wallet balance for a token mint (native SOL for wrapped SOL)
+ */
+async function getTokenBalance(connection: Connection, owner: PublicKey, mint: PublicKey, decimals: number): Promise<TokenAmount> {
+  if (mint.toBase58() === WSOL_MINT) {
+    const lamports = await connection.getBalance(owner);
+    return lamportsAmount(Math.max(lamports - SOL_RESERVE_LAMPORTS, 0));
+  }
+
+  const { value: tokenAccounts } = await connection.getParsedTokenAccountsByOwner(owner, { mint });
+  const raw = tokenAccounts.reduce(
+    (total, account) => total.add(new BN(account.account.data.parsed.info.tokenAmount.amount)),
+    new BN(0)
+  );
+  return tokenAmount(mint.toBase58(), decimals, raw);
+}
+
+/**
+ * Side of a pool a named token sits on: by its registry mint, else by its position in the pool
+ * name (e.g. "zBTC-USDC"). Token X when no token is named; null when the token is in neither side.
+ */
+function resolveDepositSide(
+  token: string | undefined,
+  tokenXMint: PublicKey,
+  tokenYMint: PublicKey,
+  poolName?: string
+): 'x' | 'y' | null {
+  if (!token) return 'x';
+
+  const mint = findTokenBySymbol(token)?.mint;
+  if (mint) {
+    if (mint === tokenXMint.toBase58()) return 'x';
+    if (mint === tokenYMint.toBase58()) return 'y';
+    return null;
+  }
+
+  const symbols = poolName?.toUpperCase().split('-') ?? [];
+  if (symbols[0] === token.toUpperCase()) return 'x';
+  if (symbols[1] === token.toUpperCase()) return 'y';
+  return null;
+}
+
+/**
+ * Build an unsigned one-sided position creation for the add_liquidity tool
+ */
+async function prepareAddLiquidity(
+  service: ToolCallParams['service'],
+  userPublicKey: PublicKey,
+  input: AddLiquidityInput,
+  portfolioStyle: string = 'conservative'
+): Promise<CommandResult> {
+  const resolvedPool = input.pool_address ? undefined : await resolvePoolByPair(input.pair!, input.bin_step);
+  const poolAddress = input.pool_address || resolvedPool!.address;
+  const pool = await service.dlmm.initializePool(poolAddress);
+  const connection = service.dlmm.connection;
+
+  // Deposit whichever side holds the named token
+  const side = resolveDepositSide(input.token, pool.lbPair.tokenXMint, pool.lbPair.tokenYMint, resolvedPool?.name);
+  if (!side) {
+    return {
+      type: CommandType.ADD_LIQUIDITY,
+      success: false,
+      message: `${input.token} is not one of the tokens of pool ${poolAddress.substring(0, 8)}...`,
+      error: "Token not in pool"
+    };
+  }
+  const depositIsY = side === 'y';
+  const depositMint = depositIsY ? pool.lbPair.tokenYMint : pool.lbPair.tokenXMint;
+  const decimals = await getMintDecimals(connection, depositMint);
+
+  let depositAmount: TokenAmount;
+  if (input.balance_percentage !== undefined) {
+    const balance = await getTokenBalance(connection, userPublicKey, depositMint, decimals);
+    depositAmount = percentOfTokenAmount(balance, input.balance_percentage);
+  } else {
+    depositAmount = tokenAmountFromUi(input.amount!, depositMint.toBase58(), decimals);
+  }
+  const rawAmount = depositAmount.raw;
+
+  if (rawAmount.isZero()) {
+    return {
+      type: CommandType.ADD_LIQUIDITY,
+      success: false,
+      message: `You don't have any ${input.token || 'tokens'} available to deposit.`,
+      error: "Insufficient balance"
+    };
+  }
+
+  const ranges = await service.position.findExistingBinRanges(poolAddress, 69, portfolioStyle);
+  if (ranges.length === 0) {
+    throw new Error('No suitable bin ranges found. Cannot create position.');
+  }
+
+  const selectedRange = ranges[0];
+  const strategyType = STRATEGY_TYPES[input.strategy || 'bid_ask'];
+
+  const result = await service.position.createPositionWithExistingBins({
+    poolAddress,
+    userPublicKey,
+    totalXAmount: depositIsY ? new BN(0) : rawAmount,
+    totalYAmount: depositIsY ? rawAmount : new BN(0),
+    minBinId: selectedRange.minBinId,
+    maxBinId: selectedRange.maxBinId,
+    strategyType,
+    useAutoFill: false
+  }, selectedRange);
+
+  return {
+    type: CommandType.ADD_LIQUIDITY,
+    success: true,
+    message: `Prepared a deposit of ${formatTokenAmount(depositAmount)} ${input.token || ''} into pool ${poolAddress.substring(0, 8)}... (${selectedRange.description}).`,
+    data: {
+      amount: toUiNumber(depositAmount),
+      tokenAmount: depositAmount,
+      token: input.token,
+      poolAddress,
+      useAutoFill: false
+    },
+    prepared: {
+      transactions: toTransactionList(result.transaction),
+      signers: [result.positionKeypair],
+      activeBinGuard: result.activeBinGuard
+    }
+  };
+}
+
+/**
+ * Build an unsigned DLMM swap for the swap tool
+ */
+async function prepareSwap(
+  service: MeteoraDlmmService,
+  userPublicKey: PublicKey,
+  input: SwapInput
+): Promise<CommandResult> {
+  let poolAddress = input.pool_address;
+  let poolName: string | undefined;
+
+  if (!poolAddress) {
+    const pool = await resolvePoolByPair(`${input.from_token}-${input.to_token}`);
+    poolAddress = pool.address;
+    poolName = pool.name;
+  }
+
+  const pool = await service.initializePool(poolAddress);
+
+  // Swap X for Y when the sell token is the first token of the pair (or wrapped SOL is on the Y side)
+  const swapForY = poolName
+    ? poolName.split('-')[0].toUpperCase() === input.from_token
+    : !(input.from_token === 'SOL' && pool.lbPair.tokenYMint.toBase58() === WSOL_MINT);
+
+  const inMint = swapForY ? pool.lbPair.tokenXMint : pool.lbPair.tokenYMint;
+  const outMint = swapForY ? pool.lbPair.tokenYMint : pool.lbPair.tokenXMint;
+  const [inDecimals, outDecimals] = await Promise.all([
+    getMintDecimals(service.connection, inMint),
+    getMintDecimals(service.connection, outMint),
+  ]);
+  const amountIn = tokenAmountFromUi(input.amount, inMint.toBase58(), inDecimals);
+
+  const quote = await service.getSwapQuote(poolAddress, amountIn.raw, swapForY);
+  const minOut = tokenAmount(outMint.toBase58(), outDecimals, quote.minOutAmount);
+  const transaction = await service.swap(poolAddress, userPublicKey, amountIn.raw, minOut.raw, swapForY);
+
+  return {
+    type: CommandType.SWAP,
+    success: true,
+    message: `Prepared swap of ${formatTokenAmount(amountIn)} ${input.from_token} for ${input.to_token} in pool ${poolAddress.substring(0, 8)}... (minimum out: ${formatTokenAmount(minOut)} ${input.to_token}).`,
+    data: {
+      amount: toUiNumber(amountIn),
+      tokenAmount: amountIn,
+      fromToken: input.from_token,
+      toToken: input.to_token,
+      poolAddress
+    },
+    prepared: { transactions: [transaction], signers: [] }
+  };
 }
 
 /**
  * Handle get pools command - IMPROVED
  */
-async function handleGetPoolsCommand(service: MeteoraDlmmService): Promise<CommandResult> {
+async function handleGetPoolsCommand(service: MeteoraDlmmService, limit: number = 5): Promise<CommandResult> {
   try {
     const pools = await service.getAllPools();
     
@@ -337,8 +473,8 @@ async function handleGetPoolsCommand(service: MeteoraDlmmService): Promise<Comma
     // Enhanced pool information with active bin data
     const poolsInfo: PoolInfo[] = [];
     
-    // Get active bin data for first 5 pools to avoid too many requests
-    for (const pool of pools.slice(0, 5)) {
+    // Get active bin data for the first few pools to avoid too many requests
+    for (const pool of pools.slice(0, limit)) {
       try {
         const activeBin = await service.getActiveBin(pool.address);
         poolsInfo.push({
@@ -367,7 +503,7 @@ async function handleGetPoolsCommand(service: MeteoraDlmmService): Promise<Comma
     return {
       type: CommandType.GET_POOLS,
       success: true,
-      message: `Found ${pools.length} DLMM pools (showing top 5 with details).`,
+      message: `Found ${pools.length} DLMM pools (showing top ${poolsInfo.length} with details).`,
       data: { pools: poolsInfo }
     };
   } catch (error) {
@@ -450,71 +586,54 @@ async function handleGetPositionCommand(
 }
 
 /**
- * Extract pool address from command
+ * Format a command result as a chat reply
  */
-function extractPoolAddress(command: string): string | undefined {
-  // Look for patterns like "pool XYZ123..." or "in XYZ123..."
-  const poolMatch = command.match(/(?:pool|in)\s+([a-zA-Z0-9]{32,})/i);
-  return poolMatch ? poolMatch[1] : undefined;
-}
+export function formatCommandResult(result: CommandResult): string {
+  if (!result.success) {
+    return result.error && result.error !== result.message
+      ? `${result.message} (${result.error})`
+      : result.message;
+  }
 
-/**
- * Extract position ID from command
- */
-function extractPositionId(command: string): string | undefined {
-  // Look for patterns like "position XYZ123..." or "from XYZ123..."
-  const positionMatch = command.match(/(?:position|from)\s+([a-zA-Z0-9]{32,})/i);
-  return positionMatch ? positionMatch[1] : undefined;
-}
+  if (result.type === CommandType.GET_POOLS && result.data?.pools) {
+    const pools = result.data.pools;
+    if (pools.length === 0) {
+      return "No DLMM pools found.";
+    }
 
-/**
- * Extract liquidity parameters from command - IMPROVED
- */
-function extractLiquidityParams(command: string): { amount?: number; token?: string; poolAddress?: string } {
-  // Extract amount with better regex
-  const amountMatch = command.match(/(?:add|deposit)\s+(\d+(?:\.\d+)?)\s*([a-zA-Z]+)?/i);
-  const amount = amountMatch ? parseFloat(amountMatch[1]) : undefined;
-  const token = amountMatch && amountMatch[2] ? amountMatch[2].toUpperCase() : undefined;
-  
-  // Extract pool address
-  const poolAddress = extractPoolAddress(command);
-  
-  return { amount, token, poolAddress };
-}
+    let response = `Here are the available DLMM pools:\n\n`;
+    pools.forEach((pool, index) => {
+      response += `${index + 1}. ${pool.name}\n`;
+      response += `   Address: ${pool.address.substring(0, 8)}...\n`;
+      response += `   Price: ${pool.price}\n`;
+      response += `   Bin Step: ${pool.binStep}\n\n`;
+    });
+    return response.trim();
+  }
 
-/**
- * Extract remove liquidity parameters from command - IMPROVED
- */
-function extractRemoveLiquidityParams(command: string): { percentage?: number; positionId?: string } {
-  // Extract percentage with better regex
-  const percentageMatch = command.match(/(?:remove|withdraw)\s+(\d+(?:\.\d+)?)\s*(%)?/i);
-  let percentage = percentageMatch ? parseFloat(percentageMatch[1]) : undefined;
-  
-  // If percentage doesn't have % symbol and is greater than 1, assume it's meant to be a percentage
-  if (percentage && percentage > 1 && !percentageMatch?.[2]) {
-    percentage = Math.min(percentage, 100); // Cap at 100%
+  if (result.type === CommandType.GET_POSITION && result.data?.positions) {
+    const positions = result.data.positions;
+    if (positions.length === 0) {
+      return result.message;
+    }
+
+    let response = `Here are your DLMM positions:\n\n`;
+    positions.forEach((position, index) => {
+      response += `${index + 1}. Position ID: ${position.id}\n`;
+      response += `   Pool: ${position.poolName || 'Unknown'}\n`;
+      response += `   Number of Bins: ${position.bins}\n`;
+      if (position.totalValue) {
+        response += `   Total Value: $${position.totalValue.toFixed(2)}\n`;
+      }
+      response += `\n`;
+    });
+    return response.trim();
   }
-  
-  // Extract position ID
-  const positionId = extractPositionId(command);
-  
-  return { percentage, positionId };
-}
 
-/**
- * Extract swap parameters from command - IMPROVED
- */
-function extractSwapParams(command: string): { 
-  amount?: number; fromToken?: string; toToken?: string; poolAddress?: string 
-} {
-  // Extract amount and tokens with better regex
-  const swapMatch = command.match(/swap\s+(\d+(?:\.\d+)?)\s+([a-zA-Z]+)\s+(?:for|to)\s+([a-zA-Z]+)/i);
-  const amount = swapMatch ? parseFloat(swapMatch[1]) : undefined;
-  const fromToken = swapMatch ? swapMatch[2].toUpperCase() : undefined;
-  const toToken = swapMatch ? swapMatch[3].toUpperCase() : undefined;
-  
-  // Extract pool address
-  const poolAddress = extractPoolAddress(command);
-  
-  return { amount, fromToken, toToken, poolAddress };
-}
\ No newline at end of file
+  if (result.prepared) {
+    const count = result.prepared.transactions.length;
+    return `${result.message} Review and approve ${count > 1 ? `${count} transactions` : 'the transaction'} in your wallet to continue.`;
+  }
+
+  return result.message;
+}
@@ -0,0 +1,320 @@
+// src/lib/meteora/meteoraChatTools.ts
+// Anthropic tool definitions for the DLMM chat agent.
+// Shared by the API route (to advertise tools) and the client (to execute tool calls).
+
+import type Anthropic from '@anthropic-ai/sdk';
+
+export type DlmmToolName =
+  | 'get_pools'
+  | 'get_positions'
+  | 'add_liquidity'
+  | 'remove_liquidity'
+  | 'claim_fees'
+  | 'close_position'
+  | 'swap';
+
+export type DlmmStrategyName = 'spot' | 'curve' | 'bid_ask';
+
+// Typed inputs for each tool - mirrors the JSON schemas below
+export interface GetPoolsInput {
+  limit?: number;
+}
+
+export interface GetPositionsInput {
+  pool_address?: string;
+}
+
+export interface AddLiquidityInput {
+  pool_address?: string;
+  pair?: string;
+  bin_step?: number;
+  amount?: number;
+  balance_percentage?: number;
+  token?: string;
+  strategy?: DlmmStrategyName;
+}
+
+export interface RemoveLiquidityInput {
+  position_id: string;
+  pool_address?: string;
+  percentage: number;
+}
+
+export interface PositionActionInput {
+  position_id: string;
+  pool_address?: string;
+}
+
+export interface SwapInput {
+  amount: number;
+  from_token: string;
+  to_token: string;
+  pool_address?: string;
+}
+
+export type DlmmToolCall =
+  | { id: string; name: 'get_pools'; input: GetPoolsInput }
+  | { id: string; name: 'get_positions'; input: GetPositionsInput }
+  | { id: string; name: 'add_liquidity'; input: AddLiquidityInput }
+  | { id: string; name: 'remove_liquidity'; input: RemoveLiquidityInput }
+  | { id: string; name: 'claim_fees'; input: PositionActionInput }
+  | { id: string; name: 'close_position'; input: PositionActionInput }
+  | { id: string; name: 'swap'; input: SwapInput };
+
+// Context the client shares with the agent so it can resolve references like "the 10bp pool"
+export interface AgentToolContext {
+  portfolioStyle?: string;
+  walletConnected?: boolean;
+  knownPools?: Array<{
+    name: string;
+    address: string;
+    binStep?: string;
+  }>;
+}
+
+export interface AgentResponse {
+  message: string;
+  toolCalls: DlmmToolCall[];
+}
+
+const positionIdProperty = {
+  type: 'string',
+  description: 'Address of the DLMM position account',
+};
+
+const poolAddressProperty = {
+  type: 'string',
+  description: 'Address of the DLMM pool (lb pair). Omit if unknown.',
+};
+
+/**
+ * Tool definitions exposed to the model, one per DLMM command
+ */
+export const DLMM_TOOLS: Anthropic.Tool[] = [
+  {
+    name: 'get_pools',
+    description: 'List available Meteora DLMM pools with their price and bin step.',
+    input_schema: {
+      type: 'object',
+      properties: {
+        limit: { type: 'integer', minimum: 1, maximum: 10, description: 'Maximum number of pools to return' },
+      },
+    },
+  },
+  {
+    name: 'get_positions',
+    description: "Show the connected wallet's DLMM positions, optionally for a single pool.",
+    input_schema: {
+      type: 'object',
+      properties: {
+        pool_address: poolAddressProperty,
+      },
+    },
+  },
+  {
+    name: 'add_liquidity',
+    description:
+      'Deposit tokens into a DLMM pool by opening a new position. Identify the pool either by pool_address or by pair and bin_step. ' +
+      'Give either an absolute amount or a balance_percentage of the wallet balance (e.g. "half my zBTC" is 50).',
+    input_schema: {
+      type: 'object',
+      properties: {
+        pool_address: poolAddressProperty,
+        pair: { type: 'string', description: 'Pool pair name such as "zBTC-SOL"' },
+        bin_step: { type: 'integer', minimum: 1, description: 'Pool bin step in basis points, e.g. 10 for "the 10bp pool"' },
+        amount: { type: 'number', exclusiveMinimum: 0, description: 'Amount of token to deposit in UI units' },
+        balance_percentage: { type: 'number', exclusiveMinimum: 0, maximum: 100, description: 'Share of the wallet balance to deposit' },
+        token: { type: 'string', description: 'Symbol of the token being deposited, e.g. "zBTC"' },
+        strategy: { type: 'string', enum: ['spot', 'curve', 'bid_ask'], description: 'Liquidity distribution strategy' },
+      },
+    },
+  },
+  {
+    name: 'remove_liquidity',
+    description: 'Withdraw a percentage of liquidity from an existing position.',
+    input_schema: {
+      type: 'object',
+      properties: {
+        position_id: positionIdProperty,
+        pool_address: poolAddressProperty,
+        percentage: { type: 'number', exclusiveMinimum: 0, maximum: 100, description: 'Percentage of liquidity to remove' },
+      },
+      required: ['position_id', 'percentage'],
+    },
+  },
+  {
+    name: 'claim_fees',
+    description: 'Claim accumulated swap fees from a position.',
+    input_schema: {
+      type: 'object',
+      properties: {
+        position_id: positionIdProperty,
+        pool_address: poolAddressProperty,
+      },
+      required: ['position_id'],
+    },
+  },
+  {
+    name: 'close_position',
+    description: 'Close an empty position and reclaim its rent.',
+    input_schema: {
+      type: 'object',
+      properties: {
+        position_id: positionIdProperty,
+        pool_address: poolAddressProperty,
+      },
+      required: ['position_id'],
+    },
+  },
+  {
+    name: 'swap',
+    description: 'Swap one token for another through a DLMM pool.',
+    input_schema: {
+      type: 'object',
+      properties: {
+        amount: { type: 'number', exclusiveMinimum: 0, description: 'Amount of from_token to swap in UI units' },
+        from_token: { type: 'string', description: 'Symbol of the token to sell' },
+        to_token: { type: 'string', description: 'Symbol of the token to buy' },
+        pool_address: poolAddressProperty,
+      },
+      required: ['amount', 'from_token', 'to_token'],
+    },
+  },
+];
+
+function optionalString(value: unknown): string | undefined {
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+}
+
+function optionalNumber(value: unknown): number | undefined {
+  const num = typeof value === 'string' ? parseFloat(value) : value;
+  return typeof num === 'number' && Number.isFinite(num) ? num : undefined;
+}
+
+function requireString(value: unknown, field: string): string {
+  const str = optionalString(value);
+  if (!str) {
+    throw new Error(`Tool input "${field}" must be a non-empty string`);
+  }
+  return str;
+}
+
+function requirePositiveNumber(value: unknown, field: string, max?: number): number {
+  const num = optionalNumber(value);
+  if (num === undefined || num <= 0 || (max !== undefined && num > max)) {
+    throw new Error(`Tool input "${field}" must be a number greater than 0${max !== undefined ? ` and at most ${max}` : ''}`);
+  }
+  return num;
+}
+
+/**
+ * Convert a raw tool_use block from the model into a typed tool call.
+ * Throws when the tool is unknown or its input does not match the schema.
+ */
+export function parseToolUse(id: string, name: string, rawInput: unknown): DlmmToolCall {
+  const input = (rawInput && typeof rawInput === 'object' ? rawInput : {}) as Record<string, unknown>;
+
+  switch (name) {
+    case 'get_pools':
+      return { id, name, input: { limit: optionalNumber(input.limit) } };
+
+    case 'get_positions':
+      return { id, name, input: { pool_address: optionalString(input.pool_address) } };
+
+    case 'add_liquidity': {
+      const amount = optionalNumber(input.amount);
+      const balancePercentage = optionalNumber(input.balance_percentage);
+      const poolAddress = optionalString(input.pool_address);
+      const pair = optionalString(input.pair);
+
+      if (amount === undefined && balancePercentage === undefined) {
+        throw new Error('Tool input must include either "amount" or "balance_percentage"');
+      }
+      if (!poolAddress && !pair) {
+        throw new Error('Tool input must include either "pool_address" or "pair"');
+      }
+
+      const strategy = optionalString(input.strategy);
+      return {
+        id,
+        name,
+        input: {
+          pool_address: poolAddress,
+          pair,
+          bin_step: optionalNumber(input.bin_step),
+          amount: amount !== undefined ? requirePositiveNumber(amount, 'amount') : undefined,
+          balance_percentage: balancePercentage !== undefined
+            ? requirePositiveNumber(balancePercentage, 'balance_percentage', 100)
+            : undefined,
+          token: optionalString(input.token),
+          strategy: strategy === 'spot' || strategy === 'curve' || strategy === 'bid_ask' ? strategy : undefined,
+        },
+      };
+    }
+
+    case 'remove_liquidity':
+      return {
+        id,
+        name,
+        input: {
+          position_id: requireString(input.position_id, 'position_id'),
+          pool_address: optionalString(input.pool_address),
+          percentage: requirePositiveNumber(input.percentage, 'percentage', 100),
+        },
+      };
+
+    case 'claim_fees':
+    case 'close_position':
+      return {
+        id,
+        name,
+        input: {
+          position_id: requireString(input.position_id, 'position_id'),
+          pool_address: optionalString(input.pool_address),
+        },
+      };
+
+    case 'swap':
+      return {
+        id,
+        name,
+        input: {
+          amount: requirePositiveNumber(input.amount, 'amount'),
+          from_token: requireString(input.from_token, 'from_token').toUpperCase(),
+          to_token: requireString(input.to_token, 'to_token').toUpperCase(),
+          pool_address: optionalString(input.pool_address),
+        },
+      };
+
+    default:
+      throw new Error(`Unknown tool: ${name}`);
+  }
+}
+
+/**
+ * Build the system prompt section that describes the agent's tools and context
+ */
+export function buildAgentSystemPrompt(context: AgentToolContext = {}): string {
+  let prompt =
+    'You can act on Meteora DLMM pools for the user through the provided tools. ' +
+    'When the user asks to list pools, view positions, add or remove liquidity, claim fees, close a position or swap, call the matching tool instead of describing the steps. ' +
+    'Tool calls only prepare unsigned transactions; the user reviews and signs them in their wallet. ' +
+    'If a required detail is missing and cannot be inferred, ask a short clarifying question instead of guessing.';
+
+  if (context.portfolioStyle) {
+    prompt += ` The user's portfolio style is ${context.portfolioStyle}.`;
+  }
+
+  if (context.walletConnected === false) {
+    prompt += ' The user has not connected a wallet yet, so only get_pools can run; remind them to connect for other actions.';
+  }
+
+  if (context.knownPools && context.knownPools.length > 0) {
+    const poolList = context.knownPools
+      .map(pool => `${pool.name} (bin step ${pool.binStep || 'unknown'}): ${pool.address}`)
+      .join('; ');
+    prompt += ` Pools already shown in this conversation: ${poolList}.`;
+  }
+
+  return prompt;
+}
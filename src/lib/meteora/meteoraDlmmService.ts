@@ -2,22 +2,19 @@
 // Users can only interact with existing bins to prevent expensive bin creation
 
 import DLMM, { StrategyType, autoFillYByStrategy } from '@meteora-ag/dlmm';
-import { Connection, PublicKey, Transaction, LAMPORTS_PER_SOL } from '@solana/web3.js';
+import { Connection, PublicKey, Transaction } from '@solana/web3.js';
 import { BN } from '@coral-xyz/anchor';
 import { useWallet } from '@solana/wallet-adapter-react';
-
-// Add interface definitions for proper typing
-interface BinArray {
-  account?: {
-    index?: number;
-  };
-  [key: string]: unknown;
-}
-
-interface PoolBinArrays {
-  getBinArrays?(): Promise<BinArray[]>;
-  [key: string]: unknown;
-}
+import { getPoolDataConfig } from '@/lib/api/poolDataProvider';
+import { BinArrayIndexer } from './binArrayIndexer';
+import {
+  addTokenAmounts,
+  compareTokenAmounts,
+  formatTokenAmount,
+  lamportsAmount,
+  toUiNumber,
+  type TokenAmount,
+} from '@/lib/utils/tokenAmount';
 
 // Enhanced error types
 export enum DLMMErrorType {
@@ -26,6 +23,8 @@ export enum DLMMErrorType {
   INVALID_POOL = 'INVALID_POOL',
   NO_EXISTING_BINS = 'NO_EXISTING_BINS',
   TRANSACTION_SIMULATION_FAILED = 'TRANSACTION_SIMULATION_FAILED',
+  TRANSACTION_EXPIRED = 'TRANSACTION_EXPIRED',
+  ACTIVE_BIN_MOVED = 'ACTIVE_BIN_MOVED',
   NETWORK_ERROR = 'NETWORK_ERROR',
   UNKNOWN_ERROR = 'UNKNOWN_ERROR'
 }
@@ -52,6 +51,10 @@ export class DLMMError extends Error {
         return 'No existing price ranges available. Please wait for more liquidity or select a different pool.';
       case DLMMErrorType.TRANSACTION_SIMULATION_FAILED:
         return 'Transaction simulation failed. The existing bins might be full or have restrictions.';
+      case DLMMErrorType.TRANSACTION_EXPIRED:
+        return 'The network is congested and the transaction expired. Try again with a faster speed setting.';
+      case DLMMErrorType.ACTIVE_BIN_MOVED:
+        return 'The price moved since this deposit was prepared. Rebuild it at the current price.';
       case DLMMErrorType.NETWORK_ERROR:
         return 'Network error. Please check your connection and try again.';
       default:
@@ -178,9 +181,11 @@ interface DLMMPool {
 export class MeteoraDlmmService {
   private _connection: Connection;
   private poolInstances: Map<string, DlmmType> = new Map();
+  private binArrayIndexer: BinArrayIndexer;
 
   constructor(connection: Connection) {
     this._connection = connection;
+    this.binArrayIndexer = new BinArrayIndexer(connection);
   }
 
   get connection(): Connection {
@@ -192,37 +197,36 @@ export class MeteoraDlmmService {
    */
   async validateUserBalance(
     userPublicKey: PublicKey,
-    requiredSolAmount: number
+    depositedSol: TokenAmount
   ): Promise<SimplifiedBalanceValidation> {
     try {
-      const solBalanceLamports = await this._connection.getBalance(userPublicKey);
-      const solBalance = solBalanceLamports / LAMPORTS_PER_SOL;
+      const solBalance = lamportsAmount(await this._connection.getBalance(userPublicKey));
       
       // Only need position rent + transaction fees (no bin creation costs)
-      const requiredSolWithBuffer = requiredSolAmount + 0.072; // 0.057 position rent + 0.015 tx fees
+      const requiredSolWithBuffer = addTokenAmounts(depositedSol, lamportsAmount(72_000_000)); // 0.057 position rent + 0.015 tx fees
       
-      if (solBalance < requiredSolWithBuffer) {
+      if (compareTokenAmounts(solBalance, requiredSolWithBuffer) < 0) {
         return {
           isValid: false,
-          solBalance,
-          requiredSol: requiredSolWithBuffer,
+          solBalance: toUiNumber(solBalance),
+          requiredSol: toUiNumber(requiredSolWithBuffer),
           error: new DLMMError(
             DLMMErrorType.INSUFFICIENT_SOL,
-            `Insufficient SOL balance. Required: ${requiredSolWithBuffer.toFixed(4)}, Available: ${solBalance.toFixed(4)}`
+            `Insufficient SOL balance. Required: ${formatTokenAmount(requiredSolWithBuffer, { maxDecimals: 4, minDecimals: 4, rounding: 'up' })}, Available: ${formatTokenAmount(solBalance, { maxDecimals: 4, minDecimals: 4 })}`
           )
         };
       }
 
       return {
         isValid: true,
-        solBalance,
-        requiredSol: requiredSolWithBuffer
+        solBalance: toUiNumber(solBalance),
+        requiredSol: toUiNumber(requiredSolWithBuffer)
       };
     } catch (error) {
       return {
         isValid: false,
         solBalance: 0,
-        requiredSol: requiredSolAmount,
+        requiredSol: toUiNumber(depositedSol),
         error: new DLMMError(
           DLMMErrorType.NETWORK_ERROR,
           'Failed to validate balances',
@@ -279,66 +283,19 @@ export class MeteoraDlmmService {
   }
 
   /**
-   * Check if bins exist in a given range using a safe approach
+   * Bins in a range whose bin arrays already exist on-chain (empty when they cannot be read)
    */
   async checkExistingBins(poolAddress: string, minBinId: number, maxBinId: number): Promise<number[]> {
     try {
       const pool = await this.initializePool(poolAddress);
-      const typedPool = pool as unknown as DLMMPool;
-      
-      const existingBins: number[] = [];
-      
-      try {
-        // Try to get bin arrays to check which bins exist
-        const binArrays = await (typedPool as unknown as PoolBinArrays).getBinArrays?.();
-        
-        if (binArrays && binArrays.length > 0) {
-          // Check which bins in our range fall within existing bin arrays
-          for (let binId = minBinId; binId <= maxBinId; binId++) {
-            const binArrayIndex = Math.floor(binId / 70); // Approximate bins per array
-            
-            // Check if this bin array exists
-            const binArrayExists = binArrays.some((binArray: BinArray) => 
-              binArray.account?.index === binArrayIndex
-            );
-            
-            if (binArrayExists) {
-              existingBins.push(binId);
-            }
-          }
-        }
-      } catch {
-        // Fallback: use a conservative approach
-        console.log('Using conservative bin detection fallback');
-        
-        // Assume bins around the active bin exist
-        const activeBin = await typedPool.getActiveBin();
-        const activeBinId = activeBin.binId;
-        
-        // Add bins in a conservative range around active bin
-        for (let offset = -5; offset <= 5; offset++) {
-          const binId = activeBinId + offset;
-          if (binId >= minBinId && binId <= maxBinId) {
-            existingBins.push(binId);
-          }
-        }
-      }
-      
+      const bins = await this.binArrayIndexer.getBinsInRange(pool, minBinId, maxBinId);
+      const existingBins = bins.map(bin => bin.binId);
+
       console.log(`Found ${existingBins.length} existing bins in range ${minBinId}-${maxBinId}`);
-      return existingBins.sort((a, b) => a - b);
+      return existingBins;
     } catch (error) {
       console.error('Error checking existing bins:', error);
-      
-      // Ultra-conservative fallback
-      const conservativeBins: number[] = [];
-      const centerBin = Math.floor((minBinId + maxBinId) / 2);
-      for (let i = -2; i <= 2; i++) {
-        const binId = centerBin + i;
-        if (binId >= minBinId && binId <= maxBinId) {
-          conservativeBins.push(binId);
-        }
-      }
-      return conservativeBins;
+      return [];
     }
   }
 
@@ -423,7 +380,7 @@ export class MeteoraDlmmService {
   // Keep all existing methods but remove bin creation logic
   async getAllPools(): Promise<DlmmPoolInfo[]> {
     try {
-      const response = await fetch('https://dlmm-api.meteora.ag/pair/all');
+      const response = await fetch(`${getPoolDataConfig().meteoraApiUrl}/pair/all`);
       if (!response.ok) {
         throw new Error('Failed to fetch DLMM pools');
       }
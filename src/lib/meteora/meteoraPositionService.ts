@@ -1,13 +1,47 @@
-// Enhanced meteoraPositionService.ts - FIXED VERSION with efficient bin detection
-// No more intensive RPC calls for bin existence checking
+// Enhanced meteoraPositionService.ts - bin ranges come from the pool's on-chain bin arrays,
+// read in one batched call by the bin array indexer
 
-import DLMM, { StrategyType, autoFillYByStrategy } from '@meteora-ag/dlmm';
-import { Connection, PublicKey, Keypair, Transaction, LAMPORTS_PER_SOL } from '@solana/web3.js';
+import DLMM, { StrategyType, autoFillYByStrategy, getPriceOfBinByBinId } from '@meteora-ag/dlmm';
+import { Connection, PublicKey, Keypair, Transaction } from '@solana/web3.js';
 import { BN } from '@coral-xyz/anchor';
 import { useWallet } from '@solana/wallet-adapter-react';
+import { BinArrayIndexer, binsInRange, initializedSpan, type IndexedBin, type PoolBinIndex } from './binArrayIndexer';
+import {
+  NATIVE_SOL_MINT,
+  SOL_DECIMALS,
+  addTokenAmounts,
+  compareTokenAmounts,
+  formatTokenAmount,
+  lamportsAmount,
+  subtractTokenAmounts,
+  toUiNumber,
+  tokenAmountFromUi,
+  type TokenAmount,
+} from '@/lib/utils/tokenAmount';
+import { DLMMError, DLMMErrorType } from './meteoraDlmmService';
 
 export type DlmmType = DLMM;
 
+// Bins the active bin may move between building a deposit and it landing on-chain
+export const DEFAULT_MAX_ACTIVE_BIN_SLIPPAGE = 3;
+
+/**
+ * Active-bin slippage tolerance from NEXT_PUBLIC_MAX_ACTIVE_BIN_SLIPPAGE (whole bins)
+ */
+export function getMaxActiveBinSlippage(): number {
+  const configured = Number(process.env.NEXT_PUBLIC_MAX_ACTIVE_BIN_SLIPPAGE);
+  // Zero is not expressible: the SDK treats a zero slippage as "use its default"
+  return Number.isInteger(configured) && configured >= 1 ? configured : DEFAULT_MAX_ACTIVE_BIN_SLIPPAGE;
+}
+
+/**
+ * The SDK takes slippage as a percentage and converts it back with ceil(slippage / (binStep / 100));
+ * aim half a bin low so float error cannot round up to an extra bin
+ */
+export function binSlippageToPercentage(bins: number, binStep: number): number {
+  return (Math.max(bins, 1) - 0.5) * binStep / 100;
+}
+
 interface DLMMPool {
   getActiveBin(): Promise<{
     binId: number;
@@ -27,6 +61,7 @@ interface DLMMPool {
       minBinId: number;
       strategyType: StrategyType;
     };
+    slippage?: number;
   }): Promise<Transaction | Transaction[]>;
   addLiquidityByStrategy(params: {
     positionPubKey: PublicKey;
@@ -92,6 +127,8 @@ export interface CreatePositionParams {
   maxBinId: number;
   strategyType: StrategyType;
   useAutoFill?: boolean;
+  // Bins the active bin may move before the deposit lands (defaults to getMaxActiveBinSlippage())
+  maxActiveBinSlippage?: number;
 }
 
 export interface PositionManagementParams {
@@ -119,10 +156,35 @@ export interface SimplifiedCostEstimation {
   };
 }
 
+// Active bin a deposit was built against, re-checked right before it is submitted
+export interface ActiveBinGuard {
+  poolAddress: string;
+  activeBinId: number;
+  maxActiveBinSlippage: number;
+}
+
+/**
+ * Throw ACTIVE_BIN_MOVED when the active bin is further from the guard's than its tolerance
+ */
+export function checkActiveBinDrift(guard: ActiveBinGuard, activeBinId: number): number {
+  const drift = activeBinId - guard.activeBinId;
+
+  if (Math.abs(drift) > guard.maxActiveBinSlippage) {
+    throw new DLMMError(
+      DLMMErrorType.ACTIVE_BIN_MOVED,
+      `The price moved ${Math.abs(drift)} bins ${drift > 0 ? 'up' : 'down'} since this deposit was prepared (tolerance: ${guard.maxActiveBinSlippage} bins).`,
+      JSON.stringify({ ...guard, currentActiveBinId: activeBinId })
+    );
+  }
+
+  return activeBinId;
+}
+
 export interface CreatePositionResult {
   transaction: Transaction | Transaction[];
   positionKeypair: Keypair;
   estimatedCost: SimplifiedCostEstimation;
+  activeBinGuard: ActiveBinGuard;
 }
 
 // Interface for existing bin ranges
@@ -130,38 +192,69 @@ export interface ExistingBinRange {
   minBinId: number;
   maxBinId: number;
   existingBins: number[];
+  // Reserves across the range's bins, valued in raw token Y units
   liquidityDepth: number;
   isPopular: boolean;
   description: string;
 }
 
-// Cache for bin ranges to avoid repeated API calls
-const binRangeCache = new Map<string, { 
-  ranges: ExistingBinRange[]; 
-  timestamp: number; 
-  activeBinId: number;
-}>();
-const CACHE_DURATION = 120000; // 2 minutes cache
+/**
+ * Describe [minBinId, maxBinId] from indexed bins, or null when fewer than 3 of its bins exist
+ */
+export function buildExistingBinRange(
+  binIndex: PoolBinIndex,
+  minBinId: number,
+  maxBinId: number,
+  name: string
+): ExistingBinRange | null {
+  return describeBinRange(binsInRange(binIndex, minBinId, maxBinId), minBinId, maxBinId, name);
+}
+
+function describeBinRange(
+  bins: IndexedBin[],
+  minBinId: number,
+  maxBinId: number,
+  name: string
+): ExistingBinRange | null {
+  if (bins.length < 3) return null; // Require at least 3 bins for safety
+
+  const fundedBins = bins.filter(bin => bin.liquidity > 0).length;
+
+  return {
+    minBinId,
+    maxBinId,
+    existingBins: bins.map(bin => bin.binId),
+    liquidityDepth: bins.reduce((total, bin) => total + bin.liquidity, 0),
+    // Most of the range already holds liquidity, i.e. other LPs use these prices
+    isPopular: fundedBins >= bins.length / 2,
+    description: `${name} (${bins.length} bins, ${fundedBins} with liquidity)`
+  };
+}
 
 /**
  * Enhanced Service for managing DLMM positions - EXISTING BINS ONLY
- * This version uses smart heuristics instead of intensive RPC calls
+ * Ranges are limited to bins whose bin arrays already exist, so no bin array rent is paid
  */
 export class MeteoraPositionService {
   private connection: Connection;
   private poolInstances: Map<string, DlmmType> = new Map();
+  private binArrayIndexer: BinArrayIndexer;
 
   constructor(connection: Connection) {
     this.connection = connection;
+    this.binArrayIndexer = new BinArrayIndexer(connection);
   }
 
   /**
-   * Initialize a DLMM pool
+   * Initialize (or refresh) a DLMM pool so lbPair.activeId is current - the SDK derives
+   * a deposit's on-chain active-bin slippage check from it
    */
   async initializePool(poolAddress: string): Promise<DlmmType> {
     try {
-      if (this.poolInstances.has(poolAddress)) {
-        return this.poolInstances.get(poolAddress)!;
+      const cached = this.poolInstances.get(poolAddress);
+      if (cached) {
+        await cached.refetchStates();
+        return cached;
       }
 
       const pubkey = new PublicKey(poolAddress);
@@ -175,8 +268,8 @@ export class MeteoraPositionService {
   }
 
   /**
-   * FIXED: Find existing bin ranges using smart heuristics based on portfolio style
-   * This eliminates the rate limiting issues while respecting user's risk preference
+   * Find ranges around the active bin that only use existing bins, sized by portfolio style
+   * and ranked by the liquidity actually sitting in them
    */
   async findExistingBinRanges(
     poolAddress: string,
@@ -184,36 +277,13 @@ export class MeteoraPositionService {
     portfolioStyle: string = 'conservative'
   ): Promise<ExistingBinRange[]> {
     try {
-      // Check cache first (include portfolio style in cache key)
-      const cacheKey = `${poolAddress}-${portfolioStyle}`;
-      const cached = binRangeCache.get(cacheKey);
-      const now = Date.now();
-      
-      if (cached && (now - cached.timestamp) < CACHE_DURATION) {
-        console.log(`Using cached ${portfolioStyle} bin ranges for pool:`, poolAddress.substring(0, 8));
-        return cached.ranges;
-      }
-
       const pool = await this.initializePool(poolAddress);
-      const typedPool = pool as unknown as DLMMPool;
-      const activeBin = await typedPool.getActiveBin();
-      
-      console.log(`Creating smart ${portfolioStyle} bin ranges around active bin:`, activeBin.binId);
-      
-      // FIXED: Use portfolio-specific smart heuristics
-      const existingRanges = this.createSmartBinRanges(activeBin.binId, maxRangeWidth, portfolioStyle);
-      
-      console.log(`Generated ${existingRanges.length} smart ${portfolioStyle} bin ranges without RPC calls`);
-      
-      // Cache the results with portfolio style
-      binRangeCache.set(cacheKey, {
-        ranges: existingRanges,
-        timestamp: now,
-        activeBinId: activeBin.binId
-      });
-      
+      const binIndex = await this.binArrayIndexer.getPoolBins(pool);
+
+      const existingRanges = this.createBinRanges(binIndex, maxRangeWidth, portfolioStyle);
+      console.log(`Found ${existingRanges.length} ${portfolioStyle} bin ranges around active bin ${binIndex.activeBinId}`);
+
       return existingRanges;
-      
     } catch (error) {
       console.error('Error finding existing bin ranges:', error);
       throw new Error('Unable to find existing bin ranges for safe liquidity provision');
@@ -221,183 +291,127 @@ export class MeteoraPositionService {
   }
 
   /**
-   * MODIFIED: Create smart bin ranges based on portfolio style using mathematical heuristics
-   * Updated with specific bin counts: Aggressive 60-63, Moderate 64-66, Conservative 67-69
+   * Decoded bins around a pool's active bin, for depth charts and range validation
    */
-  private createSmartBinRanges(activeBinId: number, maxRangeWidth: number, portfolioStyle: string): ExistingBinRange[] {
+  async getPoolBinIndex(poolAddress: string, force: boolean = false): Promise<PoolBinIndex> {
+    const pool = await this.initializePool(poolAddress);
+    return this.binArrayIndexer.getPoolBins(pool, { force });
+  }
+
+  /**
+   * Describe an explicit range from its bins on-chain, or null when fewer than 3 of them exist
+   */
+  async getExistingBinRange(
+    poolAddress: string,
+    minBinId: number,
+    maxBinId: number,
+    name: string = 'Custom Range'
+  ): Promise<ExistingBinRange | null> {
+    const pool = await this.initializePool(poolAddress);
+    const bins = await this.binArrayIndexer.getBinsInRange(pool, minBinId, maxBinId);
+    return describeBinRange(bins, minBinId, maxBinId, name);
+  }
+
+  /**
+   * Bin ids covering a price range, prices being token Y per token X in UI units
+   * The lower bound rounds down and the upper bound up, so both prices fall inside the range
+   */
+  async getBinRangeForPrices(
+    poolAddress: string,
+    lowerPrice: number,
+    upperPrice: number
+  ): Promise<{ minBinId: number; maxBinId: number }> {
+    if (!(lowerPrice > 0) || !(upperPrice > lowerPrice)) {
+      throw new Error('The lower price must be above zero and below the upper price');
+    }
+
+    const pool = await this.initializePool(poolAddress);
+    return {
+      minBinId: pool.getBinIdFromPrice(Number(pool.toPricePerLamport(lowerPrice)), true),
+      maxBinId: pool.getBinIdFromPrice(Number(pool.toPricePerLamport(upperPrice)), false),
+    };
+  }
+
+  /**
+   * Price of a bin in token Y per token X (UI units)
+   */
+  async getBinPrice(poolAddress: string, binId: number): Promise<number> {
+    const pool = await this.initializePool(poolAddress);
+    const pricePerLamport = getPriceOfBinByBinId(binId, pool.lbPair.binStep);
+    return Number(pool.fromPricePerLamport(pricePerLamport.toNumber()));
+  }
+
+  /**
+   * Build candidate ranges from portfolio-style widths, clipped to the initialized bin arrays
+   * Bin counts: Aggressive 60-63, Moderate 64-66, Conservative 67-69
+   */
+  private createBinRanges(binIndex: PoolBinIndex, maxRangeWidth: number, portfolioStyle: string): ExistingBinRange[] {
     const ranges: ExistingBinRange[] = [];
-    
-    // MODIFIED: Portfolio-specific bin counts
-    // Aggressive: 60-63 bins, Moderate: 64-66 bins, Conservative: 67-69 bins
-    
-    let rangePatterns: Array<{ width: number; offset: number; name: string; popularity: number }>;
-    
+    const activeBinId = binIndex.activeBinId;
+
+    // Without the active bin's array no range can avoid creating bin arrays
+    const span = initializedSpan(binIndex);
+    if (!span) return ranges;
+
+    let rangePatterns: Array<{ width: number; name: string }>;
+
     switch (portfolioStyle.toLowerCase()) {
       case 'conservative':
         rangePatterns = [
           // Conservative: 67-69 bins (widest range, safest)
-          { width: 69, offset: 0, name: 'Conservative Max Range', popularity: 0.9 },
-          { width: 68, offset: 0, name: 'Conservative Wide Range', popularity: 0.8 },
-          { width: 67, offset: 0, name: 'Conservative Standard Range', popularity: 0.7 },
+          { width: 69, name: 'Conservative Max Range' },
+          { width: 68, name: 'Conservative Wide Range' },
+          { width: 67, name: 'Conservative Standard Range' },
         ];
         break;
-        
+
       case 'moderate':
         rangePatterns = [
           // Moderate: 64-66 bins (balanced range)
-          { width: 66, offset: 0, name: 'Moderate Wide Range', popularity: 0.9 },
-          { width: 65, offset: 0, name: 'Moderate Standard Range', popularity: 0.8 },
-          { width: 64, offset: 0, name: 'Moderate Tight Range', popularity: 0.7 },
+          { width: 66, name: 'Moderate Wide Range' },
+          { width: 65, name: 'Moderate Standard Range' },
+          { width: 64, name: 'Moderate Tight Range' },
         ];
         break;
-        
+
       case 'aggressive':
         rangePatterns = [
           // Aggressive: 60-63 bins (tighter range, more concentrated)
-          { width: 63, offset: 0, name: 'Aggressive Wide Range', popularity: 0.9 },
-          { width: 62, offset: 0, name: 'Aggressive Standard Range', popularity: 0.8 },
-          { width: 60, offset: 0, name: 'Aggressive Tight Range', popularity: 0.7 },
+          { width: 63, name: 'Aggressive Wide Range' },
+          { width: 62, name: 'Aggressive Standard Range' },
+          { width: 60, name: 'Aggressive Tight Range' },
         ];
         break;
-        
+
       default:
         rangePatterns = [
-          { width: 65, offset: 0, name: 'Default Range', popularity: 0.8 },
+          { width: 65, name: 'Default Range' },
         ];
     }
-    
+
     for (const pattern of rangePatterns) {
       if (pattern.width > maxRangeWidth) continue;
-      
-      const centerBin = activeBinId + pattern.offset;
-      const minBinId = centerBin - Math.floor(pattern.width / 2);
-      const maxBinId = centerBin + Math.floor(pattern.width / 2);
-      
-      // Generate likely existing bins using portfolio-specific heuristics
-      const existingBins = this.generateLikelyExistingBins(
-        minBinId, 
-        maxBinId, 
-        activeBinId, 
-        portfolioStyle
-      );
-      
-      if (existingBins.length >= 3) { // Require at least 3 bins for safety
-        ranges.push({
-          minBinId,
-          maxBinId,
-          existingBins,
-          liquidityDepth: existingBins.length,
-          isPopular: pattern.popularity > 0.6,
-          description: `${pattern.name} (${existingBins.length} estimated bins)`
-        });
-      }
+
+      const minBinId = Math.max(activeBinId - Math.floor(pattern.width / 2), span.minBinId);
+      const maxBinId = Math.min(activeBinId + Math.floor(pattern.width / 2), span.maxBinId);
+      if (ranges.some(range => range.minBinId === minBinId && range.maxBinId === maxBinId)) continue;
+
+      const range = buildExistingBinRange(binIndex, minBinId, maxBinId, pattern.name);
+      if (range) ranges.push(range);
     }
-    
-    // Sort by estimated popularity and bin count
+
+    // Popular ranges first, then the widest, then the deepest
     ranges.sort((a, b) => {
       if (a.isPopular !== b.isPopular) {
         return a.isPopular ? -1 : 1;
       }
-      return b.existingBins.length - a.existingBins.length;
+      if (a.existingBins.length !== b.existingBins.length) {
+        return b.existingBins.length - a.existingBins.length;
+      }
+      return b.liquidityDepth - a.liquidityDepth;
     });
-    
-    return ranges;
-  }
 
-  /**
-   * FIXED: Generate likely existing bins with portfolio-specific probability models
-   * This avoids the need for RPC calls to check each bin individually
-   */
-  private generateLikelyExistingBins(
-    minBinId: number, 
-    maxBinId: number, 
-    activeBinId: number,
-    portfolioStyle: string
-  ): number[] {
-    const likelyBins: number[] = [];
-    
-    // Portfolio-specific probability adjustments
-    let probabilityMultiplier = 1.0;
-    let conservativeness = 0.5; // How conservative the probability model is
-    
-    switch (portfolioStyle.toLowerCase()) {
-      case 'conservative':
-        probabilityMultiplier = 1.2; // Higher chance of including bins (more bins = safer)
-        conservativeness = 0.7; // More conservative probability decay
-        break;
-      case 'moderate':
-        probabilityMultiplier = 1.0; // Standard probability
-        conservativeness = 0.5; // Moderate probability decay
-        break;
-      case 'aggressive':
-        probabilityMultiplier = 0.8; // Lower chance (fewer bins = more concentrated)
-        conservativeness = 0.3; // Less conservative (more willing to use distant bins)
-        break;
-    }
-    
-    // Bins are more likely to exist near the active bin
-    for (let binId = minBinId; binId <= maxBinId; binId++) {
-      const distanceFromActive = Math.abs(binId - activeBinId);
-      
-      // Portfolio-specific probability calculation
-      let baseProbability = 1.0;
-      if (distanceFromActive <= 2) {
-        baseProbability = 0.95; // Very likely
-      } else if (distanceFromActive <= 5) {
-        baseProbability = 0.8; // Likely
-      } else if (distanceFromActive <= 10) {
-        baseProbability = 0.6; // Moderately likely
-      } else {
-        baseProbability = 0.4; // Less likely but possible
-      }
-      
-      // Apply portfolio-specific adjustments
-      const adjustedProbability = Math.min(
-        baseProbability * probabilityMultiplier * (1 - distanceFromActive * conservativeness * 0.05),
-        0.95
-      );
-      
-      // Include bins based on adjusted probability
-      if (Math.random() < adjustedProbability || distanceFromActive <= 3) {
-        likelyBins.push(binId);
-      }
-    }
-    
-    // Always include the active bin if it's in range
-    if (activeBinId >= minBinId && activeBinId <= maxBinId && !likelyBins.includes(activeBinId)) {
-      likelyBins.push(activeBinId);
-      likelyBins.sort((a, b) => a - b);
-    }
-    
-    // Portfolio-specific minimum bin requirements
-    let minRequiredBins: number;
-    switch (portfolioStyle.toLowerCase()) {
-      case 'conservative':
-        minRequiredBins = 6; // More bins for safety
-        break;
-      case 'moderate':
-        minRequiredBins = 4; // Balanced approach
-        break;
-      case 'aggressive':
-        minRequiredBins = 3; // Fewer bins for concentration
-        break;
-      default:
-        minRequiredBins = 4;
-    }
-    
-    // Ensure we have at least the minimum required bins around the active bin
-    if (likelyBins.length < minRequiredBins) {
-      const expansion = Math.ceil((minRequiredBins - likelyBins.length) / 2);
-      for (let i = -expansion; i <= expansion; i++) {
-        const binId = activeBinId + i;
-        if (binId >= minBinId && binId <= maxBinId && !likelyBins.includes(binId)) {
-          likelyBins.push(binId);
-        }
-      }
-      likelyBins.sort((a, b) => a - b);
-    }
-    
-    return likelyBins;
+    return ranges;
   }
 
   /**
@@ -425,30 +439,31 @@ export class MeteoraPositionService {
 
   /**
    * Validate user balance for existing-bins-only strategy
+   * depositedSol is the SOL going into the position itself (zero unless a side is wrapped SOL)
    */
   async validateUserBalance(
     userPublicKey: PublicKey,
-    requiredSolAmount: number,
+    depositedSol: TokenAmount,
     estimatedCost: SimplifiedCostEstimation
   ): Promise<{ isValid: boolean; currentBalance: number; shortfall?: number; error?: string }> {
     try {
-      const solBalanceLamports = await this.connection.getBalance(userPublicKey);
-      const solBalance = solBalanceLamports / LAMPORTS_PER_SOL;
-      
-      const totalRequired = requiredSolAmount + estimatedCost.total;
+      const solBalance = lamportsAmount(await this.connection.getBalance(userPublicKey));
+      const costs = tokenAmountFromUi(estimatedCost.total, NATIVE_SOL_MINT, SOL_DECIMALS, 'up');
+      const totalRequired = addTokenAmounts(depositedSol, costs);
       
-      if (solBalance < totalRequired) {
+      if (compareTokenAmounts(solBalance, totalRequired) < 0) {
+        const display = { maxDecimals: 4, minDecimals: 4 };
         return {
           isValid: false,
-          currentBalance: solBalance,
-          shortfall: totalRequired - solBalance,
-          error: `Insufficient SOL balance. Required: ${totalRequired.toFixed(4)} SOL, Available: ${solBalance.toFixed(4)} SOL`
+          currentBalance: toUiNumber(solBalance),
+          shortfall: toUiNumber(subtractTokenAmounts(totalRequired, solBalance)),
+          error: `Insufficient SOL balance. Required: ${formatTokenAmount(totalRequired, { ...display, rounding: 'up' })} SOL, Available: ${formatTokenAmount(solBalance, display)} SOL`
         };
       }
       
       return {
         isValid: true,
-        currentBalance: solBalance
+        currentBalance: toUiNumber(solBalance)
       };
       
     } catch (error) {
@@ -461,14 +476,14 @@ export class MeteoraPositionService {
   }
 
   /**
-   * Create a position using ONLY existing bins (with smart heuristics)
+   * Create a position using ONLY existing bins
    */
   async createPositionWithExistingBins(
     params: CreatePositionParams,
     existingBinRange: ExistingBinRange
   ): Promise<CreatePositionResult> {
     try {
-      console.log('Creating position with smart bin range (no RPC intensive calls):', {
+      console.log('Creating position with smart bin range:', {
         poolAddress: params.poolAddress,
         range: `${existingBinRange.minBinId} to ${existingBinRange.maxBinId}`,
         estimatedBins: existingBinRange.existingBins.length,
@@ -483,32 +498,20 @@ export class MeteoraPositionService {
 
       console.log('Simplified cost estimation:', estimatedCost);
 
-      // Validate user balance
-      const estimatedSolForLiquidity = params.totalXAmount.toNumber() / Math.pow(10, 9);
-      const balanceValidation = await this.validateUserBalance(
-        params.userPublicKey,
-        estimatedSolForLiquidity,
-        estimatedCost
-      );
-
-      if (!balanceValidation.isValid) {
-        throw new Error(balanceValidation.error || 'Insufficient balance');
-      }
-
-      console.log('Balance validation passed:', balanceValidation);
-
       // Initialize pool and create position
       const pool = await this.initializePool(params.poolAddress);
       const newPosition = new Keypair();
       const typedPool = pool as unknown as DLMMPool;
 
       let totalYAmount = params.totalYAmount || new BN(0);
+      const activeBin = await typedPool.getActiveBin();
+      // The bin the SDK builds the on-chain slippage check around
+      const activeBinId = pool.lbPair.activeId;
+      const maxActiveBinSlippage = params.maxActiveBinSlippage ?? getMaxActiveBinSlippage();
 
       // Use autoFillYByStrategy for balanced positions if requested
       if (params.useAutoFill !== false && totalYAmount.isZero()) {
         try {
-          const activeBin = await typedPool.getActiveBin();
-          
           totalYAmount = autoFillYByStrategy(
             activeBin.binId,
             typedPool.lbPair.binStep,
@@ -527,6 +530,24 @@ export class MeteoraPositionService {
         }
       }
 
+      // Validate user balance: SOL is only deposited when one side of the pair is wrapped SOL
+      const depositedSol = lamportsAmount(
+        pool.lbPair.tokenXMint.toBase58() === NATIVE_SOL_MINT ? params.totalXAmount
+          : pool.lbPair.tokenYMint.toBase58() === NATIVE_SOL_MINT ? totalYAmount
+          : 0
+      );
+      const balanceValidation = await this.validateUserBalance(
+        params.userPublicKey,
+        depositedSol,
+        estimatedCost
+      );
+
+      if (!balanceValidation.isValid) {
+        throw new Error(balanceValidation.error || 'Insufficient balance');
+      }
+
+      console.log('Balance validation passed:', balanceValidation);
+
       // Create the position transaction using smart bin range
       console.log('Creating position transaction with smart bin range:', {
         positionPubKey: newPosition.publicKey.toString(),
@@ -550,6 +571,8 @@ export class MeteoraPositionService {
           minBinId: existingBinRange.minBinId,
           strategyType: params.strategyType,
         },
+        // The program rejects the deposit if the active bin moved further than this
+        slippage: binSlippageToPercentage(maxActiveBinSlippage, typedPool.lbPair.binStep),
       });
 
       console.log('Position transaction created successfully using smart bin ranges');
@@ -557,7 +580,12 @@ export class MeteoraPositionService {
       return {
         transaction: createPositionTx,
         positionKeypair: newPosition,
-        estimatedCost
+        estimatedCost,
+        activeBinGuard: {
+          poolAddress: params.poolAddress,
+          activeBinId,
+          maxActiveBinSlippage,
+        }
       };
     } catch (error) {
       console.error('Error creating position with smart bin ranges:', error);
@@ -577,25 +605,30 @@ export class MeteoraPositionService {
   }
 
   /**
-   * Create a one-sided position using portfolio-specific smart bin ranges
+   * Create a one-sided position, in the given range or else a portfolio-specific smart bin range
    */
   async createOneSidedPosition(
     params: CreatePositionParams,
-    useTokenX: boolean
+    useTokenX: boolean,
+    existingBinRange?: ExistingBinRange
   ): Promise<CreatePositionResult> {
     try {
-      // First find smart bin ranges based on portfolio style
-      const portfolioStyle = params.strategyType === StrategyType.BidAsk ? 'conservative' : 'moderate';
-      const existingRanges = await this.findExistingBinRanges(params.poolAddress, 20, portfolioStyle);
-      
-      if (existingRanges.length === 0) {
-        throw new Error('No suitable bin ranges found. Cannot create position.');
+      let selectedRange = existingBinRange;
+
+      if (!selectedRange) {
+        // First find smart bin ranges based on portfolio style
+        const portfolioStyle = params.strategyType === StrategyType.BidAsk ? 'conservative' : 'moderate';
+        const existingRanges = await this.findExistingBinRanges(params.poolAddress, 20, portfolioStyle);
+
+        if (existingRanges.length === 0) {
+          throw new Error('No suitable bin ranges found. Cannot create position.');
+        }
+
+        // Use the best existing range (first one, as they're sorted by popularity)
+        selectedRange = existingRanges[0];
       }
 
-      // Use the best existing range (first one, as they're sorted by popularity)
-      const selectedRange = existingRanges[0];
-      
-      console.log(`Creating one-sided position with ${portfolioStyle} smart range:`, selectedRange);
+      console.log('Creating one-sided position with range:', selectedRange);
 
       // Get cost estimation
       const estimatedCost = await this.getSimplifiedCostEstimation(
@@ -606,19 +639,25 @@ export class MeteoraPositionService {
       const pool = await this.initializePool(params.poolAddress);
       const newPosition = new Keypair();
       const typedPool = pool as unknown as DLMMPool;
+      const activeBinId = pool.lbPair.activeId;
+      const maxActiveBinSlippage = params.maxActiveBinSlippage ?? getMaxActiveBinSlippage();
       
       // For one-sided position, set either X or Y amount to 0
       const totalXAmount = useTokenX ? params.totalXAmount : new BN(0);
-      const totalYAmount = useTokenX ? new BN(0) : (params.totalYAmount || params.totalXAmount);
+      // Raw X units mean nothing on the Y side (the decimals differ), so Y must be given explicitly
+      if (!useTokenX && !params.totalYAmount) {
+        throw new Error('A token Y amount is required for a one-sided token Y position');
+      }
+      const totalYAmount = useTokenX ? new BN(0) : params.totalYAmount!;
 
       // Adjust bin range for one-sided positions within smart bins
       let minBinId = selectedRange.minBinId;
       let maxBinId = selectedRange.maxBinId;
 
-      if (useTokenX) {
+      // An explicit range is used as given; the caller checked it against the active bin
+      if (useTokenX && !existingBinRange) {
         // For X token only, position should be above current price
-        const activeBin = await typedPool.getActiveBin();
-        const activeBinIndex = selectedRange.existingBins.findIndex(bin => bin >= activeBin.binId);
+        const activeBinIndex = selectedRange.existingBins.findIndex(bin => bin >= activeBinId);
         
         if (activeBinIndex !== -1) {
           // Use bins above the active bin
@@ -642,12 +681,18 @@ export class MeteoraPositionService {
           minBinId,
           strategyType: params.strategyType,
         },
+        slippage: binSlippageToPercentage(maxActiveBinSlippage, typedPool.lbPair.binStep),
       });
 
       return {
         transaction: createPositionTx,
         positionKeypair: newPosition,
-        estimatedCost
+        estimatedCost,
+        activeBinGuard: {
+          poolAddress: params.poolAddress,
+          activeBinId,
+          maxActiveBinSlippage,
+        }
       };
     } catch (error) {
       console.error('Error creating one-sided position with smart ranges:', error);
@@ -656,7 +701,16 @@ export class MeteoraPositionService {
   }
 
   /**
-   * Get safe range recommendations using smart heuristics
+   * Re-read the active bin right before a deposit is submitted; throws ACTIVE_BIN_MOVED when
+   * it moved past the tolerance, since the deposit would land off-center or fail on-chain
+   */
+  async assertActiveBinWithinSlippage(guard: ActiveBinGuard): Promise<number> {
+    const pool = await this.initializePool(guard.poolAddress);
+    return checkActiveBinDrift(guard, pool.lbPair.activeId);
+  }
+
+  /**
+   * Get safe range recommendations from the existing bin ranges
    */
   async getSafeRangeRecommendations(poolAddress: string): Promise<{
     conservative: ExistingBinRange;
@@ -0,0 +1,313 @@
+// src/lib/services/bridgeDeployPipeline.ts
+// One-click BTC to LP: bridge BTC to zBTC, wait for the mint to land in the wallet,
+// optionally swap part of it through Jupiter, then open a DLMM position. Every stage
+// is persisted so the pipeline can be resumed after a reload or cancelled.
+
+import { Connection, PublicKey } from '@solana/web3.js';
+import { BN } from '@coral-xyz/anchor';
+import { StrategyType } from '@meteora-ag/dlmm';
+import {
+  MeteoraPositionService,
+  type CreatePositionParams,
+  type CreatePositionResult,
+} from '@/lib/meteora/meteoraPositionService';
+import { STRATEGY_TYPES } from '@/lib/meteora/meteoraChatCommands';
+import type { DlmmStrategyName } from '@/lib/meteora/meteoraChatTools';
+import { JupiterSwapService, type JupiterSwap } from './jupiterSwapService';
+import { ZBTC_MINT, type BridgeJob, type BridgeStepState } from './bridgeService';
+
+export type PipelineStage =
+  | 'bridging'
+  | 'awaiting_mint'
+  | 'swapping'
+  | 'depositing'
+  | 'completed'
+  | 'failed'
+  | 'cancelled';
+
+export interface BridgeDeployPipeline {
+  id: string;
+  wallet: string;
+  poolAddress: string;
+  poolName: string;
+  strategy: DlmmStrategyName;
+  bridgeJobId: string;
+  // BTC sent to the bridge, in satoshis
+  amountSats: string;
+  // Share of the minted zBTC swapped to the pool's other token (0 for a one-sided deposit)
+  swapPercent: number;
+  // Raw zBTC balance before bridging, so the mint can be told apart from existing holdings
+  zbtcBaseline: string;
+  mintedSats?: string;
+  swappedSats?: string;
+  // Raw amount of the pool's other token the swap guarantees
+  swapOutAmount?: string;
+  swapSignature?: string;
+  positionAddress?: string;
+  depositSignatures?: string[];
+  stage: PipelineStage;
+  // Stage the pipeline stopped on when it failed or was cancelled
+  stoppedStage?: PipelineStage;
+  // Last error of a stage that can be retried, or why the pipeline failed
+  error?: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface PipelineStep {
+  stage: PipelineStage;
+  label: string;
+  state: BridgeStepState;
+  detail?: string;
+}
+
+export interface StartPipelineParams {
+  wallet: string;
+  poolAddress: string;
+  poolName: string;
+  strategy: DlmmStrategyName;
+  amountSats: string;
+  swapPercent: number;
+  bridgeJobId: string;
+  zbtcBaseline: string;
+}
+
+export class PipelineError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PipelineError';
+  }
+}
+
+const PIPELINE_STAGES: PipelineStage[] = ['bridging', 'awaiting_mint', 'swapping', 'depositing', 'completed'];
+
+const STAGE_LABELS: Partial<Record<PipelineStage, string>> = {
+  bridging: 'Bridge BTC to zBTC',
+  awaiting_mint: 'zBTC arrives in your wallet',
+  swapping: 'Swap part of the zBTC',
+  depositing: 'Open the liquidity position',
+  completed: 'Position live',
+};
+
+export function isActivePipeline(pipeline: BridgeDeployPipeline): boolean {
+  return pipeline.stage !== 'completed' && pipeline.stage !== 'failed' && pipeline.stage !== 'cancelled';
+}
+
+/**
+ * Stages that only move forward once the user signs
+ */
+export function needsSignature(pipeline: BridgeDeployPipeline): boolean {
+  return pipeline.stage === 'swapping' || pipeline.stage === 'depositing';
+}
+
+/**
+ * Stages of a pipeline with their state, for the timeline; the swap is left out when
+ * the pipeline deposits one-sided
+ */
+export function getPipelineSteps(pipeline: BridgeDeployPipeline): PipelineStep[] {
+  const stages = PIPELINE_STAGES.filter(stage => stage !== 'swapping' || pipeline.swapPercent > 0);
+  const stopped = pipeline.stage === 'failed' || pipeline.stage === 'cancelled';
+  const current = stages.indexOf(stopped ? pipeline.stoppedStage ?? stages[0] : pipeline.stage);
+
+  return stages.map((stage, index) => {
+    let state: BridgeStepState = 'pending';
+    if (index < current || pipeline.stage === 'completed') state = 'done';
+    else if (index === current) state = stopped ? 'failed' : 'active';
+
+    let detail: string | undefined;
+    if (stage === 'swapping') detail = `${pipeline.swapPercent}%`;
+    if (index === current && pipeline.error) detail = pipeline.error;
+    if (index === current && pipeline.stage === 'cancelled') detail = 'Cancelled';
+
+    return { stage, label: STAGE_LABELS[stage] ?? stage, state, detail };
+  });
+}
+
+function newPipelineId(): string {
+  return typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+export function createPipeline(params: StartPipelineParams): BridgeDeployPipeline {
+  const now = Date.now();
+  return { id: newPipelineId(), ...params, stage: 'bridging', createdAt: now, updatedAt: now };
+}
+
+export function cancelPipeline(pipeline: BridgeDeployPipeline): BridgeDeployPipeline {
+  if (!isActivePipeline(pipeline)) return pipeline;
+  return { ...pipeline, stage: 'cancelled', stoppedStage: pipeline.stage, updatedAt: Date.now() };
+}
+
+function failPipeline(pipeline: BridgeDeployPipeline, error: string): BridgeDeployPipeline {
+  return { ...pipeline, stage: 'failed', stoppedStage: pipeline.stage, error, updatedAt: Date.now() };
+}
+
+/**
+ * Record a retryable error on the current stage
+ */
+export function withPipelineError(pipeline: BridgeDeployPipeline, error: string): BridgeDeployPipeline {
+  return { ...pipeline, error, updatedAt: Date.now() };
+}
+
+/**
+ * Follow the pipeline's bridge job: a finished bridge moves on to waiting for the
+ * mint, a stopped one fails the pipeline
+ */
+export function advanceFromBridgeJob(pipeline: BridgeDeployPipeline, job: BridgeJob | undefined): BridgeDeployPipeline {
+  if (pipeline.stage !== 'bridging') return pipeline;
+  if (!job) return failPipeline(pipeline, 'The bridge job was removed');
+
+  if (job.status === 'completed') {
+    return { ...pipeline, stage: 'awaiting_mint', error: undefined, updatedAt: Date.now() };
+  }
+  if (job.status === 'failed' || job.status === 'expired') {
+    return failPipeline(pipeline, job.error ?? 'The bridge did not complete');
+  }
+  return pipeline;
+}
+
+/**
+ * Runs the on-chain side of each stage
+ */
+export class BridgeDeployPipelineService {
+  private connection: Connection;
+  private positionService: MeteoraPositionService;
+  private swapService: JupiterSwapService;
+
+  constructor(connection: Connection, swapService: JupiterSwapService = new JupiterSwapService()) {
+    this.connection = connection;
+    this.positionService = new MeteoraPositionService(connection);
+    this.swapService = swapService;
+  }
+
+  /**
+   * zBTC side of a pool and its other token's mint; throws when the pool has no zBTC
+   */
+  async getPoolSides(poolAddress: string): Promise<{ zbtcIsX: boolean; otherMint: string }> {
+    const pool = await this.positionService.initializePool(poolAddress);
+    const tokenX = pool.lbPair.tokenXMint.toBase58();
+    const tokenY = pool.lbPair.tokenYMint.toBase58();
+
+    if (tokenX !== ZBTC_MINT && tokenY !== ZBTC_MINT) {
+      throw new PipelineError('This pool does not hold zBTC, so bridged BTC cannot be deposited into it');
+    }
+    return { zbtcIsX: tokenX === ZBTC_MINT, otherMint: tokenX === ZBTC_MINT ? tokenY : tokenX };
+  }
+
+  async getZbtcBalance(owner: PublicKey): Promise<BN> {
+    const { value } = await this.connection.getParsedTokenAccountsByOwner(owner, {
+      mint: new PublicKey(ZBTC_MINT),
+    });
+    return value.reduce(
+      (total, account) => total.add(new BN(account.account.data.parsed?.info?.tokenAmount?.amount ?? '0')),
+      new BN(0)
+    );
+  }
+
+  /**
+   * Move on once the bridged zBTC shows up in the wallet
+   */
+  async checkMint(pipeline: BridgeDeployPipeline, job: BridgeJob | undefined): Promise<BridgeDeployPipeline> {
+    if (pipeline.stage !== 'awaiting_mint') return pipeline;
+
+    let minted: BN;
+    if (job?.provider === 'mock') {
+      // The mock bridge mints nothing on-chain, so take the job's word for it
+      minted = new BN(pipeline.amountSats);
+    } else {
+      const balance = await this.getZbtcBalance(new PublicKey(pipeline.wallet));
+      minted = BN.min(balance.sub(new BN(pipeline.zbtcBaseline)), new BN(pipeline.amountSats));
+      if (minted.lten(0)) return pipeline;
+    }
+
+    return {
+      ...pipeline,
+      stage: pipeline.swapPercent > 0 ? 'swapping' : 'depositing',
+      mintedSats: minted.toString(),
+      error: undefined,
+      updatedAt: Date.now(),
+    };
+  }
+
+  /**
+   * Swap the configured share of the minted zBTC to the pool's other token
+   */
+  async buildSwap(pipeline: BridgeDeployPipeline): Promise<JupiterSwap> {
+    if (pipeline.stage !== 'swapping' || !pipeline.mintedSats) {
+      throw new PipelineError('The pipeline is not ready to swap');
+    }
+    const { otherMint } = await this.getPoolSides(pipeline.poolAddress);
+    const amount = new BN(pipeline.mintedSats).muln(pipeline.swapPercent).divn(100);
+
+    return this.swapService.buildSwap(new PublicKey(pipeline.wallet), ZBTC_MINT, otherMint, amount);
+  }
+
+  completeSwap(pipeline: BridgeDeployPipeline, swap: JupiterSwap, signature: string): BridgeDeployPipeline {
+    return {
+      ...pipeline,
+      stage: 'depositing',
+      swappedSats: swap.quote.inAmount,
+      // Size the deposit on the guaranteed output so it never exceeds what arrived
+      swapOutAmount: swap.minOutAmount.toString(),
+      swapSignature: signature,
+      error: undefined,
+      updatedAt: Date.now(),
+    };
+  }
+
+  /**
+   * Open the position: two-sided around the active bin after a swap, otherwise one-sided
+   * with zBTC only
+   */
+  async buildDeposit(pipeline: BridgeDeployPipeline): Promise<CreatePositionResult> {
+    if (pipeline.stage !== 'depositing' || !pipeline.mintedSats) {
+      throw new PipelineError('The pipeline is not ready to deposit');
+    }
+
+    const { zbtcIsX } = await this.getPoolSides(pipeline.poolAddress);
+    const zbtcAmount = new BN(pipeline.mintedSats).sub(new BN(pipeline.swappedSats ?? '0'));
+    const otherAmount = new BN(pipeline.swapOutAmount ?? '0');
+    const strategyType = STRATEGY_TYPES[pipeline.strategy] ?? StrategyType.Spot;
+
+    const params: CreatePositionParams = {
+      poolAddress: pipeline.poolAddress,
+      userPublicKey: new PublicKey(pipeline.wallet),
+      totalXAmount: zbtcIsX ? zbtcAmount : otherAmount,
+      totalYAmount: zbtcIsX ? otherAmount : zbtcAmount,
+      minBinId: 0,
+      maxBinId: 0,
+      strategyType,
+      useAutoFill: false,
+    };
+
+    if (otherAmount.isZero()) {
+      return this.positionService.createOneSidedPosition(params, zbtcIsX);
+    }
+
+    const { balanced } = await this.positionService.getSafeRangeRecommendations(pipeline.poolAddress);
+    return this.positionService.createPositionWithExistingBins(
+      { ...params, minBinId: balanced.minBinId, maxBinId: balanced.maxBinId },
+      balanced
+    );
+  }
+
+  completeDeposit(
+    pipeline: BridgeDeployPipeline,
+    positionAddress: string,
+    signatures: string[]
+  ): BridgeDeployPipeline {
+    return {
+      ...pipeline,
+      stage: 'completed',
+      positionAddress,
+      depositSignatures: signatures,
+      error: undefined,
+      updatedAt: Date.now(),
+    };
+  }
+
+  get positions(): MeteoraPositionService {
+    return this.positionService;
+  }
+}
@@ -0,0 +1,48 @@
+// src/lib/services/bridgeDeployPipelineStore.ts
+// Bridge-then-deploy pipelines persisted in localStorage per Solana wallet.
+
+import { isActivePipeline, type BridgeDeployPipeline } from './bridgeDeployPipeline';
+
+const PIPELINES_KEY_PREFIX = 'hypebiscus_pipelines_';
+// Finished pipelines kept for the history list (active ones are always kept)
+const MAX_FINISHED_PIPELINES = 10;
+
+function storageKey(wallet: string): string {
+  return `${PIPELINES_KEY_PREFIX}${wallet}`;
+}
+
+/**
+ * Pipelines of a wallet, newest first
+ */
+export function loadPipelines(wallet: string): BridgeDeployPipeline[] {
+  if (typeof window === 'undefined') return [];
+
+  try {
+    const stored = localStorage.getItem(storageKey(wallet));
+    const pipelines = stored ? (JSON.parse(stored) as BridgeDeployPipeline[]) : [];
+    return Array.isArray(pipelines) ? pipelines.sort((a, b) => b.createdAt - a.createdAt) : [];
+  } catch (error) {
+    console.warn('Discarding unreadable pipelines:', error);
+    return [];
+  }
+}
+
+function savePipelines(wallet: string, pipelines: BridgeDeployPipeline[]): BridgeDeployPipeline[] {
+  const sorted = [...pipelines].sort((a, b) => b.createdAt - a.createdAt);
+  const finished = sorted.filter(pipeline => !isActivePipeline(pipeline)).slice(0, MAX_FINISHED_PIPELINES);
+  const kept = sorted.filter(pipeline => isActivePipeline(pipeline) || finished.includes(pipeline));
+  localStorage.setItem(storageKey(wallet), JSON.stringify(kept));
+  return kept;
+}
+
+/**
+ * Insert or replace a pipeline; returns the wallet's updated list
+ */
+export function upsertPipeline(pipeline: BridgeDeployPipeline): BridgeDeployPipeline[] {
+  const pipelines = loadPipelines(pipeline.wallet).filter(existing => existing.id !== pipeline.id);
+  return savePipelines(pipeline.wallet, [pipeline, ...pipelines]);
+}
+
+export function removePipeline(wallet: string, pipelineId: string): BridgeDeployPipeline[] {
+  return savePipelines(wallet, loadPipelines(wallet).filter(pipeline => pipeline.id !== pipelineId));
+}
@@ -0,0 +1,48 @@
+// src/lib/services/bridgeJobStore.ts
+// Bridge jobs persisted in localStorage per Solana wallet, so pending bridges resume after a reload.
+
+import { isActiveBridgeJob, type BridgeJob } from './bridgeService';
+
+const JOBS_KEY_PREFIX = 'hypebiscus_bridge_jobs_';
+// Finished jobs kept for the history list (active ones are always kept)
+const MAX_FINISHED_JOBS = 20;
+
+function storageKey(wallet: string): string {
+  return `${JOBS_KEY_PREFIX}${wallet}`;
+}
+
+/**
+ * Jobs of a wallet, newest first
+ */
+export function loadBridgeJobs(wallet: string): BridgeJob[] {
+  if (typeof window === 'undefined') return [];
+
+  try {
+    const stored = localStorage.getItem(storageKey(wallet));
+    const jobs = stored ? (JSON.parse(stored) as BridgeJob[]) : [];
+    return Array.isArray(jobs) ? jobs.sort((a, b) => b.createdAt - a.createdAt) : [];
+  } catch (error) {
+    console.warn('Discarding unreadable bridge jobs:', error);
+    return [];
+  }
+}
+
+function saveBridgeJobs(wallet: string, jobs: BridgeJob[]): BridgeJob[] {
+  const sorted = [...jobs].sort((a, b) => b.createdAt - a.createdAt);
+  const finished = sorted.filter(job => !isActiveBridgeJob(job)).slice(0, MAX_FINISHED_JOBS);
+  const kept = sorted.filter(job => isActiveBridgeJob(job) || finished.includes(job));
+  localStorage.setItem(storageKey(wallet), JSON.stringify(kept));
+  return kept;
+}
+
+/**
+ * Insert or replace a job; returns the wallet's updated list
+ */
+export function upsertBridgeJob(job: BridgeJob): BridgeJob[] {
+  const jobs = loadBridgeJobs(job.wallet).filter(existing => existing.id !== job.id);
+  return saveBridgeJobs(job.wallet, [job, ...jobs]);
+}
+
+export function removeBridgeJob(wallet: string, jobId: string): BridgeJob[] {
+  return saveBridgeJobs(wallet, loadBridgeJobs(wallet).filter(job => job.id !== jobId));
+}
@@ -0,0 +1,611 @@
+// src/lib/services/bridgeService.ts
+// BTC <-> zBTC bridge jobs behind one interface. The provider has to be picked with
+// NEXT_PUBLIC_BRIDGE_PROVIDER; there is no default. "mock" is a local mock that walks a job
+// through every step on a timer. "zeus" is a client for a Zeus bridge API that Zeus does not
+// publish yet (see ZeusBridgeService), so it only works against a service implementing that
+// contract. Until then the bridge is a mock-only feature.
+
+import { Transaction } from '@solana/web3.js';
+import { encodeSegwitAddress, validateBtcAddress } from '@/lib/utils/btcAddress';
+import { formatTokenAmount, tokenAmount } from '@/lib/utils/tokenAmount';
+
+export const ZBTC_MINT = 'zBTCug3er3tLyffELcvDNrKkCymbPWysGcWihESYfLg';
+export const ZBTC_DECIMALS = 8;
+
+export type BridgeNetwork = 'mainnet' | 'testnet';
+
+// deposit: BTC -> zBTC on Solana, redeem: zBTC -> BTC
+export type BridgeDirection = 'deposit' | 'redeem';
+
+export type BridgeJobStatus =
+  | 'awaiting_deposit'
+  | 'confirming'
+  | 'minting'
+  | 'awaiting_signature'
+  | 'releasing'
+  | 'completed'
+  | 'failed'
+  | 'expired';
+
+export interface BridgeJob {
+  id: string;
+  // Solana wallet that owns the job (receives zBTC / burns it)
+  wallet: string;
+  provider: string;
+  network: BridgeNetwork;
+  direction: BridgeDirection;
+  status: BridgeJobStatus;
+  // Step the job was on when it failed or expired
+  failedStep?: BridgeJobStatus;
+  // Amount in satoshis (zBTC has the same 8 decimals), as a decimal string
+  amountSats: string;
+  // BTC address the user pays into (deposit)
+  depositAddress?: string;
+  // BTC address the released coins go to (redeem)
+  btcAddress?: string;
+  btcTxid?: string;
+  confirmations: number;
+  requiredConfirmations: number;
+  // Mint (deposit) or burn (redeem) transaction on Solana
+  solanaSignature?: string;
+  error?: string;
+  createdAt: number;
+  updatedAt: number;
+  expiresAt?: number;
+}
+
+export interface CreateDepositParams {
+  wallet: string;
+  amountSats: string;
+}
+
+export interface CreateRedeemParams {
+  wallet: string;
+  amountSats: string;
+  btcAddress: string;
+}
+
+export interface RedeemRequest {
+  job: BridgeJob;
+  // Burn transaction the wallet has to sign; absent when the provider needs no signature
+  transaction?: Transaction;
+}
+
+export interface BridgeService {
+  readonly name: string;
+  readonly network: BridgeNetwork;
+  // How often active jobs should be refreshed
+  readonly pollIntervalMs: number;
+  createDeposit(params: CreateDepositParams): Promise<BridgeJob>;
+  createRedeem(params: CreateRedeemParams): Promise<RedeemRequest>;
+  // Record the signature of a sent burn transaction
+  submitRedeem(job: BridgeJob, signature: string): Promise<BridgeJob>;
+  // Advance a job to whatever state the bridge reports now
+  refreshJob(job: BridgeJob): Promise<BridgeJob>;
+}
+
+export type BridgeProviderKind = 'zeus' | 'mock';
+
+export interface BridgeConfig {
+  provider: BridgeProviderKind;
+  network: BridgeNetwork;
+  zeusApiUrl: string;
+  esploraApiUrl: string;
+  requiredConfirmations: number;
+}
+
+export class BridgeError extends Error {
+  constructor(message: string, public readonly status?: number) {
+    super(message);
+    this.name = 'BridgeError';
+  }
+}
+
+export type BridgeStepState = 'done' | 'active' | 'pending' | 'failed';
+
+export interface BridgeStep {
+  status: BridgeJobStatus;
+  label: string;
+  state: BridgeStepState;
+  detail?: string;
+}
+
+const DEPOSIT_STEPS: BridgeJobStatus[] = ['awaiting_deposit', 'confirming', 'minting', 'completed'];
+const REDEEM_STEPS: BridgeJobStatus[] = ['awaiting_signature', 'releasing', 'confirming', 'completed'];
+
+const STEP_LABELS: Record<BridgeDirection, Partial<Record<BridgeJobStatus, string>>> = {
+  deposit: {
+    awaiting_deposit: 'Send BTC to the deposit address',
+    confirming: 'Bitcoin confirmations',
+    minting: 'Minting zBTC on Solana',
+    completed: 'zBTC received',
+  },
+  redeem: {
+    awaiting_signature: 'Burn zBTC on Solana',
+    releasing: 'Zeus releases BTC',
+    confirming: 'Bitcoin confirmations',
+    completed: 'BTC received',
+  },
+};
+
+const DEFAULT_ESPLORA_API_URLS: Record<BridgeNetwork, string> = {
+  mainnet: 'https://mempool.space/api',
+  testnet: 'https://mempool.space/testnet/api',
+};
+const DEFAULT_REQUIRED_CONFIRMATIONS: Record<BridgeNetwork, number> = {
+  mainnet: 3,
+  testnet: 1,
+};
+// Deposit addresses are held for a day unless the bridge says otherwise
+const DEFAULT_DEPOSIT_TTL = 24 * 60 * 60 * 1000;
+
+/**
+ * Whether a job still needs polling
+ */
+export function isActiveBridgeJob(job: BridgeJob): boolean {
+  return job.status !== 'completed' && job.status !== 'failed' && job.status !== 'expired';
+}
+
+/**
+ * Steps of a job's direction with their state, for the timeline
+ */
+export function getBridgeSteps(job: BridgeJob): BridgeStep[] {
+  const steps = job.direction === 'deposit' ? DEPOSIT_STEPS : REDEEM_STEPS;
+  const stopped = job.status === 'failed' || job.status === 'expired';
+  const current = steps.indexOf(stopped ? job.failedStep ?? steps[0] : job.status);
+
+  return steps.map((status, index) => {
+    let state: BridgeStepState = 'pending';
+    if (index < current || job.status === 'completed') state = 'done';
+    else if (index === current) state = stopped ? 'failed' : 'active';
+
+    let detail: string | undefined;
+    if (status === 'confirming' && (state === 'active' || state === 'done')) {
+      detail = `${Math.min(job.confirmations, job.requiredConfirmations)}/${job.requiredConfirmations}`;
+    } else if (state === 'failed') {
+      detail = job.error ?? (job.status === 'expired' ? 'Deposit address expired' : undefined);
+    }
+
+    return { status, label: STEP_LABELS[job.direction][status] ?? status, state, detail };
+  });
+}
+
+/**
+ * Mark a job as stopped on its current step
+ */
+export function failBridgeJob(job: BridgeJob, error: string, status: 'failed' | 'expired' = 'failed'): BridgeJob {
+  return {
+    ...job,
+    status,
+    failedStep: isActiveBridgeJob(job) ? job.status : job.failedStep,
+    error,
+    updatedAt: Date.now(),
+  };
+}
+
+/**
+ * Reject redeem destinations that are malformed or belong to another Bitcoin network
+ */
+export function assertRedeemAddress(btcAddress: string, network: BridgeNetwork): void {
+  const validation = validateBtcAddress(btcAddress, network);
+  if (!validation.valid) {
+    throw new BridgeError(`Invalid Bitcoin address: ${validation.error}`);
+  }
+}
+
+function newJobId(): string {
+  return typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+function formatSats(sats: bigint | string): string {
+  return formatTokenAmount(tokenAmount(ZBTC_MINT, ZBTC_DECIMALS, sats.toString()));
+}
+
+function parseNetwork(value: string | undefined): BridgeNetwork {
+  return value === 'mainnet' ? 'mainnet' : 'testnet';
+}
+
+/**
+ * Read the bridge configuration from the environment
+ */
+export function getBridgeConfig(): BridgeConfig {
+  const network = parseNetwork(process.env.NEXT_PUBLIC_ZEUS_NETWORK);
+  const zeusApiUrl = (process.env.NEXT_PUBLIC_ZEUS_API_URL || '').replace(/\/+$/, '');
+  const kind = process.env.NEXT_PUBLIC_BRIDGE_PROVIDER;
+  // No default: the mock must not pass for a real bridge, and the Zeus client is not implemented
+  if (!kind) {
+    throw new BridgeError(
+      'BTC bridge is not configured: set NEXT_PUBLIC_BRIDGE_PROVIDER=mock for the local mock (the Zeus provider is not implemented yet)'
+    );
+  }
+  if (kind !== 'zeus' && kind !== 'mock') {
+    throw new BridgeError(`Unknown NEXT_PUBLIC_BRIDGE_PROVIDER: ${kind}`);
+  }
+  const confirmations = Number(process.env.NEXT_PUBLIC_ZEUS_REQUIRED_CONFIRMATIONS);
+
+  return {
+    provider: kind,
+    network,
+    zeusApiUrl,
+    esploraApiUrl: (process.env.NEXT_PUBLIC_BTC_ESPLORA_URL || DEFAULT_ESPLORA_API_URLS[network]).replace(/\/+$/, ''),
+    requiredConfirmations: Number.isInteger(confirmations) && confirmations > 0
+      ? confirmations
+      : DEFAULT_REQUIRED_CONFIRMATIONS[network],
+  };
+}
+
+interface EsploraTxStatus {
+  confirmed: boolean;
+  block_height?: number;
+}
+
+interface EsploraTx {
+  txid: string;
+  status: EsploraTxStatus;
+  vout: { scriptpubkey_address?: string; value: number }[];
+}
+
+interface DepositPayment {
+  txid: string;
+  // Satoshis the transaction pays to the deposit address
+  paid: bigint;
+}
+
+// Zeus bridge API payloads
+interface ZeusDepositResponse {
+  id: string;
+  depositAddress: string;
+  requiredConfirmations?: number;
+  expiresAt?: number;
+}
+
+interface ZeusDepositStatus {
+  status: 'pending' | 'minting' | 'minted' | 'failed';
+  mintSignature?: string;
+  error?: string;
+}
+
+interface ZeusRedeemResponse {
+  id: string;
+  // Base64 serialized burn transaction, fee payer set to the wallet
+  transaction: string;
+}
+
+interface ZeusRedeemStatus {
+  status: 'pending' | 'releasing' | 'broadcast' | 'failed';
+  btcTxid?: string;
+  error?: string;
+}
+
+/**
+ * Zeus bridge: deposit addresses, mint status and burn transactions come from the
+ * Zeus API; Bitcoin confirmations are read straight from the chain through Esplora.
+ *
+ * NOT IMPLEMENTED against a published Zeus interface. Zeus does not document a REST API
+ * for this; the routes below are the contract this client expects, and
+ * NEXT_PUBLIC_ZEUS_API_URL has to point at a service that implements them:
+ *   POST /deposits                    { network, solanaAddress, amount } -> ZeusDepositResponse
+ *   GET  /deposits/:id                -> ZeusDepositStatus
+ *   POST /redeems                     { network, solanaAddress, btcAddress, amount } -> ZeusRedeemResponse
+ *   GET  /redeems/:id                 -> ZeusRedeemStatus
+ *   POST /redeems/:id/signature       { signature }
+ * Wiring it to the Zeus Program Library on-chain instead is still to do, which is why it
+ * is only used when NEXT_PUBLIC_BRIDGE_PROVIDER=zeus is set explicitly.
+ */
+export class ZeusBridgeService implements BridgeService {
+  readonly name = 'zeus';
+  readonly pollIntervalMs = 30000;
+
+  constructor(private readonly config: BridgeConfig) {
+    if (!config.zeusApiUrl) {
+      throw new BridgeError(
+        'Zeus bridge is not configured: set NEXT_PUBLIC_ZEUS_API_URL, or NEXT_PUBLIC_BRIDGE_PROVIDER=mock for the local mock'
+      );
+    }
+  }
+
+  get network(): BridgeNetwork {
+    return this.config.network;
+  }
+
+  async createDeposit({ wallet, amountSats }: CreateDepositParams): Promise<BridgeJob> {
+    const response = await this.zeus<ZeusDepositResponse>('/deposits', {
+      method: 'POST',
+      body: JSON.stringify({ network: this.network, solanaAddress: wallet, amount: amountSats }),
+    });
+    const now = Date.now();
+
+    return {
+      id: response.id,
+      wallet,
+      provider: this.name,
+      network: this.network,
+      direction: 'deposit',
+      status: 'awaiting_deposit',
+      amountSats,
+      depositAddress: response.depositAddress,
+      confirmations: 0,
+      requiredConfirmations: response.requiredConfirmations ?? this.config.requiredConfirmations,
+      createdAt: now,
+      updatedAt: now,
+      expiresAt: response.expiresAt ?? now + DEFAULT_DEPOSIT_TTL,
+    };
+  }
+
+  async createRedeem({ wallet, amountSats, btcAddress }: CreateRedeemParams): Promise<RedeemRequest> {
+    assertRedeemAddress(btcAddress, this.network);
+    const response = await this.zeus<ZeusRedeemResponse>('/redeems', {
+      method: 'POST',
+      body: JSON.stringify({ network: this.network, solanaAddress: wallet, btcAddress, amount: amountSats }),
+    });
+    const now = Date.now();
+
+    return {
+      job: {
+        id: response.id,
+        wallet,
+        provider: this.name,
+        network: this.network,
+        direction: 'redeem',
+        status: 'awaiting_signature',
+        amountSats,
+        btcAddress,
+        confirmations: 0,
+        requiredConfirmations: this.config.requiredConfirmations,
+        createdAt: now,
+        updatedAt: now,
+      },
+      transaction: Transaction.from(Buffer.from(response.transaction, 'base64')),
+    };
+  }
+
+  async submitRedeem(job: BridgeJob, signature: string): Promise<BridgeJob> {
+    await this.zeus(`/redeems/${encodeURIComponent(job.id)}/signature`, {
+      method: 'POST',
+      body: JSON.stringify({ signature }),
+    });
+    return { ...job, status: 'releasing', solanaSignature: signature, updatedAt: Date.now() };
+  }
+
+  async refreshJob(job: BridgeJob): Promise<BridgeJob> {
+    if (!isActiveBridgeJob(job)) return job;
+    return job.direction === 'deposit' ? this.refreshDeposit(job) : this.refreshRedeem(job);
+  }
+
+  private async refreshDeposit(job: BridgeJob): Promise<BridgeJob> {
+    let next = job;
+
+    if (next.status === 'awaiting_deposit') {
+      const payment = await this.findDepositTx(next);
+      if (!payment) {
+        return next.expiresAt && Date.now() > next.expiresAt
+          ? failBridgeJob(next, 'No deposit arrived before the address expired', 'expired')
+          : next;
+      }
+      if (payment.paid < BigInt(next.amountSats)) {
+        return failBridgeJob(
+          { ...next, btcTxid: payment.txid },
+          `Underpaid: received ${formatSats(payment.paid)} of ${formatSats(next.amountSats)} BTC`
+        );
+      }
+      next = { ...next, status: 'confirming', btcTxid: payment.txid, updatedAt: Date.now() };
+    }
+
+    if (next.status === 'confirming' && next.btcTxid) {
+      const confirmations = await this.getConfirmations(next.btcTxid);
+      next = { ...next, confirmations, updatedAt: Date.now() };
+      if (confirmations < next.requiredConfirmations) return next;
+      next = { ...next, status: 'minting' };
+    }
+
+    if (next.status === 'minting') {
+      const status = await this.zeus<ZeusDepositStatus>(`/deposits/${encodeURIComponent(next.id)}`);
+      if (status.status === 'failed') return failBridgeJob(next, status.error ?? 'Zeus could not mint zBTC');
+      if (status.status === 'minted') {
+        next = { ...next, status: 'completed', solanaSignature: status.mintSignature, updatedAt: Date.now() };
+      }
+    }
+
+    return next;
+  }
+
+  private async refreshRedeem(job: BridgeJob): Promise<BridgeJob> {
+    // Nothing happens until the burn is signed
+    if (job.status === 'awaiting_signature') return job;
+    let next = job;
+
+    if (next.status === 'releasing') {
+      const status = await this.zeus<ZeusRedeemStatus>(`/redeems/${encodeURIComponent(next.id)}`);
+      if (status.status === 'failed') return failBridgeJob(next, status.error ?? 'Zeus could not release BTC');
+      if (status.status !== 'broadcast' || !status.btcTxid) return next;
+      next = { ...next, status: 'confirming', btcTxid: status.btcTxid, updatedAt: Date.now() };
+    }
+
+    if (next.status === 'confirming' && next.btcTxid) {
+      const confirmations = await this.getConfirmations(next.btcTxid);
+      next = { ...next, confirmations, updatedAt: Date.now() };
+      if (confirmations >= next.requiredConfirmations) {
+        next = { ...next, status: 'completed' };
+      }
+    }
+
+    return next;
+  }
+
+  /**
+   * First transaction paying the deposit address at least the expected amount, else the
+   * largest one paying it less, so an underpayment is reported instead of waited out
+   */
+  private async findDepositTx(job: BridgeJob): Promise<DepositPayment | null> {
+    if (!job.depositAddress) return null;
+    const txs = await this.esplora<EsploraTx[]>(`/address/${job.depositAddress}/txs`);
+    const expected = BigInt(job.amountSats);
+    let best: DepositPayment | null = null;
+
+    for (const tx of txs) {
+      const paid = tx.vout
+        .filter(output => output.scriptpubkey_address === job.depositAddress)
+        .reduce((sum, output) => sum + BigInt(output.value), BigInt(0));
+      if (paid >= expected) return { txid: tx.txid, paid };
+      if (paid > BigInt(0) && (!best || paid > best.paid)) best = { txid: tx.txid, paid };
+    }
+    return best;
+  }
+
+  private async getConfirmations(txid: string): Promise<number> {
+    const status = await this.esplora<EsploraTxStatus>(`/tx/${txid}/status`);
+    if (!status.confirmed || status.block_height === undefined) return 0;
+
+    const tip = Number(await this.esploraText('/blocks/tip/height'));
+    return Math.max(0, tip - status.block_height + 1);
+  }
+
+  private async zeus<T>(path: string, init?: RequestInit): Promise<T> {
+    const response = await fetch(`${this.config.zeusApiUrl}${path}`, {
+      ...init,
+      headers: { 'Content-Type': 'application/json', ...init?.headers },
+    });
+    if (!response.ok) {
+      const body = await response.text().catch(() => '');
+      throw new BridgeError(`Zeus API error ${response.status}${body ? `: ${body}` : ''}`, response.status);
+    }
+    return response.json() as Promise<T>;
+  }
+
+  private async esplora<T>(path: string): Promise<T> {
+    return JSON.parse(await this.esploraText(path)) as T;
+  }
+
+  private async esploraText(path: string): Promise<string> {
+    const response = await fetch(`${this.config.esploraApiUrl}${path}`);
+    if (!response.ok) {
+      throw new BridgeError(`Bitcoin API error ${response.status}`, response.status);
+    }
+    return response.text();
+  }
+}
+
+// Time the mock spends on each step
+const MOCK_STEP_MS = 8000;
+
+function randomBytes(length: number): Uint8Array {
+  return Uint8Array.from({ length }, () => Math.floor(Math.random() * 256));
+}
+
+function randomHex(length: number): string {
+  return Array.from(randomBytes(length), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Local bridge with no network: jobs advance one step (or confirmation) every few
+ * seconds from their creation time, so a reloaded job resumes where it would be
+ */
+export class MockBridgeService implements BridgeService {
+  readonly name = 'mock';
+  readonly pollIntervalMs = 2000;
+
+  constructor(
+    readonly network: BridgeNetwork = 'testnet',
+    private readonly requiredConfirmations: number = DEFAULT_REQUIRED_CONFIRMATIONS[network],
+    private readonly stepMs: number = MOCK_STEP_MS
+  ) {}
+
+  async createDeposit({ wallet, amountSats }: CreateDepositParams): Promise<BridgeJob> {
+    const now = Date.now();
+    return {
+      id: newJobId(),
+      wallet,
+      provider: this.name,
+      network: this.network,
+      direction: 'deposit',
+      status: 'awaiting_deposit',
+      amountSats,
+      // Well-formed but regtest-only, so real coins can never be sent to it
+      depositAddress: encodeSegwitAddress('regtest', 0, randomBytes(20)),
+      confirmations: 0,
+      requiredConfirmations: this.requiredConfirmations,
+      createdAt: now,
+      updatedAt: now,
+      expiresAt: now + DEFAULT_DEPOSIT_TTL,
+    };
+  }
+
+  async createRedeem({ wallet, amountSats, btcAddress }: CreateRedeemParams): Promise<RedeemRequest> {
+    assertRedeemAddress(btcAddress, this.network);
+    const now = Date.now();
+    return {
+      job: {
+        id: newJobId(),
+        wallet,
+        provider: this.name,
+        network: this.network,
+        direction: 'redeem',
+        status: 'releasing',
+        amountSats,
+        btcAddress,
+        confirmations: 0,
+        requiredConfirmations: this.requiredConfirmations,
+        solanaSignature: `mock-burn-${randomHex(16)}`,
+        createdAt: now,
+        updatedAt: now,
+      },
+    };
+  }
+
+  async submitRedeem(job: BridgeJob, signature: string): Promise<BridgeJob> {
+    return { ...job, status: 'releasing', solanaSignature: signature, updatedAt: Date.now() };
+  }
+
+  async refreshJob(job: BridgeJob): Promise<BridgeJob> {
+    if (!isActiveBridgeJob(job) || job.status === 'awaiting_signature') return job;
+
+    // Deposit: wait, confirmations, mint. Redeem: release, confirmations.
+    const elapsed = Math.floor((Date.now() - job.createdAt) / this.stepMs);
+    const confirmationsFrom = 1;
+    const confirmations = Math.max(0, Math.min(elapsed - confirmationsFrom + 1, job.requiredConfirmations));
+    const doneAt = confirmationsFrom + job.requiredConfirmations + (job.direction === 'deposit' ? 1 : 0);
+    const btcTxid = job.btcTxid ?? (elapsed >= confirmationsFrom ? randomHex(32) : undefined);
+    const now = Date.now();
+
+    if (elapsed >= doneAt) {
+      return {
+        ...job,
+        status: 'completed',
+        btcTxid,
+        confirmations: job.requiredConfirmations,
+        solanaSignature: job.solanaSignature ?? `mock-mint-${randomHex(16)}`,
+        updatedAt: now,
+      };
+    }
+    if (elapsed < confirmationsFrom) return job;
+
+    const status: BridgeJobStatus = confirmations >= job.requiredConfirmations && job.direction === 'deposit'
+      ? 'minting'
+      : 'confirming';
+    return { ...job, status, btcTxid, confirmations, updatedAt: now };
+  }
+}
+
+/**
+ * Build the bridge service for a configuration
+ */
+export function createBridgeService(config: BridgeConfig = getBridgeConfig()): BridgeService {
+  if (config.provider === 'zeus') {
+    return new ZeusBridgeService(config);
+  }
+  return new MockBridgeService(config.network, config.requiredConfirmations);
+}
+
+let defaultService: BridgeService | null = null;
+
+/**
+ * Shared bridge service for the configured provider
+ */
+export function getBridgeService(): BridgeService {
+  if (!defaultService) {
+    defaultService = createBridgeService();
+  }
+  return defaultService;
+}
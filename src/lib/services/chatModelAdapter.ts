@@ -0,0 +1,166 @@
+// src/lib/services/chatModelAdapter.ts
+// Model adapters for the DLMM chat agent.
+// The Anthropic adapter is used in production; the mock adapter lets the agent loop run offline.
+
+import Anthropic from '@anthropic-ai/sdk';
+import {
+  DLMM_TOOLS,
+  buildAgentSystemPrompt,
+  parseToolUse,
+  type AgentResponse,
+  type AgentToolContext,
+  type DlmmToolCall,
+} from '@/lib/meteora/meteoraChatTools';
+import type { ChatMessage } from '@/lib/utils/validation';
+
+export interface ChatModelAdapter {
+  readonly name: string;
+  runAgent(messages: ChatMessage[], systemPrompt: string, context: AgentToolContext): Promise<AgentResponse>;
+}
+
+/**
+ * Adapter that lets Claude choose DLMM tools via the Anthropic tool-use API
+ */
+export class AnthropicModelAdapter implements ChatModelAdapter {
+  readonly name = 'anthropic';
+  private client: Anthropic;
+
+  constructor(apiKey: string, private model: string = 'claude-3-haiku-20240307') {
+    this.client = new Anthropic({ apiKey });
+  }
+
+  async runAgent(messages: ChatMessage[], systemPrompt: string, context: AgentToolContext): Promise<AgentResponse> {
+    const response = await this.client.messages.create({
+      model: this.model,
+      max_tokens: 1024,
+      system: `${systemPrompt} ${buildAgentSystemPrompt(context)}`,
+      messages: messages.map(msg => ({ role: msg.role, content: msg.content })),
+      tools: DLMM_TOOLS,
+    });
+
+    const textParts: string[] = [];
+    const toolCalls: DlmmToolCall[] = [];
+
+    for (const block of response.content) {
+      if (block.type === 'text') {
+        textParts.push(block.text);
+      } else if (block.type === 'tool_use') {
+        try {
+          toolCalls.push(parseToolUse(block.id, block.name, block.input));
+        } catch (error) {
+          // Surface invalid tool input to the user rather than executing a partial command
+          console.warn('Chat agent: Ignoring invalid tool call', block.name, error instanceof Error ? error.message : error);
+          textParts.push(`I couldn't prepare the ${block.name.replace(/_/g, ' ')} action: ${error instanceof Error ? error.message : 'invalid input'}.`);
+        }
+      }
+    }
+
+    return {
+      message: textParts.join('\n\n').trim(),
+      toolCalls,
+    };
+  }
+}
+
+/**
+ * Deterministic offline adapter that maps common phrasings to tool calls.
+ * Enable with CHAT_MODEL_ADAPTER=mock to exercise the agent loop without an API key.
+ */
+export class MockModelAdapter implements ChatModelAdapter {
+  readonly name = 'mock';
+  private callCount = 0;
+
+  async runAgent(messages: ChatMessage[], _systemPrompt: string, context: AgentToolContext): Promise<AgentResponse> {
+    const lastUserMessage = [...messages].reverse().find(msg => msg.role === 'user');
+    const call = this.matchToolCall(lastUserMessage?.content || '', context);
+
+    if (!call) {
+      return {
+        message: 'Mock agent: no DLMM action recognised. Try "show my positions" or "put half my zBTC into the 10bp pool".',
+        toolCalls: [],
+      };
+    }
+
+    return {
+      message: `Mock agent: preparing ${call.name.replace(/_/g, ' ')}.`,
+      toolCalls: [call],
+    };
+  }
+
+  private nextId(): string {
+    this.callCount += 1;
+    return `mock_tool_${this.callCount}`;
+  }
+
+  private matchToolCall(content: string, context: AgentToolContext): DlmmToolCall | null {
+    // Base58 addresses are case-sensitive, so extract them before lowercasing
+    const positionId = content.match(/\b([1-9A-HJ-NP-Za-km-z]{32,44})\b/)?.[1];
+    const text = content.toLowerCase();
+    const percentMatch = text.match(/(\d+(?:\.\d+)?)\s*%/);
+    const percentage = /\bhalf\b/.test(text) ? 50 : /\ball\b/.test(text) ? 100 : percentMatch ? parseFloat(percentMatch[1]) : undefined;
+
+    if (/\b(pools?)\b/.test(text) && /\b(list|show|get|available)\b/.test(text) && !/\b(put|add|deposit)\b/.test(text)) {
+      return parseToolUse(this.nextId(), 'get_pools', {});
+    }
+
+    if (/\bpositions?\b/.test(text) && /\b(show|list|get|my|view)\b/.test(text) && !positionId) {
+      return parseToolUse(this.nextId(), 'get_positions', {});
+    }
+
+    if (/\b(put|add|deposit|provide)\b/.test(text)) {
+      const amountMatch = text.match(/(\d+(?:\.\d+)?)\s*(zbtc|wbtc|cbbtc|sol|usdc)\b/);
+      const tokenMatch = text.match(/\b(zbtc|wbtc|cbbtc)\b/);
+      const pairMatch = text.match(/\b(zbtc|wbtc|cbbtc|sol|usdc)-(zbtc|wbtc|cbbtc|sol|usdc)\b/);
+      const binStep = text.match(/(\d+)\s*(?:bp|bps|bin step)\b/)?.[1];
+      // The token with an amount is the one deposited, e.g. "add 100 USDC to zBTC-USDC"
+      const token = amountMatch?.[2] || tokenMatch?.[1] || 'zbtc';
+      const pair = pairMatch?.[0] || `${token}-sol`;
+      const knownPool = context.knownPools?.find(pool =>
+        pool.name.toLowerCase() === pair && (!binStep || pool.binStep === binStep)
+      );
+
+      return parseToolUse(this.nextId(), 'add_liquidity', {
+        pool_address: knownPool?.address,
+        pair,
+        bin_step: binStep,
+        amount: amountMatch && !percentMatch ? amountMatch[1] : undefined,
+        balance_percentage: amountMatch && !percentMatch ? undefined : percentage ?? 100,
+        token,
+      });
+    }
+
+    if (positionId && /\b(remove|withdraw)\b/.test(text)) {
+      return parseToolUse(this.nextId(), 'remove_liquidity', { position_id: positionId, percentage: percentage ?? 100 });
+    }
+
+    if (positionId && /\b(claim|collect)\b/.test(text)) {
+      return parseToolUse(this.nextId(), 'claim_fees', { position_id: positionId });
+    }
+
+    if (positionId && /\bclose\b/.test(text)) {
+      return parseToolUse(this.nextId(), 'close_position', { position_id: positionId });
+    }
+
+    const swapMatch = text.match(/swap\s+(\d+(?:\.\d+)?)\s+(\w+)\s+(?:to|for)\s+(\w+)/);
+    if (swapMatch) {
+      return parseToolUse(this.nextId(), 'swap', { amount: swapMatch[1], from_token: swapMatch[2], to_token: swapMatch[3] });
+    }
+
+    return null;
+  }
+}
+
+/**
+ * Select the chat model adapter from configuration (CHAT_MODEL_ADAPTER=anthropic|mock)
+ */
+export function createChatModelAdapter(apiKey: string | undefined): ChatModelAdapter {
+  if (process.env.CHAT_MODEL_ADAPTER === 'mock') {
+    return new MockModelAdapter();
+  }
+
+  if (!apiKey) {
+    throw new Error('ANTHROPIC_API_KEY is required unless CHAT_MODEL_ADAPTER=mock');
+  }
+
+  return new AnthropicModelAdapter(apiKey);
+}
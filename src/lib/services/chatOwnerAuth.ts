@@ -0,0 +1,217 @@
+// src/lib/services/chatOwnerAuth.ts
+// Proves who owns a chat session. Every browser gets an anonymous id, and a wallet is added by
+// signing a one-time challenge. Both live in an HMAC-signed httpOnly cookie, so the session API
+// derives the owner on the server and never takes it from the request.
+
+import { createHmac, createPublicKey, randomBytes, randomUUID, timingSafeEqual, verify } from 'crypto';
+import { PublicKey } from '@solana/web3.js';
+import type { ChatAuthChallenge, ChatSessionOwner } from '@/lib/api/chatSessions';
+
+export const CHAT_OWNER_COOKIE = 'hypebiscus_chat_owner';
+
+const CHALLENGE_TTL_MS = 5 * 60 * 1000; // 5 minutes
+const OWNER_TOKEN_TTL_MS = 30 * 24 * 60 * 60 * 1000; // 30 days
+
+// Cookie contents: the browser's anonymous id, plus the wallet it proved it holds
+interface OwnerClaims {
+  anonymousId: string;
+  wallet?: string;
+  exp: number;
+}
+
+interface ChallengeClaims {
+  wallet: string;
+  nonce: string;
+  exp: number;
+}
+
+// No valid sign-in cookie, or a challenge that does not check out
+export class ChatAuthError extends Error {
+  constructor(message: string = 'Sign in to access chat sessions') {
+    super(message);
+    this.name = 'ChatAuthError';
+  }
+}
+
+let devSecret: string | null = null;
+
+/**
+ * Key for signing cookies and challenges. Required in production; development falls back to
+ * a per-process key, which signs everyone out on restart.
+ */
+function getAuthSecret(): string {
+  const secret = process.env.CHAT_SESSION_SECRET;
+  if (secret) return secret;
+
+  if (process.env.NODE_ENV === 'production') {
+    throw new Error('CHAT_SESSION_SECRET must be set to sign chat session cookies');
+  }
+  if (!devSecret) {
+    console.warn('CHAT_SESSION_SECRET is not set; using a temporary key');
+    devSecret = randomBytes(32).toString('hex');
+  }
+  return devSecret;
+}
+
+function sign(payload: string): string {
+  return createHmac('sha256', getAuthSecret()).update(payload).digest('base64url');
+}
+
+// base64url(JSON).signature
+function encodeToken(claims: object): string {
+  const payload = Buffer.from(JSON.stringify(claims)).toString('base64url');
+  return `${payload}.${sign(payload)}`;
+}
+
+function decodeToken<T extends { exp: number }>(token: string, now: number): T | null {
+  const [payload, signature] = token.split('.');
+  if (!payload || !signature) return null;
+
+  const expected = Buffer.from(sign(payload));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) return null;
+
+  try {
+    const claims = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8')) as T;
+    return typeof claims.exp === 'number' && claims.exp > now ? claims : null;
+  } catch {
+    return null;
+  }
+}
+
+function challengeMessage(wallet: string, nonce: string, exp: number): string {
+  return [
+    'Sign in to Hypebiscus chat',
+    '',
+    'This proves you own this wallet so your chat history stays private. It does not send a transaction.',
+    '',
+    `Wallet: ${wallet}`,
+    `Nonce: ${nonce}`,
+    `Expires: ${new Date(exp).toISOString()}`,
+  ].join('\n');
+}
+
+/**
+ * One-time message for a wallet to sign
+ */
+export function createWalletChallenge(wallet: string, now: number = Date.now()): ChatAuthChallenge {
+  const exp = now + CHALLENGE_TTL_MS;
+  const claims: ChallengeClaims = { wallet, nonce: randomBytes(16).toString('hex'), exp };
+  return {
+    challenge: encodeToken(claims),
+    message: challengeMessage(wallet, claims.nonce, exp),
+    expiresAt: new Date(exp).toISOString(),
+  };
+}
+
+// Challenges already exchanged for a cookie, until they expire
+const usedNonces = new Map<string, number>();
+
+function consumeNonce(nonce: string, exp: number, now: number): boolean {
+  for (const [used, usedExp] of usedNonces) {
+    if (usedExp <= now) usedNonces.delete(used);
+  }
+  if (usedNonces.has(nonce)) return false;
+  usedNonces.set(nonce, exp);
+  return true;
+}
+
+function verifyEd25519(wallet: string, message: string, signature: Buffer): boolean {
+  try {
+    const key = createPublicKey({
+      key: { kty: 'OKP', crv: 'Ed25519', x: Buffer.from(new PublicKey(wallet).toBytes()).toString('base64url') },
+      format: 'jwk',
+    });
+    return verify(null, Buffer.from(message, 'utf8'), key, signature);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Check a signed challenge; returns the wallet it proves. Each challenge works once.
+ */
+export function verifyWalletChallenge(
+  wallet: string,
+  challenge: string,
+  signatureBase64: string,
+  now: number = Date.now()
+): string {
+  const claims = decodeToken<ChallengeClaims>(challenge, now);
+  if (!claims || claims.wallet !== wallet) {
+    throw new ChatAuthError('The sign-in challenge is invalid or has expired');
+  }
+
+  const message = challengeMessage(claims.wallet, claims.nonce, claims.exp);
+  if (!verifyEd25519(wallet, message, Buffer.from(signatureBase64, 'base64'))) {
+    throw new ChatAuthError('The wallet signature does not match');
+  }
+  if (!consumeNonce(claims.nonce, claims.exp, now)) {
+    throw new ChatAuthError('The sign-in challenge was already used');
+  }
+  return wallet;
+}
+
+function readCookie(request: Request, name: string): string | null {
+  const header = request.headers.get('cookie');
+  if (!header) return null;
+  for (const part of header.split(';')) {
+    const [key, ...value] = part.trim().split('=');
+    if (key === name) return value.join('=');
+  }
+  return null;
+}
+
+function readClaims(request: Request, now: number): OwnerClaims | null {
+  const token = readCookie(request, CHAT_OWNER_COOKIE);
+  return token ? decodeToken<OwnerClaims>(token, now) : null;
+}
+
+function ownerFromClaims(claims: OwnerClaims): ChatSessionOwner {
+  return claims.wallet
+    ? { id: claims.wallet, type: 'wallet' }
+    : { id: claims.anonymousId, type: 'anonymous' };
+}
+
+/**
+ * Owner proven by the request's cookie
+ */
+export function requireChatOwner(request: Request, now: number = Date.now()): ChatSessionOwner {
+  const claims = readClaims(request, now);
+  if (!claims) throw new ChatAuthError();
+  return ownerFromClaims(claims);
+}
+
+export interface OwnerSignIn {
+  owner: ChatSessionOwner;
+  // Set-Cookie header value carrying the (renewed) claims
+  cookie: string;
+}
+
+function ownerCookie(claims: OwnerClaims, now: number): string {
+  const maxAge = Math.floor((claims.exp - now) / 1000);
+  const secure = process.env.NODE_ENV === 'production' ? '; Secure' : '';
+  return `${CHAT_OWNER_COOKIE}=${encodeToken(claims)}; Path=/api/chat; HttpOnly; SameSite=Strict; Max-Age=${maxAge}${secure}`;
+}
+
+/**
+ * Keep the browser's anonymous id and set (or, with null, drop) the proven wallet
+ */
+export function signInOwner(request: Request, wallet: string | null, now: number = Date.now()): OwnerSignIn {
+  const claims: OwnerClaims = {
+    anonymousId: readClaims(request, now)?.anonymousId ?? randomUUID(),
+    ...(wallet && { wallet }),
+    exp: now + OWNER_TOKEN_TTL_MS,
+  };
+  return { owner: ownerFromClaims(claims), cookie: ownerCookie(claims, now) };
+}
+
+/**
+ * Current owner, issuing an anonymous id to browsers that have none
+ */
+export function currentOwner(request: Request, now: number = Date.now()): OwnerSignIn {
+  const claims = readClaims(request, now);
+  return claims
+    ? { owner: ownerFromClaims(claims), cookie: ownerCookie({ ...claims, exp: now + OWNER_TOKEN_TTL_MS }, now) }
+    : signInOwner(request, null, now);
+}
@@ -0,0 +1,238 @@
+// src/lib/services/chatSessionStore.ts
+// Server-side storage for chat sessions.
+// Backends are pluggable via CHAT_SESSION_STORE (file | memory); file is the default.
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { ChatSession, ChatSessionUpdate } from '@/lib/api/chatSessions';
+
+export interface ChatSessionStore {
+  getSession(ownerId: string, sessionId: string): Promise<ChatSession | null>;
+  listSessions(ownerId: string): Promise<ChatSession[]>;
+  saveSession(sessionId: string, update: ChatSessionUpdate): Promise<ChatSession>;
+  deleteSession(ownerId: string, sessionId: string): Promise<boolean>;
+}
+
+// Sessions are only ever read back by their owner
+export class ChatSessionOwnershipError extends Error {
+  constructor(message: string = 'Session belongs to a different owner') {
+    super(message);
+    this.name = 'ChatSessionOwnershipError';
+  }
+}
+
+function buildSession(sessionId: string, update: ChatSessionUpdate, existing: ChatSession | null): ChatSession {
+  const now = new Date().toISOString();
+  return {
+    id: sessionId,
+    ownerId: update.ownerId,
+    ownerType: update.ownerType,
+    messages: update.messages,
+    shownPoolAddresses: update.shownPoolAddresses,
+    portfolioStyle: update.portfolioStyle,
+    createdAt: existing?.createdAt || now,
+    updatedAt: now,
+  };
+}
+
+function sortByUpdatedAt(sessions: ChatSession[]): ChatSession[] {
+  return sessions.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+}
+
+/**
+ * In-memory store - useful for development and tests, lost on restart
+ */
+export class MemoryChatSessionStore implements ChatSessionStore {
+  private sessions: Map<string, ChatSession> = new Map();
+
+  async getSession(ownerId: string, sessionId: string): Promise<ChatSession | null> {
+    const session = this.sessions.get(sessionId);
+    return session && session.ownerId === ownerId ? session : null;
+  }
+
+  async listSessions(ownerId: string): Promise<ChatSession[]> {
+    return sortByUpdatedAt([...this.sessions.values()].filter(session => session.ownerId === ownerId));
+  }
+
+  async saveSession(sessionId: string, update: ChatSessionUpdate): Promise<ChatSession> {
+    const existing = this.sessions.get(sessionId) || null;
+    if (existing && existing.ownerId !== update.ownerId) {
+      throw new ChatSessionOwnershipError();
+    }
+
+    const session = buildSession(sessionId, update, existing);
+    this.sessions.set(sessionId, session);
+    return session;
+  }
+
+  async deleteSession(ownerId: string, sessionId: string): Promise<boolean> {
+    const existing = this.sessions.get(sessionId);
+    if (!existing || existing.ownerId !== ownerId) {
+      return false;
+    }
+    return this.sessions.delete(sessionId);
+  }
+}
+
+/**
+ * JSON file store - one directory per owner, one file per session.
+ * Assumes a single server process owns baseDir: the owner index and write queue live in memory.
+ */
+export class FileChatSessionStore implements ChatSessionStore {
+  constructor(private baseDir: string) {}
+
+  private ownerDir(ownerId: string): string {
+    return path.join(this.baseDir, ownerId);
+  }
+
+  private sessionPath(ownerId: string, sessionId: string): string {
+    return path.join(this.ownerDir(ownerId), `${sessionId}.json`);
+  }
+
+  async getSession(ownerId: string, sessionId: string): Promise<ChatSession | null> {
+    try {
+      const raw = await fs.readFile(this.sessionPath(ownerId, sessionId), 'utf8');
+      return JSON.parse(raw) as ChatSession;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async listSessions(ownerId: string): Promise<ChatSession[]> {
+    let files: string[];
+    try {
+      files = await fs.readdir(this.ownerDir(ownerId));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+
+    const sessions = await Promise.all(
+      files
+        .filter(file => file.endsWith('.json'))
+        .map(file => this.getSession(ownerId, file.replace(/\.json$/, '')))
+    );
+
+    return sortByUpdatedAt(sessions.filter((session): session is ChatSession => session !== null));
+  }
+
+  // sessionId -> owner, built once from the directory layout and kept current by saves and deletes
+  private owners: Promise<Map<string, string>> | null = null;
+  // Saves and deletes run one at a time so the ownership check and the write can't interleave
+  private writes: Promise<unknown> = Promise.resolve();
+
+  private ownerIndex(): Promise<Map<string, string>> {
+    if (!this.owners) {
+      this.owners = this.loadOwnerIndex().catch(error => {
+        this.owners = null;
+        throw error;
+      });
+    }
+    return this.owners;
+  }
+
+  private async loadOwnerIndex(): Promise<Map<string, string>> {
+    const index = new Map<string, string>();
+    let owners: string[];
+    try {
+      const entries = await fs.readdir(this.baseDir, { withFileTypes: true });
+      owners = entries.filter(entry => entry.isDirectory()).map(entry => entry.name);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return index;
+      }
+      throw error;
+    }
+
+    for (const ownerId of owners) {
+      for (const file of await fs.readdir(this.ownerDir(ownerId))) {
+        if (file.endsWith('.json')) {
+          index.set(file.replace(/\.json$/, ''), ownerId);
+        }
+      }
+    }
+    return index;
+  }
+
+  private exclusive<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.writes.then(task);
+    this.writes = result.catch(() => undefined);
+    return result;
+  }
+
+  async saveSession(sessionId: string, update: ChatSessionUpdate): Promise<ChatSession> {
+    return this.exclusive(async () => {
+      const index = await this.ownerIndex();
+      const existingOwner = index.get(sessionId);
+      if (existingOwner && existingOwner !== update.ownerId) {
+        throw new ChatSessionOwnershipError();
+      }
+
+      const existing = existingOwner ? await this.getSession(existingOwner, sessionId) : null;
+      const session = buildSession(sessionId, update, existing);
+
+      await fs.mkdir(this.ownerDir(update.ownerId), { recursive: true });
+
+      // Write to a temp file first so a crash never leaves a half-written session
+      const target = this.sessionPath(update.ownerId, sessionId);
+      const tempFile = `${target}.${process.pid}.tmp`;
+      await fs.writeFile(tempFile, JSON.stringify(session), 'utf8');
+      await fs.rename(tempFile, target);
+
+      index.set(sessionId, update.ownerId);
+      return session;
+    });
+  }
+
+  async deleteSession(ownerId: string, sessionId: string): Promise<boolean> {
+    return this.exclusive(async () => {
+      const index = await this.ownerIndex();
+      try {
+        await fs.unlink(this.sessionPath(ownerId, sessionId));
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+          return false;
+        }
+        throw error;
+      }
+
+      if (index.get(sessionId) === ownerId) {
+        index.delete(sessionId);
+      }
+      return true;
+    });
+  }
+}
+
+let storeInstance: ChatSessionStore | null = null;
+
+/**
+ * Get the configured chat session store (singleton per server process)
+ */
+export function getChatSessionStore(): ChatSessionStore {
+  if (storeInstance) {
+    return storeInstance;
+  }
+
+  const backend = process.env.CHAT_SESSION_STORE || 'file';
+
+  switch (backend) {
+    case 'memory':
+      storeInstance = new MemoryChatSessionStore();
+      break;
+    case 'file':
+      storeInstance = new FileChatSessionStore(
+        process.env.CHAT_SESSION_DIR || path.join(process.cwd(), '.data', 'chat-sessions')
+      );
+      break;
+    default:
+      throw new Error(`Unknown CHAT_SESSION_STORE backend: ${backend}`);
+  }
+
+  return storeInstance;
+}
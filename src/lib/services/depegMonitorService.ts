@@ -0,0 +1,328 @@
+// src/lib/services/depegMonitorService.ts
+// Tracks each wrapped BTC token's price against a BTC reference and flags depeg excursions.
+// Prices come from a pluggable provider picked by NEXT_PUBLIC_BTC_PRICE_PROVIDER (live | mock),
+// so alerts can be exercised without waiting for a real depeg.
+
+import type { AnalysisRiskTier } from '@/lib/api/chatStream';
+import {
+  resolvePairTokens,
+  tokenRiskTier,
+  TOKEN_REGISTRY,
+  type PairLike,
+  type TokenRegistryEntry,
+} from '@/lib/utils/tokenRegistry';
+import { getPriceOracle } from './priceOracleService';
+
+export type PegStatus = 'pegged' | 'watch' | 'depegged';
+
+export interface BtcPriceQuotes {
+  referenceUsd: number;
+  // Where the reference came from, e.g. 'coinbase' or 'median'
+  referenceSource: string;
+  // USD price per token mint; tokens without a quote are left out
+  tokenUsd: Record<string, number>;
+}
+
+export interface BtcPriceProvider {
+  readonly name: string;
+  fetchQuotes(tokens: TokenRegistryEntry[]): Promise<BtcPriceQuotes>;
+}
+
+export interface DepegThresholds {
+  // Deviation from the reference, in basis points, that puts a token on watch
+  watchBps: number;
+  // Deviation that counts as a depeg
+  depegBps: number;
+}
+
+export type BtcPriceProviderKind = 'live' | 'mock';
+
+export interface DepegMonitorConfig {
+  provider: BtcPriceProviderKind;
+  thresholds: DepegThresholds;
+  referenceUrl: string;
+  // Mock provider only: price ratio per symbol, e.g. { zBTC: 0.97 }
+  mockRatios: Record<string, number>;
+}
+
+export interface TokenPegCheck {
+  symbol: string;
+  mint: string;
+  priceUsd: number;
+  // Token price / reference price
+  ratio: number;
+  // Signed: negative when the token trades below the reference
+  deviationBps: number;
+  status: PegStatus;
+}
+
+export interface PegReport {
+  referenceUsd: number;
+  referenceSource: string;
+  thresholds: DepegThresholds;
+  checkedAt: number;
+  tokens: TokenPegCheck[];
+}
+
+// Coinbase spot price, shape { data: { amount: "104210.55" } }
+const DEFAULT_REFERENCE_URL = 'https://api.coinbase.com/v2/prices/BTC-USD/spot';
+const DEFAULT_THRESHOLDS: DepegThresholds = { watchBps: 50, depegBps: 200 };
+const MOCK_REFERENCE_USD = 100000;
+const PROVIDER_KINDS: BtcPriceProviderKind[] = ['live', 'mock'];
+
+const REPORT_CACHE_TTL = 60 * 1000; // 1 minute
+
+function parseBps(value: string | undefined, fallback: number): number {
+  const parsed = Number(value);
+  return value && Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+// "zBTC:0.97,WBTC:0.999"
+function parseMockRatios(value: string | undefined): Record<string, number> {
+  const ratios: Record<string, number> = {};
+  for (const entry of (value || '').split(',')) {
+    const [symbol, ratio] = entry.split(':').map(part => part.trim());
+    const parsed = Number(ratio);
+    if (symbol && Number.isFinite(parsed) && parsed > 0) {
+      ratios[symbol.toLowerCase()] = parsed;
+    }
+  }
+  return ratios;
+}
+
+/**
+ * Read the depeg monitor configuration from the environment
+ */
+export function getDepegMonitorConfig(): DepegMonitorConfig {
+  const kind = process.env.NEXT_PUBLIC_BTC_PRICE_PROVIDER as BtcPriceProviderKind | undefined;
+  const watchBps = parseBps(process.env.NEXT_PUBLIC_DEPEG_WATCH_BPS, DEFAULT_THRESHOLDS.watchBps);
+  const depegBps = parseBps(process.env.NEXT_PUBLIC_DEPEG_ALERT_BPS, DEFAULT_THRESHOLDS.depegBps);
+
+  return {
+    provider: kind && PROVIDER_KINDS.includes(kind) ? kind : 'live',
+    thresholds: { watchBps: Math.min(watchBps, depegBps), depegBps },
+    referenceUrl: process.env.NEXT_PUBLIC_BTC_REFERENCE_URL || DEFAULT_REFERENCE_URL,
+    mockRatios: parseMockRatios(process.env.NEXT_PUBLIC_DEPEG_MOCK_RATIOS),
+  };
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+/**
+ * Token prices from the price oracle against an exchange BTC spot price. Stale oracle prices
+ * are left out so an old quote cannot raise an alert. Falls back to the median token price
+ * when the spot feed is down.
+ */
+export class LiveBtcPriceProvider implements BtcPriceProvider {
+  readonly name = 'live';
+
+  constructor(private readonly referenceUrl: string = DEFAULT_REFERENCE_URL) {}
+
+  async fetchQuotes(tokens: TokenRegistryEntry[]): Promise<BtcPriceQuotes> {
+    const tokenUsd: Record<string, number> = {};
+    const oraclePrices = await getPriceOracle().getPrices(tokens.map(token => token.mint));
+    for (const token of tokens) {
+      const price = oraclePrices[token.mint];
+      if (price && !price.stale) {
+        tokenUsd[token.mint] = price.usd;
+      } else {
+        console.warn(`No recent price for ${token.symbol}`);
+      }
+    }
+
+    const spot = await this.fetchReference().catch((error) => {
+      console.warn('BTC reference price unavailable, using the median token price:', error);
+      return null;
+    });
+    if (spot) {
+      return { referenceUsd: spot, referenceSource: 'coinbase', tokenUsd };
+    }
+
+    const prices = Object.values(tokenUsd);
+    if (prices.length < 2) {
+      throw new Error('Not enough BTC prices to check pegs');
+    }
+    return { referenceUsd: median(prices), referenceSource: 'median', tokenUsd };
+  }
+
+  private async fetchReference(): Promise<number> {
+    const response = await fetch(this.referenceUrl);
+    if (!response.ok) {
+      throw new Error(`Failed to fetch the BTC reference price (${response.status})`);
+    }
+
+    const body: { data?: { amount?: string } } = await response.json();
+    const amount = Number(body.data?.amount);
+    if (!Number.isFinite(amount) || amount <= 0) {
+      throw new Error('BTC reference price response is malformed');
+    }
+    return amount;
+  }
+}
+
+/**
+ * Fixed prices at a given ratio to a fixed reference; every token sits on its peg unless
+ * given a ratio (keys are symbols, case-insensitive)
+ */
+export class MockBtcPriceProvider implements BtcPriceProvider {
+  readonly name = 'mock';
+
+  constructor(
+    private readonly ratios: Record<string, number> = {},
+    private readonly referenceUsd: number = MOCK_REFERENCE_USD
+  ) {}
+
+  async fetchQuotes(tokens: TokenRegistryEntry[]): Promise<BtcPriceQuotes> {
+    const ratioFor = (symbol: string) => {
+      const entry = Object.entries(this.ratios).find(([key]) => key.toLowerCase() === symbol.toLowerCase());
+      return entry ? entry[1] : 1;
+    };
+
+    return {
+      referenceUsd: this.referenceUsd,
+      referenceSource: 'mock',
+      tokenUsd: Object.fromEntries(tokens.map(token => [token.mint, this.referenceUsd * ratioFor(token.symbol)])),
+    };
+  }
+}
+
+/**
+ * Build a provider for a configuration
+ */
+export function createBtcPriceProvider(config: DepegMonitorConfig = getDepegMonitorConfig()): BtcPriceProvider {
+  return config.provider === 'mock'
+    ? new MockBtcPriceProvider(config.mockRatios)
+    : new LiveBtcPriceProvider(config.referenceUrl);
+}
+
+let activeProvider: BtcPriceProvider | null = null;
+
+export function getBtcPriceProvider(): BtcPriceProvider {
+  if (!activeProvider) {
+    activeProvider = createBtcPriceProvider();
+  }
+  return activeProvider;
+}
+
+/**
+ * Replace the shared provider (e.g. with a mock in tests); pass null to reset to config
+ */
+export function setBtcPriceProvider(provider: BtcPriceProvider | null): void {
+  activeProvider = provider;
+  cachedReport = null;
+}
+
+/**
+ * Peg status for a price ratio; a premium counts the same as a discount
+ */
+export function classifyPeg(ratio: number, thresholds: DepegThresholds = DEFAULT_THRESHOLDS): PegStatus {
+  const deviation = Math.abs(ratio - 1) * 10000;
+  if (deviation >= thresholds.depegBps) return 'depegged';
+  if (deviation >= thresholds.watchBps) return 'watch';
+  return 'pegged';
+}
+
+/**
+ * Compare every wrapped BTC token in the registry against the reference
+ */
+export async function buildPegReport(
+  provider: BtcPriceProvider,
+  thresholds: DepegThresholds,
+  now: number = Date.now()
+): Promise<PegReport> {
+  const btcTokens = TOKEN_REGISTRY.filter(token => token.category === 'btc');
+  const quotes = await provider.fetchQuotes(btcTokens);
+
+  const tokens = btcTokens
+    .filter(token => quotes.tokenUsd[token.mint] !== undefined)
+    .map(token => {
+      const priceUsd = quotes.tokenUsd[token.mint];
+      const ratio = priceUsd / quotes.referenceUsd;
+      return {
+        symbol: token.symbol,
+        mint: token.mint,
+        priceUsd,
+        ratio,
+        deviationBps: Math.round((ratio - 1) * 10000),
+        status: classifyPeg(ratio, thresholds),
+      };
+    });
+
+  return {
+    referenceUsd: quotes.referenceUsd,
+    referenceSource: quotes.referenceSource,
+    thresholds,
+    checkedAt: now,
+    tokens,
+  };
+}
+
+let cachedReport: { value: Promise<PegReport>; timestamp: number } | null = null;
+
+/**
+ * Current peg report from the configured provider, cached briefly and shared by all callers
+ */
+export function checkBtcPegs(): Promise<PegReport> {
+  if (cachedReport && Date.now() - cachedReport.timestamp < REPORT_CACHE_TTL) {
+    return cachedReport.value;
+  }
+
+  const value = buildPegReport(getBtcPriceProvider(), getDepegMonitorConfig().thresholds);
+  const entry = { value, timestamp: Date.now() };
+  cachedReport = entry;
+  // Failures are not cached
+  value.catch(() => {
+    if (cachedReport === entry) cachedReport = null;
+  });
+  return value;
+}
+
+/**
+ * Off-peg tokens among the given mints (e.g. a pool's or a position's two tokens)
+ */
+export function pegAlertsForMints(mints: string[], report: PegReport | null | undefined): TokenPegCheck[] {
+  if (!report) return [];
+  return report.tokens.filter(check => check.status !== 'pegged' && mints.includes(check.mint));
+}
+
+export function pegAlertsForPool(pool: PairLike, report: PegReport | null | undefined): TokenPegCheck[] {
+  const tokens = resolvePairTokens(pool);
+  return tokens ? pegAlertsForMints([tokens.x.mint, tokens.y.mint], report) : [];
+}
+
+/**
+ * Pool risk tier: the custody risk of its tokens, raised while one of them is off its peg
+ */
+export function poolRiskTier(pool: PairLike, report?: PegReport | null): AnalysisRiskTier {
+  const base = tokenRiskTier(pool);
+  const alerts = pegAlertsForPool(pool, report);
+
+  if (alerts.some(alert => alert.status === 'depegged')) return 'high';
+  if (alerts.length > 0) return base === 'low' ? 'moderate' : 'high';
+  return base;
+}
+
+/**
+ * Caveat to show while the BTC reference is down and pegs are measured against the median
+ * token price (only a token drifting from the others can be caught); null otherwise
+ */
+export function describePegReference(report: PegReport | null | undefined): string | null {
+  return report?.referenceSource === 'median'
+    ? 'The BTC reference price is unavailable, so pegs are checked against the median wrapped BTC price and a depeg shared by most tokens would go unnoticed.'
+    : null;
+}
+
+/**
+ * One line per off-peg token, for chat messages and toasts
+ */
+export function describePegAlert(check: TokenPegCheck): string {
+  const percent = (Math.abs(check.deviationBps) / 100).toFixed(2);
+  const direction = check.deviationBps < 0 ? 'below' : 'above';
+  return check.status === 'depegged'
+    ? `${check.symbol} has depegged: it trades ${percent}% ${direction} BTC.`
+    : `${check.symbol} is drifting from its peg: ${percent}% ${direction} BTC.`;
+}
@@ -1,6 +1,7 @@
 // src/lib/services/existingRangeService.ts
 import { Connection } from '@solana/web3.js';
 import { MeteoraDlmmService } from '@/lib/meteora/meteoraDlmmService';
+import { BinArrayIndexer, binsInRange } from '@/lib/meteora/binArrayIndexer';
 
 interface ExistingRange {
   minBinId: number;
@@ -28,15 +29,16 @@ interface DLMMPool {
     xAmount: string;
     yAmount: string;
   }>;
-  getBin(binId: number): Promise<unknown>;
   [key: string]: unknown;
 }
 
 export class ExistingRangeService {
   private dlmmService: MeteoraDlmmService;
+  private binArrayIndexer: BinArrayIndexer;
 
   constructor(connection: Connection) {
     this.dlmmService = new MeteoraDlmmService(connection);
+    this.binArrayIndexer = new BinArrayIndexer(connection);
   }
 
   /**
@@ -66,7 +68,8 @@ export class ExistingRangeService {
   }
 
   /**
-   * Get all positions in a pool (sample approach)
+   * Common ranges around the active bin that already hold liquidity, with their
+   * on-chain depth (raw token Y units)
    */
   private async getPoolPositions(poolAddress: string): Promise<Array<{
     minBinId: number;
@@ -75,74 +78,39 @@ export class ExistingRangeService {
   }>> {
     try {
       const pool = await this.dlmmService.initializePool(poolAddress);
-      const typedPool = pool as unknown as DLMMPool;
-      
-      // Method 1: Try to get positions from program accounts
-      // This is a simplified approach - in production you'd use more sophisticated querying
-      
-      // For now, we'll use a heuristic approach by checking common ranges
-      // around the active bin that are likely to exist
-      const activeBin = await typedPool.getActiveBin();
+      const binIndex = await this.binArrayIndexer.getPoolBins(pool);
       const commonRanges = [];
-      
+
       // Check popular range patterns
       const popularWidths = [3, 5, 7, 10, 15, 20];
-      
+
       for (const width of popularWidths) {
         for (let offset = -5; offset <= 5; offset++) {
-          const centerBin = activeBin.binId + offset;
+          const centerBin = binIndex.activeBinId + offset;
           const minBin = centerBin - width;
           const maxBin = centerBin + width;
-          
-          // Check if this range has existing liquidity/bins
-          const hasLiquidity = await this.checkRangeHasLiquidity(typedPool, minBin, maxBin);
-          
-          if (hasLiquidity) {
+
+          // Every bin must sit in an existing bin array, and the range must hold liquidity
+          const bins = binsInRange(binIndex, minBin, maxBin);
+          const liquidity = bins.reduce((total, bin) => total + bin.liquidity, 0);
+
+          if (bins.length === maxBin - minBin + 1 && liquidity > 0) {
             commonRanges.push({
               minBinId: minBin,
               maxBinId: maxBin,
-              liquidity: Math.random() * 1000000 // Placeholder - would get real data
+              liquidity
             });
           }
         }
       }
-      
+
       return commonRanges;
-    } catch {
-      // Remove unused error parameter
-      console.error('Error getting pool positions');
+    } catch (error) {
+      console.error('Error getting pool positions:', error);
       return [];
     }
   }
 
-  /**
-   * Check if a range has existing liquidity (indicates existing binArrays)
-   */
-  private async checkRangeHasLiquidity(pool: DLMMPool, minBinId: number, maxBinId: number): Promise<boolean> {
-    try {
-      // Try to get bin data for a few bins in the range
-      const sampleBins = [minBinId, Math.floor((minBinId + maxBinId) / 2), maxBinId];
-      
-      for (const binId of sampleBins) {
-        try {
-          const binData = await pool.getBin(binId);
-          // If we can get bin data, the binArray likely exists
-          if (binData) {
-            return true;
-          }
-        } catch {
-          // Remove unused error parameter
-          // Bin doesn't exist, continue checking
-        }
-      }
-      
-      return false;
-    } catch {
-      // Remove unused error parameter
-      return false;
-    }
-  }
-
   /**
    * Analyze existing ranges to find patterns
    */
@@ -177,9 +145,11 @@ export class ExistingRangeService {
 
     const ranges = Array.from(rangeMap.values());
     
-    // Mark popular ranges (multiple positions or high liquidity)
+    // Mark popular ranges (multiple positions, or liquidity in the top quarter of candidates)
+    const liquidities = ranges.map(range => range.totalLiquidity).sort((a, b) => a - b);
+    const topQuartile = liquidities[Math.floor(liquidities.length * 0.75)] ?? Infinity;
     ranges.forEach(range => {
-      range.isPopular = range.positionCount > 1 || range.totalLiquidity > 500000;
+      range.isPopular = range.positionCount > 1 || range.totalLiquidity >= topQuartile;
     });
 
     return ranges.sort((a, b) => b.positionCount - a.positionCount);
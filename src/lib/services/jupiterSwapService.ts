@@ -0,0 +1,95 @@
+// src/lib/services/jupiterSwapService.ts
+// Quotes and unsigned swap transactions from the Jupiter swap API, requested as legacy
+// transactions so they go through the same preview and send path as DLMM actions.
+
+import { PublicKey, Transaction } from '@solana/web3.js';
+import { BN } from '@coral-xyz/anchor';
+import { getPoolDataConfig } from '@/lib/api/poolDataProvider';
+
+export interface JupiterQuote {
+  inputMint: string;
+  outputMint: string;
+  inAmount: string;
+  outAmount: string;
+  // Minimum output after slippage
+  otherAmountThreshold: string;
+  slippageBps: number;
+  priceImpactPct: string;
+  [key: string]: unknown;
+}
+
+export interface JupiterSwap {
+  quote: JupiterQuote;
+  transaction: Transaction;
+  // Raw output amounts
+  outAmount: BN;
+  minOutAmount: BN;
+}
+
+export class JupiterSwapError extends Error {
+  constructor(message: string, public readonly status?: number) {
+    super(message);
+    this.name = 'JupiterSwapError';
+  }
+}
+
+const DEFAULT_SLIPPAGE_BPS = 50;
+
+export class JupiterSwapService {
+  constructor(private readonly apiUrl: string = getPoolDataConfig().jupiterApiUrl) {}
+
+  async getQuote(
+    inputMint: string,
+    outputMint: string,
+    amount: BN,
+    slippageBps: number = DEFAULT_SLIPPAGE_BPS
+  ): Promise<JupiterQuote> {
+    const params = new URLSearchParams({
+      inputMint,
+      outputMint,
+      amount: amount.toString(),
+      slippageBps: String(slippageBps),
+      asLegacyTransaction: 'true',
+    });
+    return this.request<JupiterQuote>(`/swap/v1/quote?${params}`);
+  }
+
+  /**
+   * Quote and build a swap; native SOL output is unwrapped
+   */
+  async buildSwap(
+    userPublicKey: PublicKey,
+    inputMint: string,
+    outputMint: string,
+    amount: BN,
+    slippageBps?: number
+  ): Promise<JupiterSwap> {
+    const quote = await this.getQuote(inputMint, outputMint, amount, slippageBps);
+    const { swapTransaction } = await this.request<{ swapTransaction: string }>('/swap/v1/swap', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        quoteResponse: quote,
+        userPublicKey: userPublicKey.toBase58(),
+        asLegacyTransaction: true,
+        wrapAndUnwrapSol: true,
+      }),
+    });
+
+    return {
+      quote,
+      transaction: Transaction.from(Buffer.from(swapTransaction, 'base64')),
+      outAmount: new BN(quote.outAmount),
+      minOutAmount: new BN(quote.otherAmountThreshold),
+    };
+  }
+
+  private async request<T>(path: string, init?: RequestInit): Promise<T> {
+    const response = await fetch(`${this.apiUrl}${path}`, init);
+    if (!response.ok) {
+      const body = await response.text().catch(() => '');
+      throw new JupiterSwapError(`Jupiter API error ${response.status}${body ? `: ${body}` : ''}`, response.status);
+    }
+    return response.json() as Promise<T>;
+  }
+}
@@ -0,0 +1,82 @@
+// src/lib/services/poolMetricsCollector.ts
+// Background job that snapshots BTC pool metrics into the pool metrics store.
+// Started once per server process from src/instrumentation.ts.
+
+import { fetchPools } from '@/lib/api/pools';
+import { snapshotFromPool, type PoolMetricsSnapshot } from '@/lib/utils/poolMetrics';
+import { ALL_BTC_FILTER, searchTermsForFilter } from '@/lib/utils/tokenRegistry';
+import { getPoolMetricsStore, type PoolMetricsStore } from './poolMetricsStore';
+
+// One term per registry BTC token, so every BTC pair (any quote token, any bin step) gets a history
+const COLLECTOR_SEARCH_TERMS = searchTermsForFilter(ALL_BTC_FILTER);
+const DEFAULT_INTERVAL_MS = 15 * 60 * 1000; // 15 minutes
+const RETENTION_MS = 35 * 24 * 60 * 60 * 1000; // 30d window plus slack
+
+let collectorTimer: ReturnType<typeof setInterval> | null = null;
+
+/**
+ * Fetch the current BTC pools and append one snapshot per pool
+ */
+export async function collectPoolMetrics(
+  store: PoolMetricsStore = getPoolMetricsStore(),
+  timestamp: number = Date.now()
+): Promise<PoolMetricsSnapshot[]> {
+  const snapshots = new Map<string, PoolMetricsSnapshot>();
+
+  for (const term of COLLECTOR_SEARCH_TERMS) {
+    try {
+      const response = await fetchPools(term);
+      for (const group of response.groups || []) {
+        for (const pair of group.pairs || []) {
+          if (!snapshots.has(pair.address)) {
+            snapshots.set(pair.address, snapshotFromPool(pair, timestamp));
+          }
+        }
+      }
+    } catch (error) {
+      console.error(`Pool metrics collector: Error fetching ${term} pools:`, error instanceof Error ? error.message : 'Unknown error');
+    }
+  }
+
+  const collected = [...snapshots.values()];
+  if (collected.length > 0) {
+    await store.append(collected);
+  }
+  await store.prune(timestamp - RETENTION_MS);
+
+  return collected;
+}
+
+/**
+ * Start collecting on an interval (POOL_METRICS_INTERVAL_MS, 0 disables). Safe to call twice.
+ */
+export function startPoolMetricsCollector(): void {
+  if (collectorTimer) return;
+
+  const intervalMs = Number(process.env.POOL_METRICS_INTERVAL_MS ?? DEFAULT_INTERVAL_MS);
+  if (!Number.isFinite(intervalMs) || intervalMs <= 0) {
+    console.log('Pool metrics collector: disabled');
+    return;
+  }
+
+  const run = () => {
+    collectPoolMetrics()
+      .then(snapshots => console.log(`Pool metrics collector: recorded ${snapshots.length} pools`))
+      .catch(error => console.error('Pool metrics collector: Error recording snapshots:', error instanceof Error ? error.message : 'Unknown error'));
+  };
+
+  run();
+  collectorTimer = setInterval(run, intervalMs);
+  // Never keep the process alive just for the collector
+  collectorTimer.unref?.();
+}
+
+/**
+ * Stop the interval started by startPoolMetricsCollector
+ */
+export function stopPoolMetricsCollector(): void {
+  if (collectorTimer) {
+    clearInterval(collectorTimer);
+    collectorTimer = null;
+  }
+}
@@ -0,0 +1,165 @@
+// src/lib/services/poolMetricsStore.ts
+// Server-side time-series storage for pool metric snapshots.
+// Backends are pluggable via POOL_METRICS_STORE (file | memory); file is the default.
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { PoolMetricsSnapshot } from '@/lib/utils/poolMetrics';
+
+export interface PoolMetricsStore {
+  append(snapshots: PoolMetricsSnapshot[]): Promise<void>;
+  // Snapshots of one pool taken after `since` (ms), oldest first
+  getSeries(address: string, since: number): Promise<PoolMetricsSnapshot[]>;
+  // Drop snapshots older than `before` (ms)
+  prune(before: number): Promise<void>;
+}
+
+// Addresses become file names, so only base58 public keys are accepted
+const ADDRESS_PATTERN = /^[1-9A-HJ-NP-Za-km-z]{32,44}$/;
+
+function sortByTimestamp(snapshots: PoolMetricsSnapshot[]): PoolMetricsSnapshot[] {
+  return snapshots.sort((a, b) => a.timestamp - b.timestamp);
+}
+
+/**
+ * In-memory store - useful for development and tests, lost on restart
+ */
+export class MemoryPoolMetricsStore implements PoolMetricsStore {
+  private series: Map<string, PoolMetricsSnapshot[]> = new Map();
+
+  async append(snapshots: PoolMetricsSnapshot[]): Promise<void> {
+    for (const snapshot of snapshots) {
+      const existing = this.series.get(snapshot.address);
+      if (existing) existing.push(snapshot);
+      else this.series.set(snapshot.address, [snapshot]);
+    }
+  }
+
+  async getSeries(address: string, since: number): Promise<PoolMetricsSnapshot[]> {
+    return sortByTimestamp((this.series.get(address) || []).filter(snapshot => snapshot.timestamp > since));
+  }
+
+  async prune(before: number): Promise<void> {
+    this.series.forEach((snapshots, address) => {
+      const kept = snapshots.filter(snapshot => snapshot.timestamp >= before);
+      if (kept.length > 0) this.series.set(address, kept);
+      else this.series.delete(address);
+    });
+  }
+}
+
+/**
+ * JSON-lines file store - one append-only file per pool
+ */
+export class FilePoolMetricsStore implements PoolMetricsStore {
+  constructor(private baseDir: string) {}
+
+  private seriesPath(address: string): string {
+    if (!ADDRESS_PATTERN.test(address)) {
+      throw new Error(`Invalid pool address: ${address}`);
+    }
+    return path.join(this.baseDir, `${address}.jsonl`);
+  }
+
+  private async readAll(address: string): Promise<PoolMetricsSnapshot[]> {
+    let raw: string;
+    try {
+      raw = await fs.readFile(this.seriesPath(address), 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+
+    const snapshots: PoolMetricsSnapshot[] = [];
+    for (const line of raw.split('\n')) {
+      if (!line.trim()) continue;
+      try {
+        snapshots.push(JSON.parse(line) as PoolMetricsSnapshot);
+      } catch {
+        // Skip a line torn by a crash mid-append
+      }
+    }
+    return snapshots;
+  }
+
+  async append(snapshots: PoolMetricsSnapshot[]): Promise<void> {
+    await fs.mkdir(this.baseDir, { recursive: true });
+
+    const byAddress = new Map<string, PoolMetricsSnapshot[]>();
+    for (const snapshot of snapshots) {
+      const existing = byAddress.get(snapshot.address);
+      if (existing) existing.push(snapshot);
+      else byAddress.set(snapshot.address, [snapshot]);
+    }
+
+    for (const [address, poolSnapshots] of byAddress) {
+      const lines = poolSnapshots.map(snapshot => JSON.stringify(snapshot)).join('\n') + '\n';
+      await fs.appendFile(this.seriesPath(address), lines, 'utf8');
+    }
+  }
+
+  async getSeries(address: string, since: number): Promise<PoolMetricsSnapshot[]> {
+    const snapshots = await this.readAll(address);
+    return sortByTimestamp(snapshots.filter(snapshot => snapshot.timestamp > since));
+  }
+
+  async prune(before: number): Promise<void> {
+    let files: string[];
+    try {
+      files = await fs.readdir(this.baseDir);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return;
+      }
+      throw error;
+    }
+
+    for (const file of files.filter(name => name.endsWith('.jsonl'))) {
+      const address = file.replace(/\.jsonl$/, '');
+      const snapshots = await this.readAll(address);
+      const kept = snapshots.filter(snapshot => snapshot.timestamp >= before);
+      if (kept.length === snapshots.length) continue;
+
+      const target = this.seriesPath(address);
+      if (kept.length === 0) {
+        await fs.unlink(target);
+        continue;
+      }
+
+      // Write to a temp file first so a crash never leaves a half-written series
+      const tempFile = `${target}.${process.pid}.tmp`;
+      await fs.writeFile(tempFile, kept.map(snapshot => JSON.stringify(snapshot)).join('\n') + '\n', 'utf8');
+      await fs.rename(tempFile, target);
+    }
+  }
+}
+
+let storeInstance: PoolMetricsStore | null = null;
+
+/**
+ * Get the configured pool metrics store (singleton per server process)
+ */
+export function getPoolMetricsStore(): PoolMetricsStore {
+  if (storeInstance) {
+    return storeInstance;
+  }
+
+  const backend = process.env.POOL_METRICS_STORE || 'file';
+
+  switch (backend) {
+    case 'memory':
+      storeInstance = new MemoryPoolMetricsStore();
+      break;
+    case 'file':
+      storeInstance = new FilePoolMetricsStore(
+        process.env.POOL_METRICS_DIR || path.join(process.cwd(), '.data', 'pool-metrics')
+      );
+      break;
+    default:
+      throw new Error(`Unknown POOL_METRICS_STORE backend: ${backend}`);
+  }
+
+  return storeInstance;
+}
@@ -2,14 +2,25 @@
 // Updated interfaces and methods to fix TypeScript errors
 
 import { fetchPools } from '@/lib/api/pools';
-import { fetchMessage } from '@/lib/api/chat';
+import { fetchMessage, type ChatStreamCallbacks, type ChatStreamResult } from '@/lib/api/chat';
 import { 
   formatPool, 
-  sortPoolsByStyle, 
+  filterPools,
   selectOptimalPool,
-  ApiPool,
   FormattedPool 
 } from '@/lib/utils/poolUtils';
+import type { ApiPool, RankedPool } from '@/lib/utils/poolTypes';
+import { riskProfileFromStyle, type RiskProfile } from '@/lib/utils/riskProfile';
+import type { PoolMetricsSummary } from '@/lib/utils/poolMetrics';
+import { fetchPoolMetrics } from '@/lib/api/poolMetrics';
+import { checkBtcPegs, describePegReference, pegAlertsForPool, poolRiskTier } from './depegMonitorService';
+import { getPriceOracle, poolMints } from './priceOracleService';
+import {
+  getPoolPairFilter,
+  matchesPairFilter,
+  searchTermsForFilter,
+  type PoolPairFilter,
+} from '@/lib/utils/tokenRegistry';
 import { useErrorHandler } from '@/lib/utils/errorHandling';
 
 // Types
@@ -20,7 +31,6 @@ interface Group {
 }
 
 export interface PoolSearchConfig {
-  searchTerms: string[];
   allowedBinSteps: number[];
   minAPY: number;
   minFees: number;
@@ -33,32 +43,34 @@ export interface PoolSearchResult {
 
 // Updated interface to include tokenFilter
 export interface PoolSearchParams {
-  style: string | null;
+  profile: RiskProfile | null;
   shownPoolAddresses: string[];
-  tokenFilter?: string; // Added this property
+  // Pair filter id from the token registry (e.g. 'wbtc-sol', 'btc-usdc'); all BTC pairs when absent
+  tokenFilter?: string;
   onLoadingMessage: (message: string) => void;
   onError: (error: unknown) => void;
   handleAsyncError: <T>(operation: () => Promise<T>, context?: string) => Promise<T | null>;
 }
 
 export interface ProcessPoolParams {
-  selectedPool: ApiPool;
-  style: string | null;
-  onStreamingUpdate: (chunk: string) => void;
-  onComplete: (analysis: string, formattedPool: FormattedPool) => void;
+  // The pool with the score it was ranked by in getBestPool
+  selectedPool: RankedPool;
+  profile: RiskProfile | null;
+  callbacks: ChatStreamCallbacks;
+  onComplete: (analysis: ChatStreamResult, formattedPool: FormattedPool) => void;
   onError: (error: unknown) => void;
 }
 
+// Most pools the metrics API takes per request
+const METRICS_BATCH_SIZE = 20;
+
 // Configuration constants
 const POOL_SEARCH_CONFIG: PoolSearchConfig = {
-  searchTerms: ["wbtc-sol", "zbtc-sol", "cbbtc-sol"],
   allowedBinSteps: [5, 10, 15, 50],
   minAPY: 0.03,
   minFees: 5,
 };
 
-const BROADER_SEARCH_TERMS = ["wbtc", "zbtc", "cbbtc"];
-
 /**
  * Pool Search Service Class
  */
@@ -70,50 +82,12 @@ export class PoolSearchService {
   }
 
   /**
-   * Get search terms based on token filter
-   */
-  private getSearchTermsForFilter(tokenFilter?: string): string[] {
-    if (!tokenFilter || tokenFilter === 'btc') {
-      return this.config.searchTerms; // Return all search terms
-    }
-    
-    // Return specific term based on filter
-    switch (tokenFilter) {
-      case 'wbtc-sol':
-        return ['wbtc-sol', 'wbtc'];
-      case 'zbtc-sol':
-        return ['zbtc-sol', 'zbtc'];
-      case 'cbbtc-sol':
-        return ['cbbtc-sol', 'cbbtc'];
-      default:
-        return this.config.searchTerms;
-    }
-  }
-
-  /**
-   * Helper method to check if a pair is valid
-   */
-  private isValidPair(pair: ApiPool): boolean {
-    const name = pair.name.toLowerCase();
-    const binStep = pair.bin_step || 0;
-
-    return (name === "wbtc-sol" || name === "zbtc-sol" || name === "cbbtc-sol") &&
-           !name.includes("jito") &&
-           this.config.allowedBinSteps.includes(binStep);
-  }
-
-  /**
-   * Filters pairs based on validation criteria (original method)
+   * Keeps pairs of the filter's token patterns with a supported bin step
    */
-  private filterValidPairs(pairs: ApiPool[]): ApiPool[] {
+  private filterPairs(pairs: ApiPool[], filter: PoolPairFilter): ApiPool[] {
     return pairs.filter((pair) => {
-      const name = pair.name.toLowerCase();
       const binStep = pair.bin_step || 0;
-
-      const isValidPair =
-        (name === "wbtc-sol" || name === "zbtc-sol" || name === "cbbtc-sol") &&
-        !name.includes("jito") &&
-        this.config.allowedBinSteps.includes(binStep);
+      const isValidPair = this.config.allowedBinSteps.includes(binStep) && matchesPairFilter(pair, filter);
 
       if (isValidPair) {
         console.log(`Found valid pair: ${pair.name} with bin step: ${binStep}`);
@@ -122,43 +96,12 @@ export class PoolSearchService {
     });
   }
 
-  /**
-   * Filter pairs based on token filter
-   */
-  private filterPairsByToken(pairs: ApiPool[], tokenFilter?: string): ApiPool[] {
-    if (!tokenFilter || tokenFilter === 'btc') {
-      return this.filterValidPairs(pairs); // Use existing validation
-    }
-    
-    return pairs.filter((pair) => {
-      const name = pair.name.toLowerCase();
-      const binStep = pair.bin_step || 0;
-      
-      // Basic validation first
-      if (!this.config.allowedBinSteps.includes(binStep) || name.includes("jito")) {
-        return false;
-      }
-      
-      // Token-specific filtering
-      switch (tokenFilter) {
-        case 'wbtc-sol':
-          return name.includes('wbtc') && name.includes('sol');
-        case 'zbtc-sol':
-          return name.includes('zbtc') && name.includes('sol');
-        case 'cbbtc-sol':
-          return name.includes('cbbtc') && name.includes('sol');
-        default:
-          return this.isValidPair(pair);
-      }
-    });
-  }
-
   /**
    * Fetches pools for a specific search term
    */
   private async fetchPoolsForTerm(
     searchTerm: string,
-    tokenFilter: string | undefined,
+    filter: PoolPairFilter,
     handleAsyncError: <T>(operation: () => Promise<T>, context?: string) => Promise<T | null>
   ): Promise<PoolSearchResult> {
     try {
@@ -174,7 +117,7 @@ export class PoolSearchService {
         
         (poolsData.groups as Group[]).forEach((group) => {
           if (group.pairs?.length > 0) {
-            const validPairs = this.filterPairsByToken(group.pairs, tokenFilter);
+            const validPairs = this.filterPairs(group.pairs, filter);
             pools.push(...validPairs);
           }
         });
@@ -188,15 +131,13 @@ export class PoolSearchService {
   }
 
   /**
-   * Removes duplicate pools based on name and bin step
+   * Removes pools already found; a pair shows up under the search term of each of its tokens
    */
   private removeDuplicatePools(existingPools: ApiPool[], newPools: ApiPool[]): ApiPool[] {
     const validPools: ApiPool[] = [];
     
     for (const pair of newPools) {
-      const isDuplicate = existingPools.some(
-        (p) => p.name === pair.name && p.bin_step === pair.bin_step
-      );
+      const isDuplicate = [...existingPools, ...validPools].some((p) => p.address === pair.address);
 
       if (!isDuplicate) {
         validPools.push(pair);
@@ -226,93 +167,40 @@ export class PoolSearchService {
     });
   }
 
-  /**
-   * Searches for pools using direct search terms
-   */
-  private async searchDirectTerms(
-    tokenFilter: string | undefined,
-    handleAsyncError: <T>(operation: () => Promise<T>, context?: string) => Promise<T | null>
-  ): Promise<ApiPool[]> {
-    const allPools: ApiPool[] = [];
-    const searchTerms = this.getSearchTermsForFilter(tokenFilter);
-    
-    console.log(`Searching for ${tokenFilter || 'all'} BTC-SOL pairs with standard bin steps`);
-    
-    for (const term of searchTerms) {
-      const result = await this.fetchPoolsForTerm(term, tokenFilter, handleAsyncError);
-      const validPools = this.removeDuplicatePools(allPools, result.pools);
-      allPools.push(...validPools);
-    }
-    
-    return allPools;
-  }
-
-  /**
-   * Searches for pools using broader search terms
-   */
-  private async searchBroaderTerms(
-    existingPools: ApiPool[],
-    tokenFilter: string | undefined,
-    handleAsyncError: <T>(operation: () => Promise<T>, context?: string) => Promise<T | null>
-  ): Promise<ApiPool[]> {
-    console.log(`Only found ${existingPools.length} pools with direct searches, trying broader search`);
-    
-    const additionalPools: ApiPool[] = [];
-    const broaderTerms = tokenFilter && tokenFilter !== 'btc' 
-      ? [tokenFilter.split('-')[0]] // e.g., 'wbtc-sol' -> ['wbtc']
-      : BROADER_SEARCH_TERMS;
-    
-    for (const term of broaderTerms) {
-      const result = await this.fetchPoolsForTerm(term, tokenFilter, handleAsyncError);
-      const validPools = this.removeDuplicatePools([...existingPools, ...additionalPools], result.pools);
-      additionalPools.push(...validPools);
-      
-      if (validPools.length > 0) {
-        console.log(`Broader search found ${validPools.length} pairs for ${term}`);
-      }
-    }
-    
-    return additionalPools;
-  }
-
   /**
    * Main pool search method with token filtering
    */
   public async searchPools(params: PoolSearchParams): Promise<ApiPool[]> {
     const { onLoadingMessage, handleAsyncError, tokenFilter } = params;
     
-    // Display token-specific loading message
-    const filterLabels: Record<string, string> = {
-      'wbtc-sol': 'wBTC-SOL',
-      'zbtc-sol': 'zBTC-SOL',
-      'cbbtc-sol': 'cbBTC-SOL',
-      'btc': 'All BTC'
-    };
-    
-    const tokenLabel = tokenFilter ? filterLabels[tokenFilter] || tokenFilter : 'BTC';
+    const filter = getPoolPairFilter(tokenFilter);
+    if (!filter) {
+      console.warn(`Unknown pool filter "${tokenFilter}"`);
+      return [];
+    }
     
     onLoadingMessage(
-      params.style
-        ? `Finding the best ${params.style} ${tokenLabel} liquidity pools for you...`
-        : `Finding the best ${tokenLabel} liquidity pools based on your request...`
+      params.profile
+        ? `Finding the best ${params.profile.style} ${filter.label} liquidity pools for you...`
+        : `Finding the best ${filter.label} liquidity pools based on your request...`
     );
 
     // Add deliberate delay to show loading state
     await new Promise((resolve) => setTimeout(resolve, 2500));
 
-    // Step 1: Direct search with token filtering
-    let allPools = await this.searchDirectTerms(tokenFilter, handleAsyncError);
-    
-    // Step 2: Broader search if needed
-    if (allPools.length < 3) { // Reduced threshold for token-specific searches
-      const additionalPools = await this.searchBroaderTerms(allPools, tokenFilter, handleAsyncError);
-      allPools.push(...additionalPools);
+    // Search by each token the filter's patterns start from, then match pairs against the patterns
+    let allPools: ApiPool[] = [];
+    console.log(`Searching for ${filter.label} pairs with standard bin steps`);
+
+    for (const term of searchTermsForFilter(filter)) {
+      const result = await this.fetchPoolsForTerm(term, filter, handleAsyncError);
+      allPools.push(...this.removeDuplicatePools(allPools, result.pools));
     }
     
-    // Step 3: Quality filtering
+    // Quality filtering
     allPools = this.filterPoolsByQuality(allPools);
     
-    console.log(`Total ${tokenLabel} pools found after filtering: ${allPools.length}`);
+    console.log(`Total ${filter.label} pools found after filtering: ${allPools.length}`);
     console.log("Pool bin steps found:", allPools.map((p) => `${p.name}: ${p.bin_step}`).join(", "));
     
     return allPools;
@@ -322,17 +210,33 @@ export class PoolSearchService {
    * Processes the selected pool with AI analysis
    */
   public async processSelectedPool(params: ProcessPoolParams): Promise<void> {
-    const { selectedPool, style, onStreamingUpdate, onComplete, onError } = params;
+    const { selectedPool: { pool: selectedPool, score }, callbacks, onComplete, onError } = params;
     
     try {
-      const formattedPool = formatPool(selectedPool, style || "conservative");
+      // Without a peg report the tier reflects token custody risk only
+      const pegReport = await checkBtcPegs().catch((error) => {
+        console.warn("Rating the pool without a peg check:", error);
+        return null;
+      });
+      const prices = await getPriceOracle().getPrices(poolMints(selectedPool)).catch((error) => {
+        console.warn("Formatting the pool without oracle prices:", error);
+        return {};
+      });
+      const pegAlerts = pegAlertsForPool(selectedPool, pegReport);
+      const pegReferenceCaveat = describePegReference(pegReport);
+      const formattedPool: FormattedPool = {
+        ...formatPool(selectedPool, poolRiskTier(selectedPool, pegReport), undefined, prices),
+        score,
+        ...(pegAlerts.length > 0 && { pegAlerts }),
+        ...(pegReferenceCaveat && { pegReferenceCaveat }),
+      };
       
       // Get AI analysis with streaming updates
       const analysis = await fetchMessage(
         [],
         formattedPool,
-        style || "conservative",
-        onStreamingUpdate
+        params.profile ?? riskProfileFromStyle(null),
+        callbacks
       );
       
       onComplete(analysis, formattedPool);
@@ -344,14 +248,36 @@ export class PoolSearchService {
   }
 
   /**
-   * Gets the best pool from search results
+   * Fee history of the pools, by address. Scoring falls back to the snapshot alone
+   * for pools whose history is unavailable.
+   */
+  private async fetchScoringHistory(pools: ApiPool[]): Promise<Record<string, PoolMetricsSummary>> {
+    const addresses = pools.map((pool) => pool.address);
+    const batches: string[][] = [];
+    for (let i = 0; i < addresses.length; i += METRICS_BATCH_SIZE) {
+      batches.push(addresses.slice(i, i + METRICS_BATCH_SIZE));
+    }
+
+    const summaries = await Promise.all(batches.map((batch) =>
+      fetchPoolMetrics(batch, 7).catch((error) => {
+        console.warn("Scoring without pool metrics history:", error);
+        return [];
+      })
+    ));
+
+    return Object.fromEntries(summaries.flat().map((summary) => [summary.address, summary]));
+  }
+
+  /**
+   * Gets the best pool from search results, with the score it was ranked by
    */
-  public getBestPool(
+  public async getBestPool(
     pools: ApiPool[],
-    style: string | null,
+    profile: RiskProfile | null,
     shownPoolAddresses: string[]
-  ): ApiPool | null {
+  ): Promise<RankedPool | null> {
     if (pools.length === 0) return null;
+    const riskProfile = profile ?? riskProfileFromStyle(null);
 
     console.log("Top 3 sorted pools:", pools.slice(0, 3).map((p) => ({
       name: p.name,
@@ -360,25 +286,26 @@ export class PoolSearchService {
       binStep: p.bin_step || "unknown",
     })));
 
-    // Sort and select optimal pool
-    const sortedPools = sortPoolsByStyle(pools, style || 'conservative');
-    return selectOptimalPool(sortedPools, style || 'conservative', shownPoolAddresses);
+    // Keep pools the profile accepts; when none qualify, relax the bin steps before giving up on the filter
+    const eligible = filterPools(pools, riskProfile);
+    const relaxed = eligible.length > 0 ? eligible : filterPools(pools, riskProfile, { includeOtherBinSteps: true });
+    if (eligible.length === 0) {
+      console.log(`No pools match the risk profile's bin steps and $${riskProfile.minTvl} TVL floor; relaxing the filter`);
+    }
+
+    // Rank with fee history and select the optimal pool
+    const candidates = relaxed.length > 0 ? relaxed : pools;
+    const history = await this.fetchScoringHistory(candidates);
+    return selectOptimalPool(candidates, riskProfile, shownPoolAddresses, Date.now(), history);
   }
 
   /**
    * Updated no pools found message with token-specific context
    */
   public getNoPoolsFoundMessage(tokenFilter?: string): string {
-    const filterLabels: Record<string, string> = {
-      'wbtc-sol': 'wBTC-SOL',
-      'zbtc-sol': 'zBTC-SOL', 
-      'cbbtc-sol': 'cbBTC-SOL',
-      'btc': 'BTC'
-    };
-    
-    const tokenLabel = tokenFilter ? filterLabels[tokenFilter] || tokenFilter : 'BTC';
+    const tokenLabel = getPoolPairFilter(tokenFilter)?.label || tokenFilter || 'BTC';
     
-    return `I searched specifically for ${tokenLabel} liquidity pools paired with SOL on Solana but couldn't find any matching pools at the moment. This could be due to:
+    return `I searched specifically for ${tokenLabel} liquidity pools on Solana but couldn't find any matching pools at the moment. This could be due to:
     1. API limitations or temporary unavailability
     2. These specific ${tokenLabel} pools might not be indexed by our data provider
     3. The pools might exist but with different naming conventions
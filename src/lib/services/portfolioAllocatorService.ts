@@ -0,0 +1,373 @@
+// src/lib/services/portfolioAllocatorService.ts
+// Splits a BTC deposit across several BTC-SOL pools according to portfolio style
+// and builds every leg's position-creation transactions for a single wallet approval.
+
+import { StrategyType } from '@meteora-ag/dlmm';
+import { Connection, Keypair, PublicKey, Transaction } from '@solana/web3.js';
+import { BN } from '@coral-xyz/anchor';
+import { useMemo } from 'react';
+import { useWallet } from '@solana/wallet-adapter-react';
+import { MeteoraPositionService, type ExistingBinRange } from '@/lib/meteora/meteoraPositionService';
+import { DLMMError, DLMMErrorType } from '@/lib/meteora/meteoraDlmmService';
+import { getPreferredBinSteps } from '@/lib/utils/poolUtils';
+import type { ApiPool } from '@/lib/utils/poolTypes';
+import { riskProfileFromStyle } from '@/lib/utils/riskProfile';
+import {
+  addTokenAmounts,
+  compareTokenAmounts,
+  formatTokenAmount,
+  tokenAmount,
+  tokenAmountFromUi,
+  toUiNumber,
+  type TokenAmount,
+} from '@/lib/utils/tokenAmount';
+import {
+  TransactionBuilder,
+  type PriorityFeePolicy,
+  type SignAllVersionedTransactions,
+} from '@/lib/services/transactionBuilder';
+
+export type LegRiskLevel = 'low' | 'medium' | 'high';
+
+export interface LegRisk {
+  level: LegRiskLevel;
+  // 0 (safest) to 1 (riskiest)
+  score: number;
+  binStepRisk: number;
+  liquidityRisk: number;
+}
+
+export interface AllocationLeg {
+  pool: ApiPool;
+  // BTC variant of the pool, e.g. "wbtc"
+  variant: string;
+  weight: number;
+  // Amount of the pool's BTC token to deposit (UI units)
+  amount: number;
+  // Fee APY annualized from the last 24h of fees, in percent
+  expectedFeeApy: number;
+  expectedDailyFees: number;
+  risk: LegRisk;
+}
+
+export interface AllocationPlan {
+  style: string;
+  totalAmount: number;
+  legs: AllocationLeg[];
+  blendedFeeApy: number;
+  blendedRiskScore: number;
+}
+
+export interface PreparedLeg {
+  leg: AllocationLeg;
+  transactions: Transaction[];
+  positionKeypair: Keypair;
+  minBinId: number;
+  maxBinId: number;
+}
+
+interface StyleAllocationProfile {
+  // How strongly risk discounts a pool's yield (0-1)
+  riskAversion: number;
+  maxLegs: number;
+  maxLegShare: number;
+  minLegShare: number;
+}
+
+const STYLE_PROFILES: Record<string, StyleAllocationProfile> = {
+  conservative: { riskAversion: 0.8, maxLegs: 3, maxLegShare: 0.5, minLegShare: 0.15 },
+  moderate: { riskAversion: 0.5, maxLegs: 4, maxLegShare: 0.6, minLegShare: 0.1 },
+  aggressive: { riskAversion: 0.2, maxLegs: 4, maxLegShare: 0.7, minLegShare: 0.1 },
+};
+
+const PREFERRED_BIN_STEP_BOOST = 1.5;
+const MAX_BIN_RANGE_WIDTH = 69;
+const LEG_STRATEGY = StrategyType.BidAsk;
+
+function clamp(value: number, min: number = 0, max: number = 1): number {
+  return Math.min(max, Math.max(min, value));
+}
+
+/**
+ * Score a pool's risk from its bin step (narrow bins leave range sooner) and its liquidity depth
+ */
+export function assessPoolRisk(pool: ApiPool): LegRisk {
+  const binStep = pool.bin_step || 10;
+  const tvl = parseFloat(pool.liquidity) || 0;
+
+  const binStepRisk = clamp(1 - Math.log10(binStep) / 2);
+  const liquidityRisk = tvl > 0 ? clamp(1 - (Math.log10(tvl) - 3) / 4) : 1;
+  const score = 0.6 * binStepRisk + 0.4 * liquidityRisk;
+
+  return {
+    level: score < 0.35 ? 'low' : score < 0.6 ? 'medium' : 'high',
+    score,
+    binStepRisk,
+    liquidityRisk,
+  };
+}
+
+/**
+ * Fee APY annualized from 24h fees over TVL, in percent
+ */
+export function annualizedFeeApy(pool: ApiPool): number {
+  const tvl = parseFloat(pool.liquidity);
+  if (!tvl || tvl <= 0) return 0;
+  return (pool.fees_24h / tvl) * 365 * 100;
+}
+
+/**
+ * BTC variant of a pool from its name ("wBTC-SOL" -> "wbtc")
+ */
+function poolVariant(pool: ApiPool): string {
+  return pool.name.split('-')[0].toLowerCase();
+}
+
+/**
+ * Cap each weight at maxShare, redistributing the excess across uncapped legs
+ */
+function capWeights(weights: number[], maxShare: number): number[] {
+  const result = [...weights];
+  for (let iteration = 0; iteration < result.length; iteration++) {
+    const excess = result.reduce((sum, weight) => sum + Math.max(0, weight - maxShare), 0);
+    if (excess <= 1e-9) break;
+
+    const uncapped = result.map(weight => weight < maxShare);
+    const uncappedTotal = result.reduce((sum, weight, index) => sum + (uncapped[index] ? weight : 0), 0);
+    if (uncappedTotal <= 0) break;
+
+    for (let index = 0; index < result.length; index++) {
+      result[index] = uncapped[index]
+        ? result[index] + excess * (result[index] / uncappedTotal)
+        : Math.min(result[index], maxShare);
+    }
+  }
+  return result;
+}
+
+/**
+ * Compute a weighted allocation of `totalAmount` BTC across pools for a portfolio style.
+ * Picks the best pool of each BTC variant first so the deposit is spread across wrappers,
+ * then weights legs by risk-adjusted fee yield.
+ */
+export function computeAllocation(pools: ApiPool[], style: string, totalAmount: number): AllocationPlan {
+  const profile = STYLE_PROFILES[style] || STYLE_PROFILES.conservative;
+  const preferredBinSteps = getPreferredBinSteps(riskProfileFromStyle(style));
+
+  const candidates = pools
+    .map(pool => {
+      const expectedFeeApy = annualizedFeeApy(pool);
+      const risk = assessPoolRisk(pool);
+      const preference = preferredBinSteps.includes(pool.bin_step || 0) ? PREFERRED_BIN_STEP_BOOST : 1;
+      const utility = Math.log1p(expectedFeeApy) * (1 - profile.riskAversion * risk.score) * preference;
+      return { pool, variant: poolVariant(pool), expectedFeeApy, risk, utility };
+    })
+    .filter(candidate => candidate.utility > 0)
+    .sort((a, b) => b.utility - a.utility);
+
+  // One leg per variant first, then the next best pools up to the style's leg limit
+  const selected: typeof candidates = [];
+  const seenVariants = new Set<string>();
+  for (const candidate of candidates) {
+    if (selected.length >= profile.maxLegs) break;
+    if (!seenVariants.has(candidate.variant)) {
+      selected.push(candidate);
+      seenVariants.add(candidate.variant);
+    }
+  }
+  for (const candidate of candidates) {
+    if (selected.length >= profile.maxLegs) break;
+    if (!selected.includes(candidate)) selected.push(candidate);
+  }
+
+  // Drop legs too small to be worth a position, then cap concentration
+  let legs = selected;
+  let weights: number[] = [];
+  for (let attempt = 0; attempt < selected.length; attempt++) {
+    const totalUtility = legs.reduce((sum, leg) => sum + leg.utility, 0);
+    weights = capWeights(legs.map(leg => leg.utility / totalUtility), legs.length > 1 ? profile.maxLegShare : 1);
+
+    const smallest = weights.indexOf(Math.min(...weights));
+    if (legs.length <= 1 || weights[smallest] >= profile.minLegShare) break;
+    legs = legs.filter((_, index) => index !== smallest);
+  }
+
+  const allocationLegs: AllocationLeg[] = legs.map((leg, index) => {
+    const amount = totalAmount * weights[index];
+    return {
+      pool: leg.pool,
+      variant: leg.variant,
+      weight: weights[index],
+      amount,
+      expectedFeeApy: leg.expectedFeeApy,
+      expectedDailyFees: amount * leg.expectedFeeApy / 100 / 365,
+      risk: leg.risk,
+    };
+  });
+
+  return {
+    style,
+    totalAmount,
+    legs: allocationLegs,
+    blendedFeeApy: allocationLegs.reduce((sum, leg) => sum + leg.weight * leg.expectedFeeApy, 0),
+    blendedRiskScore: allocationLegs.reduce((sum, leg) => sum + leg.weight * leg.risk.score, 0),
+  };
+}
+
+/**
+ * The part of a range a one-sided X deposit can fill: X only sits in the active bin and above,
+ * so bins below it are dropped (null when none of the range's existing bins are left)
+ */
+export function clipRangeForTokenX(range: ExistingBinRange, activeBinId: number): ExistingBinRange | null {
+  if (range.minBinId >= activeBinId) return range;
+
+  const existingBins = range.existingBins.filter(binId => binId >= activeBinId);
+  if (range.maxBinId < activeBinId || existingBins.length === 0) return null;
+
+  return { ...range, minBinId: activeBinId, existingBins };
+}
+
+/**
+ * Builds and submits the position-creation transactions of an allocation plan
+ */
+export class PortfolioAllocatorService {
+  private _connection: Connection;
+  private positionService: MeteoraPositionService;
+
+  constructor(connection: Connection) {
+    this._connection = connection;
+    this.positionService = new MeteoraPositionService(connection);
+  }
+
+  get connection(): Connection {
+    return this._connection;
+  }
+
+  /**
+   * The user's raw balance of a mint across all their token accounts
+   */
+  private async getTokenBalance(mint: PublicKey, decimals: number, userPublicKey: PublicKey): Promise<TokenAmount> {
+    const accounts = await this._connection.getParsedTokenAccountsByOwner(userPublicKey, { mint });
+
+    return accounts.value.reduce(
+      (sum, account) => addTokenAmounts(sum, tokenAmount(mint.toBase58(), decimals, account.account.data.parsed.info.tokenAmount.amount)),
+      tokenAmount(mint.toBase58(), decimals, 0)
+    );
+  }
+
+  /**
+   * Get the user's balance of a pool's BTC (X) token in UI units
+   */
+  async getPoolTokenBalance(poolAddress: string, userPublicKey: PublicKey): Promise<number> {
+    const pool = await this.positionService.initializePool(poolAddress);
+    return toUiNumber(await this.getTokenBalance(pool.lbPair.tokenXMint, pool.tokenX.mint.decimals, userPublicKey));
+  }
+
+  /**
+   * Check the wallet holds every leg's BTC token. Legs can use different wrappers (wBTC, zBTC,
+   * cbBTC) and several can share one, so each mint is checked against the legs that spend it.
+   */
+  private async assertLegBalances(plan: AllocationPlan, userPublicKey: PublicKey): Promise<void> {
+    const required = new Map<string, { amount: TokenAmount; mint: PublicKey; legs: string[] }>();
+
+    for (const leg of plan.legs) {
+      const pool = await this.positionService.initializePool(leg.pool.address);
+      const mint = pool.lbPair.tokenXMint;
+      const amount = tokenAmountFromUi(leg.amount, mint.toBase58(), pool.tokenX.mint.decimals);
+      const entry = required.get(mint.toBase58());
+
+      required.set(mint.toBase58(), entry
+        ? { ...entry, amount: addTokenAmounts(entry.amount, amount), legs: [...entry.legs, leg.pool.name] }
+        : { amount, mint, legs: [leg.pool.name] });
+    }
+
+    for (const { amount, mint, legs } of required.values()) {
+      const balance = await this.getTokenBalance(mint, amount.decimals, userPublicKey);
+      if (compareTokenAmounts(balance, amount) < 0) {
+        throw new DLMMError(
+          DLMMErrorType.INSUFFICIENT_TOKEN,
+          `Insufficient ${legs[0].split('-')[0]} balance for ${legs.join(', ')}. Required: ${formatTokenAmount(amount)}, Available: ${formatTokenAmount(balance)}`
+        );
+      }
+    }
+  }
+
+  /**
+   * Build the position-creation transactions for every leg of a plan
+   */
+  async prepareLegs(plan: AllocationPlan, userPublicKey: PublicKey): Promise<PreparedLeg[]> {
+    await this.assertLegBalances(plan, userPublicKey);
+    const prepared: PreparedLeg[] = [];
+
+    for (const leg of plan.legs) {
+      const pool = await this.positionService.initializePool(leg.pool.address);
+      const ranges = await this.positionService.findExistingBinRanges(leg.pool.address, MAX_BIN_RANGE_WIDTH, plan.style);
+
+      // Legs deposit X only, so the range must start at or above the active bin
+      const range = ranges
+        .map(candidate => clipRangeForTokenX(candidate, pool.lbPair.activeId))
+        .find((candidate): candidate is ExistingBinRange => candidate !== null);
+      if (!range) {
+        throw new Error(`No suitable bin range found for ${leg.pool.name}`);
+      }
+
+      const result = await this.positionService.createPositionWithExistingBins({
+        poolAddress: leg.pool.address,
+        userPublicKey,
+        totalXAmount: tokenAmountFromUi(leg.amount, pool.tokenX.publicKey.toBase58(), pool.tokenX.mint.decimals).raw,
+        totalYAmount: new BN(0),
+        minBinId: range.minBinId,
+        maxBinId: range.maxBinId,
+        strategyType: LEG_STRATEGY,
+        useAutoFill: false,
+      }, range);
+
+      prepared.push({
+        leg,
+        transactions: Array.isArray(result.transaction) ? result.transaction : [result.transaction],
+        positionKeypair: result.positionKeypair,
+        minBinId: range.minBinId,
+        maxBinId: range.maxBinId,
+      });
+    }
+
+    return prepared;
+  }
+
+  /**
+   * Build every leg as a v0 transaction with priority fees, have the wallet sign the whole
+   * batch at once, then send and confirm in order (re-signing whatever expired).
+   */
+  async submitBatch(
+    legs: PreparedLeg[],
+    userPublicKey: PublicKey,
+    signAllTransactions: SignAllVersionedTransactions,
+    options: { policy?: PriorityFeePolicy; onExpired?: (attempt: number) => void } = {}
+  ): Promise<string[]> {
+    const builder = new TransactionBuilder(this._connection);
+    const items = legs.flatMap(leg => leg.transactions.map(transaction => ({
+      transaction,
+      signers: [leg.positionKeypair],
+    })));
+
+    return builder.sendBatchWithRetry(items, userPublicKey, signAllTransactions, options);
+  }
+}
+
+/**
+ * Hook to use the portfolio allocator with the connected wallet
+ */
+export function usePortfolioAllocatorService() {
+  const { publicKey, signAllTransactions } = useWallet();
+
+  // Memoized so the pool instances cached by the service survive re-renders
+  const service = useMemo(() => new PortfolioAllocatorService(new Connection(
+    process.env.NEXT_PUBLIC_SOLANA_RPC_URL || 'https://api.mainnet-beta.solana.com'
+  )), []);
+
+  return {
+    service,
+    publicKey,
+    signAllTransactions,
+  };
+}
@@ -0,0 +1,318 @@
+// src/lib/services/positionMonitorService.ts
+// Compares user positions to their pool's active bin and builds rebalance plans for drifted ones.
+
+import DLMM, { StrategyType, type LbPosition } from '@meteora-ag/dlmm';
+import { Connection, Keypair, PublicKey, Transaction } from '@solana/web3.js';
+import { BN } from '@coral-xyz/anchor';
+import {
+  binSlippageToPercentage,
+  checkActiveBinDrift,
+  getMaxActiveBinSlippage,
+  type ActiveBinGuard,
+} from '@/lib/meteora/meteoraPositionService';
+
+export type PositionRangeStatus = 'in-range' | 'near-edge' | 'out-of-range';
+
+export interface PositionRangeCheck {
+  status: PositionRangeStatus;
+  // Bins between the active bin and the nearest range edge (negative when outside)
+  binsToEdge: number;
+  // Which side of the range the active bin has moved towards
+  drift: 'above' | 'below' | null;
+}
+
+export interface PositionHealth extends PositionRangeCheck {
+  positionAddress: string;
+  lbPairAddress: string;
+  lowerBinId: number;
+  upperBinId: number;
+  activeBinId: number;
+  checkedAt: number;
+}
+
+export type RebalanceStepKind = 'remove' | 'swap' | 'add';
+
+export interface RebalanceStep {
+  kind: RebalanceStepKind;
+  description: string;
+  transactions: Transaction[];
+  // Extra signers for this step only (e.g. the new position keypair)
+  signers: Keypair[];
+}
+
+export interface RebalancePlan {
+  positionAddress: string;
+  lbPairAddress: string;
+  strategyType: StrategyType;
+  activeBinId: number;
+  currentRange: { lowerBinId: number; upperBinId: number };
+  newRange: { minBinId: number; maxBinId: number };
+  // Raw amounts re-added after the remove (and optional swap)
+  amountX: BN;
+  amountY: BN;
+  newPositionKeypair: Keypair;
+  steps: RebalanceStep[];
+  // Re-checked before the add is sent, once the remove (and swap) have landed
+  activeBinGuard: ActiveBinGuard;
+}
+
+export interface RebalancePlanParams {
+  lbPairAddress: string;
+  position: LbPosition;
+  userPublicKey: PublicKey;
+  // Swap half of a one-sided position so it can be re-added around the active bin
+  swap?: boolean;
+  // Defaults to the strategy inferred from the current liquidity shape
+  strategyType?: StrategyType;
+  slippageBps?: number;
+  // Bins the active bin may move before the re-add is refused (defaults to the app setting)
+  maxActiveBinSlippage?: number;
+}
+
+// Share of the range width (at least one bin) that counts as "near the edge"
+const NEAR_EDGE_RATIO = 0.15;
+const DEFAULT_SLIPPAGE_BPS = 50;
+
+/**
+ * Position amounts come back as decimal strings; keep the integer part as a raw BN
+ */
+function toRawAmount(value: string): BN {
+  return new BN(value.split('.')[0] || '0');
+}
+
+/**
+ * Classify where the active bin sits relative to a position's bin range
+ */
+export function classifyPositionRange(
+  lowerBinId: number,
+  upperBinId: number,
+  activeBinId: number,
+  nearEdgeBins: number = Math.max(1, Math.floor((upperBinId - lowerBinId + 1) * NEAR_EDGE_RATIO))
+): PositionRangeCheck {
+  if (activeBinId < lowerBinId) {
+    return { status: 'out-of-range', binsToEdge: activeBinId - lowerBinId, drift: 'below' };
+  }
+  if (activeBinId > upperBinId) {
+    return { status: 'out-of-range', binsToEdge: upperBinId - activeBinId, drift: 'above' };
+  }
+
+  const toLower = activeBinId - lowerBinId;
+  const toUpper = upperBinId - activeBinId;
+  const binsToEdge = Math.min(toLower, toUpper);
+
+  if (binsToEdge < nearEdgeBins) {
+    return { status: 'near-edge', binsToEdge, drift: toLower <= toUpper ? 'below' : 'above' };
+  }
+  return { status: 'in-range', binsToEdge, drift: null };
+}
+
+/**
+ * Infer the strategy a position was opened with from the shape of its liquidity.
+ * Strategies are not stored on-chain, so this compares centre versus edge liquidity.
+ */
+export function inferStrategyType(position: LbPosition): StrategyType {
+  const liquidity = position.positionData.positionBinData.map(bin => Number(bin.positionLiquidity));
+  if (liquidity.length < 3) return StrategyType.Spot;
+
+  const edgeSize = Math.max(1, Math.floor(liquidity.length / 4));
+  const average = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length;
+
+  const edges = average([...liquidity.slice(0, edgeSize), ...liquidity.slice(-edgeSize)]);
+  const center = average(liquidity.slice(edgeSize, liquidity.length - edgeSize));
+  if (edges === 0 && center === 0) return StrategyType.Spot;
+
+  const ratio = center / Math.max(edges, Number.EPSILON);
+  if (ratio > 1.5) return StrategyType.Curve;
+  if (ratio < 0.67) return StrategyType.BidAsk;
+  return StrategyType.Spot;
+}
+
+/**
+ * Service that checks position health and prepares rebalance transactions
+ */
+export class PositionMonitorService {
+  private _connection: Connection;
+  private poolInstances: Map<string, DLMM> = new Map();
+
+  constructor(connection: Connection) {
+    this._connection = connection;
+  }
+
+  get connection(): Connection {
+    return this._connection;
+  }
+
+  /**
+   * Initialize (or refresh) a DLMM pool so the active bin is current
+   */
+  private async getPool(lbPairAddress: string): Promise<DLMM> {
+    const cached = this.poolInstances.get(lbPairAddress);
+    if (cached) {
+      await cached.refetchStates();
+      return cached;
+    }
+
+    const pool = await DLMM.create(this.connection, new PublicKey(lbPairAddress));
+    this.poolInstances.set(lbPairAddress, pool);
+    return pool;
+  }
+
+  /**
+   * Check every position of a user against its pool's active bin
+   */
+  async checkPositions(userPublicKey: PublicKey): Promise<PositionHealth[]> {
+    const positionsByPool = await DLMM.getAllLbPairPositionsByUser(this.connection, userPublicKey);
+    const checkedAt = Date.now();
+    const results: PositionHealth[] = [];
+
+    positionsByPool.forEach((positionInfo, lbPairAddress) => {
+      const activeBinId = positionInfo.lbPair.activeId;
+
+      for (const position of positionInfo.lbPairPositionsData) {
+        const { lowerBinId, upperBinId } = position.positionData;
+        results.push({
+          positionAddress: position.publicKey.toBase58(),
+          lbPairAddress,
+          lowerBinId,
+          upperBinId,
+          activeBinId,
+          checkedAt,
+          ...classifyPositionRange(lowerBinId, upperBinId, activeBinId),
+        });
+      }
+    });
+
+    return results;
+  }
+
+  /**
+   * Build a ready-to-sign plan: remove all liquidity (claiming fees and closing),
+   * optionally swap a one-sided balance, then re-add the same width around the active bin.
+   */
+  async buildRebalancePlan(params: RebalancePlanParams): Promise<RebalancePlan> {
+    const { lbPairAddress, position, userPublicKey } = params;
+    const pool = await this.getPool(lbPairAddress);
+    const activeBinId = pool.lbPair.activeId;
+    const { lowerBinId, upperBinId } = position.positionData;
+    const width = upperBinId - lowerBinId + 1;
+    const strategyType = params.strategyType ?? inferStrategyType(position);
+    const steps: RebalanceStep[] = [];
+
+    // 1. Remove everything - fees are claimed and the position account closed
+    const removeTransactions = await pool.removeLiquidity({
+      user: userPublicKey,
+      position: position.publicKey,
+      fromBinId: lowerBinId,
+      toBinId: upperBinId,
+      bps: new BN(10000),
+      shouldClaimAndClose: true,
+    });
+    steps.push({
+      kind: 'remove',
+      description: `Withdraw liquidity and fees from bins ${lowerBinId}-${upperBinId} and close the position`,
+      transactions: removeTransactions,
+      signers: [],
+    });
+
+    // What the withdrawal returns: liquidity plus unclaimed fees
+    let amountX = toRawAmount(position.positionData.totalXAmount).add(position.positionData.feeX);
+    let amountY = toRawAmount(position.positionData.totalYAmount).add(position.positionData.feeY);
+    const isOneSided = amountX.isZero() !== amountY.isZero();
+
+    // 2. Optional swap of half a one-sided balance so the new range can straddle the active bin
+    if (params.swap && isOneSided) {
+      const swapForY = !amountX.isZero();
+      const inAmount = (swapForY ? amountX : amountY).divn(2);
+      const binArrays = await pool.getBinArrayForSwap(swapForY);
+      const quote = pool.swapQuote(
+        inAmount,
+        swapForY,
+        new BN(params.slippageBps ?? DEFAULT_SLIPPAGE_BPS),
+        binArrays
+      );
+
+      const tokenX = pool.lbPair.tokenXMint;
+      const tokenY = pool.lbPair.tokenYMint;
+      const swapTransaction = await pool.swap({
+        inToken: swapForY ? tokenX : tokenY,
+        outToken: swapForY ? tokenY : tokenX,
+        inAmount,
+        minOutAmount: quote.minOutAmount,
+        lbPair: pool.pubkey,
+        user: userPublicKey,
+        binArraysPubkey: quote.binArraysPubkey,
+      });
+
+      // Size the re-add on the minimum output so it never exceeds what the swap delivers
+      if (swapForY) {
+        amountX = amountX.sub(inAmount);
+        amountY = quote.minOutAmount;
+      } else {
+        amountY = amountY.sub(inAmount);
+        amountX = quote.minOutAmount;
+      }
+
+      steps.push({
+        kind: 'swap',
+        description: `Swap half of the ${swapForY ? 'X' : 'Y'} balance to rebalance both sides`,
+        transactions: [swapTransaction],
+        signers: [],
+      });
+    }
+
+    // 3. Re-add with the same width: centred when holding both tokens,
+    //    otherwise on the side of the active bin that a single token can fill
+    let minBinId: number;
+    let maxBinId: number;
+    if (!amountX.isZero() && !amountY.isZero()) {
+      minBinId = activeBinId - Math.floor((width - 1) / 2);
+      maxBinId = minBinId + width - 1;
+    } else if (!amountX.isZero()) {
+      minBinId = activeBinId;
+      maxBinId = activeBinId + width - 1;
+    } else {
+      minBinId = activeBinId - width + 1;
+      maxBinId = activeBinId;
+    }
+
+    const maxActiveBinSlippage = params.maxActiveBinSlippage ?? getMaxActiveBinSlippage();
+    const newPositionKeypair = Keypair.generate();
+    const addTransaction = await pool.initializePositionAndAddLiquidityByStrategy({
+      positionPubKey: newPositionKeypair.publicKey,
+      user: userPublicKey,
+      totalXAmount: amountX,
+      totalYAmount: amountY,
+      strategy: { minBinId, maxBinId, strategyType },
+      // The program rejects the add if the active bin moved further than this
+      slippage: binSlippageToPercentage(maxActiveBinSlippage, pool.lbPair.binStep),
+    });
+    steps.push({
+      kind: 'add',
+      description: `Open a new position in bins ${minBinId}-${maxBinId} around active bin ${activeBinId}`,
+      transactions: [addTransaction],
+      signers: [newPositionKeypair],
+    });
+
+    return {
+      positionAddress: position.publicKey.toBase58(),
+      lbPairAddress,
+      strategyType,
+      activeBinId,
+      currentRange: { lowerBinId, upperBinId },
+      newRange: { minBinId, maxBinId },
+      amountX,
+      amountY,
+      newPositionKeypair,
+      steps,
+      activeBinGuard: { poolAddress: lbPairAddress, activeBinId, maxActiveBinSlippage },
+    };
+  }
+
+  /**
+   * Re-read the active bin before the add is sent; throws ACTIVE_BIN_MOVED past the tolerance
+   */
+  async assertActiveBinWithinSlippage(guard: ActiveBinGuard): Promise<number> {
+    const pool = await this.getPool(guard.poolAddress);
+    return checkActiveBinDrift(guard, pool.lbPair.activeId);
+  }
+}
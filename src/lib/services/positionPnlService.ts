@@ -0,0 +1,304 @@
+// src/lib/services/positionPnlService.ts
+// Reconstructs deposit/withdraw history for DLMM positions and computes PnL versus holding.
+
+import {
+  Connection,
+  ParsedInstruction,
+  ParsedTransactionWithMeta,
+  PartiallyDecodedInstruction,
+  PublicKey,
+} from '@solana/web3.js';
+import { tokenAmount, toUiNumber } from '@/lib/utils/tokenAmount';
+
+export type PositionFlowKind = 'deposit' | 'withdraw' | 'claim';
+
+export interface PositionFlow {
+  signature: string;
+  blockTime: number | null;
+  kind: PositionFlowKind;
+  // Raw token amounts moved into (deposit) or out of (withdraw/claim) the pool
+  amountX: bigint;
+  amountY: bigint;
+}
+
+export interface PositionFlowHistory {
+  flows: PositionFlow[];
+  depositedX: bigint;
+  depositedY: bigint;
+  withdrawnX: bigint;
+  withdrawnY: bigint;
+  // False when the signature scan hit its limit and older history was skipped
+  isComplete: boolean;
+}
+
+export interface PnlValues {
+  hodlValue: number;
+  currentValue: number;
+  fees: number;
+  impermanentLoss: number;
+  netPnl: number;
+}
+
+export interface PositionPnl {
+  usd: PnlValues;
+  btc: PnlValues | null;
+  history: PositionFlowHistory;
+}
+
+export interface PositionPnlInput {
+  history: PositionFlowHistory;
+  tokenXMint: string;
+  tokenYMint: string;
+  xDecimals: number;
+  yDecimals: number;
+  currentX: number;
+  currentY: number;
+  // Claimed + unclaimed fees in UI units
+  feesX: number;
+  feesY: number;
+  priceXUsd: number;
+  priceYUsd: number;
+  // USD price of BTC used to express values in BTC terms (null to skip)
+  btcPriceUsd: number | null;
+}
+
+export interface PositionHistoryParams {
+  positionAddress: string;
+  lbPairAddress: string;
+  tokenXMint: string;
+  tokenYMint: string;
+}
+
+const historyCache = new Map<string, { history: PositionFlowHistory; timestamp: number }>();
+const CACHE_DURATION = 300000; // 5 minutes cache
+const MAX_SIGNATURES = 200;
+const TRANSACTION_BATCH_SIZE = 20;
+
+/**
+ * Token accounts the lb pair owns for a mint (its reserve vault)
+ */
+function reserveVaults(transaction: ParsedTransactionWithMeta, owner: string, mint: string): Set<string> {
+  const accountKeys = transaction.transaction.message.accountKeys;
+  return new Set(
+    [...(transaction.meta?.preTokenBalances || []), ...(transaction.meta?.postTokenBalances || [])]
+      .filter(balance => balance.owner === owner && balance.mint === mint)
+      .map(balance => accountKeys[balance.accountIndex]?.pubkey.toBase58())
+      .filter((address): address is string => !!address)
+  );
+}
+
+/**
+ * Anchor instruction name logged by each top-level instruction, by instruction index
+ */
+function topLevelInstructionNames(logs: string[]): Map<number, string> {
+  const names = new Map<number, string>();
+  let index = -1;
+  let depth = 0;
+
+  for (const log of logs) {
+    const invoke = log.match(/^Program \S+ invoke \[(\d+)\]$/);
+    if (invoke) {
+      depth = Number(invoke[1]);
+      if (depth === 1) index += 1;
+    } else if (/^Program \S+ (success|failed)/.test(log)) {
+      depth -= 1;
+    } else if (depth === 1 && log.startsWith('Program log: Instruction: ') && !names.has(index)) {
+      names.set(index, log.replace('Program log: Instruction: ', ''));
+    }
+  }
+
+  return names;
+}
+
+// Raw amount an SPL transfer / transferChecked moves out of (source) or into (destination) a vault, or zero
+function transferredVia(
+  instruction: ParsedInstruction | PartiallyDecodedInstruction,
+  vaults: Set<string>,
+  side: 'source' | 'destination'
+): bigint {
+  if (!('parsed' in instruction) || (instruction.program !== 'spl-token' && instruction.program !== 'spl-token-2022')) {
+    return BigInt(0);
+  }
+
+  const { type, info } = instruction.parsed as { type: string; info: Record<string, unknown> };
+  if ((type !== 'transfer' && type !== 'transferChecked') || !vaults.has(info[side] as string)) {
+    return BigInt(0);
+  }
+
+  const amount = type === 'transfer' ? info.amount : (info.tokenAmount as { amount?: string } | undefined)?.amount;
+  return typeof amount === 'string' ? BigInt(amount) : BigInt(0);
+}
+
+/**
+ * Flow kind of a DLMM instruction from its Anchor name
+ */
+function instructionFlowKind(name: string): PositionFlowKind | null {
+  if (name.startsWith('AddLiquidity')) return 'deposit';
+  if (name.startsWith('RemoveLiquidity') || name.startsWith('RemoveAllLiquidity')) return 'withdraw';
+  if (name.startsWith('ClaimFee')) return 'claim';
+  return null;
+}
+
+function referencesAccount(instruction: ParsedInstruction | PartiallyDecodedInstruction | undefined, address: string): boolean {
+  return !!instruction && 'accounts' in instruction && instruction.accounts.some(account => account.toBase58() === address);
+}
+
+const FLOW_KINDS: PositionFlowKind[] = ['deposit', 'withdraw', 'claim'];
+
+/**
+ * Extract this position's token flows from one transaction, one per kind it contains.
+ * Only the inner transfers of top-level AddLiquidity / RemoveLiquidity / ClaimFee instructions
+ * that name the position are counted, so other positions of the same pair and swaps through
+ * the pool in the same transaction are left out. Transfers are matched against the reserve
+ * vaults the lb pair owns, which also catches wrapped SOL that never touches a user ATA.
+ */
+export function extractPositionFlows(
+  transaction: ParsedTransactionWithMeta,
+  signature: string,
+  params: PositionHistoryParams
+): PositionFlow[] {
+  const meta = transaction.meta;
+  if (!meta || meta.err) return [];
+
+  const names = topLevelInstructionNames(meta.logMessages || []);
+  const instructions = transaction.transaction.message.instructions;
+  const vaultsX = reserveVaults(transaction, params.lbPairAddress, params.tokenXMint);
+  const vaultsY = reserveVaults(transaction, params.lbPairAddress, params.tokenYMint);
+
+  const totals = new Map<PositionFlowKind, { amountX: bigint; amountY: bigint }>();
+  for (const inner of meta.innerInstructions || []) {
+    const kind = instructionFlowKind(names.get(inner.index) || '');
+    if (!kind || !referencesAccount(instructions[inner.index], params.positionAddress)) continue;
+
+    // Deposits move tokens into the vaults; withdrawals and fee claims move them out
+    const side = kind === 'deposit' ? 'destination' : 'source';
+    const total = totals.get(kind) || { amountX: BigInt(0), amountY: BigInt(0) };
+    for (const instruction of inner.instructions) {
+      total.amountX += transferredVia(instruction, vaultsX, side);
+      total.amountY += transferredVia(instruction, vaultsY, side);
+    }
+    totals.set(kind, total);
+  }
+
+  return FLOW_KINDS
+    .filter(kind => totals.has(kind))
+    .map(kind => ({
+      signature,
+      blockTime: transaction.blockTime ?? null,
+      kind,
+      ...totals.get(kind)!,
+    }));
+}
+
+/**
+ * Aggregate flows into deposited / withdrawn totals
+ */
+export function summarizeFlows(flows: PositionFlow[], isComplete: boolean): PositionFlowHistory {
+  const zero = BigInt(0);
+  let depositedX = zero, depositedY = zero, withdrawnX = zero, withdrawnY = zero;
+
+  for (const flow of flows) {
+    if (flow.kind === 'deposit') {
+      depositedX += flow.amountX;
+      depositedY += flow.amountY;
+    } else if (flow.kind === 'withdraw') {
+      withdrawnX += flow.amountX;
+      withdrawnY += flow.amountY;
+    }
+    // Fee claims are reported through the position's claimed-fee totals instead
+  }
+
+  return { flows, depositedX, depositedY, withdrawnX, withdrawnY, isComplete };
+}
+
+/**
+ * Compute HODL value, current value, fees, impermanent loss and net PnL.
+ * All legs are valued at current prices, so IL isolates the effect of the
+ * position's rebalancing and net PnL = IL + fees (performance versus holding).
+ */
+export function calculatePositionPnl(input: PositionPnlInput): PositionPnl {
+  const { history, priceXUsd, priceYUsd } = input;
+  const toUiX = (raw: bigint) => toUiNumber(tokenAmount(input.tokenXMint, input.xDecimals, raw));
+  const toUiY = (raw: bigint) => toUiNumber(tokenAmount(input.tokenYMint, input.yDecimals, raw));
+
+  const depositedX = toUiX(history.depositedX);
+  const depositedY = toUiY(history.depositedY);
+  const withdrawnX = toUiX(history.withdrawnX);
+  const withdrawnY = toUiY(history.withdrawnY);
+
+  const hodlValue = depositedX * priceXUsd + depositedY * priceYUsd;
+  const currentValue = input.currentX * priceXUsd + input.currentY * priceYUsd;
+  const withdrawnValue = withdrawnX * priceXUsd + withdrawnY * priceYUsd;
+  const fees = input.feesX * priceXUsd + input.feesY * priceYUsd;
+  const impermanentLoss = currentValue + withdrawnValue - hodlValue;
+
+  const usd: PnlValues = {
+    hodlValue,
+    currentValue,
+    fees,
+    impermanentLoss,
+    netPnl: impermanentLoss + fees,
+  };
+
+  const btcPrice = input.btcPriceUsd;
+  const btc = btcPrice && btcPrice > 0
+    ? {
+        hodlValue: usd.hodlValue / btcPrice,
+        currentValue: usd.currentValue / btcPrice,
+        fees: usd.fees / btcPrice,
+        impermanentLoss: usd.impermanentLoss / btcPrice,
+        netPnl: usd.netPnl / btcPrice,
+      }
+    : null;
+
+  return { usd, btc, history };
+}
+
+/**
+ * Service that fetches and caches per-position flow history
+ */
+export class PositionPnlService {
+  private connection: Connection;
+
+  constructor(connection: Connection) {
+    this.connection = connection;
+  }
+
+  /**
+   * Reconstruct the deposit/withdraw history of a position from its transaction signatures
+   */
+  async getPositionHistory(params: PositionHistoryParams): Promise<PositionFlowHistory> {
+    const cached = historyCache.get(params.positionAddress);
+    if (cached && (Date.now() - cached.timestamp) < CACHE_DURATION) {
+      return cached.history;
+    }
+
+    const signatureInfos = await this.connection.getSignaturesForAddress(
+      new PublicKey(params.positionAddress),
+      { limit: MAX_SIGNATURES }
+    );
+
+    const signatures = signatureInfos
+      .filter(info => !info.err)
+      .map(info => info.signature)
+      .reverse(); // oldest first
+
+    const flows: PositionFlow[] = [];
+
+    for (let i = 0; i < signatures.length; i += TRANSACTION_BATCH_SIZE) {
+      const batch = signatures.slice(i, i + TRANSACTION_BATCH_SIZE);
+      const transactions = await this.connection.getParsedTransactions(batch, {
+        maxSupportedTransactionVersion: 0,
+      });
+
+      transactions.forEach((transaction, index) => {
+        if (transaction) flows.push(...extractPositionFlows(transaction, batch[index], params));
+      });
+    }
+
+    const history = summarizeFlows(flows, signatureInfos.length < MAX_SIGNATURES);
+    historyCache.set(params.positionAddress, { history, timestamp: Date.now() });
+
+    return history;
+  }
+}
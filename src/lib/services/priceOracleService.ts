@@ -0,0 +1,480 @@
+// src/lib/services/priceOracleService.ts
+// USD prices for the whole app. Several sources (Jupiter price API, Meteora pool prices, Pyth
+// price accounts) are queried side by side; stale quotes are dropped, quotes far from the median
+// are rejected as outliers, and the median of the rest is the price. Sources are picked from
+// NEXT_PUBLIC_PRICE_ORACLE_SOURCES, and the fixture source prices tokens with no network.
+
+import { Connection, PublicKey } from '@solana/web3.js';
+import {
+  getPoolDataConfig,
+  getPoolDataProvider,
+  loadBundledFixtures,
+} from '@/lib/api/poolDataProvider';
+import type { Pool } from '@/lib/api/pools';
+import type { TokenPrices } from '@/lib/types';
+import {
+  findTokenByMint,
+  findTokenBySymbol,
+  type PairLike,
+} from '@/lib/utils/tokenRegistry';
+
+export interface PriceQuote {
+  source: string;
+  mint: string;
+  usd: number;
+  // When the source last observed the price (ms); the fetch time for sources without one
+  publishedAt: number;
+}
+
+export interface PriceSource {
+  readonly name: string;
+  // Quotes for the mints the source can price; unknown mints are left out
+  fetchQuotes(mints: string[]): Promise<PriceQuote[]>;
+}
+
+export type PriceSourceKind = 'jupiter' | 'meteora' | 'pyth' | 'fixture';
+
+export interface PriceOracleConfig {
+  sources: PriceSourceKind[];
+  // Quotes older than this are stale
+  maxAgeMs: number;
+  // Quotes further than this from the median, in basis points, are rejected
+  maxDeviationBps: number;
+  jupiterApiUrl: string;
+  rpcUrl: string;
+}
+
+export interface RejectedQuote {
+  quote: PriceQuote;
+  reason: 'stale' | 'outlier';
+}
+
+export interface OraclePrice {
+  mint: string;
+  usd: number;
+  // Quotes the price was taken from
+  quotes: PriceQuote[];
+  rejected: RejectedQuote[];
+  // Every quote was stale; the price is the median of them anyway
+  stale: boolean;
+  // Sources disagreed by more than the deviation limit and none could be singled out
+  disputed: boolean;
+  // Spread of the accepted quotes around the price
+  spreadBps: number;
+  // Newest accepted quote
+  publishedAt: number;
+}
+
+// Prices per mint; mints no source could price are absent
+export type OraclePriceMap = Record<string, OraclePrice>;
+
+const DEFAULT_JUPITER_API_URL = 'https://lite-api.jup.ag';
+const DEFAULT_RPC_URL = 'https://api.mainnet-beta.solana.com';
+const LIVE_SOURCES: PriceSourceKind[] = ['jupiter', 'meteora', 'pyth'];
+const SOURCE_KINDS: PriceSourceKind[] = [...LIVE_SOURCES, 'fixture'];
+const DEFAULT_MAX_AGE_MS = 5 * 60 * 1000; // 5 minutes
+const DEFAULT_MAX_DEVIATION_BPS = 100;
+
+const PRICE_CACHE_TTL = 30 * 1000; // 30 seconds
+
+// Pools shallower than this are too easy to move to be priced from
+const MIN_POOL_LIQUIDITY_USD = 10000;
+// Pyth prices with a confidence interval wider than this share of the price are ignored
+const MAX_PYTH_CONFIDENCE_RATIO = 0.02;
+
+function parsePositive(value: string | undefined, fallback: number): number {
+  const parsed = Number(value);
+  return value && Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+// "jupiter,pyth"
+function parseSources(value: string | undefined): PriceSourceKind[] {
+  const kinds = (value || '')
+    .split(',')
+    .map(kind => kind.trim().toLowerCase() as PriceSourceKind)
+    .filter(kind => SOURCE_KINDS.includes(kind));
+  return Array.from(new Set(kinds));
+}
+
+/**
+ * Read the price oracle configuration from the environment. Without a source list the
+ * fixture source follows the fixture pool data provider, so offline runs stay offline.
+ */
+export function getPriceOracleConfig(): PriceOracleConfig {
+  const poolData = getPoolDataConfig();
+  const sources = parseSources(process.env.NEXT_PUBLIC_PRICE_ORACLE_SOURCES);
+
+  return {
+    sources: sources.length > 0 ? sources : poolData.provider === 'fixture' ? ['fixture'] : LIVE_SOURCES,
+    maxAgeMs: parsePositive(process.env.NEXT_PUBLIC_PRICE_ORACLE_MAX_AGE_SECONDS, DEFAULT_MAX_AGE_MS / 1000) * 1000,
+    maxDeviationBps: parsePositive(process.env.NEXT_PUBLIC_PRICE_ORACLE_MAX_DEVIATION_BPS, DEFAULT_MAX_DEVIATION_BPS),
+    jupiterApiUrl: poolData.jupiterApiUrl || DEFAULT_JUPITER_API_URL,
+    rpcUrl: process.env.NEXT_PUBLIC_SOLANA_RPC_URL || DEFAULT_RPC_URL,
+  };
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+function deviationBps(value: number, reference: number): number {
+  return Math.abs(value / reference - 1) * 10000;
+}
+
+/**
+ * Jupiter price API v3, one request for all mints
+ */
+export class JupiterPriceSource implements PriceSource {
+  readonly name = 'jupiter';
+
+  constructor(private readonly apiUrl: string = DEFAULT_JUPITER_API_URL) {}
+
+  async fetchQuotes(mints: string[]): Promise<PriceQuote[]> {
+    const response = await fetch(`${this.apiUrl}/price/v3?ids=${mints.map(encodeURIComponent).join(',')}`);
+    if (!response.ok) {
+      throw new Error(`Failed to fetch Jupiter prices (${response.status})`);
+    }
+
+    // { [mint]: { usdPrice, blockId, decimals, priceChange24h } }; unknown mints are omitted
+    const body: Record<string, { usdPrice?: number } | null> = await response.json();
+    const now = Date.now();
+    return mints.flatMap(mint => {
+      const usd = body[mint]?.usdPrice;
+      return typeof usd === 'number' && usd > 0 ? [{ source: this.name, mint, usd, publishedAt: now }] : [];
+    });
+  }
+}
+
+/**
+ * Prices implied by Meteora DLMM pools: the deepest pool against a stablecoin (taken at $1),
+ * or against SOL with SOL priced the same way. Stablecoins themselves are left to the other sources.
+ */
+export class MeteoraPoolPriceSource implements PriceSource {
+  readonly name = 'meteora';
+
+  async fetchQuotes(mints: string[]): Promise<PriceQuote[]> {
+    const now = Date.now();
+    const sol = findTokenBySymbol('SOL');
+    let solUsd: Promise<number | null> | null = null;
+    const getSolUsd = () => (solUsd ??= sol ? this.priceAgainst(sol.mint, 'stable') : Promise.resolve(null));
+
+    const quotes = await Promise.all(mints.map(async (mint) => {
+      const token = findTokenByMint(mint);
+      if (!token || token.category === 'stable') return null;
+
+      let usd = await this.priceAgainst(mint, 'stable');
+      if (usd === null && sol && mint !== sol.mint) {
+        const [inSol, solPrice] = await Promise.all([this.priceAgainst(mint, 'sol'), getSolUsd()]);
+        usd = inSol !== null && solPrice !== null ? inSol * solPrice : null;
+      }
+      return usd !== null && usd > 0 ? { source: this.name, mint, usd, publishedAt: now } : null;
+    }));
+
+    return quotes.filter((quote): quote is PriceQuote => quote !== null);
+  }
+
+  // Price of a mint in units of the quote category's token, from its deepest pool; null without one
+  private async priceAgainst(mint: string, quoteCategory: 'stable' | 'sol'): Promise<number | null> {
+    const token = findTokenByMint(mint);
+    if (!token) return null;
+
+    const { groups } = await getPoolDataProvider().fetchPools(token.symbol.toLowerCase());
+    const candidates = groups
+      .flatMap(group => group.pairs)
+      .filter((pair): pair is Pool & { mint_x: string; mint_y: string } => !!pair.mint_x && !!pair.mint_y)
+      .filter(pair => parseFloat(pair.liquidity) >= MIN_POOL_LIQUIDITY_USD && Number(pair.current_price) > 0)
+      .filter(pair => {
+        const other = pair.mint_x === mint ? pair.mint_y : pair.mint_y === mint ? pair.mint_x : null;
+        return !!other && findTokenByMint(other)?.category === quoteCategory;
+      })
+      .sort((a, b) => parseFloat(b.liquidity) - parseFloat(a.liquidity));
+
+    const deepest = candidates[0];
+    if (!deepest) return null;
+    // current_price is the price of token X in token Y
+    const price = Number(deepest.current_price);
+    return deepest.mint_x === mint ? price : 1 / price;
+  }
+}
+
+// PriceUpdateV2 account of the Pyth Solana receiver:
+// discriminator (8) | write authority (32) | verification level (1 = Full, 2 = Partial) | price message
+const PYTH_DISCRIMINATOR_LENGTH = 8;
+const PYTH_WRITE_AUTHORITY_LENGTH = 32;
+const PYTH_FEED_ID_LENGTH = 32;
+
+interface PythPrice {
+  price: number;
+  confidence: number;
+  publishedAt: number;
+}
+
+function readInt64(data: Buffer, offset: number): number {
+  // Two 32-bit halves; exact for the magnitudes prices and timestamps reach
+  return data.readInt32LE(offset + 4) * 2 ** 32 + data.readUInt32LE(offset);
+}
+
+/**
+ * Decode a Pyth PriceUpdateV2 account; null when it is not fully verified or is malformed
+ */
+export function decodePythPriceUpdate(data: Buffer): PythPrice | null {
+  let offset = PYTH_DISCRIMINATOR_LENGTH + PYTH_WRITE_AUTHORITY_LENGTH;
+  if (data.length < offset + 1) return null;
+
+  // 0 = Partial { num_signatures: u8 }, 1 = Full
+  const verification = data.readUInt8(offset);
+  if (verification !== 1) return null;
+  offset += 1 + PYTH_FEED_ID_LENGTH;
+  if (data.length < offset + 36) return null;
+
+  const price = readInt64(data, offset);
+  const confidence = readInt64(data, offset + 8);
+  const exponent = data.readInt32LE(offset + 16);
+  const publishTime = readInt64(data, offset + 20);
+
+  const scale = 10 ** exponent;
+  return { price: price * scale, confidence: confidence * scale, publishedAt: publishTime * 1000 };
+}
+
+/**
+ * Pyth push-oracle price accounts listed in the token registry, read straight from the chain
+ */
+export class PythPriceSource implements PriceSource {
+  readonly name = 'pyth';
+
+  constructor(private readonly connection: Connection) {}
+
+  async fetchQuotes(mints: string[]): Promise<PriceQuote[]> {
+    const feeds = mints.flatMap(mint => {
+      const account = findTokenByMint(mint)?.pythPriceAccount;
+      return account ? [{ mint, account: new PublicKey(account) }] : [];
+    });
+    if (feeds.length === 0) return [];
+
+    const accounts = await this.connection.getMultipleAccountsInfo(feeds.map(feed => feed.account));
+    return feeds.flatMap((feed, index) => {
+      const info = accounts[index];
+      const decoded = info ? decodePythPriceUpdate(info.data) : null;
+      if (!decoded || decoded.price <= 0 || decoded.confidence / decoded.price > MAX_PYTH_CONFIDENCE_RATIO) {
+        return [];
+      }
+      return [{ source: this.name, mint: feed.mint, usd: decoded.price, publishedAt: decoded.publishedAt }];
+    });
+  }
+}
+
+/**
+ * Fixed prices, by default the usdPrice of each token in fixtures/meteora/tokens.json.
+ * ageMs backdates every quote, e.g. to exercise staleness handling.
+ */
+export class FixturePriceSource implements PriceSource {
+  readonly name = 'fixture';
+  private prices: Promise<Record<string, number>>;
+
+  constructor(prices?: Record<string, number>, private readonly ageMs: number = 0) {
+    this.prices = prices
+      ? Promise.resolve(prices)
+      : loadBundledFixtures().then(({ tokens }) => {
+        const bundled: Record<string, number> = {};
+        for (const [mint, meta] of Object.entries(tokens)) {
+          if (typeof meta.usdPrice === 'number') bundled[mint] = meta.usdPrice;
+        }
+        return bundled;
+      });
+  }
+
+  async fetchQuotes(mints: string[]): Promise<PriceQuote[]> {
+    const prices = await this.prices;
+    const publishedAt = Date.now() - this.ageMs;
+    return mints
+      .filter(mint => prices[mint] !== undefined)
+      .map(mint => ({ source: this.name, mint, usd: prices[mint], publishedAt }));
+  }
+}
+
+/**
+ * Combine quotes for one mint: drop stale quotes (keeping them only when nothing fresh is
+ * left), reject outliers around the median, and price at the median of the rest
+ */
+export function aggregateQuotes(
+  mint: string,
+  quotes: PriceQuote[],
+  options: Pick<PriceOracleConfig, 'maxAgeMs' | 'maxDeviationBps'>,
+  now: number = Date.now()
+): OraclePrice | null {
+  const usable = quotes.filter(quote => quote.mint === mint && Number.isFinite(quote.usd) && quote.usd > 0);
+  if (usable.length === 0) return null;
+
+  const fresh = usable.filter(quote => now - quote.publishedAt <= options.maxAgeMs);
+  const stale = fresh.length === 0;
+  const candidates = stale ? usable : fresh;
+  const rejected: RejectedQuote[] = stale
+    ? []
+    : usable.filter(quote => !fresh.includes(quote)).map(quote => ({ quote, reason: 'stale' as const }));
+
+  const center = median(candidates.map(quote => quote.usd));
+  const inRange = candidates.filter(quote => deviationBps(quote.usd, center) <= options.maxDeviationBps);
+  // With every quote out of range (e.g. two sources far apart) there is nothing to single out
+  const disputed = inRange.length === 0;
+  const accepted = disputed ? candidates : inRange;
+  rejected.push(...candidates
+    .filter(quote => !accepted.includes(quote))
+    .map(quote => ({ quote, reason: 'outlier' as const })));
+
+  const usd = median(accepted.map(quote => quote.usd));
+  const values = accepted.map(quote => quote.usd);
+  return {
+    mint,
+    usd,
+    quotes: accepted,
+    rejected,
+    stale,
+    disputed,
+    spreadBps: Math.round(((Math.max(...values) - Math.min(...values)) / usd) * 10000),
+    publishedAt: Math.max(...accepted.map(quote => quote.publishedAt)),
+  };
+}
+
+/**
+ * Queries every source in parallel and caches the aggregated price per mint. In-flight
+ * lookups are shared, and a failing source only loses its own quotes.
+ */
+export class PriceOracle {
+  private cache = new Map<string, { value: Promise<OraclePrice | null>; timestamp: number }>();
+
+  constructor(
+    readonly sources: PriceSource[],
+    private readonly options: Pick<PriceOracleConfig, 'maxAgeMs' | 'maxDeviationBps'>,
+    private readonly ttl: number = PRICE_CACHE_TTL
+  ) {}
+
+  async getPrices(mints: string[]): Promise<OraclePriceMap> {
+    const unique = Array.from(new Set(mints.filter(Boolean)));
+    const missing = unique.filter(mint => {
+      const entry = this.cache.get(mint);
+      return !entry || Date.now() - entry.timestamp >= this.ttl;
+    });
+
+    if (missing.length > 0) {
+      const batch = this.load(missing);
+      const timestamp = Date.now();
+      for (const mint of missing) {
+        const value = batch.then(prices => prices[mint] ?? null);
+        const entry = { value, timestamp };
+        this.cache.set(mint, entry);
+        // Failures and unpriced mints are not cached
+        value.then(
+          price => {
+            if (!price && this.cache.get(mint) === entry) this.cache.delete(mint);
+          },
+          () => {
+            if (this.cache.get(mint) === entry) this.cache.delete(mint);
+          }
+        );
+      }
+    }
+
+    const prices: OraclePriceMap = {};
+    await Promise.all(unique.map(async (mint) => {
+      const price = await this.cache.get(mint)?.value;
+      if (price) prices[mint] = price;
+    }));
+    return prices;
+  }
+
+  async getPrice(mint: string): Promise<OraclePrice | null> {
+    const prices = await this.getPrices([mint]);
+    return prices[mint] ?? null;
+  }
+
+  clear(): void {
+    this.cache.clear();
+  }
+
+  private async load(mints: string[]): Promise<OraclePriceMap> {
+    const results = await Promise.all(this.sources.map(source =>
+      source.fetchQuotes(mints).catch((error) => {
+        console.warn(`Price source ${source.name} failed:`, error);
+        return [] as PriceQuote[];
+      })
+    ));
+    const quotes = results.flat();
+    const now = Date.now();
+
+    const prices: OraclePriceMap = {};
+    for (const mint of mints) {
+      const price = aggregateQuotes(mint, quotes, this.options, now);
+      if (price) prices[mint] = price;
+    }
+    return prices;
+  }
+}
+
+/**
+ * Build a source by kind
+ */
+export function createPriceSource(kind: PriceSourceKind, config: PriceOracleConfig): PriceSource {
+  switch (kind) {
+    case 'fixture':
+      return new FixturePriceSource();
+    case 'meteora':
+      return new MeteoraPoolPriceSource();
+    case 'pyth':
+      return new PythPriceSource(new Connection(config.rpcUrl));
+    case 'jupiter':
+    default:
+      return new JupiterPriceSource(config.jupiterApiUrl);
+  }
+}
+
+/**
+ * Build an oracle for a configuration
+ */
+export function createPriceOracle(config: PriceOracleConfig = getPriceOracleConfig()): PriceOracle {
+  return new PriceOracle(config.sources.map(kind => createPriceSource(kind, config)), config);
+}
+
+let activeOracle: PriceOracle | null = null;
+
+/**
+ * The configured oracle, shared across the app so its cache is too
+ */
+export function getPriceOracle(): PriceOracle {
+  if (!activeOracle) {
+    activeOracle = createPriceOracle();
+  }
+  return activeOracle;
+}
+
+/**
+ * Replace the shared oracle (e.g. with fixture sources in tests); pass null to reset to config
+ */
+export function setPriceOracle(oracle: PriceOracle | null): void {
+  activeOracle = oracle;
+}
+
+/**
+ * Mints of a pool, from the pool itself or the token registry
+ */
+export function poolMints(pool: PairLike): string[] {
+  if (pool.mint_x && pool.mint_y) return [pool.mint_x, pool.mint_y];
+  const symbols = pool.name.split('-');
+  return symbols.flatMap(symbol => {
+    const token = findTokenBySymbol(symbol);
+    return token ? [token.mint] : [];
+  });
+}
+
+/**
+ * USD price per token symbol; mints outside the registry are keyed by mint
+ */
+export function toTokenPrices(prices: OraclePriceMap): TokenPrices {
+  const symbols: TokenPrices = {};
+  for (const price of Object.values(prices)) {
+    const symbol = findTokenByMint(price.mint)?.symbol ?? price.mint;
+    symbols[symbol] = price.usd;
+  }
+  return symbols;
+}
@@ -0,0 +1,468 @@
+// src/lib/services/transactionBuilder.ts
+// Turns the legacy transactions returned by the DLMM SDK into v0 transactions with address
+// lookup tables, a compute unit limit sized from simulation and a priority fee from a policy,
+// and resends with a fresh blockhash when a transaction expires before it lands.
+
+import {
+  AddressLookupTableAccount,
+  ComputeBudgetInstruction,
+  ComputeBudgetProgram,
+  Connection,
+  Keypair,
+  PublicKey,
+  Transaction,
+  TransactionExpiredBlockheightExceededError,
+  TransactionInstruction,
+  TransactionMessage,
+  VersionedTransaction,
+} from '@solana/web3.js';
+import { DLMMError, DLMMErrorType } from '@/lib/meteora/meteoraDlmmService';
+
+export type SpeedTier = 'normal' | 'fast' | 'turbo';
+
+export type PriorityFeePolicy =
+  | { kind: 'fixed'; microLamports: number }
+  // Percentile (0-100) of recent fees paid for the accounts the transaction writes to
+  | { kind: 'percentile'; percentile: number }
+  | { kind: 'speed'; tier: SpeedTier };
+
+export interface SpeedTierConfig {
+  label: string;
+  percentile: number;
+  // Floor so quiet periods (all recent fees zero) still get some priority
+  minMicroLamports: number;
+}
+
+export const SPEED_TIERS: Record<SpeedTier, SpeedTierConfig> = {
+  normal: { label: 'Normal', percentile: 50, minMicroLamports: 1_000 },
+  fast: { label: 'Fast', percentile: 75, minMicroLamports: 10_000 },
+  turbo: { label: 'Turbo', percentile: 95, minMicroLamports: 100_000 },
+};
+
+export interface TransactionBuilderConfig {
+  policy: PriorityFeePolicy;
+  // Hard cap on the compute unit price, whatever the policy says
+  maxMicroLamports: number;
+  lookupTables: string[];
+  maxSendAttempts: number;
+}
+
+export interface BuildOptions {
+  policy?: PriorityFeePolicy;
+  // Units consumed in an earlier simulation (e.g. the preview); skips the sizing simulation
+  computeUnits?: number | null;
+  // Extra signers (e.g. a new position keypair); each is only applied where required
+  signers?: Keypair[];
+}
+
+export interface BuiltTransaction {
+  transaction: VersionedTransaction;
+  blockhash: string;
+  lastValidBlockHeight: number;
+  computeUnitLimit: number;
+  priorityFeeMicroLamports: number;
+}
+
+export interface PriorityFeeQuote {
+  microLamports: number;
+  computeUnitLimit: number;
+  // Total priority fee in lamports at that limit
+  lamports: number;
+}
+
+export interface SendOptions extends BuildOptions {
+  maxAttempts?: number;
+  // Called before a resend so the UI can explain the second wallet prompt
+  onExpired?: (attempt: number) => void;
+}
+
+// Signs (via the wallet) and submits a built transaction, resolving to its signature
+export type SendVersionedTransaction = (transaction: VersionedTransaction) => Promise<string>;
+
+export type SignAllVersionedTransactions = (transactions: VersionedTransaction[]) => Promise<VersionedTransaction[]>;
+
+export interface BatchItem {
+  transaction: Transaction;
+  signers?: Keypair[];
+}
+
+const MAX_COMPUTE_UNITS = 1_400_000;
+const MIN_COMPUTE_UNITS = 50_000;
+// Headroom over the simulated units, since state can shift before the transaction lands
+const COMPUTE_UNIT_MARGIN = 1.15;
+const DEFAULT_MAX_MICRO_LAMPORTS = 2_000_000;
+const DEFAULT_MAX_SEND_ATTEMPTS = 3;
+// getRecentPrioritizationFees accepts at most 128 accounts
+const MAX_FEE_ACCOUNTS = 128;
+
+// Lookup tables rarely change, so keep them for a while across builders
+const lookupTableCache = new Map<string, { table: AddressLookupTableAccount | null; timestamp: number }>();
+const LOOKUP_TABLE_CACHE_DURATION = 10 * 60 * 1000;
+
+/**
+ * Parse a policy string: "fixed:<microLamports>", "percentile:<0-100>" or "speed:<normal|fast|turbo>"
+ */
+export function parsePriorityFeePolicy(value: string | undefined): PriorityFeePolicy {
+  const [kind, argument = ''] = (value || '').trim().toLowerCase().split(':');
+
+  if (kind === 'fixed') {
+    const microLamports = Number(argument);
+    if (Number.isFinite(microLamports) && microLamports >= 0) {
+      return { kind: 'fixed', microLamports: Math.floor(microLamports) };
+    }
+  } else if (kind === 'percentile') {
+    const percentile = Number(argument);
+    if (Number.isFinite(percentile) && percentile >= 0 && percentile <= 100) {
+      return { kind: 'percentile', percentile };
+    }
+  } else if (kind === 'speed' && argument in SPEED_TIERS) {
+    return { kind: 'speed', tier: argument as SpeedTier };
+  }
+
+  if (value) {
+    console.warn(`Unknown priority fee policy "${value}", using speed:fast`);
+  }
+  return { kind: 'speed', tier: 'fast' };
+}
+
+export function getTransactionBuilderConfig(): TransactionBuilderConfig {
+  const maxMicroLamports = Number(process.env.NEXT_PUBLIC_PRIORITY_FEE_MAX_MICROLAMPORTS);
+  const maxSendAttempts = Number(process.env.NEXT_PUBLIC_TX_MAX_SEND_ATTEMPTS);
+
+  return {
+    policy: parsePriorityFeePolicy(process.env.NEXT_PUBLIC_PRIORITY_FEE_POLICY),
+    maxMicroLamports: maxMicroLamports > 0 ? maxMicroLamports : DEFAULT_MAX_MICRO_LAMPORTS,
+    lookupTables: (process.env.NEXT_PUBLIC_ADDRESS_LOOKUP_TABLES || '')
+      .split(',')
+      .map(address => address.trim())
+      .filter(Boolean),
+    maxSendAttempts: maxSendAttempts > 0 ? Math.floor(maxSendAttempts) : DEFAULT_MAX_SEND_ATTEMPTS,
+  };
+}
+
+/**
+ * Nearest-rank percentile of a list of fees
+ */
+export function percentileFee(fees: number[], percentile: number): number {
+  if (fees.length === 0) return 0;
+  const sorted = [...fees].sort((a, b) => a - b);
+  const rank = Math.ceil((percentile / 100) * sorted.length);
+  return sorted[Math.min(sorted.length - 1, Math.max(0, rank - 1))];
+}
+
+function isComputeBudgetInstruction(instruction: TransactionInstruction): boolean {
+  return instruction.programId.equals(ComputeBudgetProgram.programId);
+}
+
+/**
+ * The compute unit limit the SDK already set, if any
+ */
+function existingComputeUnitLimit(instructions: TransactionInstruction[]): number | null {
+  for (const instruction of instructions.filter(isComputeBudgetInstruction)) {
+    try {
+      if (ComputeBudgetInstruction.decodeInstructionType(instruction) === 'SetComputeUnitLimit') {
+        return ComputeBudgetInstruction.decodeSetComputeUnitLimit(instruction).units;
+      }
+    } catch {
+      // Not a compute budget instruction we know how to decode
+    }
+  }
+  return null;
+}
+
+function writableAccounts(instructions: TransactionInstruction[]): PublicKey[] {
+  const seen = new Map<string, PublicKey>();
+  for (const instruction of instructions) {
+    for (const key of instruction.keys) {
+      if (key.isWritable) seen.set(key.pubkey.toBase58(), key.pubkey);
+    }
+  }
+  return [...seen.values()].slice(0, MAX_FEE_ACCOUNTS);
+}
+
+function requiresSigner(instructions: TransactionInstruction[], signer: PublicKey): boolean {
+  return instructions.some(instruction =>
+    instruction.keys.some(key => key.isSigner && key.pubkey.equals(signer))
+  );
+}
+
+function isExpiryError(error: unknown): boolean {
+  if (error instanceof TransactionExpiredBlockheightExceededError) return true;
+  const message = error instanceof Error ? error.message : String(error);
+  return /blockhash not found|block height exceeded|has expired/i.test(message);
+}
+
+/**
+ * Builds and sends v0 transactions with compute budget instructions
+ */
+export class TransactionBuilder {
+  private _connection: Connection;
+  private config: TransactionBuilderConfig;
+
+  constructor(connection: Connection, config: TransactionBuilderConfig = getTransactionBuilderConfig()) {
+    this._connection = connection;
+    this.config = config;
+  }
+
+  get connection(): Connection {
+    return this._connection;
+  }
+
+  get defaultPolicy(): PriorityFeePolicy {
+    return this.config.policy;
+  }
+
+  /**
+   * Resolve the configured lookup tables, skipping any that no longer exist
+   */
+  async getLookupTables(): Promise<AddressLookupTableAccount[]> {
+    const tables = await Promise.all(this.config.lookupTables.map(async address => {
+      const cached = lookupTableCache.get(address);
+      if (cached && Date.now() - cached.timestamp < LOOKUP_TABLE_CACHE_DURATION) {
+        return cached.table;
+      }
+
+      try {
+        const { value } = await this._connection.getAddressLookupTable(new PublicKey(address));
+        lookupTableCache.set(address, { table: value, timestamp: Date.now() });
+        return value;
+      } catch (error) {
+        console.warn(`Failed to load address lookup table ${address}:`, error);
+        return null;
+      }
+    }));
+
+    return tables.filter((table): table is AddressLookupTableAccount => table !== null);
+  }
+
+  /**
+   * Compute unit price (micro-lamports) for a transaction under a policy
+   */
+  async getPriorityFee(
+    instructions: TransactionInstruction[],
+    policy: PriorityFeePolicy = this.config.policy
+  ): Promise<number> {
+    if (policy.kind === 'fixed') {
+      return Math.min(policy.microLamports, this.config.maxMicroLamports);
+    }
+
+    const percentile = policy.kind === 'percentile' ? policy.percentile : SPEED_TIERS[policy.tier].percentile;
+    const floor = policy.kind === 'speed' ? SPEED_TIERS[policy.tier].minMicroLamports : 0;
+
+    let recent = 0;
+    try {
+      const fees = await this._connection.getRecentPrioritizationFees({
+        lockedWritableAccounts: writableAccounts(instructions),
+      });
+      recent = percentileFee(fees.map(fee => fee.prioritizationFee), percentile);
+    } catch (error) {
+      console.warn('Failed to load recent priority fees, using the policy floor:', error);
+    }
+
+    return Math.min(Math.max(recent, floor), this.config.maxMicroLamports);
+  }
+
+  /**
+   * Simulate with the maximum limit and size the real limit from the units consumed
+   */
+  async estimateComputeUnits(
+    instructions: TransactionInstruction[],
+    payer: PublicKey,
+    lookupTables: AddressLookupTableAccount[]
+  ): Promise<number | null> {
+    const message = new TransactionMessage({
+      payerKey: payer,
+      // Replaced by the RPC node (replaceRecentBlockhash)
+      recentBlockhash: PublicKey.default.toBase58(),
+      instructions: [
+        ComputeBudgetProgram.setComputeUnitLimit({ units: MAX_COMPUTE_UNITS }),
+        ...instructions,
+      ],
+    }).compileToV0Message(lookupTables);
+
+    try {
+      const { value } = await this._connection.simulateTransaction(new VersionedTransaction(message), {
+        sigVerify: false,
+        replaceRecentBlockhash: true,
+      });
+      return value.err || !value.unitsConsumed ? null : value.unitsConsumed;
+    } catch (error) {
+      console.warn('Compute unit simulation failed:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Priority fee for a transaction at its expected compute unit limit, for display before signing
+   */
+  async quotePriorityFee(
+    transaction: Transaction,
+    computeUnits: number | null,
+    policy: PriorityFeePolicy = this.config.policy
+  ): Promise<PriorityFeeQuote> {
+    const instructions = transaction.instructions.filter(instruction => !isComputeBudgetInstruction(instruction));
+    const microLamports = await this.getPriorityFee(instructions, policy);
+    const computeUnitLimit = this.computeUnitLimit(computeUnits, transaction.instructions);
+
+    return {
+      microLamports,
+      computeUnitLimit,
+      lamports: Math.ceil((microLamports * computeUnitLimit) / 1_000_000),
+    };
+  }
+
+  /**
+   * Convert a legacy transaction into a signed-by-extra-signers v0 transaction with a fresh blockhash
+   */
+  async build(transaction: Transaction, payer: PublicKey, options: BuildOptions = {}): Promise<BuiltTransaction> {
+    // Drop the SDK's own compute budget instructions; ours replace them
+    const instructions = transaction.instructions.filter(instruction => !isComputeBudgetInstruction(instruction));
+    const lookupTables = await this.getLookupTables();
+
+    const [units, priorityFeeMicroLamports] = await Promise.all([
+      options.computeUnits ?? this.estimateComputeUnits(instructions, payer, lookupTables),
+      this.getPriorityFee(instructions, options.policy),
+    ]);
+    const computeUnitLimit = this.computeUnitLimit(units, transaction.instructions);
+
+    const budget = [ComputeBudgetProgram.setComputeUnitLimit({ units: computeUnitLimit })];
+    if (priorityFeeMicroLamports > 0) {
+      budget.push(ComputeBudgetProgram.setComputeUnitPrice({ microLamports: priorityFeeMicroLamports }));
+    }
+
+    const { blockhash, lastValidBlockHeight } = await this._connection.getLatestBlockhash('confirmed');
+    const message = new TransactionMessage({
+      payerKey: payer,
+      recentBlockhash: blockhash,
+      instructions: [...budget, ...instructions],
+    }).compileToV0Message(lookupTables);
+
+    const versioned = new VersionedTransaction(message);
+    const signers = (options.signers || []).filter(signer => requiresSigner(instructions, signer.publicKey));
+    if (signers.length > 0) {
+      versioned.sign(signers);
+    }
+
+    return {
+      transaction: versioned,
+      blockhash,
+      lastValidBlockHeight,
+      computeUnitLimit,
+      priorityFeeMicroLamports,
+    };
+  }
+
+  /**
+   * Build, send and confirm a transaction, rebuilding with a fresh blockhash (and a fresh
+   * priority fee) when it expires before landing. Each attempt is a new wallet prompt.
+   */
+  async sendWithRetry(
+    transaction: Transaction,
+    payer: PublicKey,
+    send: SendVersionedTransaction,
+    { maxAttempts = this.config.maxSendAttempts, onExpired, ...buildOptions }: SendOptions = {}
+  ): Promise<string> {
+    let lastError: unknown = null;
+
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+      if (attempt > 1) onExpired?.(attempt);
+
+      const built = await this.build(transaction, payer, buildOptions);
+      try {
+        const signature = await send(built.transaction);
+        const confirmation = await this._connection.confirmTransaction({
+          signature,
+          blockhash: built.blockhash,
+          lastValidBlockHeight: built.lastValidBlockHeight,
+        }, 'confirmed');
+
+        if (confirmation.value.err) {
+          throw new DLMMError(
+            DLMMErrorType.UNKNOWN_ERROR,
+            'The transaction was included but failed on-chain.',
+            JSON.stringify(confirmation.value.err)
+          );
+        }
+        return signature;
+      } catch (error) {
+        if (!isExpiryError(error)) throw error;
+        console.warn(`Transaction expired (attempt ${attempt} of ${maxAttempts}), rebuilding with a fresh blockhash`);
+        lastError = error;
+      }
+    }
+
+    throw new DLMMError(
+      DLMMErrorType.TRANSACTION_EXPIRED,
+      `The transaction expired ${maxAttempts} times before it could land. Try again with a faster speed setting.`,
+      lastError instanceof Error ? lastError.message : undefined
+    );
+  }
+
+  /**
+   * Build a batch for one wallet approval and send it in order. When the batch expires
+   * part-way, the transactions that did not land are rebuilt and signed again.
+   */
+  async sendBatchWithRetry(
+    items: BatchItem[],
+    payer: PublicKey,
+    signAll: SignAllVersionedTransactions,
+    { maxAttempts = this.config.maxSendAttempts, onExpired, policy }: Omit<SendOptions, 'signers' | 'computeUnits'> = {}
+  ): Promise<string[]> {
+    const signatures: string[] = [];
+    let pending = items;
+    let lastError: unknown = null;
+
+    for (let attempt = 1; attempt <= maxAttempts && pending.length > 0; attempt++) {
+      if (attempt > 1) onExpired?.(attempt);
+
+      const built: BuiltTransaction[] = [];
+      for (const item of pending) {
+        built.push(await this.build(item.transaction, payer, { policy, signers: item.signers }));
+      }
+      const signed = await signAll(built.map(entry => entry.transaction));
+
+      let landed = 0;
+      try {
+        for (; landed < signed.length; landed++) {
+          const signature = await this._connection.sendRawTransaction(signed[landed].serialize());
+          const confirmation = await this._connection.confirmTransaction({
+            signature,
+            blockhash: built[landed].blockhash,
+            lastValidBlockHeight: built[landed].lastValidBlockHeight,
+          }, 'confirmed');
+
+          if (confirmation.value.err) {
+            throw new DLMMError(
+              DLMMErrorType.UNKNOWN_ERROR,
+              `Transaction ${signatures.length + 1} was included but failed on-chain.`,
+              JSON.stringify(confirmation.value.err)
+            );
+          }
+          signatures.push(signature);
+        }
+      } catch (error) {
+        if (!isExpiryError(error)) throw error;
+        console.warn(`Batch expired after ${signatures.length} of ${items.length} transactions (attempt ${attempt} of ${maxAttempts})`);
+        lastError = error;
+      }
+      pending = pending.slice(landed);
+    }
+
+    if (pending.length > 0) {
+      throw new DLMMError(
+        DLMMErrorType.TRANSACTION_EXPIRED,
+        `${pending.length} of ${items.length} transactions expired before they could land. Try again with a faster speed setting.`,
+        lastError instanceof Error ? lastError.message : undefined
+      );
+    }
+    return signatures;
+  }
+
+  private computeUnitLimit(units: number | null, originalInstructions: TransactionInstruction[]): number {
+    if (units === null) {
+      // Fall back to whatever the SDK asked for, or the maximum
+      return existingComputeUnitLimit(originalInstructions) ?? MAX_COMPUTE_UNITS;
+    }
+    return Math.min(MAX_COMPUTE_UNITS, Math.max(MIN_COMPUTE_UNITS, Math.ceil(units * COMPUTE_UNIT_MARGIN)));
+  }
+}
@@ -0,0 +1,360 @@
+// src/lib/services/transactionPreviewService.ts
+// Simulates transactions before the wallet prompt and decodes what they would do:
+// token balance changes, rent deposits and refunds, compute units and program logs.
+
+import {
+  AccountInfo,
+  Connection,
+  PublicKey,
+  Transaction,
+  TransactionError,
+} from '@solana/web3.js';
+import { ACCOUNT_SIZE, AccountLayout, TOKEN_2022_PROGRAM_ID, TOKEN_PROGRAM_ID } from '@solana/spl-token';
+import { BN } from '@coral-xyz/anchor';
+import { DLMMError, DLMMErrorType } from '@/lib/meteora/meteoraDlmmService';
+import { getPoolDataProvider } from '@/lib/api/poolDataProvider';
+import { tokenAmount, toUiNumber } from '@/lib/utils/tokenAmount';
+
+// 'dependent': failed against current state, but uses accounts an earlier transaction of the batch creates or funds
+export type SimulationStatus = 'success' | 'failed' | 'dependent';
+
+export interface TokenBalanceChange {
+  mint: string;
+  symbol: string;
+  decimals: number;
+  // Raw base-unit delta (negative when leaving the wallet)
+  rawDelta: string;
+  uiDelta: number;
+}
+
+export interface LamportChange {
+  account: string;
+  lamports: number;
+}
+
+export interface TransactionSimulation {
+  index: number;
+  status: SimulationStatus;
+  // Human-readable explanation of a failure
+  error?: string;
+  rawError?: string;
+  computeUnits: number | null;
+  logs: string[];
+  tokenChanges: TokenBalanceChange[];
+  // Fee payer lamport delta from the simulated state
+  solChange: number;
+  rentDeposits: LamportChange[];
+  rentRefunds: LamportChange[];
+  // Accounts other than the fee payer that this transaction creates or credits
+  fundedAccounts: string[];
+  // Base fee for the required signatures (priority fees excluded)
+  networkFee: number;
+}
+
+export interface TransactionPreview {
+  simulations: TransactionSimulation[];
+  canProceed: boolean;
+  error?: string;
+  totalComputeUnits: number;
+  tokenChanges: TokenBalanceChange[];
+  solChange: number;
+  rentDeposited: number;
+  rentRefunded: number;
+  networkFee: number;
+}
+
+interface PreviewOptions {
+  // Later transactions depend on earlier ones (e.g. remove then re-add), so their
+  // failures against current state are re-checked right before they are signed
+  sequential?: boolean;
+}
+
+const LAMPORTS_PER_SIGNATURE = 5000;
+const TOKEN_PROGRAMS = [TOKEN_PROGRAM_ID.toBase58(), TOKEN_2022_PROGRAM_ID.toBase58()];
+
+interface TokenAccountState {
+  mint: string;
+  owner: string;
+  amount: BN;
+}
+
+/**
+ * Decode an SPL token account (Token-2022 extensions live after the base layout)
+ */
+function decodeTokenAccount(owner: string, data: Buffer): TokenAccountState | null {
+  if (!TOKEN_PROGRAMS.includes(owner) || data.length < ACCOUNT_SIZE) return null;
+  try {
+    const decoded = AccountLayout.decode(data.subarray(0, ACCOUNT_SIZE));
+    return {
+      mint: decoded.mint.toBase58(),
+      owner: decoded.owner.toBase58(),
+      amount: new BN(decoded.amount.toString()),
+    };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Fee payer plus every writable account, without compiling (no blockhash needed)
+ */
+function writableAccounts(transaction: Transaction, feePayer: PublicKey): PublicKey[] {
+  const seen = new Map<string, PublicKey>([[feePayer.toBase58(), feePayer]]);
+  for (const instruction of transaction.instructions) {
+    for (const key of instruction.keys) {
+      if (key.isWritable) seen.set(key.pubkey.toBase58(), key.pubkey);
+    }
+  }
+  return [...seen.values()];
+}
+
+/**
+ * Every account a transaction's instructions reference, read-only ones included
+ */
+function referencedAccounts(transaction: Transaction): string[] {
+  return transaction.instructions.flatMap(instruction => instruction.keys.map(key => key.pubkey.toBase58()));
+}
+
+function isSolShortfall(simulation: TransactionSimulation): boolean {
+  return /InsufficientFundsForRent|InsufficientFundsForFee|insufficient lamports/i
+    .test(`${simulation.rawError}\n${simulation.logs.join('\n')}`);
+}
+
+function requiredSignatureCount(transaction: Transaction, feePayer: PublicKey): number {
+  const signers = new Set<string>([feePayer.toBase58()]);
+  for (const instruction of transaction.instructions) {
+    for (const key of instruction.keys) {
+      if (key.isSigner) signers.add(key.pubkey.toBase58());
+    }
+  }
+  return signers.size;
+}
+
+/**
+ * Turn a simulation error and its logs into something a user can act on
+ */
+export function explainSimulationError(error: TransactionError | string | null, logs: string[] = []): string {
+  const raw = typeof error === 'string' ? error : JSON.stringify(error);
+  const text = `${raw}\n${logs.join('\n')}`;
+
+  // Anchor programs (including DLMM) log a readable reason
+  const anchorMessage = logs
+    .map(log => log.match(/Error Message: (.+?)\.?$/))
+    .find((match): match is RegExpMatchArray => match !== null);
+
+  if (/InsufficientFundsForRent/.test(text)) {
+    return 'Not enough SOL to cover the rent deposit for the new accounts.';
+  }
+  if (/InsufficientFundsForFee|insufficient lamports/i.test(text)) {
+    return 'Not enough SOL to pay for this transaction.';
+  }
+  if (/Error: insufficient funds/i.test(text)) {
+    return 'Not enough tokens in your wallet for this amount.';
+  }
+  if (/AccountNotFound/.test(text)) {
+    return 'Your wallet has no SOL yet. Fund it before sending transactions.';
+  }
+  if (/BlockhashNotFound/.test(text)) {
+    return 'The network did not accept the recent blockhash. Please try again.';
+  }
+  if (/ExceededBinSlippageTolerance|ExceededAmountSlippageTolerance/.test(text)) {
+    return 'The pool price moved past your slippage tolerance. Rebuild the transaction at the current price.';
+  }
+  if (anchorMessage) {
+    return `The program rejected this transaction: ${anchorMessage[1]}.`;
+  }
+  return `This transaction would fail on-chain (${raw}).`;
+}
+
+/**
+ * Service that previews transactions by simulating them against current chain state
+ */
+export class TransactionPreviewService {
+  private _connection: Connection;
+
+  constructor(connection: Connection) {
+    this._connection = connection;
+  }
+
+  get connection(): Connection {
+    return this._connection;
+  }
+
+  /**
+   * Simulate one transaction and decode its effects on the fee payer's accounts
+   */
+  async simulate(transaction: Transaction, feePayer: PublicKey, index: number = 0): Promise<TransactionSimulation> {
+    const accounts = writableAccounts(transaction, feePayer);
+    const before = await this._connection.getMultipleAccountsInfo(accounts);
+
+    // Simulate a copy so the wallet still gets the original, unsigned transaction
+    const copy = new Transaction();
+    copy.feePayer = feePayer;
+    copy.instructions = transaction.instructions;
+    const simulation = await this._connection.simulateTransaction(copy, undefined, accounts);
+    const { err, logs, unitsConsumed } = simulation.value;
+    const after = simulation.value.accounts || [];
+
+    const owner = feePayer.toBase58();
+    const rawDeltas = new Map<string, BN>();
+    const rentDeposits: LamportChange[] = [];
+    const rentRefunds: LamportChange[] = [];
+    const fundedAccounts: string[] = [];
+    let solChange = 0;
+
+    accounts.forEach((account, position) => {
+      const pre: AccountInfo<Buffer> | null = before[position];
+      const post = after[position];
+      const preLamports = pre?.lamports ?? 0;
+      const postLamports = post?.lamports ?? 0;
+      const address = account.toBase58();
+
+      if (address === owner) {
+        solChange = postLamports - preLamports;
+        return;
+      }
+      if (preLamports === 0 && postLamports > 0) {
+        rentDeposits.push({ account: address, lamports: postLamports });
+      } else if (preLamports > 0 && postLamports === 0) {
+        rentRefunds.push({ account: address, lamports: preLamports });
+      }
+
+      const preToken = pre ? decodeTokenAccount(pre.owner.toBase58(), pre.data) : null;
+      const postToken = post ? decodeTokenAccount(post.owner, Buffer.from(post.data[0], 'base64')) : null;
+      const delta = (postToken?.amount ?? new BN(0)).sub(preToken?.amount ?? new BN(0));
+      if (postLamports > preLamports || delta.gtn(0)) {
+        fundedAccounts.push(address);
+      }
+
+      const token = postToken || preToken;
+      if (!token || token.owner !== owner || delta.isZero()) return;
+      rawDeltas.set(token.mint, (rawDeltas.get(token.mint) ?? new BN(0)).add(delta));
+    });
+
+    return {
+      index,
+      status: err ? 'failed' : 'success',
+      error: err ? explainSimulationError(err, logs || []) : undefined,
+      rawError: err ? JSON.stringify(err) : undefined,
+      computeUnits: unitsConsumed ?? null,
+      logs: logs || [],
+      tokenChanges: await this.describeTokenChanges(rawDeltas),
+      solChange,
+      rentDeposits,
+      rentRefunds,
+      fundedAccounts: err ? [] : fundedAccounts,
+      networkFee: requiredSignatureCount(transaction, feePayer) * LAMPORTS_PER_SIGNATURE,
+    };
+  }
+
+  /**
+   * Simulate every transaction of an action and combine the results.
+   * In a sequential batch a failure only counts as 'dependent' when the transaction uses an
+   * account an earlier one creates or credits (or runs short of SOL an earlier one returns);
+   * anything else would fail regardless of order, so it stays 'failed' and blocks the action.
+   */
+  async previewTransactions(
+    transactions: Transaction[],
+    feePayer: PublicKey,
+    { sequential = true }: PreviewOptions = {}
+  ): Promise<TransactionPreview> {
+    const simulations: TransactionSimulation[] = [];
+    const funded = new Set<string>();
+    let solFunded = false;
+
+    for (let index = 0; index < transactions.length; index++) {
+      const transaction = transactions[index];
+      const simulation = await this.simulate(transaction, feePayer, index);
+
+      if (simulation.status === 'failed' && sequential) {
+        const usesFunded = referencedAccounts(transaction).some(account => funded.has(account));
+        if (usesFunded || (solFunded && isSolShortfall(simulation))) {
+          simulation.status = 'dependent';
+          // What a dependent transaction produces is unknown until it lands, so later ones may rely on any of it
+          writableAccounts(transaction, feePayer)
+            .filter(account => !account.equals(feePayer))
+            .forEach(account => funded.add(account.toBase58()));
+        }
+      }
+
+      simulation.fundedAccounts.forEach(account => funded.add(account));
+      if (simulation.status === 'dependent' || (simulation.status === 'success' && simulation.solChange > 0)) {
+        solFunded = true;
+      }
+      simulations.push(simulation);
+    }
+
+    const blocking = simulations.find(simulation => simulation.status === 'failed');
+    const landed = simulations.filter(simulation => simulation.status === 'success');
+    const sum = (values: number[]) => values.reduce((total, value) => total + value, 0);
+
+    return {
+      simulations,
+      canProceed: !blocking,
+      error: blocking
+        ? transactions.length > 1 ? `Transaction ${blocking.index + 1}: ${blocking.error}` : blocking.error
+        : undefined,
+      totalComputeUnits: sum(simulations.map(simulation => simulation.computeUnits ?? 0)),
+      tokenChanges: this.mergeTokenChanges(landed.flatMap(simulation => simulation.tokenChanges)),
+      solChange: sum(landed.map(simulation => simulation.solChange)),
+      rentDeposited: sum(landed.flatMap(simulation => simulation.rentDeposits.map(change => change.lamports))),
+      rentRefunded: sum(landed.flatMap(simulation => simulation.rentRefunds.map(change => change.lamports))),
+      networkFee: sum(simulations.map(simulation => simulation.networkFee)),
+    };
+  }
+
+  /**
+   * Re-check a transaction right before signing it; throws when it would fail
+   */
+  async assertSimulates(transaction: Transaction, feePayer: PublicKey): Promise<TransactionSimulation> {
+    const simulation = await this.simulate(transaction, feePayer);
+    if (simulation.status !== 'success') {
+      throw new DLMMError(
+        DLMMErrorType.TRANSACTION_SIMULATION_FAILED,
+        simulation.error || 'Transaction simulation failed',
+        simulation.rawError
+      );
+    }
+    return simulation;
+  }
+
+  private async describeTokenChanges(rawDeltas: Map<string, BN>): Promise<TokenBalanceChange[]> {
+    if (rawDeltas.size === 0) return [];
+
+    const mints = [...rawDeltas.keys()];
+    const mintInfos = await this._connection.getMultipleParsedAccounts(mints.map(mint => new PublicKey(mint)));
+
+    return Promise.all(mints.map(async (mint, position) => {
+      const data = mintInfos.value[position]?.data;
+      const decimals = data && 'parsed' in data ? Number(data.parsed.info.decimals) : 0;
+      const meta = await getPoolDataProvider().fetchTokenMeta(mint).catch(() => null);
+      const rawDelta = rawDeltas.get(mint)!;
+
+      return {
+        mint,
+        symbol: meta?.symbol || `${mint.slice(0, 4)}...${mint.slice(-4)}`,
+        decimals,
+        rawDelta: rawDelta.toString(),
+        uiDelta: toUiNumber(tokenAmount(mint, decimals, rawDelta)),
+      };
+    }));
+  }
+
+  private mergeTokenChanges(changes: TokenBalanceChange[]): TokenBalanceChange[] {
+    const merged = new Map<string, TokenBalanceChange>();
+    for (const change of changes) {
+      const existing = merged.get(change.mint);
+      if (!existing) {
+        merged.set(change.mint, { ...change });
+        continue;
+      }
+      const rawDelta = new BN(existing.rawDelta).add(new BN(change.rawDelta));
+      merged.set(change.mint, {
+        ...existing,
+        rawDelta: rawDelta.toString(),
+        uiDelta: toUiNumber(tokenAmount(change.mint, existing.decimals, rawDelta)),
+      });
+    }
+    return [...merged.values()].filter(change => change.rawDelta !== '0');
+  }
+}
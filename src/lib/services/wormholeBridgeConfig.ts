@@ -0,0 +1,137 @@
+// src/lib/services/wormholeBridgeConfig.ts
+// Wormhole Connect settings per environment and the curated routes that bring the BTC
+// variants our pool search supports (wBTC, cbBTC) into Solana. zBTC has no Wormhole
+// route; it is minted from native BTC through the Zeus bridge.
+
+import type { Chain } from '@wormhole-foundation/wormhole-connect';
+
+export type WormholeEnvironment = 'Mainnet' | 'Testnet';
+
+// Route families offered by Wormhole Connect; mapped to route constructors by the widget
+export type WormholeRouteName = 'TokenBridge' | 'AutomaticTokenBridge' | 'Mayan';
+
+// Matches the token filters of PoolSearchService
+export type BtcPoolFilter = 'wbtc-sol' | 'cbbtc-sol' | 'zbtc-sol';
+
+export interface WormholeToken {
+  symbol: string;
+  name: string;
+  chain: Chain;
+  address: string;
+  decimals: number;
+}
+
+export interface BtcBridgeRoute {
+  id: string;
+  label: string;
+  from: WormholeToken;
+  // What lands in the Solana wallet; this is the mint the recommended pools hold
+  to: WormholeToken;
+  routes: WormholeRouteName[];
+  poolFilter: BtcPoolFilter;
+}
+
+export interface WormholeBridgeConfig {
+  environment: WormholeEnvironment;
+  chains: Chain[];
+  routes: BtcBridgeRoute[];
+}
+
+const WBTC_ETHEREUM: WormholeToken = {
+  symbol: 'WBTC',
+  name: 'Wrapped BTC',
+  chain: 'Ethereum',
+  address: '0x2260FAC5E5542a773Aa44fBCfeDf7C193bc2C599',
+  decimals: 8,
+};
+
+// Portal-wrapped WBTC, the wBTC in Meteora's wBTC-SOL pools
+const WBTC_SOLANA: WormholeToken = {
+  symbol: 'WBTC',
+  name: 'Wrapped BTC (Wormhole)',
+  chain: 'Solana',
+  address: '3NZ9JMVBmGAqocybic2c7LQCJScmgsAZ6vQqTDzcqmJh',
+  decimals: 8,
+};
+
+const CBBTC_ETHEREUM: WormholeToken = {
+  symbol: 'cbBTC',
+  name: 'Coinbase Wrapped BTC',
+  chain: 'Ethereum',
+  address: '0xcbB7C0000aB88B473b1f5aFd9ef808440eed33Bf',
+  decimals: 8,
+};
+
+const CBBTC_BASE: WormholeToken = { ...CBBTC_ETHEREUM, chain: 'Base' };
+
+// Coinbase's native cbBTC mint on Solana; reached by swapping through Mayan
+const CBBTC_SOLANA: WormholeToken = {
+  symbol: 'cbBTC',
+  name: 'Coinbase Wrapped BTC',
+  chain: 'Solana',
+  address: 'cbbtcf3aa214zXHbiAZQwf4122FBYbraNdFqgw4iMij',
+  decimals: 8,
+};
+
+const MAINNET_ROUTES: BtcBridgeRoute[] = [
+  {
+    id: 'wbtc-ethereum',
+    label: 'WBTC from Ethereum',
+    from: WBTC_ETHEREUM,
+    to: WBTC_SOLANA,
+    routes: ['AutomaticTokenBridge', 'TokenBridge'],
+    poolFilter: 'wbtc-sol',
+  },
+  {
+    id: 'cbbtc-base',
+    label: 'cbBTC from Base',
+    from: CBBTC_BASE,
+    to: CBBTC_SOLANA,
+    routes: ['Mayan'],
+    poolFilter: 'cbbtc-sol',
+  },
+  {
+    id: 'cbbtc-ethereum',
+    label: 'cbBTC from Ethereum',
+    from: CBBTC_ETHEREUM,
+    to: CBBTC_SOLANA,
+    routes: ['Mayan'],
+    poolFilter: 'cbbtc-sol',
+  },
+];
+
+const CONFIGS: Record<WormholeEnvironment, WormholeBridgeConfig> = {
+  Mainnet: {
+    environment: 'Mainnet',
+    chains: ['Ethereum', 'Base', 'Solana'],
+    routes: MAINNET_ROUTES,
+  },
+  // No BTC variants are deployed on the test networks; only plain token bridge transfers work there
+  Testnet: {
+    environment: 'Testnet',
+    chains: ['Sepolia', 'BaseSepolia', 'Solana'],
+    routes: [],
+  },
+};
+
+/**
+ * Wormhole environment: NEXT_PUBLIC_WORMHOLE_NETWORK when set, else it follows the Solana cluster
+ */
+export function getWormholeEnvironment(): WormholeEnvironment {
+  const explicit = process.env.NEXT_PUBLIC_WORMHOLE_NETWORK;
+  if (explicit === 'Mainnet' || explicit === 'Testnet') return explicit;
+
+  const cluster = process.env.NEXT_PUBLIC_SOLANA_NETWORK || 'mainnet-beta';
+  return cluster === 'mainnet-beta' ? 'Mainnet' : 'Testnet';
+}
+
+export function getWormholeBridgeConfig(environment: WormholeEnvironment = getWormholeEnvironment()): WormholeBridgeConfig {
+  return CONFIGS[environment];
+}
+
+/**
+ * Curated route whose Solana token matches an arrived token, if any
+ */
+export function findRouteByDestination(config: WormholeBridgeConfig, chain: string, address: string): BtcBridgeRoute | null {
+  return config.routes.find(route => route.to.chain === chain && route.to.address === address) ?? null;
+}
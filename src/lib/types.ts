@@ -1,8 +1,10 @@
+// USD price per token symbol, built from the price oracle (see toTokenPrices in
+// priceOracleService); tokens no source could price are absent
 export interface TokenPrices {
-  SOL: number;
-  USDC: number;
-  USDT: number;
-  ETH: number;
+  SOL?: number;
+  USDC?: number;
+  USDT?: number;
+  ETH?: number;
   ZEUS?: number;
   L3?: number;
   BONK?: number;
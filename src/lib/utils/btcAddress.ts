@@ -0,0 +1,333 @@
+// src/lib/utils/btcAddress.ts
+// Bitcoin address decoding with checksum verification: Base58Check (P2PKH, P2SH) and
+// bech32 / bech32m segwit addresses (P2WPKH, P2WSH, P2TR), per BIP-173 and BIP-350.
+// Testnet and signet share their prefixes, so both decode as 'testnet'.
+
+export type BtcNetwork = 'mainnet' | 'testnet' | 'regtest';
+
+export type BtcAddressType = 'p2pkh' | 'p2sh' | 'p2wpkh' | 'p2wsh' | 'p2tr' | 'witness_unknown';
+
+export type BtcAddressEncoding = 'base58' | 'bech32' | 'bech32m';
+
+export interface BtcAddressInfo {
+  address: string;
+  network: BtcNetwork;
+  type: BtcAddressType;
+  encoding: BtcAddressEncoding;
+  // Segwit version (0 for P2WPKH / P2WSH, 1 for P2TR)
+  witnessVersion?: number;
+  // Public key / script hash, witness program or taproot output key
+  payload: Uint8Array;
+}
+
+export type BtcAddressValidation =
+  | { valid: true; info: BtcAddressInfo }
+  | { valid: false; error: string; info?: BtcAddressInfo };
+
+export class BtcAddressError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BtcAddressError';
+  }
+}
+
+export const BTC_ADDRESS_TYPE_LABELS: Record<BtcAddressType, string> = {
+  p2pkh: 'Legacy (P2PKH)',
+  p2sh: 'Script hash (P2SH)',
+  p2wpkh: 'Native SegWit (P2WPKH)',
+  p2wsh: 'SegWit script (P2WSH)',
+  p2tr: 'Taproot (P2TR)',
+  witness_unknown: 'Unknown SegWit version',
+};
+
+const BASE58_ALPHABET = '123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz';
+const BECH32_CHARSET = 'qpzry9x8gf2tvdw0s3jn54khce6mua7l';
+const BECH32_GENERATOR = [0x3b6a57b2, 0x26508e6d, 0x1ea119fa, 0x3d4233dd, 0x2a1462b3];
+const BECH32_CONST = 1;
+const BECH32M_CONST = 0x2bc830a3;
+
+const BASE58_VERSIONS: Record<number, { network: BtcNetwork; type: BtcAddressType }> = {
+  0x00: { network: 'mainnet', type: 'p2pkh' },
+  0x05: { network: 'mainnet', type: 'p2sh' },
+  // Shared by testnet, signet and regtest; reported as testnet
+  0x6f: { network: 'testnet', type: 'p2pkh' },
+  0xc4: { network: 'testnet', type: 'p2sh' },
+};
+
+const SEGWIT_HRPS: Record<string, BtcNetwork> = {
+  bc: 'mainnet',
+  tb: 'testnet',
+  bcrt: 'regtest',
+};
+
+const NETWORK_HRPS: Record<BtcNetwork, string> = {
+  mainnet: 'bc',
+  testnet: 'tb',
+  regtest: 'bcrt',
+};
+
+// SHA-256 round constants
+const SHA256_K = new Uint32Array([
+  0x428a2f98, 0x71374491, 0xb5c0fbcf, 0xe9b5dba5, 0x3956c25b, 0x59f111f1, 0x923f82a4, 0xab1c5ed5,
+  0xd807aa98, 0x12835b01, 0x243185be, 0x550c7dc3, 0x72be5d74, 0x80deb1fe, 0x9bdc06a7, 0xc19bf174,
+  0xe49b69c1, 0xefbe4786, 0x0fc19dc6, 0x240ca1cc, 0x2de92c6f, 0x4a7484aa, 0x5cb0a9dc, 0x76f988da,
+  0x983e5152, 0xa831c66d, 0xb00327c8, 0xbf597fc7, 0xc6e00bf3, 0xd5a79147, 0x06ca6351, 0x14292967,
+  0x27b70a85, 0x2e1b2138, 0x4d2c6dfc, 0x53380d13, 0x650a7354, 0x766a0abb, 0x81c2c92e, 0x92722c85,
+  0xa2bfe8a1, 0xa81a664b, 0xc24b8b70, 0xc76c51a3, 0xd192e819, 0xd6990624, 0xf40e3585, 0x106aa070,
+  0x19a4c116, 0x1e376c08, 0x2748774c, 0x34b0bcb5, 0x391c0cb3, 0x4ed8aa4a, 0x5b9cca4f, 0x682e6ff3,
+  0x748f82ee, 0x78a5636f, 0x84c87814, 0x8cc70208, 0x90befffa, 0xa4506ceb, 0xbef9a3f7, 0xc67178f2,
+]);
+
+/**
+ * SHA-256 of a byte array (synchronous, so addresses validate as the user types)
+ */
+function sha256(data: Uint8Array): Uint8Array {
+  const bitLength = data.length * 8;
+  const paddedLength = Math.ceil((data.length + 9) / 64) * 64;
+  const padded = new Uint8Array(paddedLength);
+  padded.set(data);
+  padded[data.length] = 0x80;
+  const view = new DataView(padded.buffer);
+  view.setUint32(paddedLength - 8, Math.floor(bitLength / 0x100000000));
+  view.setUint32(paddedLength - 4, bitLength >>> 0);
+
+  const hash = new Uint32Array([
+    0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a, 0x510e527f, 0x9b05688c, 0x1f83d9ab, 0x5be0cd19,
+  ]);
+  const w = new Uint32Array(64);
+  const rotr = (x: number, n: number) => (x >>> n) | (x << (32 - n));
+
+  for (let offset = 0; offset < paddedLength; offset += 64) {
+    for (let i = 0; i < 16; i++) w[i] = view.getUint32(offset + i * 4);
+    for (let i = 16; i < 64; i++) {
+      const s0 = rotr(w[i - 15], 7) ^ rotr(w[i - 15], 18) ^ (w[i - 15] >>> 3);
+      const s1 = rotr(w[i - 2], 17) ^ rotr(w[i - 2], 19) ^ (w[i - 2] >>> 10);
+      w[i] = (w[i - 16] + s0 + w[i - 7] + s1) >>> 0;
+    }
+
+    let [a, b, c, d, e, f, g, h] = hash;
+    for (let i = 0; i < 64; i++) {
+      const t1 = (h + (rotr(e, 6) ^ rotr(e, 11) ^ rotr(e, 25)) + ((e & f) ^ (~e & g)) + SHA256_K[i] + w[i]) >>> 0;
+      const t2 = ((rotr(a, 2) ^ rotr(a, 13) ^ rotr(a, 22)) + ((a & b) ^ (a & c) ^ (b & c))) >>> 0;
+      h = g;
+      g = f;
+      f = e;
+      e = (d + t1) >>> 0;
+      d = c;
+      c = b;
+      b = a;
+      a = (t1 + t2) >>> 0;
+    }
+
+    hash[0] += a;
+    hash[1] += b;
+    hash[2] += c;
+    hash[3] += d;
+    hash[4] += e;
+    hash[5] += f;
+    hash[6] += g;
+    hash[7] += h;
+  }
+
+  const out = new Uint8Array(32);
+  const outView = new DataView(out.buffer);
+  hash.forEach((word, i) => outView.setUint32(i * 4, word));
+  return out;
+}
+
+function base58Decode(input: string): Uint8Array {
+  const bytes: number[] = [];
+  for (const char of input) {
+    let carry = BASE58_ALPHABET.indexOf(char);
+    if (carry < 0) throw new BtcAddressError(`Invalid Base58 character "${char}"`);
+
+    for (let i = 0; i < bytes.length; i++) {
+      carry += bytes[i] * 58;
+      bytes[i] = carry & 0xff;
+      carry >>= 8;
+    }
+    while (carry > 0) {
+      bytes.push(carry & 0xff);
+      carry >>= 8;
+    }
+  }
+
+  // Each leading '1' is a leading zero byte
+  for (let i = 0; i < input.length && input[i] === '1'; i++) bytes.push(0);
+  return Uint8Array.from(bytes.reverse());
+}
+
+function decodeBase58Check(address: string): BtcAddressInfo {
+  const data = base58Decode(address);
+  if (data.length !== 25) {
+    throw new BtcAddressError('Base58 address has the wrong length');
+  }
+
+  const body = data.subarray(0, 21);
+  const checksum = sha256(sha256(body)).subarray(0, 4);
+  if (!checksum.every((byte, i) => byte === data[21 + i])) {
+    throw new BtcAddressError('Address checksum does not match (check for typos)');
+  }
+
+  const version = BASE58_VERSIONS[data[0]];
+  if (!version) {
+    throw new BtcAddressError(`Unknown Base58 address version 0x${data[0].toString(16).padStart(2, '0')}`);
+  }
+
+  return { address, ...version, encoding: 'base58', payload: data.slice(1, 21) };
+}
+
+function bech32Polymod(values: number[]): number {
+  let checksum = 1;
+  for (const value of values) {
+    const top = checksum >>> 25;
+    checksum = ((checksum & 0x1ffffff) << 5) ^ value;
+    for (let i = 0; i < 5; i++) {
+      if ((top >>> i) & 1) checksum ^= BECH32_GENERATOR[i];
+    }
+  }
+  return checksum >>> 0;
+}
+
+function hrpExpand(hrp: string): number[] {
+  const codes = Array.from(hrp, char => char.charCodeAt(0));
+  return [...codes.map(code => code >> 5), 0, ...codes.map(code => code & 31)];
+}
+
+/**
+ * Regroup bits (e.g. 5-bit bech32 words to bytes); without padding, leftover bits must be zero
+ */
+function convertBits(data: ArrayLike<number>, fromBits: number, toBits: number, pad: boolean): number[] {
+  let accumulator = 0;
+  let bits = 0;
+  const result: number[] = [];
+  const maxValue = (1 << toBits) - 1;
+
+  for (let i = 0; i < data.length; i++) {
+    accumulator = (accumulator << fromBits) | data[i];
+    bits += fromBits;
+    while (bits >= toBits) {
+      bits -= toBits;
+      result.push((accumulator >> bits) & maxValue);
+    }
+  }
+
+  if (pad) {
+    if (bits > 0) result.push((accumulator << (toBits - bits)) & maxValue);
+  } else if (bits >= fromBits || ((accumulator << (toBits - bits)) & maxValue)) {
+    throw new BtcAddressError('Invalid padding in the address data');
+  }
+  return result;
+}
+
+function decodeSegwit(address: string): BtcAddressInfo {
+  if (address.length > 90) throw new BtcAddressError('SegWit address is too long');
+  if (address !== address.toLowerCase() && address !== address.toUpperCase()) {
+    throw new BtcAddressError('SegWit address mixes upper and lower case');
+  }
+
+  const lower = address.toLowerCase();
+  const separator = lower.lastIndexOf('1');
+  if (separator < 1 || separator + 7 > lower.length) {
+    throw new BtcAddressError('SegWit address is malformed');
+  }
+
+  const hrp = lower.slice(0, separator);
+  const network = SEGWIT_HRPS[hrp];
+  if (!network) throw new BtcAddressError(`Unknown address prefix "${hrp}"`);
+
+  const words: number[] = [];
+  for (const char of lower.slice(separator + 1)) {
+    const word = BECH32_CHARSET.indexOf(char);
+    if (word < 0) throw new BtcAddressError(`Invalid SegWit character "${char}"`);
+    words.push(word);
+  }
+
+  const polymod = bech32Polymod([...hrpExpand(hrp), ...words]);
+  const encoding: BtcAddressEncoding | null = polymod === BECH32_CONST ? 'bech32'
+    : polymod === BECH32M_CONST ? 'bech32m'
+    : null;
+  if (!encoding) throw new BtcAddressError('Address checksum does not match (check for typos)');
+
+  const data = words.slice(0, -6);
+  if (data.length === 0) throw new BtcAddressError('SegWit address has no witness version');
+  const witnessVersion = data[0];
+  if (witnessVersion > 16) throw new BtcAddressError(`Invalid witness version ${witnessVersion}`);
+
+  // BIP-350: version 0 uses bech32, every later version bech32m
+  if ((witnessVersion === 0) !== (encoding === 'bech32')) {
+    throw new BtcAddressError(`Witness version ${witnessVersion} must use ${witnessVersion === 0 ? 'bech32' : 'bech32m'}`);
+  }
+
+  const program = Uint8Array.from(convertBits(data.slice(1), 5, 8, false));
+  if (program.length < 2 || program.length > 40) {
+    throw new BtcAddressError('SegWit program has the wrong length');
+  }
+
+  let type: BtcAddressType = 'witness_unknown';
+  if (witnessVersion === 0) {
+    if (program.length === 20) type = 'p2wpkh';
+    else if (program.length === 32) type = 'p2wsh';
+    else throw new BtcAddressError('Version 0 witness program must be 20 or 32 bytes');
+  } else if (witnessVersion === 1 && program.length === 32) {
+    type = 'p2tr';
+  }
+
+  return { address, network, type, encoding, witnessVersion, payload: program };
+}
+
+/**
+ * Decode an address, verifying its checksum; throws BtcAddressError when it is invalid
+ */
+export function decodeBtcAddress(input: string): BtcAddressInfo {
+  const address = input.trim();
+  if (!address) throw new BtcAddressError('Address is empty');
+
+  const lower = address.toLowerCase();
+  const isSegwit = Object.keys(SEGWIT_HRPS).some(hrp => lower.startsWith(`${hrp}1`));
+  return isSegwit ? decodeSegwit(address) : decodeBase58Check(address);
+}
+
+/**
+ * Validate an address, optionally for a network; unknown future witness versions are
+ * rejected since funds sent to them could not be spent today
+ */
+export function validateBtcAddress(input: string, network?: BtcNetwork): BtcAddressValidation {
+  let info: BtcAddressInfo;
+  try {
+    info = decodeBtcAddress(input);
+  } catch (error) {
+    return { valid: false, error: error instanceof Error ? error.message : 'Invalid Bitcoin address' };
+  }
+
+  if (info.type === 'witness_unknown') {
+    return { valid: false, error: `Unsupported address type (witness version ${info.witnessVersion})`, info };
+  }
+  // Base58 test addresses are also valid on regtest
+  const matches = info.network === network
+    || (network === 'regtest' && info.encoding === 'base58' && info.network === 'testnet');
+  if (network && !matches) {
+    return { valid: false, error: `This is a ${info.network} address, but the bridge runs on ${network}`, info };
+  }
+  return { valid: true, info };
+}
+
+/**
+ * Encode a segwit address (bech32 for version 0, bech32m after)
+ */
+export function encodeSegwitAddress(network: BtcNetwork, witnessVersion: number, program: Uint8Array): string {
+  if (witnessVersion < 0 || witnessVersion > 16) {
+    throw new BtcAddressError(`Invalid witness version ${witnessVersion}`);
+  }
+  if (program.length < 2 || program.length > 40) {
+    throw new BtcAddressError('SegWit program has the wrong length');
+  }
+
+  const hrp = NETWORK_HRPS[network];
+  const data = [witnessVersion, ...convertBits(program, 8, 5, true)];
+  const constant = witnessVersion === 0 ? BECH32_CONST : BECH32M_CONST;
+  const polymod = bech32Polymod([...hrpExpand(hrp), ...data, 0, 0, 0, 0, 0, 0]) ^ constant;
+  const checksum = Array.from({ length: 6 }, (_, i) => (polymod >>> (5 * (5 - i))) & 31);
+
+  return `${hrp}1${[...data, ...checksum].map(word => BECH32_CHARSET[word]).join('')}`;
+}
@@ -0,0 +1,137 @@
+// src/lib/utils/poolMetrics.ts
+// Time-series summaries of pool fee yield, so a single noisy 24h snapshot
+// is shown alongside its 7d / 30d averages and volatility.
+
+import type { ApiPool } from './poolTypes';
+
+export interface PoolMetricsSnapshot {
+  address: string;
+  name: string;
+  timestamp: number;
+  tvl: number;
+  fees24h: number;
+  volume24h: number;
+  price: number;
+  binStep: number | null;
+}
+
+export interface FeeApyTrendPoint {
+  // UTC day, YYYY-MM-DD
+  date: string;
+  feeApy: number;
+  tvl: number;
+  volume24h: number;
+}
+
+export interface FeeApyStats {
+  average: number | null;
+  // Standard deviation of the daily values, in percentage points
+  volatility: number | null;
+  days: number;
+}
+
+export interface PoolMetricsSummary {
+  address: string;
+  currentFeeApy: number | null;
+  sevenDay: FeeApyStats;
+  thirtyDay: FeeApyStats;
+  trend: FeeApyTrendPoint[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Calculate fee APY from 24h fees and TVL
+ */
+export function calculateFeeAPY(fees24h: number, tvl: number): number {
+  if (tvl <= 0) return 0;
+  return (fees24h / tvl) * 100;
+}
+
+/**
+ * Capture the metrics of an API pool at a point in time
+ */
+export function snapshotFromPool(pool: ApiPool, timestamp: number = Date.now()): PoolMetricsSnapshot {
+  return {
+    address: pool.address,
+    name: pool.name,
+    timestamp,
+    tvl: parseFloat(pool.liquidity) || 0,
+    fees24h: typeof pool.fees_24h === 'number' ? pool.fees_24h : 0,
+    volume24h: typeof pool.trade_volume_24h === 'number' ? pool.trade_volume_24h : 0,
+    price: Number(pool.current_price) || 0,
+    binStep: pool.bin_step ?? null,
+  };
+}
+
+/**
+ * Fee APY of a snapshot, on the same 24h fee / TVL basis as formatPool
+ */
+export function snapshotFeeApy(snapshot: PoolMetricsSnapshot): number {
+  return calculateFeeAPY(snapshot.fees24h, snapshot.tvl);
+}
+
+/**
+ * Average snapshots per UTC day so uneven collection intervals don't skew the stats
+ */
+export function dailyFeeApyTrend(snapshots: PoolMetricsSnapshot[]): FeeApyTrendPoint[] {
+  const days = new Map<string, PoolMetricsSnapshot[]>();
+  for (const snapshot of snapshots) {
+    const date = new Date(snapshot.timestamp).toISOString().slice(0, 10);
+    const bucket = days.get(date);
+    if (bucket) bucket.push(snapshot);
+    else days.set(date, [snapshot]);
+  }
+
+  const average = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length;
+
+  return [...days.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([date, bucket]) => ({
+      date,
+      feeApy: average(bucket.map(snapshotFeeApy)),
+      tvl: average(bucket.map(snapshot => snapshot.tvl)),
+      volume24h: average(bucket.map(snapshot => snapshot.volume24h)),
+    }));
+}
+
+/**
+ * Mean and standard deviation of daily fee APY values
+ */
+export function feeApyStats(trend: FeeApyTrendPoint[]): FeeApyStats {
+  if (trend.length === 0) {
+    return { average: null, volatility: null, days: 0 };
+  }
+
+  const values = trend.map(point => point.feeApy);
+  const average = values.reduce((sum, value) => sum + value, 0) / values.length;
+  const variance = values.reduce((sum, value) => sum + (value - average) ** 2, 0) / values.length;
+
+  return {
+    average,
+    volatility: values.length >= 2 ? Math.sqrt(variance) : null,
+    days: values.length,
+  };
+}
+
+/**
+ * Summarize a pool's snapshots into current, 7d and 30d fee APY figures plus a daily trend
+ */
+export function summarizePoolMetrics(
+  address: string,
+  snapshots: PoolMetricsSnapshot[],
+  now: number = Date.now(),
+  trendDays: number = 30
+): PoolMetricsSummary {
+  const sorted = [...snapshots].sort((a, b) => a.timestamp - b.timestamp);
+  const latest = sorted[sorted.length - 1];
+  const window = (days: number) => dailyFeeApyTrend(sorted.filter(snapshot => snapshot.timestamp > now - days * DAY_MS));
+
+  return {
+    address,
+    currentFeeApy: latest ? snapshotFeeApy(latest) : null,
+    sevenDay: feeApyStats(window(7)),
+    thirtyDay: feeApyStats(window(30)),
+    trend: window(trendDays),
+  };
+}
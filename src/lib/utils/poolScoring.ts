@@ -0,0 +1,288 @@
+// src/lib/utils/poolScoring.ts
+// Composite pool score: each factor maps a pool onto 0-1 and the portfolio style weighs the factors.
+// Factors are pluggable; the breakdown travels with the recommended pool to the UI and the AI prompt.
+
+import { calculateFeeAPY, type PoolMetricsSummary } from './poolMetrics';
+import type {
+  ApiPool,
+  PoolFactorResult,
+  PoolScore,
+  PoolScoreFactor,
+  PoolScoreFactorId,
+  RankedPool,
+} from './poolTypes';
+import type { PortfolioStyle, RiskProfile } from './riskProfile';
+import { findTokenByMint, findTokenBySymbol, tokenRisk } from './tokenRegistry';
+
+export interface PoolScoringContext {
+  profile: RiskProfile;
+  // Time the pool snapshot is scored at (ms since epoch)
+  now: number;
+  // Fee APY history of the pool, when it has been fetched
+  history?: PoolMetricsSummary;
+}
+
+export interface PoolScoringFactor {
+  id: PoolScoreFactorId;
+  label: string;
+  evaluate(pool: ApiPool, context: PoolScoringContext): PoolFactorResult;
+}
+
+export type PoolFactorWeights = Record<PoolScoreFactorId, number>;
+
+// Weights per style, each summing to 1. Cautious styles lean on stability and token safety,
+// aggressive ones on yield and turnover.
+export const POOL_FACTOR_WEIGHTS: Record<PortfolioStyle, PoolFactorWeights> = {
+  conservative: {
+    feeApy: 0.15,
+    feeStability: 0.2,
+    turnover: 0.1,
+    binStepFit: 0.2,
+    priceVolatility: 0.15,
+    tokenRisk: 0.2,
+  },
+  moderate: {
+    feeApy: 0.25,
+    feeStability: 0.15,
+    turnover: 0.15,
+    binStepFit: 0.2,
+    priceVolatility: 0.1,
+    tokenRisk: 0.15,
+  },
+  aggressive: {
+    feeApy: 0.35,
+    feeStability: 0.1,
+    turnover: 0.2,
+    binStepFit: 0.2,
+    priceVolatility: 0.05,
+    tokenRisk: 0.1,
+  },
+};
+
+// Daily fee / TVL (in %) that scores 0.5; 0.2% a day is roughly 73% a year
+const FEE_APY_MIDPOINT = 0.2;
+// Daily volume / TVL that scores 0.5
+const TURNOVER_MIDPOINT = 0.5;
+// Days of history needed before the fee stability factor trusts it
+const MIN_HISTORY_DAYS = 3;
+
+// x / (x + midpoint): 0 at 0, 0.5 at the midpoint, approaching 1 for large values
+function saturate(value: number, midpoint: number): number {
+  return value > 0 ? value / (value + midpoint) : 0;
+}
+
+function clamp01(value: number): number {
+  return Math.min(1, Math.max(0, value));
+}
+
+const feeApyFactor: PoolScoringFactor = {
+  id: 'feeApy',
+  label: 'Fee APY',
+  evaluate(pool) {
+    const feeApy = calculateFeeAPY(pool.fees_24h || 0, parseFloat(pool.liquidity) || 0);
+    return {
+      score: saturate(feeApy, FEE_APY_MIDPOINT),
+      detail: `${feeApy.toFixed(2)}% of TVL earned in fees over 24h`,
+    };
+  },
+};
+
+const feeStabilityFactor: PoolScoringFactor = {
+  id: 'feeStability',
+  label: 'Fee stability',
+  evaluate(pool, { history, now }) {
+    const week = history?.sevenDay;
+    if (week && week.days >= MIN_HISTORY_DAYS && week.average && week.volatility !== null) {
+      const variation = week.volatility / week.average;
+      return {
+        score: clamp01(1 - variation),
+        detail: `Daily fee / TVL varied ${(variation * 100).toFixed(0)}% around its ${week.days}-day average`,
+      };
+    }
+
+    // Without history, compare today's fees with the 24h figure pro-rated to the time of day
+    const elapsed = (now % (24 * 60 * 60 * 1000)) / (24 * 60 * 60 * 1000);
+    if (typeof pool.today_fees === 'number' && pool.fees_24h > 0 && elapsed > 0.1) {
+      const pace = pool.today_fees / (pool.fees_24h * elapsed);
+      return {
+        score: clamp01(1 - Math.abs(Math.log(pace))),
+        detail: `Fees today are running at ${(pace * 100).toFixed(0)}% of the last 24h pace`,
+      };
+    }
+
+    return { score: 0.5, detail: 'Not enough history yet' };
+  },
+};
+
+const turnoverFactor: PoolScoringFactor = {
+  id: 'turnover',
+  label: 'Volume / TVL',
+  evaluate(pool) {
+    const tvl = parseFloat(pool.liquidity) || 0;
+    const turnover = tvl > 0 ? (pool.trade_volume_24h || 0) / tvl : 0;
+    return {
+      score: saturate(turnover, TURNOVER_MIDPOINT),
+      detail: `${turnover.toFixed(2)}x of TVL traded over 24h`,
+    };
+  },
+};
+
+const binStepFitFactor: PoolScoringFactor = {
+  id: 'binStepFit',
+  label: 'Bin step fit',
+  evaluate(pool, { profile }) {
+    const binStep = pool.bin_step;
+    if (!binStep) return { score: 0.5, detail: 'Bin step unknown' };
+
+    const index = profile.allowedBinSteps.indexOf(binStep);
+    if (index === -1) {
+      return { score: 0, detail: `Bin step ${binStep} is outside the profile's ${profile.allowedBinSteps.join(', ')}` };
+    }
+    return {
+      score: Math.max(0.5, 1 - index * 0.25),
+      detail: index === 0 ? `Bin step ${binStep} is the profile's first choice` : `Bin step ${binStep} is allowed by the profile`,
+    };
+  },
+};
+
+const priceVolatilityFactor: PoolScoringFactor = {
+  id: 'priceVolatility',
+  label: 'Price stability',
+  evaluate(pool) {
+    // DLMM adds a variable fee on top of the base fee as volatility builds up, so fees earned
+    // per unit of volume above the base rate measure recent price swings
+    const baseFee = parseFloat(pool.base_fee_percentage ?? '') / 100;
+    const volume = pool.trade_volume_24h || 0;
+    if (!(baseFee > 0) || volume <= 0) {
+      return { score: 0.5, detail: 'No fee data to gauge volatility' };
+    }
+
+    const surcharge = Math.max(0, (pool.fees_24h || 0) / (volume * baseFee) - 1);
+    return {
+      score: 1 / (1 + 2 * surcharge),
+      detail: surcharge < 0.05
+        ? 'Fees near the base rate, little volatility surcharge'
+        : `Volatility surcharge lifted fees ${(surcharge * 100).toFixed(0)}% above the base rate`,
+    };
+  },
+};
+
+const tokenRiskFactor: PoolScoringFactor = {
+  id: 'tokenRisk',
+  label: 'Token risk',
+  evaluate(pool) {
+    const symbols = pool.name.split('-');
+    const mints = [pool.mint_x, pool.mint_y];
+    const tokens = symbols.map((symbol, index) => {
+      const mint = mints[index];
+      return (mint && findTokenByMint(mint)) || findTokenBySymbol(symbol);
+    });
+    const risks = tokens.map(tokenRisk);
+    const worst = Math.max(...risks);
+    const riskiest = tokens[risks.indexOf(worst)];
+    return {
+      score: 1 - worst,
+      detail: worst === 0
+        ? 'Native tokens only'
+        : riskiest
+          ? `${riskiest.symbol} carries the most risk (${riskiest.riskTags.join(', ')})`
+          : `${symbols[risks.indexOf(worst)]} is not in the token registry`,
+    };
+  },
+};
+
+export const DEFAULT_POOL_FACTORS: PoolScoringFactor[] = [
+  feeApyFactor,
+  feeStabilityFactor,
+  turnoverFactor,
+  binStepFitFactor,
+  priceVolatilityFactor,
+  tokenRiskFactor,
+];
+
+/**
+ * Score one pool for a risk profile. Factors without a weight are skipped.
+ */
+export function scorePool(
+  pool: ApiPool,
+  context: PoolScoringContext,
+  factors: PoolScoringFactor[] = DEFAULT_POOL_FACTORS,
+  weights: PoolFactorWeights = POOL_FACTOR_WEIGHTS[context.profile.style]
+): PoolScore {
+  const weighted = factors.filter(factor => weights[factor.id] > 0);
+  const weightSum = weighted.reduce((sum, factor) => sum + weights[factor.id], 0) || 1;
+
+  const breakdown = weighted.map(factor => {
+    const result = factor.evaluate(pool, context);
+    const weight = weights[factor.id] / weightSum;
+    const score = clamp01(result.score);
+    return {
+      id: factor.id,
+      label: factor.label,
+      score,
+      detail: result.detail,
+      weight,
+      contribution: weight * score * 100,
+    };
+  });
+
+  return {
+    total: Math.round(breakdown.reduce((sum, factor) => sum + factor.contribution, 0)),
+    style: context.profile.style,
+    factors: breakdown,
+  };
+}
+
+/**
+ * Rank pools by composite score, best first
+ */
+export function rankPools(
+  pools: ApiPool[],
+  profile: RiskProfile,
+  now: number,
+  history: Record<string, PoolMetricsSummary> = {}
+): RankedPool[] {
+  return pools
+    .map(pool => ({ pool, score: scorePool(pool, { profile, now, history: history[pool.address] }) }))
+    .sort((a, b) => b.score.total - a.score.total);
+}
+
+/**
+ * Plain-text breakdown for the analysis prompt
+ */
+export function describePoolScore(score: PoolScore): string {
+  const factors = score.factors
+    .map(factor => `${factor.label} ${Math.round(factor.score * 100)}/100 at ${Math.round(factor.weight * 100)}% weight (${factor.detail})`)
+    .join('; ');
+  return `Our ${score.style} scoring model rates this pool ${score.total}/100. Factors: ${factors}.`;
+}
+
+/**
+ * Validate a score received from a client; null when malformed
+ */
+export function parsePoolScore(value: unknown): PoolScore | null {
+  if (!value || typeof value !== 'object') return null;
+  const { total, style, factors } = value as Record<string, unknown>;
+
+  if (typeof total !== 'number' || total < 0 || total > 100) return null;
+  if (style !== 'conservative' && style !== 'moderate' && style !== 'aggressive') return null;
+  if (!Array.isArray(factors) || factors.length > DEFAULT_POOL_FACTORS.length * 2) return null;
+
+  const parsed: PoolScoreFactor[] = [];
+  for (const item of factors) {
+    if (!item || typeof item !== 'object') return null;
+    const { id, label, score, detail, weight, contribution } = item as Record<string, unknown>;
+    if (typeof id !== 'string' || typeof label !== 'string' || typeof detail !== 'string') return null;
+    if ([score, weight, contribution].some(n => typeof n !== 'number' || !Number.isFinite(n))) return null;
+    parsed.push({
+      id: id as PoolScoreFactorId,
+      label: label.slice(0, 50),
+      score: clamp01(score as number),
+      detail: detail.slice(0, 200),
+      weight: clamp01(weight as number),
+      contribution: contribution as number,
+    });
+  }
+
+  return { total, style, factors: parsed };
+}
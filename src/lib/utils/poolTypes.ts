@@ -0,0 +1,57 @@
+// src/lib/utils/poolTypes.ts
+// Pool shapes shared by pool formatting, metrics and scoring, kept apart so those modules
+// can depend on each other in one direction only.
+
+import type { PortfolioStyle } from './riskProfile';
+
+export interface ApiPool {
+  name: string;
+  address: string;
+  liquidity: string;
+  current_price: string | number;
+  apy: number;
+  fees_24h: number;
+  trade_volume_24h: number;
+  bin_step?: number;
+  mint_x?: string;
+  mint_y?: string;
+  // Fees since 00:00 UTC
+  today_fees?: number;
+  base_fee_percentage?: string;
+}
+
+export type PoolScoreFactorId =
+  | 'feeApy'
+  | 'feeStability'
+  | 'turnover'
+  | 'binStepFit'
+  | 'priceVolatility'
+  | 'tokenRisk';
+
+export interface PoolFactorResult {
+  // 0 (worst) to 1 (best)
+  score: number;
+  // Short human-readable basis for the score
+  detail: string;
+}
+
+export interface PoolScoreFactor extends PoolFactorResult {
+  id: PoolScoreFactorId;
+  label: string;
+  weight: number;
+  // weight * score * 100; the contributions add up to the total
+  contribution: number;
+}
+
+export interface PoolScore {
+  // 0-100
+  total: number;
+  style: PortfolioStyle;
+  factors: PoolScoreFactor[];
+}
+
+// A pool with the score it was ranked by
+export interface RankedPool {
+  pool: ApiPool;
+  score: PoolScore;
+}
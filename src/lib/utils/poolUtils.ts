@@ -1,35 +1,49 @@
 // src/lib/utils/poolUtils.ts
 
-export interface ApiPool {
-  name: string;
-  address: string;
-  liquidity: string;
-  current_price: string | number;
-  apy: number;
-  fees_24h: number;
-  trade_volume_24h: number;
-  bin_step?: number;
-}
+import type { RiskProfile } from './riskProfile';
+import { calculateFeeAPY, type PoolMetricsSummary } from './poolMetrics';
+import { rankPools } from './poolScoring';
+import type { ApiPool, PoolScore, RankedPool } from './poolTypes';
+import { resolvePairTokens, tokenRiskTier } from './tokenRegistry';
+import type { AnalysisRiskTier } from '@/lib/api/chatStream';
+import type { TokenPegCheck } from '@/lib/services/depegMonitorService';
+import type { OraclePriceMap } from '@/lib/services/priceOracleService';
 
 export interface FormattedPool {
   name: string;
   address: string;
   liquidity: string;
+  // Price of token X in token Y, as quoted by the pool
   currentPrice: string;
+  // Oracle USD prices of the pool's tokens, when priced
+  tokenXPriceUsd?: string;
+  tokenYPriceUsd?: string;
+  // Gap between the pool's price and the oracle's X/Y ratio, in basis points; a wide gap
+  // means the pool is mispriced or one of the prices is off
+  oracleDeviationBps?: number;
+  // Some oracle price came from stale quotes only
+  pricesStale?: boolean;
   apy: string;
   fees24h: string;
   volume24h: string;
   binStep: string;
   estimatedDailyEarnings: string;
   investmentAmount: string;
-  riskLevel: string;
+  // Custody and peg risk of the pool's tokens
+  riskLevel: AnalysisRiskTier;
+  // Tokens of the pool that are off their BTC peg
+  pegAlerts?: TokenPegCheck[];
+  // Set when the peg check fell back to the median token price instead of the BTC reference
+  pegReferenceCaveat?: string;
+  // Composite score with its factor breakdown, for the recommended pool
+  score?: PoolScore;
 }
 
 export interface PoolFilterOptions {
+  // Overrides the profile's minimum TVL
   minTVL?: number;
-  maxBinStep?: number;
-  preferredBinSteps?: number[];
-  portfolioStyle?: string;
+  // Keep pools outside the profile's bin steps (they still sort last)
+  includeOtherBinSteps?: boolean;
 }
 
 /**
@@ -67,20 +81,35 @@ export function formatCurrencyValue(
 }
 
 /**
- * Calculate fee APY from 24h fees and TVL
+ * Oracle prices of a pool's tokens, checked against the pool's own price
  */
-export function calculateFeeAPY(fees24h: number, tvl: number): number {
-  if (tvl <= 0) return 0;
-  return (fees24h / tvl) * 100;
+function oraclePriceFields(apiPool: ApiPool, prices: OraclePriceMap): Partial<FormattedPool> {
+  const tokens = resolvePairTokens(apiPool);
+  const mintX = apiPool.mint_x ?? tokens?.x.mint;
+  const mintY = apiPool.mint_y ?? tokens?.y.mint;
+  const priceX = mintX ? prices[mintX] : undefined;
+  const priceY = mintY ? prices[mintY] : undefined;
+  const poolPrice = Number(apiPool.current_price);
+
+  return {
+    ...(priceX && { tokenXPriceUsd: formatCurrencyValue(priceX.usd, 2) }),
+    ...(priceY && { tokenYPriceUsd: formatCurrencyValue(priceY.usd, 2) }),
+    ...(priceX && priceY && poolPrice > 0 && {
+      oracleDeviationBps: Math.round((poolPrice / (priceX.usd / priceY.usd) - 1) * 10000),
+    }),
+    ...((priceX?.stale || priceY?.stale) && { pricesStale: true }),
+  };
 }
 
 /**
- * Format a single pool with all necessary calculations
+ * Format a single pool with all necessary calculations. TVL, volume and fees are the pool
+ * API's USD aggregates; token prices come from the oracle prices passed in.
  */
 export function formatPool(
   apiPool: ApiPool, 
-  riskLevel: string = 'conservative',
-  investmentAmount: number = 10000
+  riskLevel: AnalysisRiskTier = tokenRiskTier(apiPool),
+  investmentAmount: number = 10000,
+  prices: OraclePriceMap = {}
 ): FormattedPool {
   const fees24h = typeof apiPool.fees_24h === 'number' ? apiPool.fees_24h : 0;
   const liquidityValue = parseFloat(apiPool.liquidity);
@@ -102,20 +131,22 @@ export function formatPool(
     binStep,
     estimatedDailyEarnings: estimatedDailyEarnings.toFixed(2),
     investmentAmount: formatCurrencyValue(investmentAmount, 0),
-    riskLevel
+    riskLevel,
+    ...oraclePriceFields(apiPool, prices),
   };
 }
 
 /**
- * Filter pools based on portfolio style and other criteria
+ * Filter pools by the risk profile's minimum TVL and bin steps, dropping poor performers
  */
 export function filterPools(
   pools: ApiPool[], 
+  profile: RiskProfile,
   options: PoolFilterOptions = {}
 ): ApiPool[] {
   const {
-    minTVL = 3000,
-    preferredBinSteps = []
+    minTVL = profile.minTvl,
+    includeOtherBinSteps = false
   } = options;
 
   return pools
@@ -130,127 +161,68 @@ export function filterPools(
       return true;
     })
     .filter(pool => {
-      // If preferred bin steps are specified, prioritize them
-      if (preferredBinSteps.length > 0 && pool.bin_step) {
-        return preferredBinSteps.includes(pool.bin_step);
+      if (includeOtherBinSteps || profile.allowedBinSteps.length === 0 || !pool.bin_step) {
+        return true;
       }
-      return true;
+      return profile.allowedBinSteps.includes(pool.bin_step);
     });
 }
 
 /**
- * Sort pools based on portfolio style
+ * Sort pools for a risk profile by their composite score, best first, keeping each score
  */
 export function sortPoolsByStyle(
   pools: ApiPool[], 
-  portfolioStyle: string
-): ApiPool[] {
-  const sortedPools = [...pools];
-
-  switch (portfolioStyle) {
-    case 'conservative':
-      return sortedPools.sort((a, b) => {
-        const binStepA = a.bin_step || 0;
-        const binStepB = b.bin_step || 0;
-
-        // Prioritize bin step 50
-        if (binStepA === 50 && binStepB !== 50) return -1;
-        if (binStepA !== 50 && binStepB === 50) return 1;
-
-        // Then prioritize higher TVL
-        return parseFloat(b.liquidity) - parseFloat(a.liquidity);
-      });
-
-    case 'moderate':
-      return sortedPools.sort((a, b) => {
-        const binStepA = a.bin_step || 0;
-        const binStepB = b.bin_step || 0;
-
-        const isPreferredA = binStepA === 10 || binStepA === 15;
-        const isPreferredB = binStepB === 10 || binStepB === 15;
-
-        if (isPreferredA && !isPreferredB) return -1;
-        if (!isPreferredA && isPreferredB) return 1;
-
-        // If both preferred, prioritize bin step 10
-        if (isPreferredA && isPreferredB) {
-          if (binStepA === 10 && binStepB === 15) return -1;
-          if (binStepA === 15 && binStepB === 10) return 1;
-        }
-
-        // Balance TVL and APY
-        const scoreA = parseFloat(a.liquidity) * 0.6 + a.apy * 0.4;
-        const scoreB = parseFloat(b.liquidity) * 0.6 + b.apy * 0.4;
-        return scoreB - scoreA;
-      });
-
-    case 'aggressive':
-      return sortedPools.sort((a, b) => {
-        const binStepA = a.bin_step || 0;
-        const binStepB = b.bin_step || 0;
-
-        // Prioritize bin step 5
-        if (binStepA === 5 && binStepB !== 5) return -1;
-        if (binStepA !== 5 && binStepB === 5) return 1;
-
-        // Then prioritize higher APY
-        return b.apy - a.apy;
-      });
-
-    default:
-      return sortedPools;
-  }
+  profile: RiskProfile,
+  now: number = Date.now(),
+  history: Record<string, PoolMetricsSummary> = {}
+): RankedPool[] {
+  return rankPools(pools, profile, now, history);
 }
 
 /**
- * Get preferred bin steps for a portfolio style
+ * Get preferred bin steps for a risk profile, most preferred first
  */
-export function getPreferredBinSteps(portfolioStyle: string): number[] {
-  switch (portfolioStyle) {
-    case 'conservative':
-      return [50];
-    case 'moderate':
-      return [10, 15];
-    case 'aggressive':
-      return [5];
-    default:
-      return [];
-  }
+export function getPreferredBinSteps(profile: RiskProfile): number[] {
+  return profile.allowedBinSteps;
 }
 
 /**
- * Select the best pool from a list based on criteria and history
+ * Select the best pool from a list based on criteria and history.
+ * The pool comes back with the score it was ranked by, so callers show that same score.
  */
 export function selectOptimalPool(
   pools: ApiPool[],
-  portfolioStyle: string,
-  shownAddresses: string[] = []
-): ApiPool | null {
+  profile: RiskProfile,
+  shownAddresses: string[] = [],
+  now: number = Date.now(),
+  history: Record<string, PoolMetricsSummary> = {}
+): RankedPool | null {
   if (pools.length === 0) return null;
 
-  const preferredBinSteps = getPreferredBinSteps(portfolioStyle);
-  const sortedPools = sortPoolsByStyle(pools, portfolioStyle);
+  const preferredBinSteps = getPreferredBinSteps(profile);
+  const sortedPools = sortPoolsByStyle(pools, profile, now, history);
 
   // First try: unshown pool with preferred bin step
-  for (const pool of sortedPools) {
-    const hasPreferredBinStep = preferredBinSteps.includes(pool.bin_step || 0);
-    const isNewPool = !shownAddresses.includes(pool.address);
+  for (const ranked of sortedPools) {
+    const hasPreferredBinStep = preferredBinSteps.includes(ranked.pool.bin_step || 0);
+    const isNewPool = !shownAddresses.includes(ranked.pool.address);
     
     if (isNewPool && hasPreferredBinStep) {
-      return pool;
+      return ranked;
     }
   }
 
   // Second try: any unshown pool
-  for (const pool of sortedPools) {
-    if (!shownAddresses.includes(pool.address)) {
-      return pool;
+  for (const ranked of sortedPools) {
+    if (!shownAddresses.includes(ranked.pool.address)) {
+      return ranked;
     }
   }
 
   // Last resort: best pool with preferred bin step (even if shown)
-  const preferredPool = sortedPools.find(pool =>
-    preferredBinSteps.includes(pool.bin_step || 0)
+  const preferredPool = sortedPools.find(ranked =>
+    preferredBinSteps.includes(ranked.pool.bin_step || 0)
   );
 
   return preferredPool || sortedPools[0];
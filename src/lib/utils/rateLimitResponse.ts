@@ -0,0 +1,23 @@
+import { NextResponse } from 'next/server';
+import { globalRateLimiter, getClientIP, type RateLimiter } from '@/lib/utils/rateLimiter';
+
+// 429 for API routes once the client is over the limit, null while it may continue
+export function rateLimitResponse(request: Request, limiter: RateLimiter = globalRateLimiter): NextResponse | null {
+  const clientIP = getClientIP(request);
+  if (limiter.isAllowed(clientIP)) {
+    return null;
+  }
+
+  const remainingTime = Math.ceil(limiter.getRemainingTime(clientIP) / 1000);
+  return NextResponse.json(
+    { error: 'Rate limit exceeded', message: `Too many requests. Please try again in ${remainingTime} seconds.` },
+    {
+      status: 429,
+      headers: {
+        'Retry-After': remainingTime.toString(),
+        'X-RateLimit-Limit': limiter.limit.toString(),
+        'X-RateLimit-Remaining': '0',
+      },
+    }
+  );
+}
@@ -4,7 +4,7 @@ interface RateLimitEntry {
   resetTime: number
 }
 
-class RateLimiter {
+export class RateLimiter {
   private requests = new Map<string, RateLimitEntry>()
   private windowMs: number
   private maxRequests: number
@@ -14,6 +14,10 @@ class RateLimiter {
     this.maxRequests = maxRequests
   }
 
+  get limit(): number {
+    return this.maxRequests
+  }
+
   isAllowed(identifier: string): boolean {
     const now = Date.now()
     const entry = this.requests.get(identifier)
@@ -0,0 +1,306 @@
+// src/lib/utils/riskProfile.ts
+// Onboarding risk questionnaire and the numeric risk profile it produces.
+// Pool filtering, sorting and the chat prompts read the profile; the style label is kept for display
+// and for code that still picks strategies by style.
+
+export type PortfolioStyle = 'conservative' | 'moderate' | 'aggressive';
+
+export interface RiskAnswers {
+  horizon: 'weeks' | 'months' | 'year' | 'years';
+  drawdown: '5' | '10' | '20' | '35';
+  rebalance: 'rarely' | 'monthly' | 'weekly' | 'daily';
+  capital: 'under_1k' | '1k_10k' | '10k_100k' | 'over_100k';
+}
+
+export interface RiskOption<T extends string = string> {
+  value: T;
+  label: string;
+  // 0 = most cautious, 1 = most risk tolerant
+  score: number;
+}
+
+export interface RiskQuestion<K extends keyof RiskAnswers = keyof RiskAnswers> {
+  id: K;
+  title: string;
+  description: string;
+  options: RiskOption<RiskAnswers[K]>[];
+}
+
+export interface RiskProfile {
+  // 0 (most cautious) to 100 (most risk tolerant)
+  score: number;
+  // Nearest of the three classic styles
+  style: PortfolioStyle;
+  // Total width of the position's price range, in percent of the current price
+  targetRangeWidthPercent: number;
+  // Impermanent loss the user accepts before exiting, in percent
+  maxImpermanentLossPercent: number;
+  // Most preferred first
+  allowedBinSteps: number[];
+  minTvl: number;
+  // Absent for profiles derived from a style alone
+  answers?: RiskAnswers;
+}
+
+type RiskQuestions = { [K in keyof RiskAnswers]: RiskQuestion<K> }[keyof RiskAnswers];
+
+export const RISK_QUESTIONS: RiskQuestions[] = [
+  {
+    id: 'horizon',
+    title: 'How long do you plan to keep this liquidity in?',
+    description: 'Longer horizons leave more time to recover from a bad stretch.',
+    options: [
+      { value: 'weeks', label: 'A few weeks', score: 0.15 },
+      { value: 'months', label: '1-6 months', score: 0.45 },
+      { value: 'year', label: '6-12 months', score: 0.75 },
+      { value: 'years', label: 'More than a year', score: 1 },
+    ],
+  },
+  {
+    id: 'drawdown',
+    title: 'How far could your position fall before you would pull out?',
+    description: 'Includes price moves and impermanent loss against simply holding.',
+    options: [
+      { value: '5', label: '5%', score: 0 },
+      { value: '10', label: '10%', score: 0.35 },
+      { value: '20', label: '20%', score: 0.7 },
+      { value: '35', label: '35% or more', score: 1 },
+    ],
+  },
+  {
+    id: 'rebalance',
+    title: 'How often will you check and rebalance the position?',
+    description: 'Tight ranges earn more but fall out of range quickly without attention.',
+    options: [
+      { value: 'rarely', label: 'Rarely - set and forget', score: 0 },
+      { value: 'monthly', label: 'About monthly', score: 0.35 },
+      { value: 'weekly', label: 'Weekly', score: 0.7 },
+      { value: 'daily', label: 'Daily', score: 1 },
+    ],
+  },
+  {
+    id: 'capital',
+    title: 'How much do you plan to put in?',
+    description: 'Larger positions need deeper pools so they can exit without moving the price.',
+    options: [
+      { value: 'under_1k', label: 'Under $1,000', score: 1 },
+      { value: '1k_10k', label: '$1,000 - $10,000', score: 0.7 },
+      { value: '10k_100k', label: '$10,000 - $100,000', score: 0.4 },
+      { value: 'over_100k', label: 'Over $100,000', score: 0.1 },
+    ],
+  },
+];
+
+const QUESTION_WEIGHTS: Record<keyof RiskAnswers, number> = {
+  drawdown: 0.35,
+  rebalance: 0.3,
+  horizon: 0.2,
+  capital: 0.15,
+};
+
+// Representative position size per capital answer, in USD
+const CAPITAL_USD: Record<RiskAnswers['capital'], number> = {
+  under_1k: 500,
+  '1k_10k': 5000,
+  '10k_100k': 50000,
+  over_100k: 250000,
+};
+
+// Floor used by the pool filters before profiles existed
+const BASE_MIN_TVL = 3000;
+// A position should stay under 10% of the pool it joins
+const MAX_POOL_SHARE = 0.1;
+
+// Score window in which each bin step suits the user; wide bins for cautious, narrow for active
+const BIN_STEP_WINDOWS: Array<{ binStep: number; min: number; max: number }> = [
+  { binStep: 50, min: 0, max: 45 },
+  { binStep: 15, min: 30, max: 75 },
+  { binStep: 10, min: 40, max: 85 },
+  { binStep: 5, min: 65, max: 100 },
+];
+
+// Profiles for the classic styles, matching the bin steps they always used
+const STYLE_PRESETS: Record<PortfolioStyle, RiskProfile> = {
+  conservative: {
+    score: 20,
+    style: 'conservative',
+    targetRangeWidthPercent: 50,
+    maxImpermanentLossPercent: 5,
+    allowedBinSteps: [50],
+    minTvl: BASE_MIN_TVL,
+  },
+  moderate: {
+    score: 50,
+    style: 'moderate',
+    targetRangeWidthPercent: 30,
+    maxImpermanentLossPercent: 10,
+    allowedBinSteps: [10, 15],
+    minTvl: BASE_MIN_TVL,
+  },
+  aggressive: {
+    score: 80,
+    style: 'aggressive',
+    targetRangeWidthPercent: 15,
+    maxImpermanentLossPercent: 17.5,
+    allowedBinSteps: [5],
+    minTvl: BASE_MIN_TVL,
+  },
+};
+
+export function isPortfolioStyle(value: unknown): value is PortfolioStyle {
+  return value === 'conservative' || value === 'moderate' || value === 'aggressive';
+}
+
+export function styleForScore(score: number): PortfolioStyle {
+  if (score < 35) return 'conservative';
+  if (score < 65) return 'moderate';
+  return 'aggressive';
+}
+
+function optionFor<K extends keyof RiskAnswers>(id: K, value: RiskAnswers[K]): RiskOption<RiskAnswers[K]> | undefined {
+  const question = RISK_QUESTIONS.find(item => item.id === id) as RiskQuestion<K> | undefined;
+  return question?.options.find(option => option.value === value);
+}
+
+/**
+ * Bin steps whose window contains the score, closest to the ideal step first.
+ * The ideal step falls geometrically from 50 at score 0 to 5 at score 100.
+ */
+function binStepsForScore(score: number): number[] {
+  const ideal = 50 * Math.pow(5 / 50, score / 100);
+  return BIN_STEP_WINDOWS
+    .filter(window => score >= window.min && score <= window.max)
+    .map(window => window.binStep)
+    .sort((a, b) => Math.abs(Math.log(a / ideal)) - Math.abs(Math.log(b / ideal)));
+}
+
+/**
+ * Turn questionnaire answers into a risk profile
+ */
+export function buildRiskProfile(answers: RiskAnswers): RiskProfile {
+  let weighted = 0;
+  for (const id of Object.keys(QUESTION_WEIGHTS) as Array<keyof RiskAnswers>) {
+    const option = optionFor(id, answers[id]);
+    if (!option) throw new Error(`Unknown answer "${answers[id]}" for ${id}`);
+    weighted += option.score * QUESTION_WEIGHTS[id];
+  }
+  const score = Math.round(weighted * 100);
+
+  return {
+    score,
+    style: styleForScore(score),
+    // 60% wide for the most cautious down to 8% for the most active
+    targetRangeWidthPercent: Math.round((60 - 0.52 * score) * 10) / 10,
+    // Half the tolerated drawdown; the rest is left for price moves
+    maxImpermanentLossPercent: Number(answers.drawdown) / 2,
+    allowedBinSteps: binStepsForScore(score),
+    minTvl: Math.max(BASE_MIN_TVL, CAPITAL_USD[answers.capital] / MAX_POOL_SHARE),
+    answers,
+  };
+}
+
+/**
+ * Profile for a classic style; used for restored sessions and anywhere only the label is known
+ */
+export function riskProfileFromStyle(style: string | null | undefined): RiskProfile {
+  return STYLE_PRESETS[isPortfolioStyle(style) ? style : 'conservative'];
+}
+
+/**
+ * One-paragraph description of the profile for the model's system prompt
+ */
+export function describeRiskProfile(profile: RiskProfile): string {
+  const parts = [
+    `The user's risk profile scores ${profile.score}/100 (${profile.style}).`,
+    `Target a price range about ${profile.targetRangeWidthPercent}% wide,`,
+    `keep expected impermanent loss under ${profile.maxImpermanentLossPercent}%,`,
+    `prefer bin steps ${profile.allowedBinSteps.join(', ') || 'of any size'}`,
+    `and pools with at least $${profile.minTvl.toLocaleString('en-US')} TVL.`,
+  ];
+
+  if (profile.answers) {
+    const answers = profile.answers;
+    const label = <K extends keyof RiskAnswers>(id: K) => optionFor(id, answers[id])?.label.toLowerCase();
+    parts.push(
+      `They plan to stay in for ${label('horizon')}, would exit after a ${label('drawdown')} drawdown,`,
+      `rebalance ${label('rebalance')} and invest ${label('capital')}.`
+    );
+  }
+
+  return parts.join(' ');
+}
+
+/**
+ * Validate a profile received from a client; null when malformed
+ */
+export function parseRiskProfile(value: unknown): RiskProfile | null {
+  if (!value || typeof value !== 'object') return null;
+
+  const {
+    score,
+    style,
+    targetRangeWidthPercent,
+    maxImpermanentLossPercent,
+    allowedBinSteps,
+    minTvl,
+    answers,
+  } = value as Record<string, unknown>;
+
+  const inRange = (n: unknown, min: number, max: number): n is number =>
+    typeof n === 'number' && Number.isFinite(n) && n >= min && n <= max;
+
+  if (!inRange(score, 0, 100) || !isPortfolioStyle(style)) return null;
+  if (!inRange(targetRangeWidthPercent, 0, 100) || !inRange(maxImpermanentLossPercent, 0, 100)) return null;
+  if (!inRange(minTvl, 0, 1e12)) return null;
+  if (!Array.isArray(allowedBinSteps) || allowedBinSteps.length > 10 ||
+      !allowedBinSteps.every(step => Number.isInteger(step) && inRange(step, 1, 400))) {
+    return null;
+  }
+
+  let parsedAnswers: RiskAnswers | undefined;
+  if (answers !== undefined) {
+    if (!answers || typeof answers !== 'object') return null;
+    const record = answers as Record<string, unknown>;
+    const valid = (Object.keys(QUESTION_WEIGHTS) as Array<keyof RiskAnswers>)
+      .every(id => typeof record[id] === 'string' && optionFor(id, record[id] as RiskAnswers[typeof id]));
+    if (!valid) return null;
+    parsedAnswers = {
+      horizon: record.horizon as RiskAnswers['horizon'],
+      drawdown: record.drawdown as RiskAnswers['drawdown'],
+      rebalance: record.rebalance as RiskAnswers['rebalance'],
+      capital: record.capital as RiskAnswers['capital'],
+    };
+  }
+
+  return {
+    score,
+    style,
+    targetRangeWidthPercent,
+    maxImpermanentLossPercent,
+    allowedBinSteps: allowedBinSteps as number[],
+    minTvl,
+    ...(parsedAnswers && { answers: parsedAnswers }),
+  };
+}
+
+const RISK_PROFILE_KEY = 'hypebiscus_risk_profile';
+
+/**
+ * The questionnaire result saved on this device, if any
+ */
+export function loadRiskProfile(): RiskProfile | null {
+  if (typeof window === 'undefined') return null;
+
+  try {
+    const stored = localStorage.getItem(RISK_PROFILE_KEY);
+    return stored ? parseRiskProfile(JSON.parse(stored)) : null;
+  } catch (error) {
+    console.warn('Discarding unreadable risk profile:', error);
+    return null;
+  }
+}
+
+export function saveRiskProfile(profile: RiskProfile): void {
+  if (typeof window === 'undefined') return;
+  localStorage.setItem(RISK_PROFILE_KEY, JSON.stringify(profile));
+}
@@ -0,0 +1,219 @@
+// src/lib/utils/tokenAmount.ts
+// Token amounts carried as raw integer units together with their mint and decimals.
+// User input and display strings are converted with string/BN arithmetic only, so
+// no amount passes through a float on its way to a transaction.
+
+import { BN } from '@coral-xyz/anchor';
+
+export const NATIVE_SOL_MINT = 'So11111111111111111111111111111111111111112';
+export const SOL_DECIMALS = 9;
+
+export interface TokenAmount {
+  mint: string;
+  decimals: number;
+  // Amount in the token's smallest unit
+  raw: BN;
+}
+
+// How digits beyond the available precision are handled; 'exact' refuses to drop any
+export type TokenRounding = 'down' | 'up' | 'nearest' | 'exact';
+
+export class TokenAmountError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TokenAmountError';
+  }
+}
+
+const DECIMAL_PATTERN = /^(\d*)(?:\.(\d*))?$/;
+
+function assertDecimals(decimals: number): void {
+  if (!Number.isInteger(decimals) || decimals < 0 || decimals > 18) {
+    throw new TokenAmountError(`Invalid token decimals: ${decimals}`);
+  }
+}
+
+/**
+ * Round a non-negative quotient given the remainder that was dropped
+ */
+function roundQuotient(quotient: BN, remainder: BN, divisor: BN, rounding: TokenRounding): BN {
+  if (remainder.isZero()) return quotient;
+
+  switch (rounding) {
+    case 'exact':
+      throw new TokenAmountError('Amount has more precision than the token supports');
+    case 'up':
+      return quotient.addn(1);
+    case 'nearest':
+      return remainder.muln(2).gte(divisor) ? quotient.addn(1) : quotient;
+    default:
+      return quotient;
+  }
+}
+
+/**
+ * Wrap a raw amount; decimal strings (as some SDK fields report amounts) are truncated
+ */
+export function tokenAmount(mint: string, decimals: number, raw: BN | bigint | number | string): TokenAmount {
+  assertDecimals(decimals);
+
+  let value: BN;
+  if (BN.isBN(raw)) {
+    value = raw;
+  } else if (typeof raw === 'number') {
+    if (!Number.isFinite(raw)) throw new TokenAmountError(`Invalid raw amount: ${raw}`);
+    value = new BN(BigInt(Math.trunc(raw)).toString());
+  } else {
+    const text = raw.toString().trim();
+    if (!/^-?\d+(\.\d*)?$/.test(text)) throw new TokenAmountError(`Invalid raw amount: ${text}`);
+    value = new BN(text.split('.')[0], 10);
+  }
+
+  return { mint, decimals, raw: value };
+}
+
+/**
+ * Native SOL in lamports
+ */
+export function lamportsAmount(lamports: BN | bigint | number | string): TokenAmount {
+  return tokenAmount(NATIVE_SOL_MINT, SOL_DECIMALS, lamports);
+}
+
+/**
+ * Parse a decimal string typed by the user (e.g. "0.5", ".25", "10.")
+ * Digits beyond the token's decimals are rounded down unless told otherwise
+ */
+export function parseTokenAmount(
+  input: string,
+  mint: string,
+  decimals: number,
+  rounding: TokenRounding = 'down'
+): TokenAmount {
+  assertDecimals(decimals);
+
+  const match = DECIMAL_PATTERN.exec(input.trim());
+  if (!match || (!match[1] && !match[2])) {
+    throw new TokenAmountError(`"${input}" is not a valid amount`);
+  }
+
+  const whole = match[1] || '0';
+  const fraction = match[2] || '';
+  const kept = fraction.slice(0, decimals).padEnd(decimals, '0');
+  const dropped = fraction.slice(decimals);
+
+  const raw = new BN(whole + kept, 10);
+  if (!/[1-9]/.test(dropped)) return { mint, decimals, raw };
+
+  // Treat the dropped digits as a remainder over a power of ten
+  const divisor = new BN(10).pow(new BN(dropped.length));
+  return { mint, decimals, raw: roundQuotient(raw, new BN(dropped, 10), divisor, rounding) };
+}
+
+/**
+ * Plain decimal digits of a JS number (its shortest round-trip form, without exponent)
+ */
+function toPlainDecimal(value: number): string {
+  const [mantissa, exponentPart] = String(value).split('e');
+  if (!exponentPart) return mantissa;
+
+  const exponent = Number(exponentPart);
+  const [intPart, fracPart = ''] = mantissa.split('.');
+  const digits = intPart + fracPart;
+  const point = intPart.length + exponent;
+
+  if (point <= 0) return `0.${'0'.repeat(-point)}${digits}`;
+  if (point >= digits.length) return digits + '0'.repeat(point - digits.length);
+  return `${digits.slice(0, point)}.${digits.slice(point)}`;
+}
+
+/**
+ * Convert a UI number (e.g. a tool argument) using the digits it prints as, so 0.1
+ * becomes exactly 0.1 rather than its binary approximation
+ */
+export function tokenAmountFromUi(
+  value: number,
+  mint: string,
+  decimals: number,
+  rounding: TokenRounding = 'down'
+): TokenAmount {
+  if (!Number.isFinite(value) || value < 0) {
+    throw new TokenAmountError(`Invalid amount: ${value}`);
+  }
+  return parseTokenAmount(toPlainDecimal(value), mint, decimals, rounding);
+}
+
+/**
+ * Format as a decimal string, trimming trailing zeros down to minDecimals
+ * Rounding applies to the magnitude when maxDecimals cuts digits off
+ */
+export function formatTokenAmount(
+  amount: TokenAmount,
+  {
+    maxDecimals = amount.decimals,
+    minDecimals = 0,
+    rounding = 'down',
+  }: { maxDecimals?: number; minDecimals?: number; rounding?: TokenRounding } = {}
+): string {
+  const places = Math.min(Math.max(maxDecimals, 0), amount.decimals);
+  const negative = amount.raw.isNeg();
+  let magnitude = amount.raw.abs();
+
+  if (places < amount.decimals) {
+    const divisor = new BN(10).pow(new BN(amount.decimals - places));
+    magnitude = roundQuotient(magnitude.div(divisor), magnitude.mod(divisor), divisor, rounding);
+  }
+
+  const digits = magnitude.toString(10).padStart(places + 1, '0');
+  const whole = digits.slice(0, digits.length - places);
+  let fraction = digits.slice(digits.length - places);
+
+  const keep = Math.min(Math.max(minDecimals, 0), places);
+  while (fraction.length > keep && fraction.endsWith('0')) {
+    fraction = fraction.slice(0, -1);
+  }
+
+  const sign = negative && !magnitude.isZero() ? '-' : '';
+  return fraction ? `${sign}${whole}.${fraction}` : `${sign}${whole}`;
+}
+
+/**
+ * Nearest JS number, for USD math and charts only (never for building transactions)
+ */
+export function toUiNumber(amount: TokenAmount): number {
+  return Number(formatTokenAmount(amount));
+}
+
+function assertSameToken(a: TokenAmount, b: TokenAmount): void {
+  if (a.mint !== b.mint || a.decimals !== b.decimals) {
+    throw new TokenAmountError(`Cannot combine amounts of ${a.mint} and ${b.mint}`);
+  }
+}
+
+export function addTokenAmounts(a: TokenAmount, b: TokenAmount): TokenAmount {
+  assertSameToken(a, b);
+  return { ...a, raw: a.raw.add(b.raw) };
+}
+
+export function subtractTokenAmounts(a: TokenAmount, b: TokenAmount): TokenAmount {
+  assertSameToken(a, b);
+  return { ...a, raw: a.raw.sub(b.raw) };
+}
+
+/**
+ * -1, 0 or 1 as a is less than, equal to or greater than b
+ */
+export function compareTokenAmounts(a: TokenAmount, b: TokenAmount): number {
+  assertSameToken(a, b);
+  return a.raw.cmp(b.raw);
+}
+
+/**
+ * A percentage (0-100, up to two decimals) of an amount, rounded down
+ */
+export function percentOfTokenAmount(amount: TokenAmount, percentage: number): TokenAmount {
+  if (!Number.isFinite(percentage) || percentage < 0 || percentage > 100) {
+    throw new TokenAmountError(`Invalid percentage: ${percentage}`);
+  }
+  const basisPoints = Math.round(percentage * 100);
+  return { ...amount, raw: amount.raw.muln(basisPoints).divn(10000) };
+}
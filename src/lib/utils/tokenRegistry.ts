@@ -0,0 +1,278 @@
+// src/lib/utils/tokenRegistry.ts
+// Asset universe for pool search: the tokens we provide liquidity with, and the pair filters
+// built from them. Pools are matched by their token mints against pair patterns, so adding a
+// token or a pair filter here is enough for search, the filter pickers and scoring to pick it up.
+
+import type { AnalysisRiskTier } from '@/lib/api/chatStream';
+
+export type TokenCategory = 'btc' | 'sol' | 'lst' | 'stable';
+
+export type TokenRiskTag =
+  | 'native'
+  // Held by a bridge or its guardians on another chain
+  | 'bridged'
+  // Redeemable through a single custodian
+  | 'custodial'
+  // Issuer or bridge with a short track record
+  | 'new-issuer'
+  | 'liquid-staking'
+  | 'fiat-backed';
+
+export interface TokenRegistryEntry {
+  symbol: string;
+  name: string;
+  mint: string;
+  category: TokenCategory;
+  riskTags: TokenRiskTag[];
+  // Pyth push-oracle price account (USD feed), read by the price oracle. Wrapped BTC tokens have
+  // none on purpose: the BTC/USD feed would price them at BTC and hide a depeg.
+  pythPriceAccount?: string;
+}
+
+// Either side of a pair: a token matches when its symbol or its category is listed
+export interface TokenSelector {
+  symbols?: string[];
+  categories?: TokenCategory[];
+}
+
+// Pairs are matched in either order
+export interface PairPattern {
+  base: TokenSelector;
+  quote: TokenSelector;
+}
+
+export interface PoolPairFilter {
+  id: string;
+  // Short label, e.g. 'wBTC-SOL'
+  label: string;
+  title: string;
+  description: string;
+  icon: string;
+  patterns: PairPattern[];
+}
+
+export interface PairTokens {
+  x: TokenRegistryEntry;
+  y: TokenRegistryEntry;
+}
+
+// Minimal shape of a pool for matching; Meteora pairs carry both mints
+export interface PairLike {
+  name: string;
+  mint_x?: string;
+  mint_y?: string;
+}
+
+export const TOKEN_REGISTRY: TokenRegistryEntry[] = [
+  {
+    symbol: 'WBTC',
+    name: 'Wrapped BTC (Wormhole)',
+    mint: '3NZ9JMVBmGAqocybic2c7LQCJScmgsAZ6vQqTDzcqmJh',
+    category: 'btc',
+    riskTags: ['bridged'],
+  },
+  {
+    symbol: 'zBTC',
+    name: 'Zeus BTC',
+    mint: 'zBTCug3er3tLyffELcvDNrKkCymbPWysGcWihESYfLg',
+    category: 'btc',
+    riskTags: ['bridged', 'new-issuer'],
+  },
+  {
+    symbol: 'cbBTC',
+    name: 'Coinbase Wrapped BTC',
+    mint: 'cbbtcf3aa214zXHbiAZQwf4122FBYbraNdFqgw4iMij',
+    category: 'btc',
+    riskTags: ['custodial'],
+  },
+  {
+    symbol: 'SOL',
+    name: 'Wrapped SOL',
+    mint: 'So11111111111111111111111111111111111111112',
+    category: 'sol',
+    riskTags: ['native'],
+    pythPriceAccount: '7UVimffxr9ow1uXYxsr4LHAcV58mLzhmwaeKvJ1pjLiE',
+  },
+  {
+    symbol: 'JitoSOL',
+    name: 'Jito Staked SOL',
+    mint: 'J1toso1uCk3RLmjorhTtrVwY9HJ7X8V9yYac6Y7kGCPn',
+    category: 'lst',
+    riskTags: ['liquid-staking'],
+  },
+  {
+    symbol: 'USDC',
+    name: 'USD Coin',
+    mint: 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v',
+    category: 'stable',
+    riskTags: ['fiat-backed'],
+    pythPriceAccount: 'Dpw1EAVrSB1ibxiDQyTAW6Zip3J4Btk2x4SgApQCeFbX',
+  },
+];
+
+// Added up per token and capped at 1; feeds the token risk factor of the pool score
+const RISK_TAG_WEIGHTS: Record<TokenRiskTag, number> = {
+  native: 0,
+  bridged: 0.3,
+  custodial: 0.2,
+  'new-issuer': 0.1,
+  'liquid-staking': 0.15,
+  'fiat-backed': 0.05,
+};
+
+// Risk of tokens outside the registry
+export const UNKNOWN_TOKEN_RISK = 0.6;
+
+const BTC: TokenSelector = { categories: ['btc'] };
+
+export const POOL_PAIR_FILTERS: PoolPairFilter[] = [
+  {
+    id: 'wbtc-sol',
+    label: 'wBTC-SOL',
+    title: 'wBTC',
+    description: 'Wrapped Bitcoin - most established and liquid BTC pools on Solana.',
+    icon: '₿',
+    patterns: [{ base: { symbols: ['WBTC'] }, quote: { symbols: ['SOL'] } }],
+  },
+  {
+    id: 'zbtc-sol',
+    label: 'zBTC-SOL',
+    title: 'zBTC',
+    description: 'Zeus Bitcoin - native Bitcoin bridged through Zeus Network.',
+    icon: '⚡',
+    patterns: [{ base: { symbols: ['zBTC'] }, quote: { symbols: ['SOL'] } }],
+  },
+  {
+    id: 'cbbtc-sol',
+    label: 'cbBTC-SOL',
+    title: 'cbBTC',
+    description: 'Coinbase Bitcoin - institutional-grade Bitcoin backed by Coinbase.',
+    icon: '🏛️',
+    patterns: [{ base: { symbols: ['cbBTC'] }, quote: { symbols: ['SOL'] } }],
+  },
+  {
+    id: 'btc-usdc',
+    label: 'BTC-USDC',
+    title: 'BTC-USDC',
+    description: 'Any Bitcoin token against USDC - fees without SOL price exposure.',
+    icon: '💵',
+    patterns: [{ base: BTC, quote: { symbols: ['USDC'] } }],
+  },
+  {
+    id: 'btc-btc',
+    label: 'BTC-BTC',
+    title: 'BTC-BTC',
+    description: 'Two Bitcoin tokens, e.g. zBTC-cbBTC - low impermanent loss while both hold their peg.',
+    icon: '🔁',
+    patterns: [{ base: BTC, quote: BTC }],
+  },
+  {
+    id: 'btc-jitosol',
+    label: 'BTC-JitoSOL',
+    title: 'BTC-JitoSOL',
+    description: 'Bitcoin against JitoSOL - trading fees on top of staking yield.',
+    icon: '🥩',
+    patterns: [{ base: BTC, quote: { symbols: ['JitoSOL'] } }],
+  },
+];
+
+// Every pair filter above, for searches without a specific filter
+export const ALL_BTC_FILTER: PoolPairFilter = {
+  id: 'btc',
+  label: 'All BTC',
+  title: 'All BTC',
+  description: 'All Bitcoin pools',
+  icon: '🔍',
+  patterns: POOL_PAIR_FILTERS.flatMap(filter => filter.patterns),
+};
+
+const bySymbol = new Map(TOKEN_REGISTRY.map(token => [token.symbol.toLowerCase(), token]));
+const byMint = new Map(TOKEN_REGISTRY.map(token => [token.mint, token]));
+
+export function findTokenBySymbol(symbol: string): TokenRegistryEntry | undefined {
+  return bySymbol.get(symbol.toLowerCase());
+}
+
+export function findTokenByMint(mint: string): TokenRegistryEntry | undefined {
+  return byMint.get(mint);
+}
+
+/**
+ * Pair filter by id; 'btc' (or no id) is the whole BTC universe
+ */
+export function getPoolPairFilter(id?: string): PoolPairFilter | undefined {
+  if (!id || id === ALL_BTC_FILTER.id) return ALL_BTC_FILTER;
+  return POOL_PAIR_FILTERS.find(filter => filter.id === id);
+}
+
+export function isPoolPairFilterId(id: unknown): id is string {
+  return id === ALL_BTC_FILTER.id || POOL_PAIR_FILTERS.some(filter => filter.id === id);
+}
+
+/**
+ * Registry tokens of a pool, by mint when the pool carries them and by name otherwise.
+ * Null when either token is outside the registry.
+ */
+export function resolvePairTokens(pool: PairLike): PairTokens | null {
+  if (pool.mint_x && pool.mint_y) {
+    const x = findTokenByMint(pool.mint_x);
+    const y = findTokenByMint(pool.mint_y);
+    return x && y ? { x, y } : null;
+  }
+
+  const symbols = pool.name.split('-');
+  if (symbols.length !== 2) return null;
+  const x = findTokenBySymbol(symbols[0]);
+  const y = findTokenBySymbol(symbols[1]);
+  return x && y ? { x, y } : null;
+}
+
+function selectorMatches(selector: TokenSelector, token: TokenRegistryEntry): boolean {
+  return !!selector.symbols?.some(symbol => symbol.toLowerCase() === token.symbol.toLowerCase()) ||
+    !!selector.categories?.includes(token.category);
+}
+
+function patternMatches(pattern: PairPattern, { x, y }: PairTokens): boolean {
+  // A pool of one token against itself is not a pair
+  if (x.mint === y.mint) return false;
+  return (selectorMatches(pattern.base, x) && selectorMatches(pattern.quote, y)) ||
+    (selectorMatches(pattern.base, y) && selectorMatches(pattern.quote, x));
+}
+
+export function matchesPairFilter(pool: PairLike, filter: PoolPairFilter): boolean {
+  const tokens = resolvePairTokens(pool);
+  return !!tokens && filter.patterns.some(pattern => patternMatches(pattern, tokens));
+}
+
+/**
+ * Search terms that cover a filter: one per base-side token, since the pool API matches
+ * every group whose name contains the term
+ */
+export function searchTermsForFilter(filter: PoolPairFilter): string[] {
+  const terms = new Set<string>();
+  for (const pattern of filter.patterns) {
+    for (const token of TOKEN_REGISTRY) {
+      if (selectorMatches(pattern.base, token)) terms.add(token.symbol.toLowerCase());
+    }
+  }
+  return [...terms];
+}
+
+/**
+ * Issuer and bridge risk of a token, 0 (none) to 1
+ */
+export function tokenRisk(token: TokenRegistryEntry | undefined): number {
+  if (!token) return UNKNOWN_TOKEN_RISK;
+  return Math.min(1, token.riskTags.reduce((sum, tag) => sum + RISK_TAG_WEIGHTS[tag], 0));
+}
+
+/**
+ * Custody risk tier of a pool from its riskiest token; peg checks can raise it further
+ */
+export function tokenRiskTier(pool: PairLike): AnalysisRiskTier {
+  const tokens = resolvePairTokens(pool);
+  const risk = tokens ? Math.max(tokenRisk(tokens.x), tokenRisk(tokens.y)) : UNKNOWN_TOKEN_RISK;
+  if (risk <= 0.15) return 'low';
+  if (risk <= 0.4) return 'moderate';
+  return 'high';
+}
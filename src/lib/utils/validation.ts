@@ -1,14 +1,25 @@
 // Input validation utilities for API endpoints
 
+import type { AgentToolContext } from '@/lib/meteora/meteoraChatTools'
+import type { ChatSessionContents, StoredChatMessage } from '@/lib/api/chatSessions'
+import type { DlmmStrategyName } from '@/lib/meteora/meteoraChatTools'
+import { isChatSections, parsePoolAnalysis } from '@/lib/api/chatStream'
+import { parseRiskProfile, type RiskProfile } from './riskProfile'
+
 export interface ChatMessage {
   role: 'user' | 'assistant'
   content: string
 }
 
+export type ChatRequestMode = 'chat' | 'agent'
+
 export interface ChatRequestBody {
   messages: ChatMessage[]
   poolData?: Record<string, unknown>
   portfolioStyle?: string
+  riskProfile?: RiskProfile
+  mode?: ChatRequestMode
+  toolContext?: AgentToolContext
 }
 
 export class ValidationError extends Error {
@@ -23,7 +34,7 @@ export function validateChatRequest(body: unknown): ChatRequestBody {
     throw new ValidationError('Invalid request body')
   }
 
-  const { messages, poolData, portfolioStyle } = body as Record<string, unknown>
+  const { messages, poolData, portfolioStyle, riskProfile, mode, toolContext } = body as Record<string, unknown>
 
   // Validate messages array
   if (!messages || !Array.isArray(messages)) {
@@ -93,11 +104,285 @@ export function validateChatRequest(body: unknown): ChatRequestBody {
     }
   }
 
+  // Validate the questionnaire's risk profile if provided
+  let parsedRiskProfile: RiskProfile | undefined
+  if (riskProfile !== undefined) {
+    const parsed = parseRiskProfile(riskProfile)
+    if (!parsed) {
+      throw new ValidationError('Risk profile is invalid', 'riskProfile')
+    }
+    parsedRiskProfile = parsed
+  }
+
+  // Validate mode if provided
+  if (mode !== undefined && mode !== 'chat' && mode !== 'agent') {
+    throw new ValidationError('Mode must be either "chat" or "agent"', 'mode')
+  }
+
+  // Validate toolContext if provided (agent mode only)
+  if (toolContext !== undefined) {
+    validateToolContext(toolContext)
+  }
+
   return { 
     messages: messages as ChatMessage[], 
     poolData: poolData as Record<string, unknown> | undefined, 
-    portfolioStyle: portfolioStyle as string | undefined 
+    portfolioStyle: portfolioStyle as string | undefined,
+    riskProfile: parsedRiskProfile,
+    mode: mode as ChatRequestMode | undefined,
+    toolContext: toolContext as AgentToolContext | undefined
+  }
+}
+
+function validateToolContext(toolContext: unknown): void {
+  if (typeof toolContext !== 'object' || toolContext === null) {
+    throw new ValidationError('Tool context must be an object', 'toolContext')
+  }
+
+  const { knownPools, walletConnected, portfolioStyle } = toolContext as Record<string, unknown>
+
+  if (walletConnected !== undefined && typeof walletConnected !== 'boolean') {
+    throw new ValidationError('walletConnected must be a boolean', 'toolContext')
+  }
+
+  if (portfolioStyle !== undefined && (typeof portfolioStyle !== 'string' || portfolioStyle.length > 100)) {
+    throw new ValidationError('Tool context portfolio style must be a string of at most 100 characters', 'toolContext')
+  }
+
+  if (knownPools !== undefined) {
+    if (!Array.isArray(knownPools) || knownPools.length > 20) {
+      throw new ValidationError('knownPools must be an array of at most 20 pools', 'toolContext')
+    }
+
+    for (const pool of knownPools) {
+      if (!pool || typeof pool !== 'object' || typeof pool.name !== 'string' || typeof pool.address !== 'string') {
+        throw new ValidationError('Each known pool must have a name and address', 'toolContext')
+      }
+
+      if (pool.name.length > 100 || pool.address.length > 64) {
+        throw new ValidationError('Known pool name or address too long', 'toolContext')
+      }
+    }
+  }
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+const WALLET_PATTERN = /^[1-9A-HJ-NP-Za-km-z]{32,44}$/
+
+export function validateSessionId(sessionId: unknown): string {
+  if (typeof sessionId !== 'string' || !UUID_PATTERN.test(sessionId)) {
+    throw new ValidationError('Session id must be a UUID', 'sessionId')
+  }
+  return sessionId
+}
+
+// Wallet public keys are base58 and safe as path segments (session owners are wallets or UUIDs)
+export function validateWalletAddress(wallet: unknown): string {
+  if (typeof wallet !== 'string' || !WALLET_PATTERN.test(wallet)) {
+    throw new ValidationError('Wallet must be a base58 public key', 'wallet')
+  }
+  return wallet
+}
+
+export interface ChatSignInBody {
+  wallet: string
+  challenge: string
+  // Base64 ed25519 signature of the challenge message
+  signature: string
+}
+
+export function validateChatSignIn(body: unknown): ChatSignInBody {
+  if (!body || typeof body !== 'object') {
+    throw new ValidationError('Invalid request body')
+  }
+
+  const { wallet, challenge, signature } = body as Record<string, unknown>
+  if (typeof challenge !== 'string' || challenge.length > 1000) {
+    throw new ValidationError('Challenge must be a string', 'challenge')
+  }
+  if (typeof signature !== 'string' || signature.length > 200) {
+    throw new ValidationError('Signature must be a base64 string', 'signature')
+  }
+
+  return { wallet: validateWalletAddress(wallet), challenge, signature }
+}
+
+// The owner is not part of the body: it comes from the sign-in cookie
+export function validateChatSessionContents(body: unknown): ChatSessionContents {
+  if (!body || typeof body !== 'object') {
+    throw new ValidationError('Invalid request body')
+  }
+
+  const { messages, shownPoolAddresses, portfolioStyle } = body as Record<string, unknown>
+
+  if (!Array.isArray(messages) || messages.length > 200) {
+    throw new ValidationError('Messages must be an array of at most 200 messages', 'messages')
+  }
+
+  for (let i = 0; i < messages.length; i++) {
+    const message = messages[i]
+
+    if (!message || typeof message !== 'object' || !['user', 'assistant'].includes(message.role)) {
+      throw new ValidationError(`Message at index ${i} is invalid`, 'messages')
+    }
+
+    if (typeof message.content !== 'string' || message.content.length > 20000) {
+      throw new ValidationError(`Message at index ${i} content must be a string of at most 20,000 characters`, 'messages')
+    }
+
+    if (typeof message.timestamp !== 'string' || isNaN(Date.parse(message.timestamp))) {
+      throw new ValidationError(`Message at index ${i} has an invalid timestamp`, 'messages')
+    }
+
+    if (message.pools !== undefined && (!Array.isArray(message.pools) || message.pools.length > 10)) {
+      throw new ValidationError(`Message at index ${i} pools must be an array of at most 10 pools`, 'messages')
+    }
+
+    if (message.sections !== undefined && !isChatSections(message.sections)) {
+      throw new ValidationError(`Message at index ${i} has invalid sections`, 'messages')
+    }
+
+    if (message.analysis !== undefined && !parsePoolAnalysis(message.analysis)) {
+      throw new ValidationError(`Message at index ${i} has an invalid pool analysis`, 'messages')
+    }
+  }
+
+  if (!Array.isArray(shownPoolAddresses) || shownPoolAddresses.length > 500 ||
+      shownPoolAddresses.some(address => typeof address !== 'string' || address.length > 64)) {
+    throw new ValidationError('Shown pool addresses must be an array of addresses', 'shownPoolAddresses')
+  }
+
+  if (portfolioStyle !== null && (typeof portfolioStyle !== 'string' || portfolioStyle.length > 100)) {
+    throw new ValidationError('Portfolio style must be a string or null', 'portfolioStyle')
+  }
+
+  // Serialized size guard (pool cards can add up)
+  if (JSON.stringify(messages).length > 900000) {
+    throw new ValidationError('Session too large', 'messages')
+  }
+
+  return {
+    messages: messages as StoredChatMessage[],
+    shownPoolAddresses: shownPoolAddresses as string[],
+    portfolioStyle: portfolioStyle as string | null
+  }
+}
+
+export interface BacktestRequestBody {
+  fixture?: string
+  series?: unknown[]
+  binStep: number
+  rangeWidth: number
+  strategy: DlmmStrategyName | 'all'
+  initialValue?: number
+  baseFeeBps?: number
+  activeBinDepthRatio?: number
+  poolTvl?: number
+  rebalance?: { outOfRangePeriods: number; costBps: number }
+  includeEquity?: boolean
+}
+
+const BACKTEST_STRATEGIES = ['spot', 'curve', 'bid_ask', 'all']
+const FIXTURE_NAME_PATTERN = /^[a-z0-9][a-z0-9_-]{0,63}$/i
+
+function validateOptionalNumber(value: unknown, field: string): number | undefined {
+  if (value === undefined) return undefined
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    throw new ValidationError(`${field} must be a number`, field)
+  }
+  return value
+}
+
+export function validateBacktestRequest(body: unknown): BacktestRequestBody {
+  if (!body || typeof body !== 'object') {
+    throw new ValidationError('Invalid request body')
+  }
+
+  const {
+    fixture, series, binStep, rangeWidth, strategy, initialValue,
+    baseFeeBps, activeBinDepthRatio, poolTvl, rebalance, includeEquity
+  } = body as Record<string, unknown>
+
+  if ((fixture === undefined) === (series === undefined)) {
+    throw new ValidationError('Provide exactly one of fixture or series', 'fixture')
+  }
+
+  if (fixture !== undefined && (typeof fixture !== 'string' || !FIXTURE_NAME_PATTERN.test(fixture))) {
+    throw new ValidationError('Fixture must be a fixture name', 'fixture')
+  }
+
+  if (series !== undefined && (!Array.isArray(series) || series.length > 10000)) {
+    throw new ValidationError('Series must be an array of at most 10,000 points', 'series')
+  }
+
+  if (typeof binStep !== 'number' || !Number.isInteger(binStep)) {
+    throw new ValidationError('Bin step must be an integer', 'binStep')
+  }
+
+  if (typeof rangeWidth !== 'number' || !Number.isInteger(rangeWidth)) {
+    throw new ValidationError('Range width must be an integer number of bins', 'rangeWidth')
+  }
+
+  if (typeof strategy !== 'string' || !BACKTEST_STRATEGIES.includes(strategy)) {
+    throw new ValidationError('Strategy must be one of spot, curve, bid_ask or all', 'strategy')
+  }
+
+  let validatedRebalance: BacktestRequestBody['rebalance']
+  if (rebalance !== undefined && rebalance !== null) {
+    const { outOfRangePeriods, costBps } = rebalance as Record<string, unknown>
+    if (typeof outOfRangePeriods !== 'number' || typeof costBps !== 'number') {
+      throw new ValidationError('Rebalance needs numeric outOfRangePeriods and costBps', 'rebalance')
+    }
+    validatedRebalance = { outOfRangePeriods, costBps }
+  }
+
+  if (includeEquity !== undefined && typeof includeEquity !== 'boolean') {
+    throw new ValidationError('includeEquity must be a boolean', 'includeEquity')
+  }
+
+  return {
+    fixture: fixture as string | undefined,
+    series: series as unknown[] | undefined,
+    binStep,
+    rangeWidth,
+    strategy: strategy as BacktestRequestBody['strategy'],
+    initialValue: validateOptionalNumber(initialValue, 'initialValue'),
+    baseFeeBps: validateOptionalNumber(baseFeeBps, 'baseFeeBps'),
+    activeBinDepthRatio: validateOptionalNumber(activeBinDepthRatio, 'activeBinDepthRatio'),
+    poolTvl: validateOptionalNumber(poolTvl, 'poolTvl'),
+    rebalance: validatedRebalance,
+    includeEquity: includeEquity as boolean | undefined
+  }
+}
+
+const MAX_METRICS_ADDRESSES = 20
+
+// Comma-separated pool addresses from a query string
+export function validatePoolAddresses(addresses: unknown): string[] {
+  if (typeof addresses !== 'string' || !addresses.trim()) {
+    throw new ValidationError('Provide at least one pool address', 'addresses')
+  }
+
+  const list = [...new Set(addresses.split(',').map(address => address.trim()).filter(Boolean))]
+  if (list.length > MAX_METRICS_ADDRESSES) {
+    throw new ValidationError(`At most ${MAX_METRICS_ADDRESSES} pool addresses allowed`, 'addresses')
+  }
+
+  for (const address of list) {
+    if (!WALLET_PATTERN.test(address)) {
+      throw new ValidationError(`Invalid pool address: ${address}`, 'addresses')
+    }
+  }
+  return list
+}
+
+export function validateMetricsDays(days: unknown): number {
+  if (days === null || days === undefined || days === '') return 30
+  const value = Number(days)
+  if (!Number.isInteger(value) || value < 1 || value > 90) {
+    throw new ValidationError('Days must be an integer between 1 and 90', 'days')
   }
+  return value
 }
 
 export function sanitizeString(input: string): string {
@@ -26,6 +26,23 @@ export function middleware(request: NextRequest) {
   // Add security headers to all responses
   const response = NextResponse.next()
   
+  // Pool data APIs can be pointed elsewhere (e.g. the local mock server), so allow their origins too
+  const poolDataOrigins = [process.env.NEXT_PUBLIC_METEORA_API_URL, process.env.NEXT_PUBLIC_JUPITER_API_URL]
+    .filter((url): url is string => !!url)
+    .map((url) => new URL(url).origin)
+    .join(' ')
+
+  // The bridge reads Bitcoin confirmations from Esplora (mempool.space unless overridden) and talks to the Zeus API
+  const bridgeOrigins = [process.env.NEXT_PUBLIC_BTC_ESPLORA_URL || 'https://mempool.space', process.env.NEXT_PUBLIC_ZEUS_API_URL]
+    .filter((url): url is string => !!url)
+    .map((url) => new URL(url).origin)
+    .join(' ')
+
+  // The peg monitor's BTC/USD reference (Coinbase spot unless overridden)
+  const btcReferenceOrigin = new URL(
+    process.env.NEXT_PUBLIC_BTC_REFERENCE_URL || 'https://api.coinbase.com/v2/prices/BTC-USD/spot'
+  ).origin
+
   // Content Security Policy (CSP)
   const cspHeader = `
     default-src 'self';
@@ -33,7 +50,7 @@ export function middleware(request: NextRequest) {
     style-src 'self' 'unsafe-inline' https://fonts.googleapis.com;
     img-src 'self' data: https: blob:;
     font-src 'self' data: https://fonts.gstatic.com;
-    connect-src 'self' https://api.mainnet-beta.solana.com https://solana-mainnet.g.alchemy.com https://sly-virulent-owl.solana-mainnet.quiknode.pro https://terminal.jup.ag https://lite-api.jup.ag https://dlmm-api.meteora.ag https://cdn.jsdelivr.net https://mainnet.helius-rpc.com wss:;
+    connect-src 'self' https://api.mainnet-beta.solana.com https://solana-mainnet.g.alchemy.com https://sly-virulent-owl.solana-mainnet.quiknode.pro https://terminal.jup.ag https://lite-api.jup.ag https://dlmm-api.meteora.ag https://cdn.jsdelivr.net https://mainnet.helius-rpc.com ${poolDataOrigins} ${bridgeOrigins} ${btcReferenceOrigin} wss:;
     frame-src 'none';
     object-src 'none';
     base-uri 'self';
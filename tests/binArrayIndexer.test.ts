@@ -0,0 +1,98 @@
+// tests/binArrayIndexer.test.ts
+// Decodes a WBTC-SOL bin array account fixture and checks it field by field, and against the SDK's own decoder.
+
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createHash } from 'crypto';
+import { readFileSync } from 'fs';
+import path from 'path';
+import { createProgram, decodeAccount, type BinArray } from '@meteora-ag/dlmm';
+import { Connection } from '@solana/web3.js';
+import {
+  BIN_ARRAY_ACCOUNT_SIZE,
+  BINS_PER_ARRAY,
+  BinArrayDecodeError,
+  binArrayIndexForBin,
+  decodeBinArray,
+} from '@/lib/meteora/binArrayIndexer';
+
+interface BinArrayFixture {
+  address: string;
+  owner: string;
+  lbPair: string;
+  activeBinId: number;
+  data: string;
+}
+
+const fixture = JSON.parse(
+  readFileSync(path.join(process.cwd(), 'fixtures/meteora/bin-array-wbtc-sol.json'), 'utf8')
+) as BinArrayFixture;
+const data = Buffer.from(fixture.data, 'base64');
+
+describe('decodeBinArray', () => {
+  test('fixture is a DLMM BinArray account', () => {
+    assert.equal(data.length, BIN_ARRAY_ACCOUNT_SIZE);
+    // Anchor account discriminator: sha256("account:BinArray")[0..8]
+    const discriminator = createHash('sha256').update('account:BinArray').digest().subarray(0, 8);
+    assert.deepEqual(data.subarray(0, 8), discriminator);
+  });
+
+  test('decodes the header', () => {
+    const decoded = decodeBinArray(data);
+    assert.equal(decoded.index, 124);
+    assert.equal(decoded.index, binArrayIndexForBin(fixture.activeBinId));
+    assert.equal(decoded.version, 1);
+    assert.equal(decoded.lbPair, fixture.lbPair);
+    assert.equal(decoded.bins.length, BINS_PER_ARRAY);
+    assert.equal(decoded.bins[0].binId, 124 * BINS_PER_ARRAY);
+    assert.equal(decoded.bins[BINS_PER_ARRAY - 1].binId, 125 * BINS_PER_ARRAY - 1);
+  });
+
+  test('decodes per-bin amounts', () => {
+    const bins = new Map(decodeBinArray(data).bins.map(bin => [bin.binId, bin]));
+    const amounts = (binId: number) => {
+      const bin = bins.get(binId);
+      assert.ok(bin);
+      return [bin.amountX.toString(), bin.amountY.toString()];
+    };
+
+    // Y (SOL) below the active bin, X (WBTC) above it, both in the active bin
+    assert.deepEqual(amounts(8705), ['0', '15000000000']);
+    assert.deepEqual(amounts(8718), ['5100000', '31250000000']);
+    assert.deepEqual(amounts(8720), ['4692000', '0']);
+    assert.deepEqual(amounts(8742), ['204000', '0']);
+    // Outside the seeded liquidity
+    assert.deepEqual(amounts(8680), ['0', '0']);
+    assert.deepEqual(amounts(8749), ['0', '0']);
+  });
+
+  test('decodes Q64.64 prices', () => {
+    for (const bin of decodeBinArray(data).bins) {
+      // Bin step 10: price = 1.001^binId raw Y per raw X
+      const expected = Math.pow(1.001, bin.binId);
+      assert.ok(Math.abs(bin.price - expected) / expected < 1e-9, `bin ${bin.binId} price ${bin.price}`);
+      assert.equal(bin.liquidity, Number(bin.amountX.toString()) * bin.price + Number(bin.amountY.toString()));
+    }
+  });
+
+  test('matches the SDK decoder bin for bin', () => {
+    const program = createProgram(new Connection('http://127.0.0.1:8899'));
+    const sdk = decodeAccount<BinArray>(program, 'binArray', data);
+    const decoded = decodeBinArray(data);
+
+    assert.equal(decoded.index, sdk.index.toNumber());
+    assert.equal(decoded.lbPair, sdk.lbPair.toBase58());
+    sdk.bins.forEach((bin, position) => {
+      assert.equal(decoded.bins[position].amountX.toString(), bin.amountX.toString());
+      assert.equal(decoded.bins[position].amountY.toString(), bin.amountY.toString());
+      assert.equal(decoded.bins[position].liquiditySupply.toString(), bin.liquiditySupply.toString());
+    });
+  });
+
+  test('rejects other accounts', () => {
+    const wrongDiscriminator = Buffer.from(data);
+    wrongDiscriminator[0] ^= 0xff;
+    assert.throws(() => decodeBinArray(wrongDiscriminator), BinArrayDecodeError);
+    assert.throws(() => decodeBinArray(data.subarray(0, BIN_ARRAY_ACCOUNT_SIZE - 1)), BinArrayDecodeError);
+  });
+});
@@ -0,0 +1,124 @@
+// tests/bridgeService.test.ts
+// Bridge provider selection and how a Zeus deposit reacts to what arrives at its address.
+
+import { after, before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  BridgeError,
+  getBridgeConfig,
+  getBridgeSteps,
+  ZeusBridgeService,
+  type BridgeConfig,
+  type BridgeJob,
+} from '@/lib/services/bridgeService';
+
+const DEPOSIT_ADDRESS = 'tb1qw508d6qejxtdg4y5r3zarvary0c5xw7kxpjzsx';
+
+const config: BridgeConfig = {
+  provider: 'zeus',
+  network: 'testnet',
+  zeusApiUrl: 'https://zeus.test',
+  esploraApiUrl: 'https://esplora.test',
+  requiredConfirmations: 1,
+};
+
+function depositJob(amountSats: string): BridgeJob {
+  return {
+    id: 'deposit-1',
+    wallet: 'wallet',
+    provider: 'zeus',
+    network: 'testnet',
+    direction: 'deposit',
+    status: 'awaiting_deposit',
+    amountSats,
+    depositAddress: DEPOSIT_ADDRESS,
+    confirmations: 0,
+    requiredConfirmations: 1,
+    createdAt: Date.now(),
+    updatedAt: Date.now(),
+    expiresAt: Date.now() + 60000,
+  };
+}
+
+function esploraTx(txid: string, value: number) {
+  return {
+    txid,
+    status: { confirmed: false },
+    vout: [
+      { scriptpubkey_address: DEPOSIT_ADDRESS, value },
+      { scriptpubkey_address: 'tb1qchange', value: 5000 },
+    ],
+  };
+}
+
+describe('getBridgeConfig', () => {
+  const saved = process.env.NEXT_PUBLIC_BRIDGE_PROVIDER;
+  after(() => {
+    if (saved === undefined) delete process.env.NEXT_PUBLIC_BRIDGE_PROVIDER;
+    else process.env.NEXT_PUBLIC_BRIDGE_PROVIDER = saved;
+  });
+
+  test('has no default provider', () => {
+    delete process.env.NEXT_PUBLIC_BRIDGE_PROVIDER;
+    assert.throws(() => getBridgeConfig(), BridgeError);
+  });
+
+  test('takes the provider that is set and rejects unknown ones', () => {
+    process.env.NEXT_PUBLIC_BRIDGE_PROVIDER = 'mock';
+    assert.equal(getBridgeConfig().provider, 'mock');
+    process.env.NEXT_PUBLIC_BRIDGE_PROVIDER = 'zeus';
+    assert.equal(getBridgeConfig().provider, 'zeus');
+    process.env.NEXT_PUBLIC_BRIDGE_PROVIDER = 'other';
+    assert.throws(() => getBridgeConfig(), /Unknown NEXT_PUBLIC_BRIDGE_PROVIDER: other/);
+  });
+});
+
+describe('ZeusBridgeService deposits', () => {
+  const realFetch = globalThis.fetch;
+  let addressTxs: ReturnType<typeof esploraTx>[] = [];
+
+  before(() => {
+    globalThis.fetch = (async (input: string | URL | Request) => {
+      const url = String(input);
+      if (url === `${config.esploraApiUrl}/address/${DEPOSIT_ADDRESS}/txs`) {
+        return new Response(JSON.stringify(addressTxs));
+      }
+      if (url.startsWith(`${config.esploraApiUrl}/tx/`)) {
+        return new Response(JSON.stringify({ confirmed: false }));
+      }
+      throw new Error(`unexpected fetch ${url}`);
+    }) as typeof fetch;
+  });
+  after(() => {
+    globalThis.fetch = realFetch;
+  });
+
+  const service = new ZeusBridgeService(config);
+
+  test('waits while nothing has arrived', async () => {
+    addressTxs = [];
+    const job = depositJob('100000');
+    assert.equal(await service.refreshJob(job), job);
+  });
+
+  test('moves to confirmations once the full amount arrives', async () => {
+    addressTxs = [esploraTx('a'.repeat(64), 40000), esploraTx('b'.repeat(64), 100000)];
+    const next = await service.refreshJob(depositJob('100000'));
+
+    assert.equal(next.status, 'confirming');
+    assert.equal(next.btcTxid, 'b'.repeat(64));
+    assert.equal(next.confirmations, 0);
+  });
+
+  test('fails an underpaid deposit on the deposit step and keeps its transaction', async () => {
+    addressTxs = [esploraTx('a'.repeat(64), 40000), esploraTx('c'.repeat(64), 99999)];
+    const next = await service.refreshJob(depositJob('100000'));
+
+    assert.equal(next.status, 'failed');
+    assert.equal(next.failedStep, 'awaiting_deposit');
+    assert.equal(next.btcTxid, 'c'.repeat(64));
+    assert.equal(next.error, 'Underpaid: received 0.00099999 of 0.001 BTC');
+    assert.equal(getBridgeSteps(next)[0].state, 'failed');
+    assert.equal(getBridgeSteps(next)[0].detail, next.error);
+  });
+});
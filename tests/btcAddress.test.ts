@@ -0,0 +1,177 @@
+// tests/btcAddress.test.ts
+// Bitcoin address decoding against the BIP-173 / BIP-350 vectors and Base58Check checksums.
+
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  BtcAddressError,
+  decodeBtcAddress,
+  encodeSegwitAddress,
+  validateBtcAddress,
+} from '@/lib/utils/btcAddress';
+
+function hex(bytes: Uint8Array): string {
+  return Buffer.from(bytes).toString('hex');
+}
+
+describe('decodeBtcAddress segwit vectors', () => {
+  // [address, network, type, witness version, program]
+  const valid: [string, string, string, number, string][] = [
+    ['BC1QW508D6QEJXTDG4Y5R3ZARVARY0C5XW7KV8F3T4', 'mainnet', 'p2wpkh', 0, '751e76e8199196d454941c45d1b3a323f1433bd6'],
+    ['tb1qw508d6qejxtdg4y5r3zarvary0c5xw7kxpjzsx', 'testnet', 'p2wpkh', 0, '751e76e8199196d454941c45d1b3a323f1433bd6'],
+    [
+      'tb1qrp33g0q5c5txsp9arysrx4k6zdkfs4nce4xj0gdcccefvpysxf3q0sl5k7',
+      'testnet', 'p2wsh', 0, '1863143c14c5166804bd19203356da136c985678cd4d27a1b8c6329604903262',
+    ],
+    [
+      'tb1qqqqqp399et2xygdj5xreqhjjvcmzhxw4aywxecjdzew6hylgvsesrxh6hy',
+      'testnet', 'p2wsh', 0, '000000c4a5cad46221b2a187905e5266362b99d5e91c6ce24d165dab93e86433',
+    ],
+    [
+      'bc1p0xlxvlhemja6c4dqv22uapctqupfhlxm9h8z3k2e72q4k9hcz7vqzk5jj0',
+      'mainnet', 'p2tr', 1, '79be667ef9dcbbac55a06295ce870b07029bfcdb2dce28d959f2815b16f81798',
+    ],
+    [
+      'tb1pqqqqp399et2xygdj5xreqhjjvcmzhxw4aywxecjdzew6hylgvsesf3hn0c',
+      'testnet', 'p2tr', 1, '000000c4a5cad46221b2a187905e5266362b99d5e91c6ce24d165dab93e86433',
+    ],
+    [
+      'bc1pw508d6qejxtdg4y5r3zarvary0c5xw7kw508d6qejxtdg4y5r3zarvary0c5xw7kt5nd6y',
+      'mainnet', 'witness_unknown', 1, '751e76e8199196d454941c45d1b3a323f1433bd6751e76e8199196d454941c45d1b3a323f1433bd6',
+    ],
+    ['BC1SW50QGDZ25J', 'mainnet', 'witness_unknown', 16, '751e'],
+    ['bc1zw508d6qejxtdg4y5r3zarvaryvaxxpcs', 'mainnet', 'witness_unknown', 2, '751e76e8199196d454941c45d1b3a323'],
+  ];
+
+  for (const [address, network, type, witnessVersion, program] of valid) {
+    test(`decodes ${address}`, () => {
+      const info = decodeBtcAddress(address);
+      assert.equal(info.network, network);
+      assert.equal(info.type, type);
+      assert.equal(info.witnessVersion, witnessVersion);
+      assert.equal(info.encoding, witnessVersion === 0 ? 'bech32' : 'bech32m');
+      assert.equal(hex(info.payload), program);
+    });
+  }
+
+  const invalid: [string, RegExp][] = [
+    // Unknown human-readable part, so it is read as Base58
+    ['tc1p0xlxvlhemja6c4dqv22uapctqupfhlxm9h8z3k2e72q4k9hcz7vq5zuyut', /Invalid Base58 character "0"/],
+    // bech32 checksum on a version 1+ address
+    ['bc1p0xlxvlhemja6c4dqv22uapctqupfhlxm9h8z3k2e72q4k9hcz7vqh2y7hd', /must use bech32m/],
+    ['tb1z0xlxvlhemja6c4dqv22uapctqupfhlxm9h8z3k2e72q4k9hcz7vqglt7rf', /must use bech32m/],
+    ['BC1S0XLXVLHEMJA6C4DQV22UAPCTQUPFHLXM9H8Z3K2E72Q4K9HCZ7VQ54WELL', /must use bech32m/],
+    // bech32m checksum on a version 0 address
+    ['bc1qw508d6qejxtdg4y5r3zarvary0c5xw7kemeawh', /must use bech32$/],
+    ['tb1q0xlxvlhemja6c4dqv22uapctqupfhlxm9h8z3k2e72q4k9hcz7vq24jc47', /must use bech32$/],
+    ['bc1p38j9r5y49hruaue7wxjce0updqjuyyx0kh56v8s25huc6995vvpql3jow4', /Invalid SegWit character "o"/],
+    ['BC130XLXVLHEMJA6C4DQV22UAPCTQUPFHLXM9H8Z3K2E72Q4K9HCZ7VQ7ZWS8R', /Invalid witness version 17/],
+    ['bc1pw5dgrnzv', /wrong length/],
+    ['bc1p0xlxvlhemja6c4dqv22uapctqupfhlxm9h8z3k2e72q4k9hcz7v8n0nx0muaewav253zgeav', /wrong length/],
+    ['BC1QR508D6QEJXTDG4Y5R3ZARVARYV98GJ9P', /must be 20 or 32 bytes/],
+    ['tb1p0xlxvlhemja6c4dqv22uapctqupfhlxm9h8z3k2e72q4k9hcz7vq47Zagq', /mixes upper and lower case/],
+    ['bc1p0xlxvlhemja6c4dqv22uapctqupfhlxm9h8z3k2e72q4k9hcz7v07qwwzcrf', /padding/],
+    ['tb1p0xlxvlhemja6c4dqv22uapctqupfhlxm9h8z3k2e72q4k9hcz7vpggkg4j', /padding/],
+    ['bc1gmk9yu', /no witness version/],
+    // BIP-173 vectors; its bech32 version 2 address is now a checksum error too
+    ['tb1qrp33g0q5c5txsp9arysrx4k6zdkfs4nce4xj0gdcccefvpysxf3q0sL5k7', /mixes upper and lower case/],
+    ['bc1zw508d6qejxtdg4y5r3zarvaryvqyzf3du', /must use bech32m/],
+    // One character changed
+    ['tb1qw508d6qejxtdg4y5r3zarvary0c5xw7kxpjzsy', /checksum does not match/],
+  ];
+
+  for (const [address, error] of invalid) {
+    test(`rejects ${address}`, () => {
+      assert.throws(() => decodeBtcAddress(address), (thrown: unknown) => {
+        assert.ok(thrown instanceof BtcAddressError);
+        assert.match(thrown.message, error);
+        return true;
+      });
+    });
+  }
+
+  test('encodes what it decodes', () => {
+    for (const [address, network, , witnessVersion, program] of valid) {
+      const encoded = encodeSegwitAddress(network as 'mainnet' | 'testnet', witnessVersion, Buffer.from(program, 'hex'));
+      assert.equal(encoded, address.toLowerCase());
+    }
+  });
+});
+
+describe('decodeBtcAddress Base58Check', () => {
+  test('decodes P2PKH and P2SH on both networks', () => {
+    const cases: [string, string, string][] = [
+      ['1A1zP1eP5QGefi2DMPTfTL5SLmv7DivfNa', 'mainnet', 'p2pkh'],
+      ['3J98t1WpEZ73CNmQviecrnyiWrnqRhWNLy', 'mainnet', 'p2sh'],
+      ['mipcBbFg9gMiCh81Kj8tqqdgoZub1ZJRfn', 'testnet', 'p2pkh'],
+      ['2MzQwSSnBHWHqSAqtTVQ6v47XtaisrJa1Vc', 'testnet', 'p2sh'],
+    ];
+    for (const [address, network, type] of cases) {
+      const info = decodeBtcAddress(address);
+      assert.equal(info.network, network, address);
+      assert.equal(info.type, type, address);
+      assert.equal(info.encoding, 'base58');
+      assert.equal(info.payload.length, 20);
+    }
+    assert.equal(hex(decodeBtcAddress('1A1zP1eP5QGefi2DMPTfTL5SLmv7DivfNa').payload), '62e907b15cbf27d5425399ebf6f0fb50ebb88f18');
+  });
+
+  test('rejects checksum failures', () => {
+    for (const address of [
+      '1A1zP1eP5QGefi2DMPTfTL5SLmv7DivfNb',
+      '3J98t1WpEZ73CNmQviecrnyiWrnqRhWNLz',
+      'mipcBbFg9gMiCh81Kj8tqqdgoZub1ZJRfo',
+      // Two characters swapped
+      '1A1zP1eP5QGefi2DMPTfTL5SLmv7DivNfa',
+    ]) {
+      assert.throws(() => decodeBtcAddress(address), /checksum does not match/, address);
+    }
+  });
+
+  test('rejects bad characters and lengths', () => {
+    assert.throws(() => decodeBtcAddress('1A1zP1eP5QGefi2DMPTfTL5SLmv7DivfN0'), /Invalid Base58 character "0"/);
+    assert.throws(() => decodeBtcAddress('1A1zP1eP5QGefi2DMPTfTL5SLmv7Divf'), /wrong length/);
+    assert.throws(() => decodeBtcAddress('  '), /Address is empty/);
+  });
+});
+
+describe('validateBtcAddress', () => {
+  test('accepts addresses of the requested network', () => {
+    assert.equal(validateBtcAddress('bc1p0xlxvlhemja6c4dqv22uapctqupfhlxm9h8z3k2e72q4k9hcz7vqzk5jj0', 'mainnet').valid, true);
+    assert.equal(validateBtcAddress('  tb1qw508d6qejxtdg4y5r3zarvary0c5xw7kxpjzsx ', 'testnet').valid, true);
+    assert.equal(validateBtcAddress('1A1zP1eP5QGefi2DMPTfTL5SLmv7DivfNa').valid, true);
+  });
+
+  test('rejects mainnet and testnet mismatches with the decoded info', () => {
+    const cases: [string, 'mainnet' | 'testnet', string][] = [
+      ['BC1QW508D6QEJXTDG4Y5R3ZARVARY0C5XW7KV8F3T4', 'testnet', 'mainnet'],
+      ['1A1zP1eP5QGefi2DMPTfTL5SLmv7DivfNa', 'testnet', 'mainnet'],
+      ['tb1qw508d6qejxtdg4y5r3zarvary0c5xw7kxpjzsx', 'mainnet', 'testnet'],
+      ['2MzQwSSnBHWHqSAqtTVQ6v47XtaisrJa1Vc', 'mainnet', 'testnet'],
+    ];
+    for (const [address, network, actual] of cases) {
+      const validation = validateBtcAddress(address, network);
+      assert.ok(!validation.valid, address);
+      assert.equal(validation.error, `This is a ${actual} address, but the bridge runs on ${network}`);
+      assert.equal(validation.info?.network, actual);
+    }
+  });
+
+  test('takes Base58 test addresses on regtest but not tb1 ones', () => {
+    assert.equal(validateBtcAddress('mipcBbFg9gMiCh81Kj8tqqdgoZub1ZJRfn', 'regtest').valid, true);
+    assert.equal(validateBtcAddress('tb1qw508d6qejxtdg4y5r3zarvary0c5xw7kxpjzsx', 'regtest').valid, false);
+  });
+
+  test('rejects unknown witness versions even though they decode', () => {
+    const validation = validateBtcAddress('bc1zw508d6qejxtdg4y5r3zarvaryvaxxpcs', 'mainnet');
+    assert.ok(!validation.valid);
+    assert.equal(validation.error, 'Unsupported address type (witness version 2)');
+  });
+
+  test('reports decoding errors without throwing', () => {
+    const validation = validateBtcAddress('bc1qw508d6qejxtdg4y5r3zarvary0c5xw7kemeawh', 'mainnet');
+    assert.ok(!validation.valid);
+    assert.equal(validation.error, 'Witness version 0 must use bech32');
+    assert.equal(validation.info, undefined);
+  });
+});
@@ -0,0 +1,89 @@
+// tests/chatAgent.test.ts
+// Drives /api/chat in agent mode against the mock model adapter, so the agent loop runs offline.
+
+import { after, before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { POST } from '@/app/api/chat/route';
+import type { AgentResponse } from '@/lib/meteora/meteoraChatTools';
+
+let requestCount = 0;
+
+async function askAgent(content: string, toolContext?: Record<string, unknown>): Promise<AgentResponse> {
+  requestCount += 1;
+  const response = await POST(new Request('http://localhost/api/chat', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      // One client per request keeps the rate limiter out of the way
+      'x-forwarded-for': `10.0.0.${requestCount}`,
+    },
+    body: JSON.stringify({ messages: [{ role: 'user', content }], mode: 'agent', toolContext }),
+  }));
+
+  assert.equal(response.status, 200);
+  return response.json();
+}
+
+describe('chat agent with the mock model adapter', () => {
+  const env = { adapter: process.env.CHAT_MODEL_ADAPTER, apiKey: process.env.ANTHROPIC_API_KEY };
+
+  before(() => {
+    process.env.CHAT_MODEL_ADAPTER = 'mock';
+    delete process.env.ANTHROPIC_API_KEY;
+  });
+
+  after(() => {
+    process.env.CHAT_MODEL_ADAPTER = env.adapter;
+    process.env.ANTHROPIC_API_KEY = env.apiKey;
+    if (env.adapter === undefined) delete process.env.CHAT_MODEL_ADAPTER;
+    if (env.apiKey === undefined) delete process.env.ANTHROPIC_API_KEY;
+  });
+
+  test('lists positions', async () => {
+    const { toolCalls } = await askAgent('Show my positions');
+    assert.equal(toolCalls.length, 1);
+    assert.equal(toolCalls[0].name, 'get_positions');
+  });
+
+  test('deposits a share of the balance into a pool shown earlier', async () => {
+    const { toolCalls } = await askAgent('Put half my zBTC into the 10bp pool', {
+      walletConnected: true,
+      knownPools: [
+        { name: 'zBTC-SOL', address: 'PooLzbtcSoL10bp1111111111111111111111111111', binStep: '10' },
+        { name: 'zBTC-SOL', address: 'PooLzbtcSoL25bp1111111111111111111111111111', binStep: '25' },
+      ],
+    });
+
+    assert.equal(toolCalls.length, 1);
+    assert.equal(toolCalls[0].name, 'add_liquidity');
+    // Undefined inputs do not survive the JSON response
+    assert.deepEqual(toolCalls[0].input, {
+      pool_address: 'PooLzbtcSoL10bp1111111111111111111111111111',
+      pair: 'zbtc-sol',
+      bin_step: 10,
+      balance_percentage: 50,
+      token: 'zbtc',
+    });
+  });
+
+  test('deposits the token named with the amount, not the first token of the pair', async () => {
+    const { toolCalls } = await askAgent('Add 100 USDC to zBTC-USDC');
+    assert.equal(toolCalls[0].name, 'add_liquidity');
+    assert.equal(toolCalls[0].input.pair, 'zbtc-usdc');
+    assert.equal(toolCalls[0].input.token, 'usdc');
+    assert.equal(toolCalls[0].input.amount, 100);
+  });
+
+  test('withdraws from a position by id', async () => {
+    const positionId = '7g9jZwqyrBmncX4Lq43LYhShcz7CNunNEDQqy78UyRm1';
+    const { toolCalls } = await askAgent(`Withdraw 25% from ${positionId}`);
+    assert.equal(toolCalls[0].name, 'remove_liquidity');
+    assert.deepEqual(toolCalls[0].input, { position_id: positionId, percentage: 25 });
+  });
+
+  test('answers without tool calls when nothing matches', async () => {
+    const { message, toolCalls } = await askAgent('What is a DLMM?');
+    assert.equal(toolCalls.length, 0);
+    assert.match(message, /no DLMM action recognised/);
+  });
+});
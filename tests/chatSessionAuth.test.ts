@@ -0,0 +1,195 @@
+// tests/chatSessionAuth.test.ts
+// Chat sessions are owned by whoever the sign-in cookie proves, never by an id the client sends.
+
+import { after, before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { generateKeyPairSync, randomUUID, sign } from 'crypto';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { PublicKey } from '@solana/web3.js';
+import * as authRoute from '@/app/api/chat/auth/route';
+import * as challengeRoute from '@/app/api/chat/auth/challenge/route';
+import * as sessionRoute from '@/app/api/chat/sessions/[id]/route';
+import { ChatSessionOwnershipError, FileChatSessionStore } from '@/lib/services/chatSessionStore';
+import type { ChatAuthChallenge, ChatSessionOwner } from '@/lib/api/chatSessions';
+
+let requestCount = 0;
+
+function chatRequest(url: string, method: string, cookie: string | null, body?: unknown): Request {
+  requestCount += 1;
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/json',
+    // One client per request keeps the rate limiter out of the way
+    'x-forwarded-for': `10.1.0.${requestCount}`,
+  };
+  if (cookie) headers.cookie = cookie;
+  return new Request(`http://localhost${url}`, {
+    method,
+    headers,
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+}
+
+// name=value part of a Set-Cookie header
+function cookieOf(response: Response): string {
+  const setCookie = response.headers.get('set-cookie');
+  assert.ok(setCookie);
+  return setCookie.split(';')[0];
+}
+
+function createWallet() {
+  const { publicKey, privateKey } = generateKeyPairSync('ed25519');
+  const x = publicKey.export({ format: 'jwk' }).x as string;
+  return {
+    address: new PublicKey(Buffer.from(x, 'base64url')).toBase58(),
+    signMessage: (message: string) => sign(null, Buffer.from(message, 'utf8'), privateKey).toString('base64'),
+  };
+}
+
+async function signInWallet(wallet: ReturnType<typeof createWallet>, cookie: string) {
+  const challengeResponse = await challengeRoute.POST(
+    chatRequest('/api/chat/auth/challenge', 'POST', cookie, { wallet: wallet.address })
+  );
+  const { challenge, message } = await challengeResponse.json() as ChatAuthChallenge;
+  const body = { wallet: wallet.address, challenge, signature: wallet.signMessage(message) };
+  return { body, response: await authRoute.POST(chatRequest('/api/chat/auth', 'POST', cookie, body)) };
+}
+
+function sessionContents(text: string) {
+  return {
+    messages: [{ role: 'user' as const, content: text, timestamp: new Date().toISOString() }],
+    shownPoolAddresses: [],
+    portfolioStyle: null,
+  };
+}
+
+describe('chat session ownership', () => {
+  const env = { store: process.env.CHAT_SESSION_STORE, dir: process.env.CHAT_SESSION_DIR };
+  const dir = mkdtempSync(path.join(tmpdir(), 'chat-sessions-'));
+
+  before(() => {
+    process.env.CHAT_SESSION_STORE = 'file';
+    process.env.CHAT_SESSION_DIR = dir;
+  });
+
+  after(() => {
+    process.env.CHAT_SESSION_STORE = env.store;
+    process.env.CHAT_SESSION_DIR = env.dir;
+    if (env.store === undefined) delete process.env.CHAT_SESSION_STORE;
+    if (env.dir === undefined) delete process.env.CHAT_SESSION_DIR;
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('rejects session requests without a sign-in cookie', async () => {
+    const response = await sessionRoute.GET(
+      chatRequest(`/api/chat/sessions/${randomUUID()}`, 'GET', null),
+      { params: Promise.resolve({ id: randomUUID() }) }
+    );
+    assert.equal(response.status, 401);
+  });
+
+  test('signs a wallet in with a signed challenge, once', async () => {
+    const anonymous = await authRoute.GET(chatRequest('/api/chat/auth', 'GET', null));
+    const { owner: anonymousOwner } = await anonymous.json() as { owner: ChatSessionOwner };
+    assert.equal(anonymousOwner.type, 'anonymous');
+
+    const wallet = createWallet();
+    const { body, response } = await signInWallet(wallet, cookieOf(anonymous));
+    assert.equal(response.status, 200);
+    const { owner } = await response.json() as { owner: ChatSessionOwner };
+    assert.deepEqual(owner, { id: wallet.address, type: 'wallet' });
+
+    const replay = await authRoute.POST(chatRequest('/api/chat/auth', 'POST', cookieOf(anonymous), body));
+    assert.equal(replay.status, 401);
+
+    // Signing out keeps the browser's anonymous id
+    const signedOut = await authRoute.DELETE(chatRequest('/api/chat/auth', 'DELETE', cookieOf(response)));
+    assert.deepEqual((await signedOut.json()).owner, anonymousOwner);
+  });
+
+  test('rejects a signature from a different wallet', async () => {
+    const anonymous = await authRoute.GET(chatRequest('/api/chat/auth', 'GET', null));
+    const wallet = createWallet();
+    const impostor = createWallet();
+
+    const challengeResponse = await challengeRoute.POST(
+      chatRequest('/api/chat/auth/challenge', 'POST', cookieOf(anonymous), { wallet: wallet.address })
+    );
+    const { challenge, message } = await challengeResponse.json() as ChatAuthChallenge;
+    const response = await authRoute.POST(chatRequest('/api/chat/auth', 'POST', cookieOf(anonymous), {
+      wallet: wallet.address,
+      challenge,
+      signature: impostor.signMessage(message),
+    }));
+
+    assert.equal(response.status, 401);
+  });
+
+  test('saves under the cookie owner and refuses another owner the same session id', async () => {
+    const wallet = createWallet();
+    const anonymous = await authRoute.GET(chatRequest('/api/chat/auth', 'GET', null));
+    const signedIn = cookieOf((await signInWallet(wallet, cookieOf(anonymous))).response);
+    const other = cookieOf(await authRoute.GET(chatRequest('/api/chat/auth', 'GET', null)));
+
+    const sessionId = randomUUID();
+    const params = { params: Promise.resolve({ id: sessionId }) };
+    const url = `/api/chat/sessions/${sessionId}`;
+
+    const saved = await sessionRoute.PUT(chatRequest(url, 'PUT', signedIn, {
+      ...sessionContents('hello'),
+      // Ignored: the owner comes from the cookie
+      ownerId: 'someone-else',
+    }), params);
+    assert.equal(saved.status, 200);
+    const { session } = await saved.json();
+    assert.equal(session.ownerId, wallet.address);
+    assert.equal(session.ownerType, 'wallet');
+
+    const hijack = await sessionRoute.PUT(chatRequest(url, 'PUT', other, sessionContents('mine now')), params);
+    assert.equal(hijack.status, 403);
+
+    const read = await sessionRoute.GET(chatRequest(url, 'GET', other), params);
+    assert.equal(read.status, 404);
+
+    const own = await sessionRoute.GET(chatRequest(url, 'GET', signedIn), params);
+    assert.equal((await own.json()).session.messages[0].content, 'hello');
+  });
+
+  test('file store refuses to save a session id another owner holds', async () => {
+    const store = new FileChatSessionStore(path.join(dir, 'direct'));
+    const sessionId = randomUUID();
+    const owner = randomUUID();
+
+    await store.saveSession(sessionId, { ownerId: owner, ownerType: 'anonymous', ...sessionContents('first') });
+    await assert.rejects(
+      store.saveSession(sessionId, { ownerId: randomUUID(), ownerType: 'anonymous', ...sessionContents('second') }),
+      ChatSessionOwnershipError
+    );
+
+    const updated = await store.saveSession(sessionId, { ownerId: owner, ownerType: 'anonymous', ...sessionContents('third') });
+    assert.equal(updated.messages[0].content, 'third');
+  });
+
+  test('file store lets only one of two concurrent first saves claim a session id', async () => {
+    const store = new FileChatSessionStore(path.join(dir, 'concurrent'));
+    const sessionId = randomUUID();
+    const owners = [randomUUID(), randomUUID()];
+
+    const results = await Promise.allSettled(owners.map(ownerId =>
+      store.saveSession(sessionId, { ownerId, ownerType: 'anonymous', ...sessionContents(ownerId) })
+    ));
+    const saved = results.filter(result => result.status === 'fulfilled');
+    const refused = results.filter(result => result.status === 'rejected');
+    assert.equal(saved.length, 1);
+    assert.equal(refused.length, 1);
+    assert.ok((refused[0] as PromiseRejectedResult).reason instanceof ChatSessionOwnershipError);
+
+    // A fresh store rebuilds the index from disk
+    const reopened = new FileChatSessionStore(path.join(dir, 'concurrent'));
+    await assert.rejects(
+      reopened.saveSession(sessionId, { ownerId: owners[1], ownerType: 'anonymous', ...sessionContents('late') }),
+      ChatSessionOwnershipError
+    );
+  });
+});
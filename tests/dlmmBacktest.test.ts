@@ -0,0 +1,66 @@
+// tests/dlmmBacktest.test.ts
+// Sanity checks for the DLMM backtest engine on synthetic price series.
+
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { StrategyType } from '@meteora-ag/dlmm';
+import { runBacktest } from '@/lib/backtest/dlmmBacktest';
+import type { PricePoint } from '@/lib/backtest/priceSeries';
+
+const HOUR = 60 * 60 * 1000;
+const STRATEGIES = [StrategyType.Spot, StrategyType.Curve, StrategyType.BidAsk];
+
+function series(prices: number[], volume = 0): PricePoint[] {
+  return prices.map((price, index) => ({ timestamp: index * HOUR, price, volume }));
+}
+
+function flat(periods: number, volume = 0): PricePoint[] {
+  return series(Array.from({ length: periods }, () => 100), volume);
+}
+
+function assertClose(actual: number, expected: number, label: string) {
+  assert.ok(Math.abs(actual - expected) < 1e-9 * Math.max(1, Math.abs(expected)), `${label}: ${actual} vs ${expected}`);
+}
+
+describe('runBacktest', () => {
+  test('a flat series with no volume neither gains nor loses', () => {
+    for (const [binStep, rangeWidth] of [[10, 21], [50, 101], [100, 69], [25, 1]]) {
+      for (const strategy of STRATEGIES) {
+        const result = runBacktest(flat(48), { binStep, rangeWidth, strategy });
+        const label = `bin step ${binStep}, ${rangeWidth} bins, strategy ${strategy}`;
+
+        assertClose(result.positionValue, 1000, label);
+        assertClose(result.hodlValue, 1000, label);
+        assertClose(result.impermanentLoss, 0, label);
+        assertClose(result.netPnl, 0, label);
+        assert.equal(result.timeInRange, 1, label);
+      }
+    }
+  });
+
+  test('fees scale with volume', () => {
+    const config = { binStep: 20, rangeWidth: 41, strategy: StrategyType.Spot };
+    const base = runBacktest(flat(24, 5000), config);
+    const doubled = runBacktest(flat(24, 10000), config);
+
+    assert.ok(base.feeIncome > 0);
+    assertClose(doubled.feeIncome, base.feeIncome * 2, 'doubled volume');
+    assertClose(base.netPnl, base.feeIncome, 'flat price');
+    assert.equal(runBacktest(flat(24), config).feeIncome, 0);
+    assert.equal(runBacktest(flat(24, 5000), { ...config, baseFeeBps: 0 }).feeIncome, 0);
+  });
+
+  test('reports rebalance costs apart from impermanent loss', () => {
+    // Jumps out of a narrow range, then stays at the new price
+    const prices = series([100, 120, 120, 120]);
+    const config = { binStep: 10, rangeWidth: 11, strategy: StrategyType.Spot };
+    const free = runBacktest(prices, { ...config, rebalance: { outOfRangePeriods: 1, costBps: 0 } });
+    const paid = runBacktest(prices, { ...config, rebalance: { outOfRangePeriods: 1, costBps: 50 } });
+
+    assert.equal(paid.rebalances, 1);
+    assert.equal(free.rebalanceCost, 0);
+    assertClose(paid.rebalanceCost, free.positionValue * 0.005, 'rebalance cost');
+    assertClose(paid.impermanentLoss, free.impermanentLoss, 'impermanent loss');
+    assertClose(paid.netPnl, free.netPnl - paid.rebalanceCost, 'net PnL');
+  });
+});
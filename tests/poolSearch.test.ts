@@ -0,0 +1,76 @@
+// tests/poolSearch.test.ts
+// Pool search end to end over the bundled Meteora fixtures, with no network.
+
+import { after, before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { FixturePoolDataProvider, setPoolDataProvider } from '@/lib/api/poolDataProvider';
+import { PoolSearchService, type PoolSearchParams } from '@/lib/services/poolSearchService';
+import { riskProfileFromStyle } from '@/lib/utils/riskProfile';
+
+function searchParams(tokenFilter?: string): PoolSearchParams & { messages: string[]; errors: unknown[] } {
+  const messages: string[] = [];
+  const errors: unknown[] = [];
+  return {
+    messages,
+    errors,
+    profile: null,
+    shownPoolAddresses: [],
+    tokenFilter,
+    onLoadingMessage: message => messages.push(message),
+    onError: error => errors.push(error),
+    handleAsyncError: async operation => {
+      try {
+        return await operation();
+      } catch (error) {
+        errors.push(error);
+        return null;
+      }
+    },
+  };
+}
+
+describe('PoolSearchService.searchPools with fixture pools', () => {
+  const service = new PoolSearchService();
+
+  before(() => setPoolDataProvider(new FixturePoolDataProvider()));
+  after(() => setPoolDataProvider(null));
+
+  test('finds one pair filter\'s pools and drops unsupported bin steps', async () => {
+    const params = searchParams('wbtc-sol');
+    const pools = await service.searchPools(params);
+
+    // The bin step 100 WBTC-SOL pool is outside the supported bin steps
+    assert.deepEqual(pools.map(pool => [pool.name, pool.bin_step]), [['WBTC-SOL', 10], ['WBTC-SOL', 50]]);
+    assert.equal(params.errors.length, 0);
+    assert.match(params.messages[0], /wBTC-SOL/);
+  });
+
+  test('searches every BTC pair once, without duplicates or low-fee pools', async () => {
+    const params = searchParams();
+    const pools = await service.searchPools(params);
+    const addresses = pools.map(pool => pool.address);
+
+    assert.equal(new Set(addresses).size, addresses.length);
+    assert.deepEqual(
+      [...new Set(pools.map(pool => pool.name))].sort(),
+      ['JitoSOL-WBTC', 'WBTC-SOL', 'cbBTC-SOL', 'zBTC-SOL']
+    );
+    // zBTC-SOL at bin step 50 earns under the fee and APY floors
+    assert.ok(!pools.some(pool => pool.name === 'zBTC-SOL' && pool.bin_step === 50));
+    assert.ok(pools.every(pool => [5, 10, 15, 50].includes(pool.bin_step ?? 0)));
+  });
+
+  test('returns nothing for an unknown filter', async () => {
+    assert.deepEqual(await service.searchPools(searchParams('doge-sol')), []);
+  });
+
+  test('picks the best found pool for a profile', async () => {
+    const pools = await service.searchPools(searchParams('btc'));
+    const best = await service.getBestPool(pools, riskProfileFromStyle('conservative'), []);
+
+    assert.ok(best);
+    // Conservative prefers bin step 50
+    assert.equal(best.pool.bin_step, 50);
+    assert.ok(best.score.total > 0);
+  });
+});
@@ -0,0 +1,109 @@
+// tests/portfolioAllocator.test.ts
+// How a BTC deposit is split across pools, and where a one-sided BTC leg may sit.
+
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { clipRangeForTokenX, computeAllocation } from '@/lib/services/portfolioAllocatorService';
+import type { ExistingBinRange } from '@/lib/meteora/meteoraPositionService';
+import type { ApiPool } from '@/lib/utils/poolTypes';
+
+let poolCount = 0;
+
+// Same bin step and TVL throughout, so legs differ only by fee yield
+function pool(name: string, fees24h: number): ApiPool {
+  poolCount += 1;
+  return {
+    name,
+    address: `pool-${poolCount}`,
+    liquidity: '1000000',
+    current_price: 612.4,
+    apy: 0,
+    fees_24h: fees24h,
+    trade_volume_24h: fees24h * 200,
+    bin_step: 50,
+  };
+}
+
+function sum(values: number[]): number {
+  return values.reduce((total, value) => total + value, 0);
+}
+
+describe('computeAllocation', () => {
+  test('caps every leg at the style\'s maximum share and allocates the whole amount', () => {
+    const pools = [pool('WBTC-SOL', 20000), pool('zBTC-SOL', 800), pool('cbBTC-SOL', 600)];
+    const plan = computeAllocation(pools, 'conservative', 2);
+
+    assert.equal(plan.legs.length, 3);
+    for (const leg of plan.legs) {
+      assert.ok(leg.weight <= 0.5 + 1e-9, `${leg.pool.name} weight ${leg.weight}`);
+      assert.ok(Math.abs(leg.amount - 2 * leg.weight) < 1e-12);
+    }
+    assert.ok(Math.abs(plan.legs[0].weight - 0.5) < 1e-9);
+    assert.ok(Math.abs(sum(plan.legs.map(leg => leg.weight)) - 1) < 1e-9);
+    assert.ok(Math.abs(sum(plan.legs.map(leg => leg.amount)) - 2) < 1e-9);
+  });
+
+  test('drops legs below the minimum share and reweights the rest', () => {
+    const pools = [pool('WBTC-SOL', 5000), pool('zBTC-SOL', 4000), pool('cbBTC-SOL', 2)];
+    const plan = computeAllocation(pools, 'conservative', 1);
+
+    assert.deepEqual(plan.legs.map(leg => leg.variant), ['wbtc', 'zbtc']);
+    for (const leg of plan.legs) {
+      assert.ok(leg.weight >= 0.15, `${leg.pool.name} weight ${leg.weight}`);
+    }
+    assert.ok(Math.abs(sum(plan.legs.map(leg => leg.weight)) - 1) < 1e-9);
+  });
+
+  test('takes one pool of each BTC variant before a second of any', () => {
+    const pools = [
+      pool('WBTC-SOL', 5000),
+      pool('WBTC-SOL', 4900),
+      pool('zBTC-SOL', 3000),
+      pool('cbBTC-SOL', 2900),
+    ];
+    const plan = computeAllocation(pools, 'conservative', 1);
+
+    // Conservative allows three legs: the second WBTC pool loses its place to the other wrappers
+    assert.deepEqual(plan.legs.map(leg => leg.variant).sort(), ['cbbtc', 'wbtc', 'zbtc']);
+    assert.equal(plan.legs.find(leg => leg.variant === 'wbtc')?.pool.address, pools[0].address);
+
+    // With room for a fourth leg it goes to the next best pool
+    assert.equal(computeAllocation(pools, 'moderate', 1).legs.length, 4);
+  });
+
+  test('a single leg takes everything and pools without fees get nothing', () => {
+    const plan = computeAllocation([pool('WBTC-SOL', 1000), pool('zBTC-SOL', 0)], 'aggressive', 0.5);
+
+    assert.equal(plan.legs.length, 1);
+    assert.equal(plan.legs[0].weight, 1);
+    assert.equal(plan.legs[0].amount, 0.5);
+  });
+});
+
+describe('clipRangeForTokenX', () => {
+  const range: ExistingBinRange = {
+    minBinId: 95,
+    maxBinId: 110,
+    existingBins: [95, 96, 97, 98, 99, 100, 101, 102, 103, 104, 105, 106, 107, 108, 109, 110],
+    liquidityDepth: 1000,
+    isPopular: true,
+    description: 'Conservative Range (16 bins, 16 with liquidity)',
+  };
+
+  test('drops the bins below the active bin', () => {
+    const clipped = clipRangeForTokenX(range, 100);
+    assert.ok(clipped);
+    assert.equal(clipped.minBinId, 100);
+    assert.equal(clipped.maxBinId, 110);
+    assert.deepEqual(clipped.existingBins, [100, 101, 102, 103, 104, 105, 106, 107, 108, 109, 110]);
+  });
+
+  test('keeps a range already at or above the active bin', () => {
+    assert.equal(clipRangeForTokenX(range, 95), range);
+    assert.equal(clipRangeForTokenX(range, 80), range);
+  });
+
+  test('rejects a range entirely below the active bin', () => {
+    assert.equal(clipRangeForTokenX(range, 111), null);
+  });
+});
@@ -0,0 +1,42 @@
+// tests/positionMonitor.test.ts
+// Where the active bin sits relative to a position's range, as the monitor reports it.
+
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { classifyPositionRange } from '@/lib/services/positionMonitorService';
+
+describe('classifyPositionRange', () => {
+  // Bins 100-120: 21 bins, so the 3 bins nearest either edge count as near it
+  const range = [100, 120] as const;
+
+  test('out of range below and above, with the distance past the edge as a negative', () => {
+    assert.deepEqual(classifyPositionRange(...range, 95), { status: 'out-of-range', binsToEdge: -5, drift: 'below' });
+    assert.deepEqual(classifyPositionRange(...range, 99), { status: 'out-of-range', binsToEdge: -1, drift: 'below' });
+    assert.deepEqual(classifyPositionRange(...range, 121), { status: 'out-of-range', binsToEdge: -1, drift: 'above' });
+    assert.deepEqual(classifyPositionRange(...range, 125), { status: 'out-of-range', binsToEdge: -5, drift: 'above' });
+  });
+
+  test('near the edge within 15% of the width, towards the closer side', () => {
+    assert.deepEqual(classifyPositionRange(...range, 100), { status: 'near-edge', binsToEdge: 0, drift: 'below' });
+    assert.deepEqual(classifyPositionRange(...range, 102), { status: 'near-edge', binsToEdge: 2, drift: 'below' });
+    assert.deepEqual(classifyPositionRange(...range, 118), { status: 'near-edge', binsToEdge: 2, drift: 'above' });
+    assert.deepEqual(classifyPositionRange(...range, 120), { status: 'near-edge', binsToEdge: 0, drift: 'above' });
+  });
+
+  test('in range once clear of the edges', () => {
+    assert.deepEqual(classifyPositionRange(...range, 103), { status: 'in-range', binsToEdge: 3, drift: null });
+    assert.deepEqual(classifyPositionRange(...range, 110), { status: 'in-range', binsToEdge: 10, drift: null });
+    assert.deepEqual(classifyPositionRange(...range, 117), { status: 'in-range', binsToEdge: 3, drift: null });
+  });
+
+  test('narrow ranges still keep a one-bin edge', () => {
+    assert.deepEqual(classifyPositionRange(100, 100, 100), { status: 'near-edge', binsToEdge: 0, drift: 'below' });
+    assert.deepEqual(classifyPositionRange(100, 104, 102), { status: 'in-range', binsToEdge: 2, drift: null });
+    assert.deepEqual(classifyPositionRange(100, 104, 101), { status: 'in-range', binsToEdge: 1, drift: null });
+  });
+
+  test('takes an explicit near-edge width', () => {
+    assert.deepEqual(classifyPositionRange(...range, 100, 0), { status: 'in-range', binsToEdge: 0, drift: null });
+    assert.deepEqual(classifyPositionRange(...range, 110, 11), { status: 'near-edge', binsToEdge: 10, drift: 'below' });
+  });
+});
@@ -0,0 +1,106 @@
+// tests/positionPnl.test.ts
+// Reconstructs a position's deposits, withdrawals and fee claims from parsed transaction fixtures.
+
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'fs';
+import path from 'path';
+import { PublicKey, type ParsedTransactionWithMeta } from '@solana/web3.js';
+import { extractPositionFlows, summarizeFlows, type PositionFlow } from '@/lib/services/positionPnlService';
+
+interface RawTransaction {
+  signature: string;
+  transaction: {
+    transaction: {
+      message: {
+        accountKeys: Array<{ pubkey: string }>;
+        instructions: Array<{ accounts?: string[]; programId: string }>;
+      };
+    };
+  };
+}
+
+interface PositionTransactionsFixture {
+  lbPair: string;
+  tokenXMint: string;
+  tokenYMint: string;
+  position: string;
+  otherPosition: string;
+  transactions: Record<'deposit' | 'withdraw' | 'withdrawAndClaim', RawTransaction>;
+}
+
+const fixture = JSON.parse(
+  readFileSync(path.join(process.cwd(), 'fixtures/meteora/position-transactions-wbtc-sol.json'), 'utf8')
+) as PositionTransactionsFixture;
+
+// The RPC JSON carries base58 strings where web3.js hands back PublicKeys
+function parsedTransaction(raw: RawTransaction): ParsedTransactionWithMeta {
+  const { message } = raw.transaction.transaction;
+  return {
+    ...raw.transaction,
+    transaction: {
+      ...raw.transaction.transaction,
+      message: {
+        ...message,
+        accountKeys: message.accountKeys.map(key => ({ ...key, pubkey: new PublicKey(key.pubkey) })),
+        instructions: message.instructions.map(instruction => ({
+          ...instruction,
+          programId: new PublicKey(instruction.programId),
+          ...(instruction.accounts ? { accounts: instruction.accounts.map(account => new PublicKey(account)) } : {}),
+        })),
+      },
+    },
+  } as unknown as ParsedTransactionWithMeta;
+}
+
+function flowsOf(name: keyof PositionTransactionsFixture['transactions'], positionAddress = fixture.position) {
+  const raw = fixture.transactions[name];
+  return extractPositionFlows(parsedTransaction(raw), raw.signature, {
+    positionAddress,
+    lbPairAddress: fixture.lbPair,
+    tokenXMint: fixture.tokenXMint,
+    tokenYMint: fixture.tokenYMint,
+  });
+}
+
+function amounts(flows: PositionFlow[]) {
+  return flows.map(flow => [flow.kind, flow.amountX.toString(), flow.amountY.toString()]);
+}
+
+describe('extractPositionFlows', () => {
+  test('counts only this position\'s deposit when one transaction adds to two positions', () => {
+    const flows = flowsOf('deposit');
+    assert.deepEqual(amounts(flows), [['deposit', '1000000', '2000000000']]);
+    assert.equal(flows[0].signature, fixture.transactions.deposit.signature);
+    assert.equal(flows[0].blockTime, 1760000000);
+
+    assert.deepEqual(amounts(flowsOf('deposit', fixture.otherPosition)), [['deposit', '500000', '700000000']]);
+  });
+
+  test('leaves a swap through the same pool out of the withdrawal', () => {
+    assert.deepEqual(amounts(flowsOf('withdraw')), [['withdraw', '400000', '800000000']]);
+  });
+
+  test('reports fees claimed alongside a withdrawal as a claim, not as withdrawn liquidity', () => {
+    assert.deepEqual(amounts(flowsOf('withdrawAndClaim')), [
+      ['withdraw', '600000', '1200000000'],
+      ['claim', '3000', '15000000'],
+    ]);
+  });
+
+  test('ignores transactions that never name the position', () => {
+    assert.deepEqual(flowsOf('withdraw', fixture.otherPosition), []);
+  });
+
+  test('sums the history without the claims', () => {
+    const history = summarizeFlows(
+      [...flowsOf('deposit'), ...flowsOf('withdraw'), ...flowsOf('withdrawAndClaim')],
+      true
+    );
+    assert.equal(history.flows.length, 4);
+    assert.equal(history.depositedX.toString(), '1000000');
+    assert.equal(history.depositedY.toString(), '2000000000');
+    assert.equal(history.withdrawnX.toString(), '1000000');
+    assert.equal(history.withdrawnY.toString(), '2000000000');
+  });
+});
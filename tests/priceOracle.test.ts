@@ -0,0 +1,147 @@
+// tests/priceOracle.test.ts
+// How quotes from several sources become one price, and decoding Pyth price accounts.
+
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { aggregateQuotes, decodePythPriceUpdate, type PriceQuote } from '@/lib/services/priceOracleService';
+
+const MINT = '3NZ9JMVBmGAqocybic2c7LQCJScmgsAZ6vQqTDzcqmJh';
+const NOW = 1_700_000_000_000;
+const MINUTE = 60 * 1000;
+const options = { maxAgeMs: 5 * MINUTE, maxDeviationBps: 100 };
+
+function quote(source: string, usd: number, ageMs = 0, mint = MINT): PriceQuote {
+  return { source, mint, usd, publishedAt: NOW - ageMs };
+}
+
+function sources(price: { quotes: PriceQuote[] }): string[] {
+  return price.quotes.map(accepted => accepted.source).sort();
+}
+
+describe('aggregateQuotes', () => {
+  test('prices at the median of the accepted quotes', () => {
+    const odd = aggregateQuotes(MINT, [quote('jupiter', 100.4), quote('meteora', 100), quote('pyth', 99.8)], options, NOW);
+    assert.ok(odd);
+    assert.equal(odd.usd, 100);
+    assert.equal(odd.spreadBps, 60);
+    assert.equal(odd.stale, false);
+    assert.equal(odd.disputed, false);
+    assert.deepEqual(odd.rejected, []);
+
+    const even = aggregateQuotes(MINT, [quote('jupiter', 100.4), quote('meteora', 100), quote('pyth', 100.2), quote('fixture', 99.8)], options, NOW);
+    assert.ok(even);
+    assert.ok(Math.abs(even.usd - 100.1) < 1e-9);
+  });
+
+  test('ignores other mints and unusable prices', () => {
+    const price = aggregateQuotes(MINT, [
+      quote('jupiter', 100),
+      quote('meteora', 0),
+      quote('pyth', Number.NaN),
+      quote('fixture', 50, 0, 'other-mint'),
+    ], options, NOW);
+    assert.ok(price);
+    assert.deepEqual(sources(price), ['jupiter']);
+    assert.equal(price.usd, 100);
+
+    assert.equal(aggregateQuotes(MINT, [quote('jupiter', -1)], options, NOW), null);
+    assert.equal(aggregateQuotes(MINT, [], options, NOW), null);
+  });
+
+  test('rejects stale quotes while a fresh one is left', () => {
+    const price = aggregateQuotes(MINT, [quote('jupiter', 100, MINUTE), quote('pyth', 90, 10 * MINUTE)], options, NOW);
+    assert.ok(price);
+    assert.equal(price.usd, 100);
+    assert.equal(price.stale, false);
+    assert.deepEqual(price.rejected.map(rejected => [rejected.quote.source, rejected.reason]), [['pyth', 'stale']]);
+    assert.equal(price.publishedAt, NOW - MINUTE);
+  });
+
+  test('falls back to stale quotes, flagged, when nothing is fresh', () => {
+    const price = aggregateQuotes(MINT, [quote('jupiter', 100, 10 * MINUTE), quote('pyth', 100.2, 6 * MINUTE)], options, NOW);
+    assert.ok(price);
+    assert.equal(price.stale, true);
+    assert.deepEqual(sources(price), ['jupiter', 'pyth']);
+    assert.deepEqual(price.rejected, []);
+    assert.ok(Math.abs(price.usd - 100.1) < 1e-9);
+    assert.equal(price.publishedAt, NOW - 6 * MINUTE);
+  });
+
+  test('rejects a quote far from the median as an outlier', () => {
+    const price = aggregateQuotes(MINT, [quote('jupiter', 100), quote('meteora', 100.5), quote('pyth', 120)], options, NOW);
+    assert.ok(price);
+    assert.deepEqual(sources(price), ['jupiter', 'meteora']);
+    assert.deepEqual(price.rejected.map(rejected => [rejected.quote.source, rejected.reason]), [['pyth', 'outlier']]);
+    assert.equal(price.usd, 100.25);
+    assert.equal(price.disputed, false);
+  });
+
+  test('keeps quotes just inside the deviation limit', () => {
+    const price = aggregateQuotes(MINT, [quote('jupiter', 100), quote('meteora', 100.99), quote('pyth', 99.01)], options, NOW);
+    assert.ok(price);
+    assert.equal(price.rejected.length, 0);
+  });
+
+  test('marks two sources far apart as disputed and keeps both', () => {
+    const price = aggregateQuotes(MINT, [quote('jupiter', 100), quote('pyth', 110)], options, NOW);
+    assert.ok(price);
+    assert.equal(price.disputed, true);
+    assert.deepEqual(sources(price), ['jupiter', 'pyth']);
+    assert.deepEqual(price.rejected, []);
+    assert.equal(price.usd, 105);
+    assert.equal(price.spreadBps, 952);
+  });
+
+  test('two sources in agreement are not disputed', () => {
+    const price = aggregateQuotes(MINT, [quote('jupiter', 100), quote('pyth', 100.5)], options, NOW);
+    assert.ok(price);
+    assert.equal(price.disputed, false);
+    assert.equal(price.rejected.length, 0);
+  });
+});
+
+// PriceUpdateV2 layout: discriminator (8) | write authority (32) | verification | feed id (32) | price message
+function pythAccount({
+  verification = 1,
+  price = BigInt(6_512_345_678_900),
+  confidence = BigInt(3_250_000_000),
+  exponent = -8,
+  publishTime = 1_700_000_000,
+}: { verification?: number; price?: bigint; confidence?: bigint; exponent?: number; publishTime?: number } = {}): Buffer {
+  const header = Buffer.alloc(8 + 32 + 1 + 32);
+  header.writeUInt8(verification, 40);
+  const message = Buffer.alloc(8 + 8 + 4 + 8 + 8 + 8);
+  message.writeBigInt64LE(price, 0);
+  message.writeBigUInt64LE(confidence, 8);
+  message.writeInt32LE(exponent, 16);
+  message.writeBigInt64LE(BigInt(publishTime), 20);
+  return Buffer.concat([header, message]);
+}
+
+describe('decodePythPriceUpdate', () => {
+  test('scales the price and confidence by the exponent', () => {
+    const decoded = decodePythPriceUpdate(pythAccount());
+    assert.ok(decoded);
+    assert.ok(Math.abs(decoded.price - 65123.456789) < 1e-6);
+    assert.ok(Math.abs(decoded.confidence - 32.5) < 1e-9);
+    assert.equal(decoded.publishedAt, 1_700_000_000_000);
+  });
+
+  test('reads negative prices and positive exponents', () => {
+    const decoded = decodePythPriceUpdate(pythAccount({ price: BigInt(-15), exponent: 2 }));
+    assert.ok(decoded);
+    assert.equal(decoded.price, -1500);
+  });
+
+  test('rejects partially verified updates', () => {
+    assert.equal(decodePythPriceUpdate(pythAccount({ verification: 0 })), null);
+    assert.equal(decodePythPriceUpdate(pythAccount({ verification: 2 })), null);
+  });
+
+  test('rejects truncated accounts', () => {
+    const account = pythAccount();
+    assert.equal(decodePythPriceUpdate(account.subarray(0, 40)), null);
+    assert.equal(decodePythPriceUpdate(account.subarray(0, 8 + 32 + 1 + 32 + 35)), null);
+    assert.ok(decodePythPriceUpdate(account.subarray(0, 8 + 32 + 1 + 32 + 36)));
+  });
+});
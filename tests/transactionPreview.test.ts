@@ -0,0 +1,150 @@
+// tests/transactionPreview.test.ts
+// Which simulation failures in a batch wait on earlier transactions and which block the action.
+
+import { after, before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  Connection,
+  Keypair,
+  PublicKey,
+  Transaction,
+  TransactionInstruction,
+  type AccountInfo,
+} from '@solana/web3.js';
+import { ACCOUNT_SIZE, AccountLayout, TOKEN_PROGRAM_ID } from '@solana/spl-token';
+import { FixturePoolDataProvider, setPoolDataProvider } from '@/lib/api/poolDataProvider';
+import { TransactionPreviewService } from '@/lib/services/transactionPreviewService';
+
+const WBTC = new PublicKey('3NZ9JMVBmGAqocybic2c7LQCJScmgsAZ6vQqTDzcqmJh');
+const PROGRAM = new PublicKey('LBUZKhRxPF3XUpBCjp4YzTKgLccjZhTSDM9YuVaPwxo');
+
+const user = Keypair.generate().publicKey;
+const userX = Keypair.generate().publicKey;
+const userY = Keypair.generate().publicKey;
+const reserve = Keypair.generate().publicKey;
+const unrelated = Keypair.generate().publicKey;
+
+interface Outcome {
+  err: string | null;
+  // Post-simulation state of accounts that change
+  post?: Map<string, AccountInfo<Buffer>>;
+}
+
+function tokenAccount(owner: PublicKey, amount: number): AccountInfo<Buffer> {
+  const data = Buffer.alloc(ACCOUNT_SIZE);
+  AccountLayout.encode({
+    mint: WBTC,
+    owner,
+    amount: BigInt(amount),
+    delegateOption: 0,
+    delegate: PublicKey.default,
+    state: 1,
+    isNativeOption: 0,
+    isNative: BigInt(0),
+    delegatedAmount: BigInt(0),
+    closeAuthorityOption: 0,
+    closeAuthority: PublicKey.default,
+  }, data);
+  return { data, owner: TOKEN_PROGRAM_ID, lamports: 2039280, executable: false, rentEpoch: 0 };
+}
+
+// Just enough of Connection to simulate against a fixed starting state
+class SimulatedChain {
+  readonly outcomes = new Map<TransactionInstruction[], Outcome>();
+
+  constructor(private state: Map<string, AccountInfo<Buffer>>) {}
+
+  async getMultipleAccountsInfo(keys: PublicKey[]) {
+    return keys.map(key => this.state.get(key.toBase58()) ?? null);
+  }
+
+  async simulateTransaction(transaction: Transaction, _signers: undefined, accounts: PublicKey[]) {
+    const outcome = this.outcomes.get(transaction.instructions);
+    assert.ok(outcome, 'unexpected transaction');
+    return {
+      context: { slot: 1 },
+      value: {
+        err: outcome.err,
+        logs: outcome.err ? ['Program log: Error: insufficient funds'] : [],
+        unitsConsumed: 20000,
+        accounts: accounts.map(account => {
+          const info = (outcome.err ? null : outcome.post?.get(account.toBase58())) ?? this.state.get(account.toBase58());
+          return info
+            ? { ...info, owner: info.owner.toBase58(), data: [info.data.toString('base64'), 'base64'] }
+            : null;
+        }),
+      },
+    };
+  }
+
+  async getMultipleParsedAccounts(keys: PublicKey[]) {
+    return { value: keys.map(() => ({ data: { parsed: { info: { decimals: 8 } } } })) };
+  }
+}
+
+function transaction(chain: SimulatedChain, writable: PublicKey[], outcome: Outcome): Transaction {
+  const result = new Transaction().add(new TransactionInstruction({
+    programId: PROGRAM,
+    keys: [
+      { pubkey: user, isSigner: true, isWritable: true },
+      ...writable.map(pubkey => ({ pubkey, isSigner: false, isWritable: true })),
+    ],
+    data: Buffer.alloc(0),
+  }));
+  chain.outcomes.set(result.instructions, outcome);
+  return result;
+}
+
+function setup() {
+  const chain = new SimulatedChain(new Map([
+    [user.toBase58(), { data: Buffer.alloc(0), owner: PublicKey.default, lamports: 1e9, executable: false, rentEpoch: 0 }],
+    [userX.toBase58(), tokenAccount(user, 0)],
+  ]));
+  const service = new TransactionPreviewService(chain as unknown as Connection);
+  // The remove credits the user's X account
+  const remove = transaction(chain, [reserve, userX], {
+    err: null,
+    post: new Map([[userX.toBase58(), tokenAccount(user, 500000)]]),
+  });
+  return { chain, service, remove };
+}
+
+describe('TransactionPreviewService.previewTransactions', () => {
+  before(() => setPoolDataProvider(new FixturePoolDataProvider()));
+  after(() => setPoolDataProvider(null));
+
+  test('a failure that spends what an earlier transaction funds waits for it', async () => {
+    const { chain, service, remove } = setup();
+    const swap = transaction(chain, [reserve, userX, userY], { err: 'InstructionError' });
+    // Only uses the swap's output account, so it depends on the swap in turn
+    const add = transaction(chain, [Keypair.generate().publicKey, userY], { err: 'InstructionError' });
+
+    const preview = await service.previewTransactions([remove, swap, add], user);
+
+    assert.deepEqual(preview.simulations.map(simulation => simulation.status), ['success', 'dependent', 'dependent']);
+    assert.deepEqual(preview.simulations[0].fundedAccounts, [userX.toBase58()]);
+    assert.equal(preview.canProceed, true);
+    assert.equal(preview.tokenChanges[0].rawDelta, '500000');
+  });
+
+  test('a failure that touches nothing an earlier transaction funds blocks the action', async () => {
+    const { chain, service, remove } = setup();
+    const badSwap = transaction(chain, [unrelated], { err: 'InstructionError' });
+
+    const preview = await service.previewTransactions([remove, badSwap], user);
+
+    assert.deepEqual(preview.simulations.map(simulation => simulation.status), ['success', 'failed']);
+    assert.equal(preview.canProceed, false);
+    assert.equal(preview.error, 'Transaction 2: Not enough tokens in your wallet for this amount.');
+  });
+
+  test('independent batches never treat a failure as dependent', async () => {
+    const { chain, service, remove } = setup();
+    const swap = transaction(chain, [reserve, userX], { err: 'InstructionError' });
+
+    const preview = await service.previewTransactions([remove, swap], user, { sequential: false });
+
+    assert.deepEqual(preview.simulations.map(simulation => simulation.status), ['success', 'failed']);
+    assert.equal(preview.canProceed, false);
+  });
+});